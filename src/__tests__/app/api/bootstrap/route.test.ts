@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GET } from '@/app/api/bootstrap/route';
+import { GET as download } from '@/app/api/download/[file]/route';
+import { createProfile, encodeProfileParam } from '@/lib/manifests';
+import { generateChainInstallScript } from '@/lib/generateInstallScript';
+
+// Mock NextResponse
+vi.mock('next/server', () => ({
+  NextResponse: {
+    json: vi.fn((body, init) => ({ body, status: init?.status || 200 })),
+  },
+}));
+
+const profileParam = encodeProfileParam(createProfile(['firefox', 'git']));
+
+/**
+ * Request the bootstrap stub
+ */
+async function bootstrap(query: string, userAgent = 'curl/8.5.0') {
+  const request = new Request(`http://localhost/api/bootstrap?${query}`, { headers: { 'User-Agent': userAgent } });
+  return GET(request) as Promise<Response & { body: unknown }>;
+}
+
+describe('Bootstrap API', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves the POSIX shell stub for curl', async () => {
+    const response = await bootstrap(`profile=${profileParam}`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    const stub = await response.text();
+    expect(stub.startsWith('#!/bin/sh')).toBe(true);
+    expect(stub).toContain(`url='http://localhost/api/download'`);
+  });
+
+  it('serves the PowerShell stub for PowerShell or shell=powershell', async () => {
+    const fromUserAgent = await bootstrap(`profile=${profileParam}`, 'Mozilla/5.0 (Windows NT 10.0) WindowsPowerShell/5.1.22621');
+    expect(await fromUserAgent.text()).toContain('Get-FileHash');
+    const fromParam = await bootstrap(`profile=${profileParam}&shell=powershell`);
+    expect(await fromParam.text()).toContain('Get-FileHash');
+  });
+
+  it('rejects a missing or invalid profile, a profile without known apps and an invalid shell', async () => {
+    expect((await bootstrap('')).body).toEqual({ error: 'profile is required' });
+    expect((await bootstrap('profile=not*base64')).status).toBe(400);
+    const unknown = await bootstrap(`profile=${encodeProfileParam(createProfile(['nope']))}`);
+    expect(unknown.body).toEqual({ error: 'Profile has no known apps', unknownApps: ['nope'] });
+    expect((await bootstrap(`profile=${profileParam}&shell=fish`)).status).toBe(400);
+  });
+
+  it('has the download route serve the profile for the chain the stub detects', async () => {
+    const file = 'packmate-apt-flatpak.sh';
+    const request = new Request(`http://localhost/api/download/${file}?profile=${profileParam}`);
+    const response = await download(request, { params: Promise.resolve({ file }) }) as Response;
+    expect(await response.text()).toBe(generateChainInstallScript(new Set(['firefox', 'git']), ['apt', 'flatpak']));
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash, createPublicKey, generateKeyPairSync, verify } from 'crypto';
+import { GET } from '@/app/api/download/[file]/route';
+import { generateChainInstallScript } from '@/lib/generateInstallScript';
+
+// Mock NextResponse
+vi.mock('next/server', () => ({
+  NextResponse: {
+    json: vi.fn((body, init) => ({ body, status: init?.status || 200 })),
+  },
+}));
+
+/**
+ * Request a file from the download route
+ */
+async function download(file: string, query = 'apps=firefox,git') {
+  const request = new Request(`http://localhost/api/download/${file}?${query}`);
+  return GET(request, { params: Promise.resolve({ file }) }) as Promise<Response & { body: unknown }>;
+}
+
+describe('Script Download API', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.SCRIPT_SIGNING_KEY;
+    vi.restoreAllMocks();
+  });
+
+  it('serves the script of the selection as an attachment', async () => {
+    const response = await download('packmate-apt-flatpak.sh');
+    expect(response.headers.get('Content-Type')).toContain('text/x-shellscript');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="packmate-apt-flatpak.sh"');
+    expect(await response.text()).toBe(generateChainInstallScript(new Set(['firefox', 'git']), ['apt', 'flatpak']));
+  });
+
+  it('serves the digest in sha256sum format', async () => {
+    const script = await (await download('packmate-winget.ps1', 'apps=git&scope=user')).text();
+    const digest = await (await download('packmate-winget.ps1.sha256', 'apps=git&scope=user')).text();
+    expect(digest).toBe(`${createHash('sha256').update(script).digest('hex')}  packmate-winget.ps1\n`);
+  });
+
+  it('signs the script with the server key, verifiable with its public key', async () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    process.env.SCRIPT_SIGNING_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    const script = await (await download('packmate-apt.sh')).text();
+    const signature = Buffer.from(await (await download('packmate-apt.sh.sig')).arrayBuffer());
+    const publicKey = createPublicKey(await (await download('packmate.pub')).text());
+    expect(verify(null, Buffer.from(script), publicKey, signature)).toBe(true);
+  });
+
+  it('has no signature or public key without a signing key', async () => {
+    expect((await download('packmate-apt.sh.sig')).status).toBe(404);
+    expect((await download('packmate.pub')).status).toBe(404);
+  });
+
+  it('rejects unknown files and selections without available apps', async () => {
+    expect((await download('packmate-apt.exe')).status).toBe(404);
+    const response = await download('packmate-apt.sh', 'apps=not-an-app');
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'No apps selected that are available for these package managers' });
+  });
+
+  it('reports an invalid signing key as a server error', async () => {
+    process.env.SCRIPT_SIGNING_KEY = 'not a key';
+    expect((await download('packmate-apt.sh.sig')).status).toBe(500);
+  });
+});
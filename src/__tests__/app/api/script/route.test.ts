@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GET } from '@/app/api/script/[packageManagerId]/route';
+import { apps, isAppAvailableForPackageManager } from '@/lib/data';
+import { generateChainCommand, generateChainInstallScript } from '@/lib/generateInstallScript';
+
+// Mock NextResponse
+vi.mock('next/server', () => ({
+  NextResponse: {
+    json: vi.fn((body, init) => ({ body, status: init?.status || 200 })),
+  },
+}));
+
+/**
+ * Call the script route for a package manager with a query string
+ */
+async function generate(packageManagerId: string, query: string) {
+  const request = new Request(`http://localhost/api/script/${packageManagerId}?${query}`);
+  return GET(request, { params: Promise.resolve({ packageManagerId }) }) as Promise<Response & { body: unknown }>;
+}
+
+const notOnApt = apps.find(app => !isAppAvailableForPackageManager(app, 'apt'))!;
+
+describe('Script Generation API', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('format=script', () => {
+    it('returns the install script as an attachment named after the chain', async () => {
+      const response = await generate('apt', 'apps=git,vscode&fallback=flatpak');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/x-shellscript; charset=utf-8');
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="packmate-apt-flatpak.sh"');
+      expect(await response.text()).toBe(generateChainInstallScript(new Set(['git', 'vscode']), ['apt', 'flatpak']));
+    });
+
+    it('accepts Nix as a fallback on macOS', async () => {
+      const response = await generate('homebrew', 'apps=git,vscode&fallback=nix');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="packmate-homebrew-nix.sh"');
+      expect(await response.text()).toBe(generateChainInstallScript(new Set(['git', 'vscode']), ['homebrew', 'nix']));
+    });
+
+    it('accepts macOS fallbacks after Nix', async () => {
+      const response = await generate('nix', 'apps=git,vscode&fallback=homebrew');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="packmate-nix-homebrew.sh"');
+      expect(await response.text()).toBe(generateChainInstallScript(new Set(['git', 'vscode']), ['nix', 'homebrew']));
+    });
+
+    it('returns PowerShell scripts for Windows package managers', async () => {
+      const response = await generate('winget', 'apps=git&scope=user');
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="packmate-winget.ps1"');
+      expect(await response.text()).toBe(generateChainInstallScript(new Set(['git']), ['winget'], {}, 'user'));
+    });
+  });
+
+  describe('format=command', () => {
+    it('returns the one-liner as plain text with pinned versions', async () => {
+      const response = await generate('apt', 'apps=git&format=command&versions=git@1:2.43.0');
+      expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+      expect(response.headers.get('Content-Disposition')).toBeNull();
+      expect(await response.text()).toBe(generateChainCommand(new Set(['git']), ['apt'], { git: '1:2.43.0' }));
+    });
+  });
+
+  describe('errors', () => {
+    it('lists unknown and unavailable apps', async () => {
+      const response = await generate('apt', `apps=git,not-an-app,${notOnApt.id}`);
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Some apps are unknown or unavailable for this package manager',
+        unknownApps: ['not-an-app'],
+        unavailableApps: [notOnApt.id],
+      });
+    });
+
+    it('returns 404 for an unknown package manager', async () => {
+      const response = await generate('yum', 'apps=git');
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Unknown package manager', packageManagerId: 'yum' });
+    });
+
+    it('rejects a missing selection and invalid parameters', async () => {
+      expect((await generate('apt', 'apps=')).status).toBe(400);
+      expect((await generate('apt', 'apps=git&format=yaml')).body).toMatchObject({ formats: ['script', 'command'] });
+      expect((await generate('apt', 'apps=git&scope=global')).status).toBe(400);
+      expect((await generate('apt', 'apps=git&fallback=winget')).body).toMatchObject({ invalidFallback: ['winget'] });
+      expect((await generate('apt', 'apps=git&versions=git@$(id)')).body).toMatchObject({ invalidVersions: ['git@$(id)'] });
+    });
+  });
+});
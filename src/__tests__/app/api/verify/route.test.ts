@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { POST } from '@/app/api/verify/[appId]/route';
+
+// Mock NextResponse
+vi.mock('next/server', () => ({
+  NextResponse: {
+    json: vi.fn((body, init) => ({ body, status: init?.status || 200 })),
+  },
+}));
+
+// Verify without storage
+vi.mock('@/lib/db/mongodb', () => ({
+  getMongoClient: vi.fn(() => Promise.reject(new Error('MongoDB is not configured'))),
+}));
+
+/**
+ * Request verification of an app for a package manager
+ */
+async function verify(appId: string, packageManagerId: string) {
+  const request = new Request(`http://localhost/api/verify/${appId}`, {
+    method: 'POST',
+    body: JSON.stringify({ packageManagerId }),
+  });
+  return POST(request, { params: Promise.resolve({ appId }) }) as unknown as Promise<{ body: Record<string, unknown>; status: number }>;
+}
+
+describe('Verify API', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('verifies pacman packages that are only available from the AUR', async () => {
+    const response = await verify('chrome', 'pacman');
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ appId: 'chrome', packageManagerId: 'pacman' });
+  });
+
+  it('rejects managers the app has no target for', async () => {
+    const response = await verify('chrome', 'snap');
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({ error: 'Package not available for this manager' });
+  });
+
+  it('rejects unknown apps', async () => {
+    const response = await verify('no-such-app', 'apt');
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import React from 'react';
+import { Download } from 'lucide-react';
+import { FooterButton } from '@/components/command/FooterButton';
+
+const defaultProps = {
+  onClick: vi.fn(),
+  disabled: false,
+  title: 'Download Script (d)',
+  icon: Download,
+  label: 'Download',
+  color: '#FBB040',
+};
+
+describe('FooterButton', () => {
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('calls onClick when enabled', () => {
+    render(<FooterButton {...defaultProps} />);
+    fireEvent.click(screen.getByTitle('Download Script (d)'));
+    expect(defaultProps.onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not call onClick when disabled', () => {
+    render(<FooterButton {...defaultProps} disabled />);
+    const button = screen.getByTitle('Download Script (d)');
+    fireEvent.click(button);
+    expect(defaultProps.onClick).not.toHaveBeenCalled();
+    expect(button.className).toContain('cursor-not-allowed');
+  });
+
+  it('tints the background with the package manager color on hover', () => {
+    render(<FooterButton {...defaultProps} />);
+    const button = screen.getByTitle('Download Script (d)');
+    fireEvent.mouseEnter(button);
+    expect(button.style.backgroundColor).not.toBe('');
+    fireEvent.mouseLeave(button);
+    expect(button.style.backgroundColor).toBe('');
+  });
+
+  it('shows the done state without a hover tint', () => {
+    render(<FooterButton {...defaultProps} label="Copied!" done />);
+    const button = screen.getByTitle('Download Script (d)');
+    fireEvent.mouseEnter(button);
+    expect(button.style.backgroundColor).toBe('');
+    expect(button.className).toContain('text-emerald-400');
+    expect(button.textContent).toBe('Copied!');
+  });
+
+  it('puts the divider on the requested side', () => {
+    render(<FooterButton {...defaultProps} border="right" />);
+    const button = screen.getByTitle('Download Script (d)');
+    expect(button.className).toContain('border-r');
+    expect(button.className).not.toContain('border-l');
+  });
+});
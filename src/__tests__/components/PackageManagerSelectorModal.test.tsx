@@ -6,6 +6,7 @@ import {
   operatingSystems, 
   packageManagers, 
   getPackageManagersByOS,
+  isPackageManagerForOS,
   type OSId, 
   type PackageManagerId 
 } from '@/lib/data';
@@ -150,7 +151,7 @@ describe('PackageManagerSelectorModal - Property-Based Tests', () => {
           const onSelect = vi.fn();
           
           // Get package managers that should NOT be shown (from other OSes)
-          const otherOSPMs = packageManagers.filter(pm => pm.osId !== selectedOS);
+          const otherOSPMs = packageManagers.filter(pm => !isPackageManagerForOS(pm, selectedOS));
 
           const { unmount } = render(
             <PackageManagerSelectorModal
@@ -981,4 +981,36 @@ describe('TerminalPreviewModal - Unit Tests', () => {
       expect(screen.getByText('close')).toBeInTheDocument();
     });
   });
+
+  describe('Post-install Steps', () => {
+    it('should list the post-install steps of the selected apps', () => {
+      render(
+        <TerminalPreviewModal
+          isOpen={true}
+          onClose={vi.fn()}
+          selectedApps={new Set(['docker', 'firefox'])}
+          packageManagerId="pacman"
+          selectedCount={2}
+        />
+      );
+
+      expect(screen.getByText('Post-install steps')).toBeInTheDocument();
+      expect(screen.getByText('sudo systemctl enable --now docker')).toBeInTheDocument();
+      expect(screen.getByText('sudo usermod -aG docker {user}')).toBeInTheDocument();
+    });
+
+    it('should not list post-install steps when no selected app has any', () => {
+      render(
+        <TerminalPreviewModal
+          isOpen={true}
+          onClose={vi.fn()}
+          selectedApps={new Set(['docker'])}
+          packageManagerId="winget"
+          selectedCount={1}
+        />
+      );
+
+      expect(screen.queryByText('Post-install steps')).not.toBeInTheDocument();
+    });
+  });
 });
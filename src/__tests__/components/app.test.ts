@@ -119,14 +119,14 @@ describe('Feature: package-manager-integration, Property 10: Category count matc
           
           // Calculate available count the same way CategorySection does:
           // Count apps where isAppAvailable returns true
-          // isAppAvailable checks if app.targets[packageManagerId] exists and is non-empty
+          // isAppAvailable checks if app.targets[packageManagerId] (or the AUR target, for Pacman) exists and is non-empty
           const availableCount = categoryApps.filter(app => 
             isAppAvailableForPackageManager(app, pmId)
           ).length;
           
           // Verify by manually counting apps with targets for this package manager
           const expectedCount = categoryApps.filter(app => {
-            const target = app.targets[pmId];
+            const target = app.targets[pmId] || (pmId === 'pacman' ? app.aurTarget : undefined);
             return target !== undefined && target !== '';
           }).length;
           
@@ -198,7 +198,8 @@ describe('App Availability Filtering', () => {
           const isAvailable = isAppAvailableForPackageManager(app, pmId);
           
           // Should be true iff targets has a non-empty string for this package manager
-          const target = app.targets[pmId];
+          // (or, for Pacman, the app has an AUR target)
+          const target = app.targets[pmId] || (pmId === 'pacman' ? app.aurTarget : undefined);
           const expectedAvailable = target !== undefined && target !== '';
           
           expect(isAvailable).toBe(expectedAvailable);
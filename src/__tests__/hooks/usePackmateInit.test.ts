@@ -329,7 +329,7 @@ describe('Unavailable Apps Cannot Be Selected', () => {
   function isAppAvailableForPM(appId: string, pmId: PackageManagerId): boolean {
     const app = apps.find(a => a.id === appId);
     if (!app) return false;
-    const target = app.targets[pmId];
+    const target = app.targets[pmId] || (pmId === 'pacman' ? app.aurTarget : undefined);
     return target !== undefined && target !== '';
   }
 
@@ -673,3 +673,206 @@ describe('Search Integration in usePackmateInit', () => {
     });
   });
 });
+
+// Feature: share-links
+// Unit tests for share link hydration in usePackmateInit
+
+describe('Share Link Hydration in usePackmateInit', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('applies a shared selection when there is no local selection', () => {
+    window.history.replaceState(null, '', '/?os=linux&pm=flatpak&apps=firefox,vlc');
+
+    const { result } = renderHook(() => usePackmateInit());
+
+    expect(result.current.selectedOS).toBe('linux');
+    expect(result.current.selectedPackageManager).toBe('flatpak');
+    expect(result.current.selectedApps).toEqual(new Set(['firefox', 'vlc']));
+    expect(result.current.pendingSharedSelection).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEYS.PACKAGE_MANAGER_LINUX)).toBe('flatpak');
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.SELECTED_APPS)!)).toEqual(['firefox', 'vlc']);
+  });
+
+  it('removes the share parameters from the URL', () => {
+    window.history.replaceState(null, '', '/?os=linux&pm=apt&apps=firefox&ref=docs');
+
+    renderHook(() => usePackmateInit());
+
+    expect(window.location.search).toBe('?ref=docs');
+  });
+
+  it('asks before replacing a different local selection', () => {
+    localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify(['git']));
+    window.history.replaceState(null, '', '/?os=linux&pm=apt&apps=firefox');
+
+    const { result } = renderHook(() => usePackmateInit());
+
+    expect(result.current.selectedApps).toEqual(new Set(['git']));
+    expect(result.current.pendingSharedSelection?.apps).toEqual(['firefox']);
+
+    act(() => {
+      result.current.acceptSharedSelection();
+    });
+
+    expect(result.current.selectedApps).toEqual(new Set(['firefox']));
+    expect(result.current.pendingSharedSelection).toBeNull();
+  });
+
+  it('keeps the local selection when the shared one is dismissed', () => {
+    localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify(['git']));
+    window.history.replaceState(null, '', '/?os=linux&pm=apt&apps=firefox');
+
+    const { result } = renderHook(() => usePackmateInit());
+
+    act(() => {
+      result.current.dismissSharedSelection();
+    });
+
+    expect(result.current.selectedApps).toEqual(new Set(['git']));
+    expect(result.current.pendingSharedSelection).toBeNull();
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.SELECTED_APPS)!)).toEqual(['git']);
+  });
+});
+
+describe('replaceSelectedApps', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('replaces the selection and skips apps unavailable for the package manager', () => {
+    localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify(['git']));
+    const { result } = renderHook(() => usePackmateInit());
+    const pm = result.current.selectedPackageManager;
+    const unavailable = apps.find(app => !app.targets[pm])!;
+
+    act(() => {
+      result.current.replaceSelectedApps(['firefox', unavailable.id]);
+    });
+
+    expect(result.current.selectedApps).toEqual(new Set(['firefox']));
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.SELECTED_APPS)!)).toEqual(['firefox']);
+  });
+});
+
+describe('Pinned versions in usePackmateInit', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify(['git', 'firefox']));
+  });
+
+  it('pins and unpins selected apps and persists their versions', () => {
+    const { result } = renderHook(() => usePackmateInit());
+
+    act(() => {
+      result.current.setAppVersion('git', ' 2.43.0 ');
+    });
+    act(() => {
+      result.current.setAppVersion('firefox', '128.0');
+    });
+    expect(result.current.appVersions).toEqual({ git: '2.43.0', firefox: '128.0' });
+
+    act(() => {
+      result.current.toggleApp('git');
+    });
+    expect(result.current.appVersions).toEqual({ firefox: '128.0' });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.APP_VERSIONS)!)).toEqual({ firefox: '128.0' });
+  });
+
+  it('drops the pins of apps a replaced selection leaves out', () => {
+    const { result } = renderHook(() => usePackmateInit());
+    act(() => {
+      result.current.setAppVersion('git', '2.43.0');
+    });
+    act(() => {
+      result.current.setAppVersion('firefox', '128.0');
+    });
+
+    act(() => {
+      result.current.replaceSelectedApps(['firefox']);
+    });
+    expect(result.current.appVersions).toEqual({ firefox: '128.0' });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.APP_VERSIONS)!)).toEqual({ firefox: '128.0' });
+
+    // Selecting the app again doesn't bring its old pin back
+    act(() => {
+      result.current.toggleApp('git');
+    });
+    expect(result.current.appVersions).toEqual({ firefox: '128.0' });
+  });
+});
+
+describe('Fallback Package Managers in usePackmateInit', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    localStorage.setItem(STORAGE_KEYS.SELECTED_OS, 'linux');
+    localStorage.setItem(STORAGE_KEYS.PACKAGE_MANAGER_LINUX, 'apt');
+  });
+
+  it('puts the selected package manager first in the chain and persists fallbacks per OS', () => {
+    const { result } = renderHook(() => usePackmateInit());
+    expect(result.current.packageManagerChain).toEqual(['apt']);
+
+    act(() => {
+      result.current.setFallbackPackageManagers(['flatpak', 'winget' as PackageManagerId, 'flatpak', 'snap']);
+    });
+
+    expect(result.current.fallbackPackageManagers).toEqual(['flatpak', 'snap']);
+    expect(result.current.packageManagerChain).toEqual(['apt', 'flatpak', 'snap']);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.FALLBACK_LINUX)!)).toEqual(['flatpak', 'snap']);
+
+    act(() => {
+      result.current.setSelectedOS('windows');
+    });
+    expect(result.current.fallbackPackageManagers).toEqual([]);
+
+    act(() => {
+      result.current.setSelectedOS('linux');
+    });
+    expect(result.current.fallbackPackageManagers).toEqual(['flatpak', 'snap']);
+  });
+
+  it('treats apps as available when any package manager in the chain has them', () => {
+    const flatpakOnly = apps.find(app => !app.targets.apt && app.targets.flatpak)!;
+    const { result } = renderHook(() => usePackmateInit());
+    expect(result.current.isAppAvailable(flatpakOnly.id)).toBe(false);
+
+    act(() => {
+      result.current.setFallbackPackageManagers(['flatpak']);
+    });
+
+    expect(result.current.isAppAvailable(flatpakOnly.id)).toBe(true);
+    act(() => {
+      result.current.toggleApp(flatpakOnly.id);
+    });
+    expect(result.current.selectedApps.has(flatpakOnly.id)).toBe(true);
+  });
+});
+
+describe('replaceSelectedApps with a package manager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    localStorage.setItem(STORAGE_KEYS.SELECTED_OS, 'linux');
+    localStorage.setItem(STORAGE_KEYS.PACKAGE_MANAGER_LINUX, 'apt');
+  });
+
+  it('switches to the package manager and its OS before selecting', () => {
+    const wingetOnly = apps.find(app => app.targets.winget && !app.targets.apt)!;
+    const { result } = renderHook(() => usePackmateInit());
+
+    act(() => {
+      result.current.replaceSelectedApps([wingetOnly.id, 'firefox'], 'winget');
+    });
+
+    expect(result.current.selectedOS).toBe('windows');
+    expect(result.current.selectedPackageManager).toBe('winget');
+    expect(result.current.selectedApps).toEqual(new Set([wingetOnly.id, 'firefox']));
+    expect(localStorage.getItem(STORAGE_KEYS.PACKAGE_MANAGER_WINDOWS)).toBe('winget');
+  });
+});
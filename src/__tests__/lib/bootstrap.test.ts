@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildBootstrapCommand,
+  generateBootstrapScript,
+  generatePowerShellBootstrapScript,
+} from '@/lib/bootstrap';
+import { createProfile, decodeProfileParam, encodeProfileParam } from '@/lib/manifests';
+import { apps, getPackageManagersByOS, packageManagers, type PackageManagerId } from '@/lib/data';
+import { parseScriptRequest } from '@/lib/scriptDownload';
+
+const origin = 'https://packmate.example';
+const profileParam = encodeProfileParam(createProfile(['firefox', 'git']));
+
+/**
+ * Feature: bootstrap
+ * Property 1: The stubs detect every package manager of their OS
+ */
+describe('Feature: bootstrap, Property 1: Every package manager is detected', () => {
+  it('checks for each package manager in the stub of its OS', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...packageManagers), (pm) => {
+        const stub = pm.osId === 'windows'
+          ? generatePowerShellBootstrapScript(origin, profileParam)
+          : generateBootstrapScript(origin, profileParam);
+        return pm.osId === 'windows'
+          ? stub.includes(`@{ Id = '${pm.id}';`)
+          : new RegExp(`found ${pm.id} \\S+ \\|\\|`).test(stub);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('Bootstrap', () => {
+  describe('generateBootstrapScript', () => {
+    it('uses the first system package manager present, then each add-on present', () => {
+      const stub = generateBootstrapScript(origin, profileParam);
+      expect(stub).toContain('found apt apt-get || found dnf dnf || found pacman pacman || found zypper zypper || true');
+      expect(stub).toContain('found flatpak flatpak || true');
+      expect(stub).toContain('found homebrew brew || found macports port || true');
+    });
+
+    it('detects Nix on macOS too', () => {
+      const stub = generateBootstrapScript(origin, profileParam);
+      const macos = stub.slice(stub.indexOf('macos)\n'));
+      expect(macos).toContain('found nix nix || true');
+    });
+
+    it('only builds chains the download route serves', () => {
+      const chains = (['linux', 'macos'] as const).flatMap((osId) => {
+        const managers = getPackageManagersByOS(osId).map(pm => pm.id);
+        const addOns = managers.filter(id => ['flatpak', 'snap', 'nix'].includes(id));
+        const firsts: PackageManagerId[][] = [[], ...managers.filter(id => !addOns.includes(id)).map(id => [id])];
+        // Each add-on present, in order, after the first system package manager present
+        const addOnSets = addOns.reduce<PackageManagerId[][]>((sets, id) => [...sets, ...sets.map(set => [...set, id])], [[]]);
+        return firsts.flatMap(first => addOnSets.map(set => [...first, ...set])).filter(chain => chain.length > 0);
+      });
+      expect(chains).toContainEqual(['homebrew', 'nix']);
+      chains.forEach((chain) => {
+        expect(parseScriptRequest(`packmate-${chain.join('-')}.sh`, `profile=${profileParam}`)).not.toBeNull();
+      });
+    });
+
+    it('downloads the script of the chain for the profile and checks its digest before running it', () => {
+      const stub = generateBootstrapScript(origin, profileParam);
+      expect(stub).toContain(`url='${origin}/api/download'`);
+      expect(stub).toContain(`profile='${profileParam}'`);
+      expect(stub).toContain('curl -fsSL "$url/$file.sha256?profile=$profile" -o "$dir/$file.sha256"');
+      expect(stub.indexOf('$check "$file.sha256"')).toBeLessThan(stub.indexOf('bash "$dir/$file" "$@"'));
+    });
+
+    it('runs everything from main, after sh has read the whole stub', () => {
+      expect(generateBootstrapScript(origin, profileParam).trimEnd().endsWith('main "$@"')).toBe(true);
+    });
+
+    it('runs MacPorts scripts as root', () => {
+      expect(generateBootstrapScript(origin, profileParam)).toContain('macports*) sudo bash "$dir/$file" "$@" ;;');
+    });
+  });
+
+  describe('generatePowerShellBootstrapScript', () => {
+    it('compares Get-FileHash with the digest before running the script', () => {
+      const stub = generatePowerShellBootstrapScript(origin, profileParam);
+      expect(stub).toContain("@{ Id = 'chocolatey'; Command = 'choco' }");
+      expect(stub).toContain('if ((Get-FileHash -Algorithm SHA256 $path).Hash -ne $digest) {');
+      expect(stub).toContain('powershell -NoProfile -ExecutionPolicy Bypass -File $path @args');
+    });
+
+    it('runs scripts that need admin rights as administrator from a normal shell', () => {
+      const stub = generatePowerShellBootstrapScript(origin, profileParam);
+      expect(stub).toContain('$isAdmin = $identity.IsInRole([Security.Principal.WindowsBuiltInRole]::Administrator)');
+      expect(stub).toContain("if (-not $isAdmin -and (Select-String -Path $path -Pattern '^#Requires -RunAsAdministrator' -Quiet)) {");
+      expect(stub).toContain('Start-Process powershell -Verb RunAs -Wait -ArgumentList $runArgs');
+      // The digest is checked before either way of running the script
+      expect(stub.indexOf('-ne $digest')).toBeLessThan(stub.indexOf('Start-Process'));
+    });
+  });
+
+  describe('buildBootstrapCommand', () => {
+    it('pipes the stub into sh, or into iex on Windows', () => {
+      const profile = createProfile(apps.slice(0, 3).map(app => app.id));
+      const url = `${origin}/api/bootstrap?profile=${encodeProfileParam(profile)}`;
+      expect(buildBootstrapCommand(origin, profile, 'linux')).toBe(`curl -fsSL '${url}' | sh`);
+      expect(buildBootstrapCommand(origin, profile, 'windows')).toBe(`irm '${url}&shell=powershell' | iex`);
+    });
+
+    it('carries a profile the route can decode', () => {
+      const profile = createProfile(['firefox', 'git'], 'New hires');
+      const command = buildBootstrapCommand(origin, profile, 'macos');
+      const param = new URL(command.split("'")[1]).searchParams.get('profile')!;
+      const decoded = decodeProfileParam(param);
+      expect(decoded.ok && decoded.manifest).toEqual(profile);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { generateInstallScript, generateUninstallScript } from '@/lib/generateInstallScript';
+import {
+  allAppIds,
+  allPackageManagerIds,
+  assertScriptProperty,
+  getOSId,
+  runBashScript,
+  scriptGenerators,
+} from './scriptTestUtils';
+
+/**
+ * Feature: dry-run
+ * Property: Every generated script can report its plan without changing the system
+ */
+describe('Feature: dry-run, Property: Scripts accept a dry-run switch', () => {
+  it('parses --dry-run in bash scripts and -WhatIf in PowerShell scripts', () => {
+    assertScriptProperty((script, packageManagerId) => {
+      if (getOSId(packageManagerId) === 'windows') {
+        return script.includes('[switch]$WhatIf') &&
+          script.includes('.PARAMETER WhatIf') &&
+          script.includes('Add-Planned -Name $Name');
+      }
+      return script.includes('DRY_RUN=false') &&
+        script.includes('--dry-run) DRY_RUN=true ;;') &&
+        script.includes('#    --dry-run') &&
+        script.includes('plan_pkg "$name"');
+    });
+  });
+
+  it('checks the installed state before planning each package', () => {
+    for (const packageManagerId of allPackageManagerIds) {
+      for (const [action, generate] of scriptGenerators) {
+        const script = generate(new Set(allAppIds), packageManagerId);
+        const installedCheck = getOSId(packageManagerId) === 'windows'
+          ? script.search(/Test-\w+Installed -Package/)
+          : script.search(/is_installed "(\$type" ")?\$(pkg|appid)"; then/);
+        const planCall = getOSId(packageManagerId) === 'windows'
+          ? script.indexOf('Add-Planned -Name $Name')
+          : script.indexOf('plan_pkg "$name"');
+
+        expect(installedCheck, `${packageManagerId} ${action}`).toBeGreaterThan(-1);
+        expect(planCall, `${packageManagerId} ${action}`).toBeGreaterThan(installedCheck);
+      }
+    }
+  });
+
+  it('skips system-changing pre-flight and cleanup steps', () => {
+    const apt = generateInstallScript(new Set(['firefox']), 'apt');
+    expect(apt).toMatch(/if \[ "\$DRY_RUN" = true \]; then\n\s+info "Skipping package list update \(dry run\)"\nelse\n\s+info "Updating package lists..."/);
+
+    const aptUninstall = generateUninstallScript(new Set(['firefox']), 'apt');
+    expect(aptUninstall).toContain('Skipping dependency cleanup (dry run)');
+
+    const flatpak = generateInstallScript(new Set(allAppIds), 'flatpak');
+    expect(flatpak).toContain('info "Would add $title (dry run)"');
+    expect(flatpak).toContain('add_remote flathub system "Flathub"');
+
+    const snap = generateInstallScript(new Set(['firefox']), 'snap');
+    expect(snap).toContain('Would start snapd (dry run)');
+  });
+
+  it('reports the plan in the summary', () => {
+    const bash = generateInstallScript(new Set(['firefox']), 'apt');
+    expect(bash).toContain('Dry run: ${#PLANNED[@]} to install');
+
+    const bashUninstall = generateUninstallScript(new Set(['firefox']), 'apt');
+    expect(bashUninstall).toContain('to remove');
+
+    const powershell = generateInstallScript(new Set(['firefox']), 'winget');
+    expect(powershell).toContain('Dry run: $($script:Planned.Count) to install');
+    expect(powershell).toContain('Write-Planned -Message $Name -Verb "upgrade"');
+  });
+
+  it('runs without installing or removing anything', () => {
+    // Flatpak stub: VLC is installed, and every change fails
+    const stubs = {
+      flatpak: 'case "$1" in list) echo "VLC\torg.videolan.VLC" ;; install|uninstall) exit 1 ;; esac',
+    };
+
+    const install = runBashScript(generateInstallScript(new Set(['firefox', 'vlc']), 'flatpak'), stubs, ['--dry-run']);
+    expect(install.status).toBe(0);
+    expect(install.stdout).toContain('Dry run: 1 to install');
+
+    const uninstall = runBashScript(generateUninstallScript(new Set(['firefox', 'vlc']), 'flatpak'), stubs, ['--dry-run']);
+    expect(uninstall.status).toBe(0);
+    expect(uninstall.stdout).toContain('Dry run: 1 to remove');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  generateChainInstallScript,
+  generateChainCommand,
+  generateChainUninstallScripts,
+  generateInstallScript,
+  generateSimpleCommand,
+  generateUninstallScript,
+} from '@/lib/generateInstallScript';
+import { resolveFallbackChain } from '@/lib/scripts/fallback';
+import {
+  apps,
+  getPackageManagersByOS,
+  isAppAvailableForPackageManager,
+  type OSId,
+  type PackageManagerId,
+} from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+const osIds: OSId[] = ['windows', 'macos', 'linux'];
+
+// Arbitrary ordered chain of distinct package managers for one OS
+const chainArbitrary = fc.constantFrom(...osIds).chain((osId) =>
+  fc.shuffledSubarray(getPackageManagersByOS(osId).map((pm) => pm.id), { minLength: 1 })
+);
+
+/**
+ * Feature: fallback-chain
+ * Property 1: Each app is installed by the first manager in the chain that has a target for it
+ */
+describe('Feature: fallback-chain, Property 1: First matching manager wins', () => {
+  it('assigns every selected app to exactly one manager, or reports it as missing', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { minLength: 1, maxLength: 30 }),
+        chainArbitrary,
+        (selectedAppIdArray: string[], chain: PackageManagerId[]) => {
+          const { segments, missing } = resolveFallbackChain(new Set(selectedAppIdArray), chain);
+          const assigned = segments.flatMap((s) => s.packages.map((p) => p.app.id));
+
+          expect(new Set(assigned).size).toBe(assigned.length);
+          expect([...assigned, ...missing.map((a) => a.id)].sort()).toEqual([...selectedAppIdArray].sort());
+
+          for (const { packageManagerId, packages } of segments) {
+            expect(packages.length).toBeGreaterThan(0);
+            const position = chain.indexOf(packageManagerId);
+            for (const { app } of packages) {
+              expect(isAppAvailableForPackageManager(app, packageManagerId)).toBe(true);
+              // No earlier manager in the chain has a target for the app
+              expect(chain.slice(0, position).some((id) => isAppAvailableForPackageManager(app, id))).toBe(false);
+            }
+          }
+          for (const app of missing) {
+            expect(chain.some((id) => isAppAvailableForPackageManager(app, id))).toBe(false);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('ignores managers for another OS than the first one in the chain', () => {
+    const { segments } = resolveFallbackChain(new Set(allAppIds), ['apt', 'winget', 'flatpak']);
+    expect(segments.map((s) => s.packageManagerId)).toEqual(['apt', 'flatpak']);
+  });
+});
+
+/**
+ * Feature: fallback-chain
+ * Property 2: The combined script runs the pre-flight checks of every manager it uses
+ */
+describe('Feature: fallback-chain, Property 2: One combined script', () => {
+  it('installs flatpak and snap apps missing from apt in the same script', () => {
+    const flatpakOnly = apps.find((app) => !app.targets.apt && app.targets.flatpak)!;
+    const snapOnly = apps.find((app) => !app.targets.apt && !app.targets.flatpak && app.targets.snap);
+    const selected = new Set(['firefox', flatpakOnly.id, ...(snapOnly ? [snapOnly.id] : [])]);
+
+    const script = generateChainInstallScript(selected, ['apt', 'flatpak', 'snap']);
+
+    expect(script.startsWith('#!/bin/bash')).toBe(true);
+    expect(script).toContain(`#  Packages: ${selected.size}`);
+    expect(script).toContain('command -v apt-get &>/dev/null');
+    expect(script).toContain('command -v flatpak &>/dev/null');
+    expect(script).toContain(`install_pkg "Firefox" "firefox"`);
+    expect(script).toContain(`"${flatpakOnly.targets.flatpak}"`);
+    if (snapOnly) {
+      expect(script).toContain('command -v snap &>/dev/null');
+    }
+    // Shared utilities and the summary appear once
+    expect(script.match(/^print_summary$/gm)).toHaveLength(1);
+    expect(script.match(/^TOTAL=/gm)).toHaveLength(1);
+    // Pre-flight checks of all managers run before any install
+    expect(script.indexOf('command -v flatpak &>/dev/null')).toBeLessThan(script.indexOf('install_pkg "Firefox"'));
+  });
+
+  it('leaves out the pre-flight checks of managers that install nothing', () => {
+    const script = generateChainInstallScript(new Set(['firefox', 'git']), ['apt', 'flatpak', 'snap']);
+    expect(script).toContain('command -v apt-get &>/dev/null');
+    expect(script).not.toContain('command -v flatpak');
+    expect(script).not.toContain('command -v snap');
+  });
+
+  it('combines PowerShell managers and requires admin only when Chocolatey is used', () => {
+    const wingetOnly = apps.find((app) => !app.targets.scoop && app.targets.winget)!;
+    const script = generateChainInstallScript(new Set(['firefox', wingetOnly.id]), ['scoop', 'winget', 'chocolatey']);
+
+    expect(script).toContain('Install-ScoopPackage -Name "Firefox"');
+    expect(script).toContain(`-PackageId "${wingetOnly.targets.winget}"`);
+    expect(script).toContain('Get-Command scoop');
+    expect(script).toContain('Get-Command winget');
+    expect(script).not.toContain('Get-Command choco');
+    expect(script).not.toContain('#Requires -RunAsAdministrator');
+
+    const withChocolatey = generateChainInstallScript(new Set(allAppIds), ['chocolatey', 'winget']);
+    expect(withChocolatey).toContain('#Requires -RunAsAdministrator');
+  });
+
+  it('matches the single manager script and command for a chain of one', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { maxLength: 20 }),
+        chainArbitrary,
+        (selectedAppIdArray: string[], chain: PackageManagerId[]) => {
+          const selected = new Set(selectedAppIdArray);
+          expect(generateChainInstallScript(selected, [chain[0]])).toBe(generateInstallScript(selected, chain[0]));
+          expect(generateChainCommand(selected, [chain[0]])).toBe(generateSimpleCommand(selected, chain[0]));
+          expect(generateChainUninstallScripts(selected, [chain[0]])).toEqual([
+            { packageManagerId: chain[0], script: generateUninstallScript(selected, chain[0]) },
+          ]);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('chains one-liner commands for each manager used', () => {
+    const flatpakOnly = apps.find((app) => !app.targets.apt && app.targets.flatpak)!;
+    expect(generateChainCommand(new Set(['firefox', flatpakOnly.id]), ['apt', 'flatpak'])).toBe(
+      `sudo apt install -y firefox && flatpak install flathub -y ${flatpakOnly.targets.flatpak}`
+    );
+    expect(generateChainCommand(new Set(['firefox', 'git']), ['scoop', 'winget'])).toBe('scoop install firefox git');
+  });
+
+  it('removes each app with the manager the chain installs it with', () => {
+    const flatpakOnly = apps.find((app) => !app.targets.apt && app.targets.flatpak)!;
+    const scripts = generateChainUninstallScripts(new Set(['firefox', flatpakOnly.id]), ['apt', 'flatpak', 'snap']);
+
+    expect(scripts).toEqual([
+      { packageManagerId: 'apt', script: generateUninstallScript(new Set(['firefox']), 'apt') },
+      { packageManagerId: 'flatpak', script: generateUninstallScript(new Set([flatpakOnly.id]), 'flatpak') },
+    ]);
+  });
+});
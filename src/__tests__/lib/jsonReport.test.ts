@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { generateInstallScript, generateUninstallScript } from '@/lib/generateInstallScript';
+import { SCRIPT_EXIT_CODES } from '@/lib/scripts/shared';
+import {
+  allAppIds,
+  allPackageManagerIds,
+  assertScriptProperty,
+  getOSId,
+  isValidBash,
+  runBashScript,
+  scriptGenerators,
+} from './scriptTestUtils';
+
+/**
+ * Feature: json-report
+ * Property: Every generated script can write a JSON report and exits with a status for CI
+ */
+describe('Feature: json-report, Property: Scripts accept a report path and set their exit code', () => {
+  it('parses --json-report in bash scripts and -JsonReport in PowerShell scripts', () => {
+    assertScriptProperty((script, packageManagerId) => {
+      if (getOSId(packageManagerId) === 'windows') {
+        return script.includes('[string]$JsonReport = $env:PACKMATE_JSON_REPORT') &&
+          script.includes('.PARAMETER JsonReport') &&
+          script.trimEnd().endsWith('Exit-WithReport');
+      }
+      return script.includes('JSON_REPORT=${PACKMATE_JSON_REPORT:-}') &&
+        script.includes('--json-report=*)') &&
+        script.includes('#    --json-report <path>') &&
+        script.includes('trap finish EXIT');
+    });
+  });
+});
+
+describe('JSON Report', () => {
+  it('documents the exit codes in the script header', () => {
+    const { SOME_FAILED, ALL_FAILED } = SCRIPT_EXIT_CODES;
+    const codes = `0 done, ${SOME_FAILED} some packages failed, ${ALL_FAILED} all packages failed`;
+
+    expect(generateInstallScript(new Set(['firefox']), 'apt')).toContain(`#  Exit codes: ${codes}`);
+    expect(generateInstallScript(new Set(['firefox']), 'winget')).toContain(`.NOTES\n    Exit codes: ${codes}`);
+  });
+
+  it('sets the exit code from the failed packages in bash scripts', () => {
+    const script = generateInstallScript(new Set(['firefox']), 'apt');
+    expect(script).toContain(`exit_code=${SCRIPT_EXIT_CODES.ALL_FAILED}`);
+    expect(script).toContain(`exit_code=${SCRIPT_EXIT_CODES.SOME_FAILED}`);
+    expect(script).toContain('write_report $exit_code');
+  });
+
+  it('keeps the error of failed packages in PowerShell scripts', () => {
+    const install = generateInstallScript(new Set(['firefox']), 'chocolatey');
+    expect(install).toContain('Add-Failure -Name $Name -ErrorRecord $_');
+    expect(install).toContain('Add-Failure -Name $Name -Message "$Name (upgrade failed)" -ErrorRecord $_');
+    expect(install).not.toContain('$script:Failed += $Name\n    }');
+
+    const uninstall = generateUninstallScript(new Set(['firefox']), 'scoop');
+    expect(uninstall).toContain('Add-Failure -Name $Name -ErrorRecord $_');
+    expect(uninstall).toContain('action = "uninstall"');
+  });
+
+  it('fails packages whose install command exits with an error in PowerShell scripts', () => {
+    const exitCheck = /\$output = (winget|choco|scoop) install .*\n\s*if \(\$LASTEXITCODE -ne 0\) \{ throw /;
+    (['winget', 'chocolatey', 'scoop'] as const).forEach((packageManagerId) => {
+      expect(generateInstallScript(new Set(['firefox']), packageManagerId)).toMatch(exitCheck);
+    });
+    // Scoop's background jobs
+    const parallel = generateInstallScript(new Set(['firefox', 'vlc', 'git']), 'scoop');
+    expect(parallel.match(new RegExp(exitCheck, 'g'))).toHaveLength(2);
+    expect(parallel).toContain('$output = & $Command 2>&1\n        if ($LASTEXITCODE -ne 0) { throw ');
+  });
+
+  it('groups report entries by the status labels of the summary', () => {
+    expect(generateUninstallScript(new Set(['firefox']), 'apt')).toContain('report_pkg "$name" removed');
+    expect(generateInstallScript(new Set(['firefox']), 'winget')).toContain('[ordered]@{ installed = $script:Succeeded');
+  });
+
+  it('generates bash scripts that parse', () => {
+    for (const packageManagerId of allPackageManagerIds.filter((id) => getOSId(id) !== 'windows')) {
+      for (const [action, generate] of scriptGenerators) {
+        expect(isValidBash(generate(new Set(allAppIds), packageManagerId)), `${packageManagerId} ${action}`).toBe(true);
+      }
+    }
+  });
+
+  it('exits with the failed packages when run', () => {
+    const { SOME_FAILED, ALL_FAILED } = SCRIPT_EXIT_CODES;
+    // Flatpak stub: VLC is installed, installing Firefox and removing VLC fail
+    const stubs = {
+      flatpak: [
+        'case "$1" in',
+        '  list) echo "VLC\torg.videolan.VLC" ;;',
+        '  install) case "$*" in *org.mozilla.firefox*) exit 1 ;; esac ;;',
+        '  uninstall) case "$*" in *org.videolan.VLC*) exit 1 ;; esac ;;',
+        'esac',
+      ].join('\n'),
+    };
+    const run = (generate: typeof generateInstallScript, appIds: string[]) =>
+      runBashScript(generate(new Set(appIds), 'flatpak'), stubs).status;
+
+    // VLC is skipped as installed, or Firefox as not installed
+    expect(run(generateInstallScript, ['firefox', 'vlc'])).toBe(SOME_FAILED);
+    expect(run(generateUninstallScript, ['firefox', 'vlc'])).toBe(SOME_FAILED);
+    expect(run(generateInstallScript, ['firefox'])).toBe(ALL_FAILED);
+    expect(run(generateUninstallScript, ['vlc'])).toBe(ALL_FAILED);
+    expect(run(generateInstallScript, ['vlc'])).toBe(0);
+  });
+});
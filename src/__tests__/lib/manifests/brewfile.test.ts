@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { generateBrewfile, parseBrewfile, resolveBrewfile } from '@/lib/manifests';
+import { apps } from '@/lib/data';
+
+const homebrewApps = apps.filter((app) => app.targets.homebrew);
+const allAppIds = apps.map((app) => app.id);
+
+/**
+ * Feature: brewfile
+ * Property 1: Exporting then importing a Brewfile restores the Homebrew selection
+ */
+describe('Feature: brewfile, Property 1: Brewfile round-trip', () => {
+  it('maps every exported entry back to its app', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { minLength: 1, maxLength: 30 }),
+        (selectedIds) => {
+          const parsed = parseBrewfile(generateBrewfile(selectedIds));
+          const expected = selectedIds.filter((id) => homebrewApps.some((app) => app.id === id));
+          if (expected.length === 0) {
+            expect(parsed.ok).toBe(false);
+            return true;
+          }
+
+          expect(parsed.ok).toBe(true);
+          if (!parsed.ok) return false;
+          const result = resolveBrewfile(parsed.manifest, 'homebrew');
+          expect(new Set(result.appIds)).toEqual(new Set(expected));
+          expect(result.unknown).toEqual([]);
+          expect(result.unavailable).toEqual([]);
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('generateBrewfile', () => {
+  it('writes formulae as brew lines and casks as cask lines', () => {
+    const brewfile = generateBrewfile(['firefox', 'git']);
+    expect(brewfile).toContain('brew "git"\n');
+    expect(brewfile).toContain('cask "firefox"\n');
+    expect(brewfile).not.toContain('--cask');
+    expect(brewfile.indexOf('brew "git"')).toBeLessThan(brewfile.indexOf('cask "firefox"'));
+  });
+
+  it('lists apps without a Homebrew target in a comment', () => {
+    const missing = apps.find((app) => !app.targets.homebrew)!;
+    const brewfile = generateBrewfile(['git', missing.id]);
+    expect(brewfile).toContain(`# Not available via Homebrew: ${missing.name}`);
+  });
+});
+
+describe('parseBrewfile', () => {
+  it('reads directives with options, single quotes and parentheses, skipping comments and Ruby', () => {
+    const parsed = parseBrewfile([
+      '# Team setup',
+      'tap "homebrew/bundle"',
+      "brew 'git'",
+      'brew "mysql@8.0", restart_service: true',
+      'cask("firefox")',
+      'if OS.mac?',
+      '  mas "Xcode", id: 497799835',
+      'end',
+      '',
+    ].join('\n'));
+
+    expect(parsed).toEqual({
+      ok: true,
+      manifest: [
+        { type: 'tap', name: 'homebrew/bundle' },
+        { type: 'brew', name: 'git' },
+        { type: 'brew', name: 'mysql@8.0' },
+        { type: 'cask', name: 'firefox' },
+        { type: 'mas', name: 'Xcode' },
+      ],
+    });
+  });
+
+  it('fails when there are no entries', () => {
+    expect(parseBrewfile('# nothing here\n').ok).toBe(false);
+    expect(parseBrewfile('{"format": "packmate-profile"}').ok).toBe(false);
+  });
+});
+
+describe('resolveBrewfile', () => {
+  it('reports entries outside the catalog and apps unavailable for the package manager', () => {
+    const result = resolveBrewfile([
+      { type: 'tap', name: 'homebrew/bundle' },
+      { type: 'cask', name: 'firefox' },
+      { type: 'brew', name: 'not-a-real-formula' },
+      { type: 'mas', name: 'Xcode' },
+      { type: 'cask', name: 'firefox' },
+    ], 'homebrew');
+
+    expect(result.appIds).toEqual(['firefox']);
+    expect(result.unknown).toEqual(['brew "not-a-real-formula"', 'mas "Xcode"']);
+
+    const onlyOnHomebrew = homebrewApps.find((app) => !app.targets.macports)!;
+    const name = onlyOnHomebrew.targets.homebrew!.replace('--cask ', '');
+    const macports = resolveBrewfile([{ type: 'brew', name }], 'macports');
+    expect(macports.unavailable.map((app) => app.id)).toEqual([onlyOnHomebrew.id]);
+  });
+
+  it('matches tap-qualified formulae on their last segment', () => {
+    const result = resolveBrewfile([{ type: 'brew', name: 'homebrew/core/git' }], 'homebrew');
+    expect(result.appIds).toEqual(['git']);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  generateChocolateyPackagesConfig,
+  parseChocolateyPackagesConfig,
+  resolveChocolateyPackages,
+} from '@/lib/manifests';
+import { apps } from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+const chocolateyAppIds = apps.filter((app) => app.targets.chocolatey).map((app) => app.id);
+
+/**
+ * Feature: chocolatey-packages-config
+ * Property 1: Exporting then importing packages.config restores the Chocolatey selection
+ */
+describe('Feature: chocolatey-packages-config, Property 1: packages.config round-trip', () => {
+  it('maps every exported package back to its app', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { maxLength: 30 }),
+        (selectedIds) => {
+          const parsed = parseChocolateyPackagesConfig(generateChocolateyPackagesConfig(selectedIds));
+          expect(parsed.ok).toBe(true);
+          if (!parsed.ok) return false;
+
+          const result = resolveChocolateyPackages(parsed.manifest, 'chocolatey');
+          expect(new Set(result.appIds)).toEqual(new Set(selectedIds.filter((id) => chocolateyAppIds.includes(id))));
+          expect(result.unknown).toEqual([]);
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('generateChocolateyPackagesConfig', () => {
+  it('writes one package element per app and lists the rest in a comment', () => {
+    const missing = apps.find((app) => !app.targets.chocolatey)!;
+    const xml = generateChocolateyPackagesConfig(['firefox', missing.id]);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="utf-8"\?>\n/);
+    expect(xml).toContain('<packages>\n  <package id="firefox" />\n</packages>\n');
+    expect(xml).toContain(`<!-- Not available via Chocolatey: ${missing.name} -->`);
+  });
+});
+
+describe('parseChocolateyPackagesConfig', () => {
+  it('reads ids from choco export output, ignoring other attributes and comments', () => {
+    const parsed = parseChocolateyPackagesConfig([
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<packages>',
+      '  <!-- <package id="commented-out" /> -->',
+      '  <package id="git" version="2.45.1" />',
+      "  <package version='1.0' id='7zip' pinPackage=\"true\"></package>",
+      '  <package id="a&amp;b"/>',
+      '</packages>',
+    ].join('\n'));
+
+    expect(parsed).toEqual({ ok: true, manifest: ['git', '7zip', 'a&b'] });
+  });
+
+  it('rejects files without packages or with package elements missing an id', () => {
+    expect(parseChocolateyPackagesConfig('{"Sources": []}').ok).toBe(false);
+    expect(parseChocolateyPackagesConfig('<packages><package version="1.0" /></packages>').ok).toBe(false);
+  });
+
+  it('rejects character references outside the Unicode range instead of throwing', () => {
+    const parsed = parseChocolateyPackagesConfig('<packages><package id="&#99999999;"/><package id="&#x110000;"/></packages>');
+    expect(parsed.ok).toBe(false);
+    expect(!parsed.ok && parsed.error).toContain('Invalid character reference');
+    expect(parseChocolateyPackagesConfig('<packages><package id="&#x10FFFF;"/></packages>').ok).toBe(true);
+  });
+});
+
+describe('resolveChocolateyPackages', () => {
+  it('matches ids case-insensitively and reports the rest', () => {
+    const result = resolveChocolateyPackages(['FireFox', 'not-a-real-package', 'firefox'], 'chocolatey');
+    expect(result.appIds).toEqual(['firefox']);
+    expect(result.unknown).toEqual(['not-a-real-package']);
+  });
+});
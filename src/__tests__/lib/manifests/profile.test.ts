@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createProfile,
+  decodeProfileParam,
+  encodeProfileParam,
+  parseProfile,
+  resolveProfile,
+  resolveProfileForChain,
+  serializeProfile,
+  PROFILE_FORMAT,
+  PROFILE_VERSION,
+  type PackmateProfile,
+} from '@/lib/manifests';
+import { apps, packageManagers, isAppAvailableForPackageManager } from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+
+/**
+ * Feature: packmate-profile
+ * Property 1: Serializing then parsing a profile restores it
+ */
+describe('Feature: packmate-profile, Property 1: Profile round-trip', () => {
+  it('parses every profile it serializes', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { maxLength: 30 }),
+        fc.option(fc.string(), { nil: undefined }),
+        (selectedIds, name) => {
+          const profile = createProfile(selectedIds, name);
+          const parsed = parseProfile(serializeProfile(profile));
+
+          expect(parsed).toEqual({ ok: true, manifest: profile });
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * Feature: packmate-profile
+ * Property 2: Resolving a profile accounts for every app ID
+ */
+describe('Feature: packmate-profile, Property 2: Nothing is dropped silently', () => {
+  it('puts every ID in exactly one of selectable, unknown or unavailable', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.oneof(fc.constantFrom(...allAppIds), fc.stringMatching(/^zz-[a-z]{1,8}$/)), { maxLength: 30 }),
+        fc.constantFrom(...packageManagers.map((pm) => pm.id)),
+        (ids, packageManagerId) => {
+          const result = resolveProfile(createProfile(ids), packageManagerId);
+          const accounted = [
+            ...result.appIds,
+            ...result.unknown,
+            ...result.unavailable.map((app) => app.id),
+          ];
+
+          expect(new Set(accounted)).toEqual(new Set(ids));
+          expect(accounted).toHaveLength(ids.length);
+          for (const id of result.appIds) {
+            expect(isAppAvailableForPackageManager(apps.find((app) => app.id === id)!, packageManagerId)).toBe(true);
+          }
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('resolveProfile', () => {
+  it('applies per-manager overrides only to that manager', () => {
+    const profile: PackmateProfile = {
+      format: PROFILE_FORMAT,
+      version: PROFILE_VERSION,
+      apps: ['firefox', 'git'],
+      overrides: { winget: { add: ['vlc'], remove: ['git'] } },
+    };
+
+    expect(resolveProfile(profile, 'winget').appIds).toEqual(['firefox', 'vlc']);
+    expect(resolveProfile(profile, 'homebrew').appIds).toEqual(['firefox', 'git']);
+  });
+
+  it('reports unknown IDs and unavailable apps', () => {
+    const unavailable = apps.find((app) => !isAppAvailableForPackageManager(app, 'apt'))!;
+    const result = resolveProfile(createProfile(['firefox', 'nope', unavailable.id]), 'apt');
+
+    expect(result.appIds).toEqual(['firefox']);
+    expect(result.unknown).toEqual(['nope']);
+    expect(result.unavailable).toEqual([unavailable]);
+  });
+});
+
+describe('parseProfile', () => {
+  const valid = { format: PROFILE_FORMAT, version: 1, apps: ['firefox'] };
+
+  it.each([
+    ['not json', 'not valid JSON'],
+    ['[]', 'must be a JSON object'],
+    [JSON.stringify({ ...valid, format: 'other' }), 'Not a Packmate profile'],
+    [JSON.stringify({ ...valid, version: '1' }), '"version" must be a positive integer'],
+    [JSON.stringify({ ...valid, version: PROFILE_VERSION + 1 }), 'newer than this version'],
+    [JSON.stringify({ ...valid, apps: 'firefox' }), '"apps" must be an array'],
+    [JSON.stringify({ ...valid, apps: [1] }), '"apps" must be an array'],
+    [JSON.stringify({ ...valid, overrides: { yum: {} } }), 'Unknown package manager "yum"'],
+    [JSON.stringify({ ...valid, overrides: { apt: { add: 'git' } } }), 'must be arrays of app IDs'],
+  ])('rejects %s', (json, message) => {
+    const parsed = parseProfile(json);
+    expect(parsed.ok).toBe(false);
+    expect(!parsed.ok && parsed.error).toContain(message);
+  });
+
+  it('keeps unknown app IDs for the import report', () => {
+    const parsed = parseProfile(JSON.stringify({ ...valid, apps: ['firefox', 'made-up'] }));
+    expect(parsed.ok && parsed.manifest.apps).toEqual(['firefox', 'made-up']);
+  });
+});
+
+describe('profile query parameter', () => {
+  it('round-trips a profile through a URL-safe parameter', () => {
+    const profile = createProfile(['firefox', 'git'], 'Équipe ✓');
+    const param = encodeProfileParam(profile);
+    expect(param).toMatch(/^[A-Za-z0-9_-]+$/);
+    const decoded = decodeProfileParam(param);
+    expect(decoded.ok && decoded.manifest).toEqual(profile);
+  });
+
+  it('rejects parameters that are not an encoded profile', () => {
+    expect(decodeProfileParam("'; rm -rf ~").ok).toBe(false);
+    expect(decodeProfileParam('_w').ok).toBe(false);
+    expect(decodeProfileParam(btoa('{"apps":[]}')).ok).toBe(false);
+  });
+});
+
+describe('resolveProfileForChain', () => {
+  it('selects apps any package manager of the chain has, with the first one\'s overrides', () => {
+    const notOnApt = apps.find(app => !isAppAvailableForPackageManager(app, 'apt') && isAppAvailableForPackageManager(app, 'flatpak'))!;
+    const profile: PackmateProfile = {
+      ...createProfile(['firefox', 'git', notOnApt.id, 'nope']),
+      overrides: { apt: { remove: ['git'] }, flatpak: { remove: ['firefox'] } },
+    };
+    const result = resolveProfileForChain(profile, ['apt', 'flatpak']);
+    expect(result.appIds).toEqual(['firefox', notOnApt.id]);
+    expect(result.unknown).toEqual(['nope']);
+    expect(result.unavailable).toEqual([]);
+  });
+});
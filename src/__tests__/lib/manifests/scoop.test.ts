@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { generateScoopExport, parseScoopExport, resolveScoopExport } from '@/lib/manifests';
+import { apps } from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+const scoopAppIds = apps.filter((app) => app.targets.scoop).map((app) => app.id);
+
+/**
+ * Feature: scoop-export
+ * Property 1: Exporting then importing a Scoop export restores the Scoop selection
+ */
+describe('Feature: scoop-export, Property 1: Scoop export round-trip', () => {
+  it('maps every exported app back to its app', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { maxLength: 30 }),
+        (selectedIds) => {
+          const parsed = parseScoopExport(generateScoopExport(selectedIds));
+          expect(parsed.ok).toBe(true);
+          if (!parsed.ok) return false;
+
+          const result = resolveScoopExport(parsed.manifest, 'scoop');
+          expect(new Set(result.appIds)).toEqual(new Set(selectedIds.filter((id) => scoopAppIds.includes(id))));
+          expect(result.unknown).toEqual([]);
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('generateScoopExport', () => {
+  it('writes the scoop export layout with apps installed by name', () => {
+    const data = JSON.parse(generateScoopExport(['firefox', 'git']));
+    expect(data).toEqual({
+      buckets: [],
+      apps: [
+        { Name: 'firefox', Source: 'firefox', Info: '' },
+        { Name: 'git', Source: 'git', Info: '' },
+      ],
+    });
+  });
+});
+
+describe('parseScoopExport', () => {
+  it('reads app names and sources', () => {
+    const parsed = parseScoopExport(JSON.stringify({
+      buckets: [{ Name: 'extras', Source: 'https://github.com/ScoopInstaller/Extras' }],
+      apps: [
+        { Name: 'firefox', Source: 'extras', Version: '128.0', Info: '' },
+        { Name: 'git', Info: 'Global install' },
+      ],
+    }));
+    expect(parsed).toEqual({ ok: true, manifest: [{ Name: 'firefox', Source: 'extras' }, { Name: 'git' }] });
+  });
+
+  it('rejects files without the apps layout', () => {
+    expect(parseScoopExport('<packages />').ok).toBe(false);
+    expect(parseScoopExport('{"Sources": []}').ok).toBe(false);
+    expect(parseScoopExport('{"apps": ["git"]}').ok).toBe(false);
+  });
+});
+
+describe('resolveScoopExport', () => {
+  it('matches names case-insensitively in any bucket and reports the rest', () => {
+    const result = resolveScoopExport([
+      { Name: 'Firefox', Source: 'extras' },
+      { Name: 'not-a-real-app', Source: 'main' },
+      { Name: 'also-missing' },
+    ], 'scoop');
+
+    expect(result.appIds).toEqual(['firefox']);
+    expect(result.unknown).toEqual(['main/not-a-real-app', 'also-missing']);
+  });
+});
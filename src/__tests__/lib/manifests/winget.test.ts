@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  generateWingetConfiguration,
+  generateWingetPackages,
+  parseWingetPackages,
+  resolveWingetPackages,
+  WINGET_PACKAGES_SCHEMA,
+} from '@/lib/manifests';
+import { apps } from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+const wingetAppIds = apps.filter((app) => app.targets.winget).map((app) => app.id);
+
+/**
+ * Feature: winget-manifests
+ * Property 1: Exporting then importing winget JSON restores the Winget selection
+ */
+describe('Feature: winget-manifests, Property 1: winget import JSON round-trip', () => {
+  it('maps every exported package identifier back to its app', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { maxLength: 30 }),
+        (selectedIds) => {
+          const parsed = parseWingetPackages(generateWingetPackages(selectedIds));
+          expect(parsed.ok).toBe(true);
+          if (!parsed.ok) return false;
+
+          const result = resolveWingetPackages(parsed.manifest, 'winget');
+          expect(new Set(result.appIds)).toEqual(new Set(selectedIds.filter((id) => wingetAppIds.includes(id))));
+          expect(result.unknown).toEqual([]);
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('generateWingetPackages', () => {
+  it('writes the winget export layout', () => {
+    const data = JSON.parse(generateWingetPackages(['firefox', 'git']));
+    const firefox = apps.find((app) => app.id === 'firefox')!.targets.winget;
+
+    expect(data.$schema).toBe(WINGET_PACKAGES_SCHEMA);
+    expect(typeof data.CreationDate).toBe('string');
+    expect(data.Sources).toHaveLength(1);
+    expect(data.Sources[0].SourceDetails.Name).toBe('winget');
+    expect(data.Sources[0].Packages).toContainEqual({ PackageIdentifier: firefox });
+  });
+});
+
+describe('generateWingetConfiguration', () => {
+  it('writes one WinGetPackage resource per app', () => {
+    const yaml = generateWingetConfiguration(['firefox', 'git']);
+    const firefox = apps.find((app) => app.id === 'firefox')!.targets.winget!;
+
+    expect(yaml).toMatch(/^# yaml-language-server: \$schema=https:\/\/aka\.ms\/configuration-dsc-schema\/0\.2\n/);
+    expect(yaml).toContain('properties:\n  configurationVersion: 0.2.0\n  resources:\n');
+    expect(yaml.match(/- resource: Microsoft\.WinGet\.DSC\/WinGetPackage/g)).toHaveLength(2);
+    expect(yaml).toContain(`      settings:\n        id: "${firefox}"\n        source: winget\n`);
+    expect(yaml).toContain('description: "Install Firefox"');
+  });
+
+  it('lists apps without a Winget target in a comment', () => {
+    const missing = apps.find((app) => !app.targets.winget)!;
+    const yaml = generateWingetConfiguration([missing.id]);
+    expect(yaml).toContain(`# Not available via Winget: ${missing.name}`);
+    expect(yaml).toContain('  resources: []');
+  });
+});
+
+describe('parseWingetPackages', () => {
+  it('reads identifiers from every source', () => {
+    const parsed = parseWingetPackages(JSON.stringify({
+      Sources: [
+        { Packages: [{ PackageIdentifier: 'Git.Git' }], SourceDetails: { Name: 'winget' } },
+        { Packages: [{ PackageIdentifier: '9NBLGGH4NNS1', Version: '1.0' }], SourceDetails: { Name: 'msstore' } },
+      ],
+    }));
+    expect(parsed).toEqual({ ok: true, manifest: ['Git.Git', '9NBLGGH4NNS1'] });
+  });
+
+  it('rejects files without the Sources layout', () => {
+    expect(parseWingetPackages('brew "git"').ok).toBe(false);
+    expect(parseWingetPackages('{"format": "packmate-profile"}').ok).toBe(false);
+    expect(parseWingetPackages('{"Sources": [{}]}').ok).toBe(false);
+    expect(parseWingetPackages('{"Sources": [{"Packages": [{"Id": "Git.Git"}]}]}').ok).toBe(false);
+  });
+});
+
+describe('resolveWingetPackages', () => {
+  it('matches identifiers case-insensitively and reports the rest', () => {
+    const git = apps.find((app) => app.id === 'git')!.targets.winget!;
+    const result = resolveWingetPackages([git.toUpperCase(), 'Not.AnApp', '9NBLGGH4NNS1'], 'winget');
+
+    expect(result.appIds).toEqual(['git']);
+    expect(result.unknown).toEqual(['Not.AnApp', '9NBLGGH4NNS1']);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import {
   getPackageManagersByOS,
+  isPackageManagerForOS,
   packageManagers,
   type OSId,
 } from '@/lib/data';
@@ -12,7 +13,7 @@ import {
  *
  * Property: For any operating system ID, the `getPackageManagersByOS` function
  * SHALL return only package managers where `packageManager.osId` equals the
- * given OS ID, and the returned list SHALL be non-empty.
+ * given OS ID or `additionalOsIds` contains it, and the returned list SHALL be non-empty.
  */
 describe('Feature: package-manager-integration, Property 1: Package manager filtering by OS', () => {
   // All valid OS IDs for property testing
@@ -25,8 +26,8 @@ describe('Feature: package-manager-integration, Property 1: Package manager filt
         (osId: OSId) => {
           const result = getPackageManagersByOS(osId);
 
-          // Property: All returned package managers must have osId equal to the given OS
-          const allMatchOS = result.every((pm) => pm.osId === osId);
+          // Property: All returned package managers must run on the given OS
+          const allMatchOS = result.every((pm) => pm.osId === osId || pm.additionalOsIds?.includes(osId));
 
           return allMatchOS;
         }
@@ -58,7 +59,7 @@ describe('Feature: package-manager-integration, Property 1: Package manager filt
           const result = getPackageManagersByOS(osId);
 
           // Property: The result should contain all package managers for that OS
-          const expectedPMs = packageManagers.filter((pm) => pm.osId === osId);
+          const expectedPMs = packageManagers.filter((pm) => isPackageManagerForOS(pm, osId));
 
           return result.length === expectedPMs.length;
         }
@@ -85,7 +86,7 @@ describe('Feature: package-manager-integration, Property 1: Package manager filt
               typeof pm.color === 'string' &&
               typeof pm.installPrefix === 'string' &&
               pm.installPrefix.length > 0 &&
-              pm.osId === osId
+              isPackageManagerForOS(pm, osId)
           );
         }
       ),
@@ -103,22 +104,24 @@ describe('Feature: package-manager-integration, Property 1: Package manager filt
       expect(result.map((pm) => pm.id)).toContain('scoop');
     });
 
-    it('returns 2 package managers for macOS (homebrew, macports)', () => {
+    it('returns 3 package managers for macOS (homebrew, macports, nix)', () => {
       const result = getPackageManagersByOS('macos');
-      expect(result.length).toBe(2);
+      expect(result.length).toBe(3);
       expect(result.map((pm) => pm.id)).toContain('homebrew');
       expect(result.map((pm) => pm.id)).toContain('macports');
+      expect(result.map((pm) => pm.id)).toContain('nix');
     });
 
-    it('returns 6 package managers for Linux (apt, dnf, pacman, zypper, flatpak, snap)', () => {
+    it('returns 7 package managers for Linux (apt, dnf, pacman, zypper, flatpak, snap, nix)', () => {
       const result = getPackageManagersByOS('linux');
-      expect(result.length).toBe(6);
+      expect(result.length).toBe(7);
       expect(result.map((pm) => pm.id)).toContain('apt');
       expect(result.map((pm) => pm.id)).toContain('dnf');
       expect(result.map((pm) => pm.id)).toContain('pacman');
       expect(result.map((pm) => pm.id)).toContain('zypper');
       expect(result.map((pm) => pm.id)).toContain('flatpak');
       expect(result.map((pm) => pm.id)).toContain('snap');
+      expect(result.map((pm) => pm.id)).toContain('nix');
     });
   });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildScriptDownloadUrl,
+  generateVerifiedDownloadCommand,
+  getScriptFileName,
+  parseScriptRequest,
+} from '@/lib/scriptDownload';
+import { apps, packageManagers, isAppAvailableForPackageManager } from '@/lib/data';
+
+const origin = 'https://packmate.example';
+
+/**
+ * Split a download URL into the file name and query string the route receives
+ */
+function parseUrl(url: string) {
+  const { pathname, search } = new URL(url);
+  return parseScriptRequest(pathname.split('/').pop()!, search);
+}
+
+/**
+ * Feature: verified-downloads
+ * Property 1: Building then parsing a download URL restores the selection
+ */
+describe('Feature: verified-downloads, Property 1: Download URL round-trip', () => {
+  it('restores the chain, available apps and scope for every file', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...packageManagers),
+        fc.subarray(apps.map((app) => app.id), { maxLength: 30 }),
+        fc.constantFrom('script' as const, 'sha256' as const, 'sig' as const),
+        fc.constantFrom('system' as const, 'user' as const, undefined),
+        (pm, selectedIds, kind, scope) => {
+          const available = selectedIds.filter((id) =>
+            isAppAvailableForPackageManager(apps.find((app) => app.id === id)!, pm.id)
+          );
+          const parsed = parseUrl(buildScriptDownloadUrl(origin, { chain: [pm.id], apps: available, scope }, kind));
+
+          expect(parsed).not.toBeNull();
+          expect(parsed!.kind).toBe(kind);
+          expect(parsed!.selection.chain).toEqual([pm.id]);
+          expect(new Set(parsed!.selection.apps)).toEqual(new Set(available));
+          expect(parsed!.selection.scope).toBe(scope);
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Verified Downloads', () => {
+  describe('getScriptFileName', () => {
+    it('names the script after the chain, like the Download button', () => {
+      expect(getScriptFileName(['apt', 'flatpak', 'snap'])).toBe('packmate-apt-flatpak-snap.sh');
+      expect(getScriptFileName(['winget'])).toBe('packmate-winget.ps1');
+    });
+  });
+
+  describe('buildScriptDownloadUrl', () => {
+    it('puts the chain in the file name and the selection in the query string', () => {
+      const url = buildScriptDownloadUrl(origin, {
+        chain: ['apt', 'flatpak'],
+        apps: ['firefox', 'git'],
+        versions: { git: '1:2.43.0', vlc: '3.0' },
+        scope: 'user',
+      }, 'sha256');
+      expect(url).toBe(`${origin}/api/download/packmate-apt-flatpak.sh.sha256?apps=firefox,git&versions=git@1%3A2.43.0&scope=user`);
+    });
+  });
+
+  describe('parseScriptRequest', () => {
+    it('rejects file names that are not a chain of one OS', () => {
+      expect(parseScriptRequest('packmate-apt.exe', 'apps=git')).toBeNull();
+      expect(parseScriptRequest('packmate-apt.ps1', 'apps=git')).toBeNull();
+      expect(parseScriptRequest('packmate-apt-winget.sh', 'apps=git')).toBeNull();
+      expect(parseScriptRequest('packmate-apt-apt.sh', 'apps=git')).toBeNull();
+      expect(parseScriptRequest('packmate-yum.sh', 'apps=git')).toBeNull();
+    });
+
+    it('accepts package managers offered on an OS besides their own', () => {
+      expect(parseScriptRequest('packmate-homebrew-nix.sh', 'apps=git')!.selection.chain).toEqual(['homebrew', 'nix']);
+      expect(parseScriptRequest('packmate-nix-homebrew.sh', 'apps=git')!.selection.chain).toEqual(['nix', 'homebrew']);
+      expect(parseScriptRequest('packmate-apt-nix.sh', 'apps=git')!.selection.chain).toEqual(['apt', 'nix']);
+      expect(parseScriptRequest('packmate-homebrew-apt.sh', 'apps=git')).toBeNull();
+    });
+
+    it('keeps apps any package manager of the chain has and valid versions', () => {
+      const parsed = parseScriptRequest('packmate-apt-flatpak.sh', 'apps=git,spotify,not-an-app&versions=git@2.43.0,git2@1,spotify@$(id)');
+      expect(parsed!.selection.apps).toEqual(expect.arrayContaining(['git', 'spotify']));
+      expect(parsed!.selection.apps).not.toContain('not-an-app');
+      expect(parsed!.selection.versions).toEqual({ git: '2.43.0' });
+      expect(parsed!.selection.scope).toBeUndefined();
+    });
+  });
+
+  describe('generateVerifiedDownloadCommand', () => {
+    it('checks the script with sha256sum before running it on Linux', () => {
+      const command = generateVerifiedDownloadCommand(origin, { chain: ['apt'], apps: ['git'] }, 'linux');
+      expect(command).toBe(
+        `curl -fsSL '${origin}/api/download/packmate-apt.sh?apps=git' -o packmate-apt.sh && ` +
+        `curl -fsSL '${origin}/api/download/packmate-apt.sh.sha256?apps=git' | sha256sum -c && bash packmate-apt.sh`
+      );
+    });
+
+    it('uses shasum on macOS, also for Nix', () => {
+      expect(generateVerifiedDownloadCommand(origin, { chain: ['homebrew'], apps: ['git'] }, 'macos')).toContain('| shasum -a 256 -c && bash packmate-homebrew.sh');
+      expect(generateVerifiedDownloadCommand(origin, { chain: ['nix'], apps: ['git'] }, 'macos')).toContain('| shasum -a 256 -c && bash packmate-nix.sh');
+    });
+
+    it('compares Get-FileHash with the digest on Windows', () => {
+      const command = generateVerifiedDownloadCommand(origin, { chain: ['winget'], apps: ['git'] }, 'windows');
+      expect(command).toContain(`Invoke-WebRequest -UseBasicParsing -Uri '${origin}/api/download/packmate-winget.ps1?apps=git' -OutFile packmate-winget.ps1`);
+      expect(command).toContain('(Get-FileHash -Algorithm SHA256 packmate-winget.ps1).Hash -eq');
+      expect(command).toContain('-ExecutionPolicy Bypass -File .\\packmate-winget.ps1 } else { Write-Error');
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
 import { getSelectedPackages } from '@/lib/scripts/shared';
 import {
   apps,
+  isAppAvailableForPackageManager,
   packageManagers,
   type PackageManagerId,
 } from '@/lib/data';
@@ -33,6 +34,7 @@ const scriptHeaderNames: Record<PackageManagerId, string> = {
   zypper: 'Zypper',
   flatpak: 'Flatpak',
   snap: 'Snap',
+  nix: 'Nix',
 };
 
 /**
@@ -131,7 +133,7 @@ describe('Feature: package-manager-integration, Property 6: Command generation f
         fc.constantFrom(...allPackageManagerIds),
         (packageManagerId: PackageManagerId) => {
           // Find apps that DON'T have targets for this package manager
-          const appsWithoutTargets = apps.filter((app) => !app.targets[packageManagerId]);
+          const appsWithoutTargets = apps.filter((app) => !isAppAvailableForPackageManager(app, packageManagerId));
 
           if (appsWithoutTargets.length === 0) {
             // All apps have targets for this PM, skip this case
@@ -0,0 +1,92 @@
+// Helpers shared by the tests of the generated install and uninstall scripts
+
+import { spawnSync, type SpawnSyncReturns } from 'child_process';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as fc from 'fast-check';
+import { generateInstallScript, generateUninstallScript } from '@/lib/generateInstallScript';
+import { getSelectedPackages, type PackageInfo } from '@/lib/scripts/shared';
+import { apps, packageManagers, type PackageManagerId } from '@/lib/data';
+
+export const allPackageManagerIds: PackageManagerId[] = packageManagers.map((pm) => pm.id);
+export const allAppIds = apps.map((app) => app.id);
+
+// OS a package manager belongs to (PowerShell on Windows, bash elsewhere)
+export const getOSId = (id: PackageManagerId) => packageManagers.find((pm) => pm.id === id)!.osId;
+
+type Generator = (selectedAppIds: Set<string>, packageManagerId: PackageManagerId) => string;
+
+/**
+ * Install and uninstall script generators, labelled by action
+ */
+export const scriptGenerators: (readonly ['install' | 'uninstall', Generator])[] = [
+  ['install', generateInstallScript],
+  ['uninstall', generateUninstallScript],
+];
+
+/**
+ * Check a property of the scripts generated for random selections and package managers
+ * Selections without a package for the package manager are skipped.
+ *
+ * @param property - Check of a script, given its package manager and packages
+ * @param generators - Generators to pick the script from (install and uninstall by default)
+ */
+export function assertScriptProperty(
+  property: (script: string, packageManagerId: PackageManagerId, packages: PackageInfo[]) => boolean,
+  generators = scriptGenerators
+): void {
+  fc.assert(
+    fc.property(
+      fc.subarray(allAppIds, { minLength: 1, maxLength: 20 }),
+      fc.constantFrom(...allPackageManagerIds),
+      fc.constantFrom(...generators),
+      (selectedAppIdArray: string[], packageManagerId: PackageManagerId, [, generate]) => {
+        const selectedAppIds = new Set(selectedAppIdArray);
+        const packages = getSelectedPackages(selectedAppIds, packageManagerId);
+        if (packages.length === 0) {
+          return true;
+        }
+        return property(generate(selectedAppIds, packageManagerId), packageManagerId, packages);
+      }
+    ),
+    { numRuns: 100 }
+  );
+}
+
+/**
+ * Check the syntax of a bash script without running it
+ */
+export function isValidBash(script: string): boolean {
+  return spawnSync('bash', ['-n'], { input: script, encoding: 'utf8' }).status === 0;
+}
+
+/**
+ * Run a bash script with stub commands ahead of the real ones on the PATH
+ * HOME and XDG_STATE_HOME point to a temporary directory, so no state is left behind.
+ *
+ * @param script - The script to run
+ * @param stubs - sh bodies of the stub commands by name
+ * @param args - Arguments passed to the script
+ * @returns The finished process
+ */
+export function runBashScript(
+  script: string,
+  stubs: Record<string, string>,
+  args: string[] = []
+): SpawnSyncReturns<string> {
+  const dir = mkdtempSync(join(tmpdir(), 'packmate-'));
+  try {
+    for (const [name, body] of Object.entries(stubs)) {
+      writeFileSync(join(dir, name), `#!/bin/sh\n${body}\n`);
+      chmodSync(join(dir, name), 0o755);
+    }
+    return spawnSync('bash', ['-s', '--', ...args], {
+      input: script,
+      encoding: 'utf8',
+      env: { ...process.env, PATH: `${dir}:${process.env.PATH}`, HOME: dir, XDG_STATE_HOME: dir },
+    });
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
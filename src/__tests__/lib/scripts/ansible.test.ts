@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { generateAnsiblePlaybook, quoteAnsibleString } from '@/lib/scripts/ansible';
+import { apps, type PackageManagerId } from '@/lib/data';
+
+/**
+ * Feature: ansible-playbook
+ * Property 1: Quoted values stay a single scalar that Ansible doesn't template
+ */
+describe('Feature: ansible-playbook, Property 1: YAML string quoting', () => {
+  it('keeps any string on one line and restores it exactly', () => {
+    fc.assert(
+      fc.property(fc.string({ unit: 'binary' }), (str) => {
+        const quoted = quoteAnsibleString(str);
+        expect(quoted).not.toMatch(/[\r\n\u0085\u2028\u2029]/);
+
+        const scalar = quoted.replace(/^!unsafe /, '');
+        expect(scalar.startsWith('"') && scalar.endsWith('"')).toBe(true);
+        expect(JSON.parse(scalar)).toBe(str);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('tags values that could start a Jinja2 expression as unsafe', () => {
+    expect(quoteAnsibleString('{{ lookup("pipe", "id") }}')).toBe('!unsafe "{{ lookup(\\"pipe\\", \\"id\\") }}"');
+    expect(quoteAnsibleString('{% raw %}')).toMatch(/^!unsafe /);
+    expect(quoteAnsibleString('git')).toBe('"git"');
+  });
+});
+
+describe('generateAnsiblePlaybook', () => {
+  it('installs apt packages with become and lists missing apps', () => {
+    const missing = apps.find((app) => !app.targets.apt)!;
+    const playbook = generateAnsiblePlaybook(new Set(['firefox', 'git', missing.id]), ['apt']);
+
+    expect(playbook).toContain([
+      '    - name: "Install apt packages"',
+      '      become: true',
+      '      ansible.builtin.apt:',
+      '        name:',
+      '          - "firefox"',
+      '          - "git"',
+      '        state: present',
+      '        update_cache: true',
+    ].join('\n'));
+    expect(playbook).toContain(`# Not available: ${missing.name}`);
+    expect(playbook).not.toContain('ansible-galaxy');
+  });
+
+  it('uses the module of each package manager', () => {
+    const all = new Set(apps.map((app) => app.id));
+    const modules: [PackageManagerId[], string[]][] = [
+      [['dnf'], ['ansible.builtin.dnf:']],
+      [['pacman'], ['community.general.pacman:']],
+      [['zypper'], ['community.general.zypper:']],
+      [['flatpak'], ['community.general.flatpak_remote:', 'community.general.flatpak:']],
+      [['macports'], ['community.general.macports:']],
+      [['chocolatey'], ['chocolatey.chocolatey.win_chocolatey:']],
+      [['scoop'], ['community.windows.win_scoop:']],
+      [['winget'], ['ansible.windows.win_powershell:']],
+      [['nix'], ['ansible.builtin.shell:', '  PKG: "{{ item }}"']],
+    ];
+    for (const [chain, expected] of modules) {
+      const playbook = generateAnsiblePlaybook(all, chain);
+      for (const moduleName of expected) {
+        expect(playbook).toContain(moduleName);
+      }
+    }
+  });
+
+  it('splits Homebrew casks and classic snaps into their own tasks', () => {
+    const homebrew = generateAnsiblePlaybook(new Set(['firefox', 'git']), ['homebrew']);
+    expect(homebrew).toContain('community.general.homebrew:\n        name:\n          - "git"');
+    expect(homebrew).toContain('community.general.homebrew_cask:\n        name:\n          - "firefox"');
+    // Homebrew refuses to run as root
+    expect(homebrew).not.toContain('become');
+
+    const classicApp = apps.find((app) => app.targets.snap?.includes('--classic'))!;
+    const snap = generateAnsiblePlaybook(new Set([classicApp.id]), ['snap']);
+    expect(snap).toContain(`- "${classicApp.targets.snap!.replace(' --classic', '')}"\n        state: present\n        classic: true`);
+  });
+
+  it('passes winget package IDs as loop items, not in the script', () => {
+    const playbook = generateAnsiblePlaybook(new Set(['firefox']), ['winget']);
+    const firefox = apps.find((app) => app.id === 'firefox')!.targets.winget!;
+
+    expect(playbook).toContain(`      loop:\n        - "${firefox}"`);
+    expect(playbook.split('loop:')[0]).not.toContain(firefox);
+  });
+
+  it('follows the fallback chain across modules', () => {
+    const flatpakOnly = apps.find((app) => !app.targets.apt && app.targets.flatpak)!;
+    const playbook = generateAnsiblePlaybook(new Set(['git', flatpakOnly.id]), ['apt', 'flatpak']);
+
+    expect(playbook.indexOf('ansible.builtin.apt:')).toBeLessThan(playbook.indexOf('community.general.flatpak:'));
+    expect(playbook).toContain(`- "${flatpakOnly.targets.flatpak}"`);
+    expect(playbook).toContain('# Requires: ansible-galaxy collection install community.general');
+  });
+});
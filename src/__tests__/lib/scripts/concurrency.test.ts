@@ -0,0 +1,109 @@
+// Unit tests for batched and parallel installs in generated scripts
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { generateQueuedCalls, generateQueueFunctions, isQueued, DEFAULT_JOBS } from '@/lib/scripts/concurrency';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+import { generateChainInstallScript, generateInstallScript } from '@/lib/generateInstallScript';
+import { apps } from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+
+/**
+ * Feature: queued-installs
+ * Property 1: Every queued package is installed by the call that follows the queue
+ */
+describe('Feature: queued-installs, Property 1: Queued packages are always flushed', () => {
+  it('ends the calls with the flush whenever a package is queued', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(allAppIds, { minLength: 1, maxLength: 20 }),
+        fc.constantFrom('batch' as const, 'parallel' as const),
+        (selectedAppIdArray, mode) => {
+          const packages = getSelectedPackages(new Set(selectedAppIdArray), 'apt');
+          const calls = generateQueuedCalls(mode, packages, (p) => `"${p.pkg}"`, 'install_queued apt-get install').split('\n');
+          if (!isQueued(mode, packages)) {
+            return calls.every((line) => !line || line.startsWith('install_pkg '));
+          }
+          return calls.length === packages.length + 1 &&
+            calls.slice(0, -1).every((line) => line.startsWith('queue_pkg ')) &&
+            calls[calls.length - 1] === 'install_queued apt-get install';
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Queued Installs', () => {
+  const firefox = getSelectedPackages(new Set(['firefox']), 'apt');
+  const three = getSelectedPackages(new Set(['firefox', 'vlc', 'git']), 'apt');
+
+  describe('isQueued', () => {
+    it('batches two or more packages and runs three or more in parallel', () => {
+      expect(isQueued('batch', firefox)).toBe(false);
+      expect(isQueued('batch', three.slice(0, 2))).toBe(true);
+      expect(isQueued('parallel', three.slice(0, 2))).toBe(false);
+      expect(isQueued('parallel', three)).toBe(true);
+    });
+  });
+
+  describe('generateQueueFunctions', () => {
+    it('is empty when the packages are installed one at a time', () => {
+      expect(generateQueueFunctions('batch', firefox)).toBe('');
+    });
+
+    it('falls back to one install at a time when the transaction fails', () => {
+      const functions = generateQueueFunctions('batch', three);
+      expect(functions).toContain('queue_pkg() {');
+      expect(functions).toContain('install_queued() {');
+      expect(functions).toContain('install_pkg "${names[$i]}" "${pkgs[$i]}" "${extra[@]}"');
+    });
+
+    it('bounds parallel installs by PACKMATE_JOBS', () => {
+      const functions = generateQueueFunctions('parallel', three);
+      expect(functions).toContain(`JOBS=\${PACKMATE_JOBS:-${DEFAULT_JOBS}}`);
+      expect(functions).toContain('install_parallel() {');
+      expect(functions).not.toContain('install_queued() {');
+    });
+  });
+
+  describe('scripts', () => {
+    it('installs the packages of locking package managers in one transaction', () => {
+      expect(generateInstallScript(new Set(['firefox', 'vlc']), 'apt'))
+        .toContain('queue_pkg "VLC" "vlc"\ninstall_queued sudo apt-get install -y --allow-downgrades');
+      expect(generateInstallScript(new Set(['firefox', 'vlc']), 'dnf')).toContain('install_queued sudo dnf install -y');
+      expect(generateInstallScript(new Set(['firefox']), 'apt')).not.toContain('queue_pkg');
+    });
+
+    it('keeps AUR packages out of the Pacman transaction', () => {
+      const script = generateInstallScript(new Set(['firefox', 'vlc', 'spotify']), 'pacman');
+      expect(script).toContain('install_queued sudo pacman -S --needed --noconfirm');
+      expect(script).toContain('install_aur_pkg "Spotify" "spotify"');
+      expect(script).not.toContain('queue_pkg "Spotify"');
+    });
+
+    it('installs snaps in parallel after asking for the sudo password', () => {
+      const script = generateInstallScript(new Set(['firefox', 'vlc', 'spotify']), 'snap');
+      expect(script).toContain('sudo -v\ninstall_parallel snap_install');
+    });
+
+    it('downloads Homebrew casks in parallel before installing them', () => {
+      const script = generateInstallScript(new Set(['firefox', 'vlc', 'spotify']), 'homebrew');
+      expect(script).toContain('fetch_casks "firefox" "vlc" "spotify"');
+      expect(generateInstallScript(new Set(['firefox', 'vlc']), 'homebrew')).not.toContain('fetch_casks');
+    });
+
+    it('installs Scoop packages as background jobs', () => {
+      const script = generateInstallScript(new Set(['firefox', 'vlc', 'git']), 'scoop');
+      expect(script).toContain('Install-ScoopParallel -Packages @(');
+      expect(script).toContain('@{ Name = "VLC"; PackageName = "vlc" }');
+    });
+
+    it('queues the packages of each segment of a fallback chain', () => {
+      const script = generateChainInstallScript(new Set(['firefox', 'vlc', 'spotify']), ['apt', 'flatpak']);
+      expect(script).toContain('queue_pkg "Firefox" "firefox"');
+      expect(script).toContain('install_queued sudo apt-get install');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// Unit tests for devcontainer.json generator
+
+import { describe, it, expect } from 'vitest';
+import { generateDevcontainer } from '@/lib/scripts/devcontainer';
+import { apps } from '@/lib/data';
+
+/**
+ * Parse the generated file, dropping its leading comment lines
+ */
+function parseDevcontainer(content: string) {
+  return JSON.parse(content.split('\n').filter(line => !line.startsWith('//')).join('\n'));
+}
+
+describe('devcontainer.json Generator', () => {
+  it('maps language toolchains to official features', () => {
+    const config = parseDevcontainer(generateDevcontainer(new Set(['nodejs', 'pnpm', 'python', 'go'])));
+    expect(config.features).toEqual({
+      'ghcr.io/devcontainers/features/node:1': { pnpmVersion: 'latest' },
+      'ghcr.io/devcontainers/features/python:1': {},
+      'ghcr.io/devcontainers/features/go:1': {},
+    });
+    expect(config.postCreateCommand).toBeUndefined();
+  });
+
+  it('installs the other apps with apt after creation', () => {
+    const config = parseDevcontainer(generateDevcontainer(new Set(['git', 'python', 'firefox'])));
+    expect(config.image).toBe('mcr.microsoft.com/devcontainers/base:ubuntu');
+    expect(config.postCreateCommand).toBe(
+      'sudo apt-get update && sudo DEBIAN_FRONTEND=noninteractive apt-get install -y --no-install-recommends git firefox'
+    );
+  });
+
+  it('lists flatpak and snap only apps as skipped comments', () => {
+    const sandboxed = apps.find(app => !app.targets.apt && (app.targets.flatpak || app.targets.snap))!;
+    const result = generateDevcontainer(new Set([sandboxed.id]));
+    expect(result).toContain(`// Skipped, Flatpak and Snap apps don't run in containers: ${sandboxed.name}`);
+    expect(parseDevcontainer(result)).toEqual({
+      name: 'Packmate',
+      image: 'mcr.microsoft.com/devcontainers/base:ubuntu',
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// Unit tests for Dockerfile generator
+
+import { describe, it, expect } from 'vitest';
+import { generateDockerfile, isDockerPackageManager } from '@/lib/scripts/dockerfile';
+import { apps, needsRepository } from '@/lib/data';
+
+describe('Dockerfile Generator', () => {
+  describe('isDockerPackageManager', () => {
+    it('accepts distro package managers only', () => {
+      expect(isDockerPackageManager('apt')).toBe(true);
+      expect(isDockerPackageManager('zypper')).toBe(true);
+      expect(isDockerPackageManager('flatpak')).toBe(false);
+      expect(isDockerPackageManager('homebrew')).toBe(false);
+    });
+  });
+
+  describe('generateDockerfile', () => {
+    it('installs apt packages in one RUN layer and removes the package lists', () => {
+      expect(generateDockerfile(new Set(['firefox', 'git']), 'apt')).toContain(
+        'RUN apt-get update \\\n' +
+        '    && DEBIAN_FRONTEND=noninteractive apt-get install -y --no-install-recommends \\\n' +
+        '        firefox \\\n' +
+        '        git \\\n' +
+        '    && rm -rf /var/lib/apt/lists/*\n'
+      );
+    });
+
+    it.each([
+      ['dnf', 'RUN dnf install -y --setopt=install_weak_deps=False \\', '    && dnf clean all'],
+      ['pacman', 'RUN pacman -Syu --noconfirm --needed \\', '    && rm -rf /var/cache/pacman/pkg/*'],
+      ['zypper', 'RUN zypper --non-interactive refresh \\\n    && zypper --non-interactive install --no-recommends \\', '    && zypper clean --all'],
+    ] as const)('uses the %s install and clean-up idiom', (packageManagerId, install, cleanup) => {
+      const result = generateDockerfile(new Set(['git']), packageManagerId);
+      expect(result).toContain(`${install}\n        git \\\n${cleanup}\n`);
+      expect(result.match(/^RUN /gm)).toHaveLength(1);
+    });
+
+    it('lists flatpak and snap only apps as skipped', () => {
+      const sandboxed = apps.find(app => !app.targets.apt && (app.targets.flatpak || app.targets.snap))!;
+      const result = generateDockerfile(new Set([sandboxed.id, 'git']), 'apt');
+      expect(result).toMatch(new RegExp(`^# Skipped, Flatpak and Snap apps don't run in containers: ${sandboxed.name} \\((flatpak|snap|flatpak/snap)\\)$`, 'm'));
+      expect(result).not.toContain('# Not available');
+    });
+
+    it('lists AUR apps apart from the Flatpak and Snap ones for pacman', () => {
+      const aurApp = apps.find(app => !app.targets.pacman && app.aurTarget && !needsRepository(app, 'pacman'))!;
+      const result = generateDockerfile(new Set([aurApp.id, 'git']), 'pacman');
+      expect(result).toContain(`# Skipped, AUR packages need an AUR helper: ${aurApp.name}\n`);
+      expect(result).not.toContain("don't run in containers");
+      expect(result).toContain('# Use after a FROM line for an image based on archlinux\n');
+    });
+
+    it('lists apps without any Linux target as not available', () => {
+      const missing = apps.find(app => !app.targets.dnf && !app.targets.flatpak && !app.targets.snap)!;
+      const result = generateDockerfile(new Set([missing.id, 'git']), 'dnf');
+      expect(result).toContain(`# Not available via DNF (Fedora): ${missing.name}`);
+    });
+
+    it('leaves out the RUN layer when nothing can be installed', () => {
+      const sandboxed = apps.find(app => !app.targets.pacman && app.targets.flatpak)!;
+      const result = generateDockerfile(new Set([sandboxed.id]), 'pacman');
+      expect(result).not.toContain('RUN ');
+      expect(result).toContain('# Skipped');
+    });
+  });
+});
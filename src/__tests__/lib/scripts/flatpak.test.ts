@@ -0,0 +1,64 @@
+// Unit tests for Flatpak remotes and installation scopes
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateFlatpakScript, generateFlatpakCommand } from '@/lib/scripts/flatpak';
+import { generateAnsiblePlaybook } from '@/lib/scripts/ansible';
+import { apps, type FlatpakOptions } from '@/lib/data';
+
+const vlc = apps.find(app => app.id === 'vlc')!;
+
+function setFlatpakOptions(flatpak: FlatpakOptions) {
+  vlc.targetOptions = { ...vlc.targetOptions, flatpak };
+}
+
+describe('Flatpak Script Generator', () => {
+  afterEach(() => {
+    delete vlc.targetOptions;
+  });
+
+  describe('generateFlatpakCommand', () => {
+    it('installs from a system-wide Flathub by default', () => {
+      expect(generateFlatpakCommand(new Set(['firefox', 'vlc'])))
+        .toBe('flatpak install flathub -y org.mozilla.firefox org.videolan.VLC');
+    });
+
+    it('adds other remotes and scopes before installing from them', () => {
+      setFlatpakOptions({ remote: 'flathub-beta', scope: 'user' });
+      expect(generateFlatpakCommand(new Set(['firefox', 'vlc']))).toBe([
+        'flatpak install flathub -y org.mozilla.firefox',
+        'flatpak remote-add --user --if-not-exists flathub-beta https://flathub.org/beta-repo/flathub-beta.flatpakrepo',
+        'flatpak install --user flathub-beta -y org.videolan.VLC',
+      ].join(' && '));
+    });
+  });
+
+  describe('generateFlatpakScript', () => {
+    it('adds each remote to the installation its apps go into', () => {
+      setFlatpakOptions({ remote: 'fedora' });
+      const result = generateFlatpakScript(new Set(['firefox', 'vlc']));
+      expect(result).toContain('add_remote flathub system "Flathub" "https://dl.flathub.org/repo/flathub.flatpakrepo"');
+      expect(result).toContain('add_remote fedora system "Fedora" "oci+https://registry.fedoraproject.org"');
+      expect(result).toContain('install_pkg "VLC" "org.videolan.VLC" fedora system');
+      expect(result).toContain('with_retry flatpak install "--$scope" -y "$remote" "$appid"');
+    });
+
+    it('passes the remote and scope to parallel installs', () => {
+      setFlatpakOptions({ scope: 'user' });
+      const result = generateFlatpakScript(new Set(['firefox', 'vlc', 'vscode']));
+      expect(result).toContain('queue_pkg "VLC" "org.videolan.VLC" flathub user');
+      expect(result).toContain('queue_pkg "Firefox" "org.mozilla.firefox" flathub system');
+      expect(result).toContain('install_parallel flatpak_install');
+      expect(result).toContain('add_remote flathub user "Flathub for this user"');
+    });
+  });
+
+  describe('generateAnsiblePlaybook', () => {
+    it('installs user apps without become', () => {
+      setFlatpakOptions({ remote: 'flathub-beta', scope: 'user' });
+      const playbook = generateAnsiblePlaybook(new Set(['vlc']), ['flatpak']);
+      expect(playbook).toContain('- name: "Install Flatpak apps from Flathub Beta for the user"\n      community.general.flatpak:');
+      expect(playbook).toContain('method: user');
+      expect(playbook).not.toContain('become');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// Unit tests for Nix script generator
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateNixScript,
+  generateNixCommand,
+  generateNixHomePackages,
+} from '@/lib/scripts/nix';
+import { generateChainInstallScript } from '@/lib/generateInstallScript';
+import { resolveFallbackChain } from '@/lib/scripts/fallback';
+import { apps, getPackageManagersByOS } from '@/lib/data';
+import { isValidBash } from '../scriptTestUtils';
+
+describe('Nix Script Generator', () => {
+  describe('generateNixCommand', () => {
+    it('returns placeholder for empty selection', () => {
+      expect(generateNixCommand(new Set())).toBe('# No packages selected');
+    });
+
+    it('installs nixpkgs installables in one profile command', () => {
+      expect(generateNixCommand(new Set(['firefox', 'kate']))).toBe(
+        'NIXPKGS_ALLOW_UNFREE=1 nix profile install --impure nixpkgs#firefox nixpkgs#kdePackages.kate'
+      );
+    });
+
+    it('excludes apps without nix targets', () => {
+      const missing = apps.find((app) => !app.targets.nix)!;
+      expect(generateNixCommand(new Set([missing.id, 'git']))).toBe(
+        'NIXPKGS_ALLOW_UNFREE=1 nix profile install --impure nixpkgs#git'
+      );
+    });
+  });
+
+  describe('generateNixScript', () => {
+    it('returns minimal script for empty selection', () => {
+      const result = generateNixScript(new Set());
+      expect(result).toContain('#!/bin/bash');
+      expect(result).toContain('No packages selected');
+    });
+
+    it('checks for nix and installs each attribute into the profile', () => {
+      const result = generateNixScript(new Set(['firefox', 'kate']));
+      expect(result).toContain('command -v nix &>/dev/null');
+      expect(result).toContain('export NIXPKGS_ALLOW_UNFREE=1');
+      expect(result).toContain('with_retry nix_cmd profile install --impure "nixpkgs#$pkg"');
+      expect(result).toContain('install_pkg "Firefox" "firefox"');
+      expect(result).toContain('install_pkg "Kate" "kdePackages.kate"');
+      // Installs into the user's profile, never with sudo
+      expect(result).not.toContain('sudo nix');
+    });
+  });
+
+  describe('generateNixHomePackages', () => {
+    it('writes a home.packages list of attribute paths', () => {
+      const result = generateNixHomePackages(['firefox', 'kate', '1password']);
+      expect(result).toContain('home.packages = with pkgs; [\n  firefox\n  kdePackages.kate\n  _1password-gui\n];\n');
+    });
+
+    it('writes an empty list when nothing has a nix target', () => {
+      const missing = apps.find((app) => !app.targets.nix)!;
+      expect(generateNixHomePackages([missing.id])).toContain('home.packages = with pkgs; [\n];');
+    });
+  });
+
+  describe('Linux and macOS', () => {
+    it('is offered on both operating systems', () => {
+      expect(getPackageManagersByOS('linux').map((pm) => pm.id)).toContain('nix');
+      expect(getPackageManagersByOS('macos').map((pm) => pm.id)).toContain('nix');
+      expect(getPackageManagersByOS('windows').map((pm) => pm.id)).not.toContain('nix');
+    });
+
+    it('falls back to and from managers of either OS', () => {
+      const nixOnly = apps.find((app) => app.targets.nix && !app.targets.homebrew)!;
+      const { segments } = resolveFallbackChain(new Set(['git', nixOnly.id]), ['homebrew', 'nix']);
+      expect(segments.map((s) => s.packageManagerId)).toEqual(['homebrew', 'nix']);
+
+      const script = generateChainInstallScript(new Set(['firefox', 'lutris']), ['nix', 'apt', 'winget']);
+      expect(script).toContain('# ── Nix ──');
+      expect(script).not.toContain('winget');
+    });
+
+    it('defines nix_cmd before the pre-flight of a fallback chain uses it', () => {
+      const nixOnly = apps.find((app) => app.targets.nix && !app.targets.apt)!;
+      const script = generateChainInstallScript(new Set(['git', nixOnly.id]), ['apt', 'nix']);
+      expect(script).toContain('# ── Nix ──');
+      expect(isValidBash(script)).toBe(true);
+      expect(script.indexOf('nix_cmd')).toBe(script.indexOf('nix_cmd() {'));
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// Unit tests for Pacman script generator AUR support
+
+import { describe, it, expect } from 'vitest';
+import { generatePacmanScript, generatePacmanCommand } from '@/lib/scripts/pacman';
+import { generateFallbackScript } from '@/lib/scripts/fallback';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+import { apps, isAppAvailableForPackageManager } from '@/lib/data';
+
+describe('Pacman Script Generator', () => {
+  describe('AUR targets', () => {
+    it('selects AUR packages for apps missing from the official repos', () => {
+      const packages = getSelectedPackages(new Set(['spotify', 'git']), 'pacman');
+      expect(packages.map(({ pkg }) => pkg)).toEqual(['spotify', 'git']);
+      expect(getSelectedPackages(new Set(['spotify']), 'dnf')).toEqual([]);
+    });
+
+    it('counts AUR-only apps as available for Pacman', () => {
+      const spotify = apps.find(app => app.id === 'spotify')!;
+      expect(spotify.targets.pacman).toBeUndefined();
+      expect(spotify.aurTarget).toBe('spotify');
+      expect(isAppAvailableForPackageManager(spotify, 'pacman')).toBe(true);
+    });
+  });
+
+  describe('generatePacmanCommand', () => {
+    it('installs AUR packages with yay after the repo packages', () => {
+      expect(generatePacmanCommand(new Set(['spotify', 'git']))).toBe(
+        'sudo pacman -S --needed --noconfirm git && yay -S --needed --noconfirm spotify'
+      );
+    });
+
+    it('leaves out yay when nothing comes from the AUR', () => {
+      expect(generatePacmanCommand(new Set(['git']))).toBe('sudo pacman -S --needed --noconfirm git');
+    });
+  });
+
+  describe('generatePacmanScript', () => {
+    it('installs AUR packages through the detected helper', () => {
+      const result = generatePacmanScript(new Set(['git', 'spotify']));
+      expect(result).toContain('Packages: 2');
+      expect(result).toContain('install_pkg "Git" "git"');
+      expect(result).toContain('install_aur_pkg "Spotify" "spotify"');
+      expect(result).toContain('for helper in yay paru; do');
+      expect(result).toContain('with_retry "$AUR_HELPER" -S --needed "${AUR_FLAGS[@]}" "$pkg"');
+    });
+
+    it('bootstraps yay as the invoking user, never as root', () => {
+      const result = generatePacmanScript(new Set(['spotify']));
+      expect(result).toContain('[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }');
+      expect(result).toContain('git clone --depth 1 https://aur.archlinux.org/yay-bin.git');
+      expect(result).toContain('makepkg -si --noconfirm');
+      expect(result).not.toContain('sudo makepkg');
+    });
+
+    it('reports repo and AUR installs separately after the summary', () => {
+      const result = generatePacmanScript(new Set(['git', 'spotify']));
+      expect(result.indexOf('print_summary\n')).toBeLessThan(result.indexOf('AUR (${AUR_HELPER:-no helper})'));
+      expect(result).toContain('REPO_SUCCEEDED+=("$name")');
+      expect(result).toContain('AUR_SUCCEEDED+=("$name")');
+    });
+
+    it('skips the AUR helper set-up for repo packages', () => {
+      const result = generatePacmanScript(new Set(['git']));
+      expect(result).not.toContain('install_aur_pkg');
+      expect(result).not.toContain('yay-bin');
+    });
+
+    it('installs AUR packages in a fallback chain before later managers', () => {
+      const result = generateFallbackScript(new Set(['spotify']), ['pacman', 'flatpak']);
+      expect(result).toContain('install_aur_pkg "Spotify" "spotify"');
+      expect(result).not.toContain('com.spotify.Client');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+// Unit tests for post-install steps in generated scripts
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { generatePostInstallSteps, generatePowerShellPostInstallSteps } from '@/lib/scripts/postInstall';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+import {
+  generateChainInstallScript,
+  generateInstallScript,
+  generateUninstallScript,
+} from '@/lib/generateInstallScript';
+import { apps, isValidPostInstallStep, type PostInstallSteps } from '@/lib/data';
+
+const git = apps.find(app => app.id === 'git')!;
+
+function setPostInstall(postInstall: PostInstallSteps) {
+  git.postInstall = postInstall;
+}
+
+/**
+ * Feature: post-install-steps
+ * Property 1: Only valid steps reach a script, each argument a single quoted word
+ */
+describe('Feature: post-install-steps, Property 1: Invalid steps are left out', () => {
+  afterEach(() => {
+    delete git.postInstall;
+  });
+
+  it('keeps a step only when its description and arguments are valid', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 30 }), fc.array(fc.string({ maxLength: 10 }), { maxLength: 4 }), (description, command) => {
+        const step = { description, command };
+        setPostInstall({ apt: [step] });
+        const packages = getSelectedPackages(new Set(['git']), 'apt');
+        return (packages[0].postInstall !== undefined) === isValidPostInstallStep(step);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Post-install Steps', () => {
+  afterEach(() => {
+    delete git.postInstall;
+  });
+
+  describe('isValidPostInstallStep', () => {
+    it('accepts the steps of every app in the catalog', () => {
+      const steps = apps.flatMap(app => Object.values(app.postInstall ?? {}).flat());
+      expect(steps.length).toBeGreaterThan(0);
+      expect(steps.filter(step => !isValidPostInstallStep(step))).toEqual([]);
+    });
+
+    it('rejects control characters, shell syntax and empty commands', () => {
+      expect(isValidPostInstallStep({ description: 'Line\nbreak', command: ['true'] })).toBe(false);
+      expect(isValidPostInstallStep({ description: 'Chain', command: ['true;', 'rm', '-rf', '/'] })).toBe(false);
+      expect(isValidPostInstallStep({ description: 'Substitution', command: ['echo', '$(id)'] })).toBe(false);
+      expect(isValidPostInstallStep({ description: 'Nothing', command: [] })).toBe(false);
+    });
+  });
+
+  describe('generatePostInstallSteps', () => {
+    it('is empty when no package has steps', () => {
+      expect(generatePostInstallSteps(getSelectedPackages(new Set(['firefox']), 'apt'))).toBe('');
+      expect(generatePowerShellPostInstallSteps(getSelectedPackages(new Set(['firefox']), 'winget'))).toBe('');
+    });
+
+    it('passes each argument as a quoted word and the user as a variable', () => {
+      const steps = generatePostInstallSteps(getSelectedPackages(new Set(['docker']), 'pacman'));
+      expect(steps).toContain('post_install "Docker" "Start the Docker service now and at boot" "sudo" "systemctl" "enable" "--now" "docker"');
+      expect(steps).toContain('"sudo" "usermod" "-aG" "docker" "${USER:-$(id -un)}"');
+    });
+
+    it('runs steps only for apps the script installed', () => {
+      const steps = generatePostInstallSteps(getSelectedPackages(new Set(['docker']), 'apt'));
+      expect(steps).toContain('in_list "$name" ${SUCCEEDED[@]+"${SUCCEEDED[@]}"} || return 0');
+    });
+
+    it('escapes descriptions and uses $env:USERNAME in PowerShell', () => {
+      setPostInstall({ winget: [{ description: 'Set "user" name', command: ['git', 'config', '--global', 'user.name', '{user}'] }] });
+      expect(generatePowerShellPostInstallSteps(getSelectedPackages(new Set(['git']), 'winget')))
+        .toContain('Invoke-PostInstall -Name "Git" -Description "Set \\"user\\" name" -Command @("git", "config", "--global", "user.name", $env:USERNAME)');
+    });
+  });
+
+  describe('scripts', () => {
+    it('runs the steps after the install calls and before the summary', () => {
+      const script = generateInstallScript(new Set(['docker', 'firefox']), 'apt');
+      expect(script.indexOf('install_queued sudo apt-get')).toBeLessThan(script.indexOf('post_install "Docker"'));
+      expect(script.indexOf('post_install "Docker"')).toBeLessThan(script.lastIndexOf('print_summary'));
+    });
+
+    it('uses the steps of the package manager each app of a fallback chain is installed with', () => {
+      const script = generateChainInstallScript(new Set(['docker', 'rust']), ['apt', 'snap']);
+      expect(script).toContain('post_install "Docker" "Add your user to the docker group');
+      expect(script).toContain('post_install "Rust" "Install the stable toolchain" "rustup" "default" "stable"');
+    });
+
+    it('leaves the steps out of uninstall scripts', () => {
+      expect(generateUninstallScript(new Set(['docker']), 'apt')).not.toContain('post_install');
+    });
+  });
+});
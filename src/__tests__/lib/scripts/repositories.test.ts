@@ -0,0 +1,133 @@
+// Unit tests for vendor repository setup in generated scripts
+
+import { describe, it, expect } from 'vitest';
+import { spawnSync } from 'child_process';
+import {
+  generateAptRepositorySetup,
+  generateDnfRepositorySetup,
+  generateZypperRepositorySetup,
+  generateHomebrewTapSetup,
+} from '@/lib/scripts/repositories';
+import { generateAptScript } from '@/lib/scripts/apt';
+import { generateDnfScript } from '@/lib/scripts/dnf';
+import { generateHomebrewScript } from '@/lib/scripts/homebrew';
+import { generateDockerfile } from '@/lib/scripts/dockerfile';
+import { generateAnsiblePlaybook } from '@/lib/scripts/ansible';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+
+describe('Vendor Repository Setup', () => {
+  describe('generateAptRepositorySetup', () => {
+    it('adds each repository once, limited to its own key', () => {
+      const result = generateAptRepositorySetup(getSelectedPackages(new Set(['vscode', 'edge', 'git']), 'apt'));
+      expect(result).toContain('signed-by=$keyring');
+      expect(result).toContain('keyring="/etc/apt/keyrings/$name.asc"');
+      expect(result).toContain('add_apt_repo "vscode" "https://packages.microsoft.com/keys/microsoft.asc" "https://packages.microsoft.com/repos/code stable main"');
+      expect(result).toContain('add_apt_repo "microsoft-edge"');
+      expect(result.match(/^add_apt_repo "/gm)).toHaveLength(2);
+    });
+
+    it('skips repositories whose source list already exists', () => {
+      const result = generateAptRepositorySetup(getSelectedPackages(new Set(['chrome']), 'apt'));
+      expect(result).toContain('[ -f "$list" ] && return 0');
+      expect(result).toContain('if [ "$DRY_RUN" = true ]; then');
+    });
+
+    it('is empty when no package needs a vendor repository', () => {
+      expect(generateAptRepositorySetup(getSelectedPackages(new Set(['git', 'firefox']), 'apt'))).toBe('');
+    });
+
+    it('keeps the script going when a signing key fails to download', () => {
+      const setup = generateAptRepositorySetup(getSelectedPackages(new Set(['vscode', 'edge']), 'apt'));
+      const script = [
+        'set -euo pipefail',
+        'DRY_RUN=false',
+        'info() { :; }; success() { :; }; warn() { echo "warn: $*"; }',
+        'with_retry() { "$@"; }',
+        'curl() { return 22; }',
+        // No source lists exist, so both repositories are tried
+        'sudo() { :; }',
+        setup.replace(/\[ -f "\$list" \] && return 0/, ':'),
+        'echo "installing packages"',
+      ].join('\n');
+      const result = spawnSync('bash', ['-c', script], { encoding: 'utf8' });
+      expect(result.status).toBe(0);
+      expect(result.stdout).toBe(
+        'warn: Could not download the vscode signing key\n' +
+        'warn: Could not download the microsoft-edge signing key\n' +
+        'installing packages\n'
+      );
+    });
+  });
+
+  describe('generateDnfRepositorySetup', () => {
+    it('writes .repo files with GPG checks on', () => {
+      const result = generateDnfRepositorySetup(getSelectedPackages(new Set(['vscode']), 'dnf'));
+      expect(result).toContain('gpgcheck=1');
+      expect(result).toContain('add_dnf_repo "vscode" "https://packages.microsoft.com/keys/microsoft.asc" "https://packages.microsoft.com/yumrepos/vscode"');
+    });
+
+    it('enables COPR projects with the copr plugin', () => {
+      const result = generateDnfRepositorySetup(getSelectedPackages(new Set(['starship']), 'dnf'));
+      expect(result).toContain('enable_copr "atim/starship"');
+      expect(result).toContain("'dnf-command(copr)'");
+    });
+
+    it('enables RPM Fusion free before nonfree, each once', () => {
+      const result = generateDnfRepositorySetup(getSelectedPackages(new Set(['vlc', 'steam', 'discord']), 'dnf'));
+      expect(result.match(/^enable_rpmfusion \w+$/gm)).toEqual(['enable_rpmfusion free', 'enable_rpmfusion nonfree']);
+      expect(result).toContain('rpm -q "rpmfusion-$section-release"');
+    });
+
+    it('runs before the packages are installed', () => {
+      const result = generateDnfScript(new Set(['vlc']));
+      expect(result.indexOf('enable_rpmfusion free')).toBeLessThan(result.indexOf('install_pkg "VLC"'));
+    });
+  });
+
+  describe('generateZypperRepositorySetup', () => {
+    it('imports the key and adds the repository with GPG checks', () => {
+      const result = generateZypperRepositorySetup(getSelectedPackages(new Set(['sublime']), 'zypper'));
+      expect(result).toContain('sudo rpm --import "$key_url"');
+      expect(result).toContain('addrepo --refresh --gpgcheck');
+      expect(result).toContain('zypper repos "$name" &>/dev/null && return 0');
+      expect(result).toContain('add_zypper_repo "sublime-text"');
+    });
+  });
+
+  describe('generateHomebrewTapSetup', () => {
+    it('taps each tap unless it is already tapped', () => {
+      const result = generateHomebrewTapSetup(getSelectedPackages(new Set(['bun']), 'homebrew'));
+      expect(result).toContain('add_tap "oven-sh/bun"');
+      expect(result).toContain('brew tap 2>/dev/null | grep -Fxq "$tap" && return 0');
+      expect(generateHomebrewTapSetup(getSelectedPackages(new Set(['git']), 'homebrew'))).toBe('');
+    });
+
+    it('taps before installing the formula', () => {
+      const result = generateHomebrewScript(new Set(['bun']));
+      expect(result.indexOf('add_tap "oven-sh/bun"')).toBeLessThan(result.indexOf('install_package "Bun"'));
+    });
+  });
+
+  it('adds the repositories before updating the apt package lists', () => {
+    const result = generateAptScript(new Set(['vscode']));
+    expect(result.indexOf('add_apt_repo "vscode"')).toBeLessThan(result.indexOf('apt-get update'));
+  });
+
+  it('leaves apps from vendor repositories out of container builds', () => {
+    const result = generateDockerfile(new Set(['vscode', 'git']), 'apt');
+    expect(result).toContain('# Skipped, need a vendor repository: VS Code');
+    expect(result).not.toContain(' code');
+  });
+
+  it('adds the repositories in Ansible playbooks', () => {
+    const apt = generateAnsiblePlaybook(new Set(['vscode']), ['apt']);
+    expect(apt).toContain('ansible.builtin.deb822_repository:');
+    expect(apt).toContain('signed_by: "https://packages.microsoft.com/keys/microsoft.asc"');
+    expect(apt.indexOf('deb822_repository')).toBeLessThan(apt.indexOf('ansible.builtin.apt:'));
+
+    const dnf = generateAnsiblePlaybook(new Set(['steam', 'starship']), ['dnf']);
+    expect(dnf).toContain('Enable RPM Fusion free');
+    expect(dnf).toContain('Enable RPM Fusion nonfree');
+    expect(dnf).toContain('community.general.copr:');
+  });
+});
@@ -0,0 +1,85 @@
+// Unit tests for resumable installs in generated scripts
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getStateKey } from '@/lib/scripts/resume';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+import {
+  generateChainInstallScript,
+  generateInstallScript,
+  generateUninstallScript,
+} from '@/lib/generateInstallScript';
+import { apps, packageManagers, type PackageManagerId } from '@/lib/data';
+
+const allAppIds = apps.map((app) => app.id);
+const selection = new Set(['firefox', 'vlc', 'git']);
+
+/**
+ * Feature: resumable-installs
+ * Property 1: The state key depends on the selection, not on its order
+ */
+describe('Feature: resumable-installs, Property 1: State key is stable for a selection', () => {
+  it('gives the same key for the same packages in any order', () => {
+    fc.assert(
+      fc.property(
+        fc.shuffledSubarray(allAppIds, { minLength: 1, maxLength: 20 }),
+        fc.constantFrom<PackageManagerId>('apt', 'homebrew', 'winget'),
+        (selectedAppIdArray, packageManagerId) => {
+          const packages = getSelectedPackages(new Set(selectedAppIdArray), packageManagerId);
+          const key = getStateKey(packages);
+          return /^[0-9a-f]{8}$/.test(key) && key === getStateKey([...packages].reverse());
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Resumable Installs', () => {
+  describe('getStateKey', () => {
+    it('changes with the packages, their versions and the install scope', () => {
+      const key = getStateKey(getSelectedPackages(selection, 'apt'));
+      expect(getStateKey(getSelectedPackages(new Set(['firefox', 'vlc']), 'apt'))).not.toBe(key);
+      expect(getStateKey(getSelectedPackages(selection, 'apt', { firefox: '128.0' }))).not.toBe(key);
+      expect(getStateKey(getSelectedPackages(selection, 'flatpak', {}, 'user')))
+        .not.toBe(getStateKey(getSelectedPackages(selection, 'flatpak')));
+    });
+  });
+
+  describe('scripts', () => {
+    it('loads the state of the selection in every install script', () => {
+      for (const pm of packageManagers) {
+        const key = getStateKey(getSelectedPackages(selection, pm.id));
+        const script = generateInstallScript(selection, pm.id);
+        if (pm.osId === 'windows') {
+          expect(script).toContain(`Import-InstallState -Key "${key}"`);
+          expect(script).toContain('[switch]$Resume');
+        } else {
+          expect(script).toContain(`load_state ${key}`);
+          expect(script).toContain('--resume) RESUME=true ;;');
+        }
+      }
+    });
+
+    it('skips packages the resumed run is done with', () => {
+      expect(generateInstallScript(selection, 'apt')).toContain('install_pkg() {\n    local name=$1 pkg=$2\n    resumed "$name" && return 0');
+      expect(generateInstallScript(selection, 'homebrew')).toContain('resumed "$name" && return 0');
+      expect(generateInstallScript(selection, 'winget')).toContain('if (Skip-Resumed -Name $Name) { return }');
+    });
+
+    it('saves the state when the script exits, even when interrupted', () => {
+      expect(generateInstallScript(selection, 'apt')).toContain('save_state $exit_code');
+      expect(generateInstallScript(selection, 'scoop')).toContain('} finally {\n    Print-Summary\n    Save-InstallState\n}');
+    });
+
+    it('keeps the state of a fallback chain under the key of all its packages', () => {
+      const script = generateChainInstallScript(selection, ['apt', 'flatpak']);
+      expect(script).toContain(`load_state ${getStateKey(getSelectedPackages(selection, 'apt'))}`);
+    });
+
+    it('leaves uninstall scripts without a state', () => {
+      expect(generateUninstallScript(selection, 'apt')).not.toContain('--resume');
+      expect(generateUninstallScript(selection, 'winget')).not.toContain('$Resume');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// Unit tests for the install scope of generated scripts and commands
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { generatePowerShellScopeWarning, generateScopeWarning, supportsUserScope } from '@/lib/scripts/scope';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+import {
+  generateChainCommand,
+  generateChainInstallScript,
+  generateInstallScript,
+  generateSimpleCommand,
+} from '@/lib/generateInstallScript';
+import { packageManagers } from '@/lib/data';
+
+const selection = new Set(['firefox', 'vscode', 'git']);
+
+/**
+ * Feature: install-scope
+ * Property 1: The system scope is the default, except for Scoop
+ */
+describe('Feature: install-scope, Property 1: System scope is the default', () => {
+  it('generates the same script and command as without a scope', () => {
+    fc.assert(
+      // Scoop installs into the user's profile unless the system scope is asked for
+      fc.property(fc.constantFrom(...packageManagers.filter(pm => pm.id !== 'scoop')), (pm) => {
+        expect(generateInstallScript(selection, pm.id, {}, 'system')).toBe(generateInstallScript(selection, pm.id));
+        expect(generateSimpleCommand(selection, pm.id, {}, 'system')).toBe(generateSimpleCommand(selection, pm.id));
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('Install Scope', () => {
+  describe('supportsUserScope', () => {
+    it('is true for the package managers that install without admin rights', () => {
+      expect(packageManagers.filter(pm => supportsUserScope(pm.id)).map(pm => pm.id))
+        .toEqual(['winget', 'scoop', 'homebrew', 'flatpak', 'nix']);
+    });
+  });
+
+  describe('commands', () => {
+    it('installs for the current user where the package manager can', () => {
+      expect(generateSimpleCommand(selection, 'winget', {}, 'user'))
+        .toBe('winget install -e --id Mozilla.Firefox Microsoft.VisualStudioCode Git.Git --scope user');
+      expect(generateSimpleCommand(selection, 'homebrew', {}, 'user'))
+        .toBe('brew install git && brew install --cask --appdir="$HOME/Applications" firefox visual-studio-code');
+      expect(generateSimpleCommand(selection, 'flatpak', {}, 'user')).toBe(
+        'flatpak remote-add --user --if-not-exists flathub https://dl.flathub.org/repo/flathub.flatpakrepo'
+          + ' && flatpak install --user flathub -y org.mozilla.firefox com.visualstudio.code'
+      );
+    });
+
+    it('installs Scoop apps globally only when the system scope is asked for', () => {
+      expect(generateSimpleCommand(selection, 'scoop', {}, 'system')).toBe('scoop install -g firefox vscode git');
+      expect(generateSimpleCommand(selection, 'scoop')).toBe('scoop install firefox vscode git');
+      expect(generateSimpleCommand(selection, 'scoop', {}, 'user')).toBe('scoop install firefox vscode git');
+    });
+
+    it('leaves package managers that only install system-wide alone', () => {
+      expect(generateSimpleCommand(selection, 'apt', {}, 'user')).toBe(generateSimpleCommand(selection, 'apt'));
+    });
+
+    it('applies to each segment of a fallback chain', () => {
+      expect(generateChainCommand(new Set(['firefox', 'spotify']), ['apt', 'flatpak'], {}, 'user'))
+        .toContain('flatpak install --user flathub -y com.spotify.Client');
+    });
+  });
+
+  describe('scripts', () => {
+    it('passes the scope to the install functions', () => {
+      expect(generateInstallScript(selection, 'winget', {}, 'user'))
+        .toContain('Install-WingetPackage -Name "Firefox" -PackageId "Mozilla.Firefox" -Scope "user"');
+      expect(generateInstallScript(selection, 'homebrew', {}, 'user'))
+        .toContain('install_package "Firefox" "firefox" "--cask" "$HOME/Applications"');
+      expect(generateInstallScript(selection, 'homebrew', {}, 'user'))
+        .toContain('install_package "Git" "git" ""\n');
+
+      const flatpak = generateInstallScript(selection, 'flatpak', {}, 'user');
+      expect(flatpak).toContain('add_remote flathub user "Flathub for this user"');
+      expect(flatpak).not.toContain('add_remote flathub system');
+    });
+
+    it('installs Scoop apps globally, as administrator, only when the system scope is asked for', () => {
+      const system = generateInstallScript(selection, 'scoop', {}, 'system');
+      expect(system).toContain('#Requires -RunAsAdministrator');
+      expect(system).toContain('@{ Name = "Firefox"; PackageName = "firefox"; Global = $true }');
+      expect(generateInstallScript(new Set(['firefox']), 'scoop', {}, 'system'))
+        .toContain('Install-ScoopPackage -Name "Firefox" -PackageName "firefox" -Global');
+
+      const byDefault = generateInstallScript(selection, 'scoop');
+      expect(byDefault).not.toContain('#Requires -RunAsAdministrator');
+      expect(byDefault).toContain('@{ Name = "Firefox"; PackageName = "firefox" }');
+
+      const chain = generateChainInstallScript(selection, ['scoop', 'winget']);
+      expect(chain).not.toContain('#Requires -RunAsAdministrator');
+      expect(generateChainInstallScript(selection, ['scoop', 'winget'], {}, 'system')).toContain('#Requires -RunAsAdministrator');
+    });
+
+    it('warns in the scripts of package managers that need sudo', () => {
+      expect(generateScopeWarning('snap', getSelectedPackages(selection, 'snap', {}, 'user')))
+        .toBe('warn "Snap can\'t install for the current user only, installing system-wide with sudo"');
+      expect(generateScopeWarning('snap', getSelectedPackages(selection, 'snap'))).toBe('');
+      expect(generateScopeWarning('flatpak', getSelectedPackages(selection, 'flatpak', {}, 'user'))).toBe('');
+    });
+
+    it('warns in the scripts of Windows package managers that need admin rights', () => {
+      expect(generatePowerShellScopeWarning('chocolatey', getSelectedPackages(selection, 'chocolatey', {}, 'user')))
+        .toBe('Write-Warn "Chocolatey can\'t install for the current user only, installing system-wide with admin rights"');
+      expect(generatePowerShellScopeWarning('chocolatey', getSelectedPackages(selection, 'chocolatey'))).toBe('');
+      expect(generatePowerShellScopeWarning('scoop', getSelectedPackages(selection, 'scoop', {}, 'user'))).toBe('');
+
+      expect(generateInstallScript(selection, 'chocolatey', {}, 'user')).toContain('Write-Warn "Chocolatey can\'t');
+      expect(generateInstallScript(selection, 'chocolatey')).not.toContain('Write-Warn "Chocolatey can\'t');
+    });
+
+    it('warns only for the segments of a fallback chain that need sudo', () => {
+      const script = generateChainInstallScript(new Set(['firefox', 'spotify']), ['apt', 'flatpak'], {}, 'user');
+      expect(script).toContain('warn "APT (Debian/Ubuntu) can\'t install for the current user only');
+      expect(script).not.toContain('warn "Flatpak can\'t');
+    });
+  });
+});
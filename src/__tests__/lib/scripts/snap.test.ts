@@ -0,0 +1,86 @@
+// Unit tests for Snap channels and confinement
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateSnapScript, generateSnapCommand, getSnapFlags } from '@/lib/scripts/snap';
+import { generateAnsiblePlaybook } from '@/lib/scripts/ansible';
+import { getSelectedPackages, SCRIPT_EXIT_CODES } from '@/lib/scripts/shared';
+import { apps, type SnapOptions } from '@/lib/data';
+import { runBashScript } from '../scriptTestUtils';
+
+const vlc = apps.find(app => app.id === 'vlc')!;
+const vscode = apps.find(app => app.id === 'vscode')!;
+
+function setSnapOptions(app: typeof vlc, snap: SnapOptions) {
+  app.targetOptions = { ...app.targetOptions, snap };
+}
+
+describe('Snap Script Generator', () => {
+  afterEach(() => {
+    delete vlc.targetOptions;
+    delete vscode.targetOptions;
+  });
+
+  describe('getSnapFlags', () => {
+    it('adds --classic for classic targets and options', () => {
+      expect(getSnapFlags(getSelectedPackages(new Set(['vscode']), 'snap')[0])).toEqual(['--classic']);
+
+      setSnapOptions(vlc, { confinement: 'classic' });
+      expect(getSnapFlags(getSelectedPackages(new Set(['vlc']), 'snap')[0])).toEqual(['--classic']);
+    });
+
+    it('adds --devmode and the channel', () => {
+      setSnapOptions(vlc, { channel: 'latest/edge', confinement: 'devmode' });
+      expect(getSnapFlags(getSelectedPackages(new Set(['vlc']), 'snap')[0]))
+        .toEqual(['--devmode', '--channel=latest/edge']);
+    });
+
+    it('lets a pinned channel replace the app\'s own', () => {
+      setSnapOptions(vlc, { channel: 'beta' });
+      expect(getSnapFlags(getSelectedPackages(new Set(['vlc']), 'snap', { vlc: '3.0/stable' })[0]))
+        .toEqual(['--channel=3.0/stable']);
+    });
+  });
+
+  describe('generateSnapCommand', () => {
+    it('installs snaps with a channel one at a time', () => {
+      setSnapOptions(vlc, { channel: 'edge' });
+      expect(generateSnapCommand(new Set(['firefox', 'vlc', 'vscode']))).toBe(
+        'sudo snap install firefox && sudo snap install vlc --channel=edge && sudo snap install code --classic'
+      );
+    });
+  });
+
+  describe('generateSnapScript', () => {
+    it('passes the flags to install and refresh', () => {
+      setSnapOptions(vlc, { channel: 'candidate' });
+      const result = generateSnapScript(new Set(['vlc', 'firefox']));
+      expect(result).toContain('install_pkg "VLC" "vlc" "--channel=candidate"');
+      expect(result).toContain('install_pkg "Firefox" "firefox" ""');
+      expect(result).toContain('upgrade_pkg "$name" sudo snap refresh "$pkg" $flags');
+    });
+
+    it('records a failed snap and goes on with the others', () => {
+      // sudo and snap stubs: nothing is installed, and Firefox is not found
+      const result = runBashScript(generateSnapScript(new Set(['firefox', 'vlc'])), {
+        sudo: 'exec "$@"',
+        systemctl: 'exit 0',
+        snap: '[ "$1" = install ] && [ "$2" = firefox ] && { echo "snap \\"firefox\\" not found"; exit 1; }\n[ "$1" = install ]',
+      });
+      expect(result.status).toBe(SCRIPT_EXIT_CODES.SOME_FAILED);
+      expect(result.stdout).toContain('✓ VLC');
+      expect(result.stdout).toContain('• Firefox');
+    });
+  });
+
+  describe('generateAnsiblePlaybook', () => {
+    it('sets the channel and installs devmode snaps with the snap command', () => {
+      setSnapOptions(vlc, { channel: 'beta' });
+      expect(generateAnsiblePlaybook(new Set(['vlc']), ['snap'])).toContain('channel: "beta"');
+
+      setSnapOptions(vlc, { confinement: 'devmode' });
+      const devmode = generateAnsiblePlaybook(new Set(['vlc']), ['snap']);
+      expect(devmode).toContain('ansible.builtin.command:');
+      expect(devmode).toContain('creates: "/snap/{{ item }}"');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+// Unit tests for version pinning in generated scripts and commands
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  getPinnedPackage,
+  generatePinningWarnings,
+  supportsVersionPinning,
+} from '@/lib/scripts/versions';
+import { getSelectedPackages } from '@/lib/scripts/shared';
+import { generateAnsiblePlaybook } from '@/lib/scripts/ansible';
+import {
+  generateChainCommand,
+  generateChainInstallScript,
+  generateInstallScript,
+  generateSimpleCommand,
+} from '@/lib/generateInstallScript';
+import { packageManagers, sanitizeVersions } from '@/lib/data';
+
+const selection = new Set(['firefox', 'git']);
+const versions = { firefox: '128.0', git: '2.43.0' };
+
+/**
+ * Feature: version-pinning
+ * Property 1: Every package manager either pins a version or warns about it
+ */
+describe('Feature: version-pinning, Property 1: Pinned or warned', () => {
+  it('mentions the version in the script of every package manager', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...packageManagers),
+        fc.stringMatching(/^[0-9]{1,2}\.[0-9]{1,2}$/),
+        (pm, version) => {
+          const script = generateInstallScript(new Set(['firefox']), pm.id, { firefox: version });
+          expect(script).toContain(version);
+          if (!supportsVersionPinning(pm.id)) {
+            expect(script).toContain(`can't pin versions, installing the latest Firefox instead of ${version}`);
+          }
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('Version Pinning', () => {
+  describe('getPinnedPackage', () => {
+    it('uses each package manager\'s pinning syntax', () => {
+      const [firefox] = getSelectedPackages(new Set(['firefox']), 'apt', { firefox: '128.0' });
+      expect(getPinnedPackage('apt', firefox)).toBe('firefox=128.0');
+      expect(getPinnedPackage('dnf', firefox)).toBe('firefox-128.0');
+      expect(getPinnedPackage('zypper', firefox)).toBe('firefox=128.0');
+      expect(getPinnedPackage('scoop', firefox)).toBe('firefox@128.0');
+      expect(getPinnedPackage('flatpak', firefox)).toBe('firefox//128.0');
+    });
+
+    it('leaves unpinned packages and package managers without syntax alone', () => {
+      const [git] = getSelectedPackages(new Set(['git']), 'apt');
+      expect(getPinnedPackage('apt', git)).toBe('git');
+
+      const [pinned] = getSelectedPackages(new Set(['git']), 'pacman', { git: '2.43.0' });
+      expect(getPinnedPackage('pacman', pinned)).toBe('git');
+    });
+  });
+
+  describe('getSelectedPackages', () => {
+    it('drops versions that could break out of the command', () => {
+      const packages = getSelectedPackages(selection, 'apt', { firefox: '1.0; rm -rf ~', git: '$(id)' });
+      expect(packages.every(p => p.version === undefined)).toBe(true);
+    });
+  });
+
+  describe('sanitizeVersions', () => {
+    it('keeps valid versions of known apps only', () => {
+      expect(sanitizeVersions({ firefox: '128.0', git: '', vlc: 'a b', 'not-an-app': '1.0' }))
+        .toEqual({ firefox: '128.0' });
+      expect(sanitizeVersions(['128.0'])).toEqual({});
+      expect(sanitizeVersions(null)).toEqual({});
+    });
+  });
+
+  describe('commands', () => {
+    it('pins packages in the argument for APT, DNF and Homebrew', () => {
+      expect(generateSimpleCommand(selection, 'apt', versions)).toBe('sudo apt install -y firefox=128.0 git=2.43.0');
+      expect(generateSimpleCommand(selection, 'dnf', versions)).toContain('firefox-128.0 git-2.43.0');
+      expect(generateSimpleCommand(new Set(['python']), 'homebrew', { python: '3.13' })).toBe('brew install python@3.13');
+    });
+
+    it('gives Winget and Chocolatey pinned packages a command each', () => {
+      expect(generateSimpleCommand(selection, 'winget', { firefox: '128.0' }))
+        .toContain('winget install -e --id Mozilla.Firefox --version 128.0');
+      expect(generateSimpleCommand(selection, 'chocolatey', { git: '2.43.0' }))
+        .toContain('choco install -y git --version 2.43.0');
+    });
+
+    it('installs Snap channels with --channel', () => {
+      expect(generateSimpleCommand(new Set(['vscode']), 'snap', { vscode: 'latest/beta' }))
+        .toBe('sudo snap install code --classic --channel=latest/beta');
+    });
+
+    it('pins across a fallback chain', () => {
+      const command = generateChainCommand(new Set(['firefox', 'vscode']), ['snap', 'apt'], { firefox: 'esr/stable' });
+      expect(command).toContain('--channel=esr/stable');
+    });
+  });
+
+  describe('scripts', () => {
+    it('passes pinned packages to the install function', () => {
+      expect(generateInstallScript(selection, 'apt', versions)).toContain('queue_pkg "Firefox" "firefox=128.0"');
+      expect(generateInstallScript(selection, 'flatpak', { firefox: 'beta' })).toContain('org.mozilla.firefox//beta');
+      expect(generateInstallScript(selection, 'winget', versions)).toContain('-Version "128.0"');
+    });
+
+    it('warns in the scripts of package managers that can\'t pin', () => {
+      expect(generatePinningWarnings('nix', getSelectedPackages(selection, 'nix', versions)))
+        .toBe([
+          'warn "Nix can\'t pin versions, installing the latest Firefox instead of 128.0"',
+          'warn "Nix can\'t pin versions, installing the latest Git instead of 2.43.0"',
+        ].join('\n'));
+      expect(generatePinningWarnings('apt', getSelectedPackages(selection, 'apt', versions))).toBe('');
+    });
+
+    it('pins each segment of a fallback chain script', () => {
+      const script = generateChainInstallScript(new Set(['firefox', 'vscode']), ['flatpak', 'snap'], { firefox: 'beta' });
+      expect(script).toContain('org.mozilla.firefox//beta');
+    });
+  });
+
+  describe('generateAnsiblePlaybook', () => {
+    it('pins package names and module arguments', () => {
+      expect(generateAnsiblePlaybook(selection, ['apt'], versions)).toContain('- "firefox=128.0"');
+
+      const choco = generateAnsiblePlaybook(selection, ['chocolatey'], { firefox: '128.0' });
+      expect(choco).toContain('version: "128.0"');
+      expect(choco.match(/chocolatey\.chocolatey\.win_chocolatey:/g)).toHaveLength(2);
+    });
+
+    it('lists versions it can\'t pin', () => {
+      expect(generateAnsiblePlaybook(selection, ['pacman'], versions))
+        .toContain('# Versions not pinned: Firefox 128.0, Git 2.43.0');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  buildShareUrl,
+  encodeSelection,
+  parseSharedSelection,
+  stripShareParams,
+} from '@/lib/shareLink';
+import {
+  apps,
+  packageManagers,
+  getPrimaryPackageManager,
+  isAppAvailableForPackageManager,
+} from '@/lib/data';
+
+/**
+ * Feature: share-links
+ * Property 1: Encoding then parsing a selection restores it
+ */
+describe('Feature: share-links, Property 1: Share link round-trip', () => {
+  it('restores OS, package manager and available apps', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...packageManagers),
+        fc.subarray(apps.map((app) => app.id), { maxLength: 30 }),
+        (pm, selectedIds) => {
+          const available = selectedIds.filter((id) =>
+            isAppAvailableForPackageManager(apps.find((app) => app.id === id)!, pm.id)
+          );
+          const selection = { os: pm.osId, packageManager: pm.id, apps: available };
+          const parsed = parseSharedSelection(encodeSelection(selection));
+
+          expect(parsed).not.toBeNull();
+          expect(parsed!.os).toBe(pm.osId);
+          expect(parsed!.packageManager).toBe(pm.id);
+          expect(new Set(parsed!.apps)).toEqual(new Set(available));
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('encodeSelection', () => {
+  it('joins app IDs with plain commas', () => {
+    expect(encodeSelection({ os: 'linux', packageManager: 'apt', apps: ['firefox', 'git'] }))
+      .toBe('os=linux&pm=apt&apps=firefox,git');
+  });
+
+  it('appends pinned versions of selected apps', () => {
+    expect(encodeSelection({
+      os: 'linux',
+      packageManager: 'apt',
+      apps: ['firefox', 'git'],
+      versions: { git: '1:2.43.0', vlc: '3.0' },
+    })).toBe('os=linux&pm=apt&apps=firefox,git&versions=git@1%3A2.43.0');
+  });
+});
+
+describe('buildShareUrl', () => {
+  it('replaces any existing query string and hash', () => {
+    const url = buildShareUrl('https://packmate.dev/?os=macos&x=1#top', {
+      os: 'windows',
+      packageManager: 'winget',
+      apps: ['firefox'],
+    });
+    expect(url).toBe('https://packmate.dev/?os=windows&pm=winget&apps=firefox');
+  });
+});
+
+describe('parseSharedSelection', () => {
+  it('returns null when the query string has no selection', () => {
+    expect(parseSharedSelection('')).toBeNull();
+    expect(parseSharedSelection('?utm_source=chat')).toBeNull();
+    expect(parseSharedSelection('?os=linux')).toBeNull();
+  });
+
+  it('returns null for an unknown OS', () => {
+    expect(parseSharedSelection('?os=beos&pm=apt&apps=firefox')).toBeNull();
+  });
+
+  it('falls back to the primary package manager for an invalid one', () => {
+    const parsed = parseSharedSelection('?os=linux&pm=winget&apps=firefox');
+    expect(parsed?.packageManager).toBe(getPrimaryPackageManager('linux').id);
+  });
+
+  it('drops unknown and unavailable app IDs', () => {
+    const unavailable = apps.find((app) => !isAppAvailableForPackageManager(app, 'apt'));
+    expect(unavailable).toBeDefined();
+
+    const parsed = parseSharedSelection(`?os=linux&pm=apt&apps=firefox,not-an-app,${unavailable!.id}`);
+    expect(parsed?.apps).toEqual(['firefox']);
+  });
+
+  it('accepts percent-encoded commas', () => {
+    const parsed = parseSharedSelection('?os=linux&pm=apt&apps=firefox%2Cgit');
+    expect(new Set(parsed?.apps)).toEqual(new Set(['firefox', 'git']));
+  });
+
+  it('restores pinned versions of selected apps', () => {
+    const parsed = parseSharedSelection(encodeSelection({
+      os: 'linux',
+      packageManager: 'snap',
+      apps: ['firefox'],
+      versions: { firefox: 'latest/beta' },
+    }));
+    expect(parsed?.versions).toEqual({ firefox: 'latest/beta' });
+  });
+
+  it('drops invalid versions and versions of unselected apps', () => {
+    const parsed = parseSharedSelection('?os=linux&pm=apt&apps=firefox&versions=firefox@%24(id),git@2.43,@1.0');
+    expect(parsed?.versions).toEqual({});
+  });
+});
+
+describe('stripShareParams', () => {
+  it('keeps unrelated parameters', () => {
+    expect(stripShareParams('?os=linux&pm=apt&apps=firefox&ref=docs')).toBe('?ref=docs');
+    expect(stripShareParams('?os=linux&pm=apt&apps=firefox')).toBe('');
+  });
+});
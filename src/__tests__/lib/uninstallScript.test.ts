@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { generateUninstallScript } from '@/lib/generateInstallScript';
+import { apps, type PackageManagerId } from '@/lib/data';
+import { allAppIds, allPackageManagerIds, assertScriptProperty, getOSId } from './scriptTestUtils';
+
+/**
+ * Removal command emitted by each package manager's uninstall script
+ */
+const removeCommands: Record<PackageManagerId, string> = {
+  winget: 'winget uninstall -e --id',
+  chocolatey: 'choco uninstall',
+  scoop: 'scoop uninstall',
+  homebrew: 'brew uninstall',
+  macports: 'port uninstall',
+  apt: 'sudo apt-get remove -y',
+  dnf: 'sudo dnf remove -y',
+  pacman: 'sudo pacman -Rs --noconfirm',
+  zypper: 'sudo zypper --non-interactive remove',
+  flatpak: 'flatpak uninstall -y',
+  snap: 'sudo snap remove',
+  nix: 'nix_cmd profile remove',
+};
+
+/**
+ * Feature: uninstall-scripts
+ * Property: Uninstall scripts remove every selected package that has a target
+ */
+describe('Feature: uninstall-scripts, Property: Uninstall scripts cover the selection', () => {
+  it('returns "# No packages selected" for an empty selection', () => {
+    for (const packageManagerId of allPackageManagerIds) {
+      expect(generateUninstallScript(new Set(), packageManagerId)).toBe('# No packages selected');
+    }
+  });
+
+  it('emits one removal call per package with a target for the package manager', () => {
+    assertScriptProperty((script, packageManagerId, packages) => {
+      const callPattern = getOSId(packageManagerId) === 'windows'
+        ? /^Uninstall-App -Name /gm
+        : /^remove_pkg "/gm;
+
+      return (script.match(callPattern) ?? []).length === packages.length;
+    }, [['uninstall', generateUninstallScript]]);
+  });
+
+  it('uses the package manager removal command and reuses the installed check', () => {
+    for (const packageManagerId of allPackageManagerIds) {
+      const script = generateUninstallScript(new Set(allAppIds), packageManagerId);
+      expect(script).toContain(removeCommands[packageManagerId]);
+
+      if (getOSId(packageManagerId) === 'windows') {
+        expect(script).toMatch(/if \(-not \(Test-\w+Installed /);
+        expect(script).toContain('Print-Summary');
+        expect(script).toContain('Mode: Uninstall');
+      } else {
+        expect(script).toContain('is_installed() {');
+        expect(script).toContain('show_progress $CURRENT $TOTAL "$name"');
+        expect(script).toContain('print_summary');
+        expect(script).toContain('#  Mode: Uninstall');
+        expect(script).not.toContain('install_pkg "');
+      }
+    }
+  });
+
+  it('reports packages that are not installed as skipped', () => {
+    const script = generateUninstallScript(new Set(['firefox']), 'apt');
+    expect(script).toContain('if ! is_installed "$pkg"; then');
+    expect(script).toContain('(not installed)');
+    expect(script).toContain('removed');
+  });
+
+  it('fails packages whose removal exits with an error in PowerShell scripts', () => {
+    for (const packageManagerId of allPackageManagerIds.filter((id) => getOSId(id) === 'windows')) {
+      const script = generateUninstallScript(new Set(['firefox']), packageManagerId);
+      expect(script).toContain(`$output = ${removeCommands[packageManagerId]}`);
+      expect(script).toContain('if ($LASTEXITCODE -ne 0) { throw');
+    }
+  });
+
+  it('keeps --cask packages as casks in the Homebrew uninstall script', () => {
+    const script = generateUninstallScript(new Set(['firefox', 'git']), 'homebrew');
+    expect(script).toContain('remove_pkg "Firefox" "firefox" "--cask"');
+    expect(script).toContain('remove_pkg "Git" "git" ""');
+    expect(script).toContain('brew uninstall $type "$pkg"');
+  });
+
+  it('strips the --classic flag from snap names', () => {
+    const snapApp = apps.find((app) => app.targets.snap?.includes('--classic'));
+    expect(snapApp).toBeDefined();
+
+    const script = generateUninstallScript(new Set([snapApp!.id]), 'snap');
+    expect(script).not.toMatch(/^remove_pkg .*--classic/m);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { generateInstallScript, generateUninstallScript } from '@/lib/generateInstallScript';
+import type { PackageManagerId } from '@/lib/data';
+import { allAppIds, allPackageManagerIds, getOSId } from './scriptTestUtils';
+
+/**
+ * Upgrade command emitted by each package manager's install script
+ */
+const upgradeCommands: Record<PackageManagerId, string> = {
+  winget: 'winget upgrade -e --id $PackageId',
+  chocolatey: 'choco upgrade $PackageName -y',
+  scoop: 'scoop update $PackageName',
+  homebrew: 'brew upgrade $type "${args[@]}"',
+  macports: 'port upgrade "$pkg"',
+  apt: 'sudo apt-get install --only-upgrade -y "$pkg"',
+  dnf: 'sudo dnf upgrade -y "$pkg"',
+  pacman: 'sudo pacman -S --noconfirm "$pkg"',
+  zypper: 'sudo zypper --non-interactive update "$pkg"',
+  flatpak: 'flatpak update -y',
+  snap: 'sudo snap refresh "$pkg"',
+  nix: 'nix_cmd profile upgrade "${pkg##*.}"',
+};
+
+/**
+ * Feature: upgrade-mode
+ * Property: Install scripts upgrade already-installed packages when asked to
+ */
+describe('Feature: upgrade-mode, Property: Install scripts support an upgrade switch', () => {
+  it('uses the package manager upgrade command for installed packages', () => {
+    for (const packageManagerId of allPackageManagerIds) {
+      const script = generateInstallScript(new Set(allAppIds), packageManagerId);
+      expect(script).toContain(upgradeCommands[packageManagerId]);
+
+      if (getOSId(packageManagerId) === 'windows') {
+        expect(script).toContain('[switch]$Upgrade');
+        expect(script).toContain('.PARAMETER Upgrade');
+        expect(script).toContain('if ($Upgrade) {');
+        expect(script).toContain('Invoke-Upgrade -Name $Name');
+      } else {
+        expect(script).toContain('UPGRADE=false');
+        expect(script).toContain('--upgrade) UPGRADE=true ;;');
+        expect(script).toContain('#    --upgrade');
+        expect(script).toContain('if [ "$UPGRADE" = true ]; then');
+        expect(script).toContain('upgrade_pkg "$name"');
+      }
+    }
+  });
+
+  it('reports upgraded packages in the summary', () => {
+    const bash = generateInstallScript(new Set(['firefox']), 'apt');
+    expect(bash).toContain('UPGRADED+=("$name")');
+    expect(bash).toContain('upgraded_str=", $upgraded_count upgraded"');
+
+    const powershell = generateInstallScript(new Set(['firefox']), 'winget');
+    expect(powershell).toContain('$script:Upgraded += $Name');
+    expect(powershell).toContain('$upgradedStr');
+  });
+
+  it('does not offer the upgrade switch in uninstall scripts', () => {
+    for (const packageManagerId of allPackageManagerIds) {
+      const script = generateUninstallScript(new Set(allAppIds), packageManagerId);
+      expect(script).not.toContain('upgrade_pkg');
+      expect(script).not.toContain('Invoke-Upgrade');
+      expect(script).not.toContain('$Upgrade');
+      expect(script).not.toContain('UPGRADE=');
+    }
+  });
+});
@@ -0,0 +1,82 @@
+// Bootstrap API route
+// Serves a stub that detects the OS and package managers of the machine it runs on,
+// then fetches and runs the install script of a profile for them
+
+import { NextResponse } from 'next/server';
+import { apps } from '@/lib/data';
+import { decodeProfileParam } from '@/lib/manifests';
+import { generateBootstrapScript, generatePowerShellBootstrapScript, type BootstrapShell } from '@/lib/bootstrap';
+
+/**
+ * GET /api/bootstrap
+ *
+ * Returns a POSIX shell stub for Linux and macOS (`curl -fsSL <url> | sh`) or a
+ * PowerShell stub for Windows (`irm <url> | iex`).
+ *
+ * Query parameters:
+ * - profile: A Packmate profile as base64url-encoded JSON
+ * - shell: (optional) "sh" or "powershell"; defaults to "powershell" for PowerShell's
+ *   user agent and "sh" otherwise
+ *
+ * Returns:
+ * - 200: The stub as plain text
+ * - 400: Missing or invalid profile, a profile without known apps, or an invalid shell
+ * - 500: Internal server error
+ */
+export async function GET(request: Request) {
+  try {
+    const { origin, searchParams } = new URL(request.url);
+    const profileParam = searchParams.get('profile');
+
+    if (!profileParam) {
+      return NextResponse.json(
+        { error: 'profile is required' },
+        { status: 400 }
+      );
+    }
+
+    const profile = decodeProfileParam(profileParam);
+    if (!profile.ok) {
+      return NextResponse.json(
+        { error: profile.error },
+        { status: 400 }
+      );
+    }
+
+    // The stub can't report a bad profile before it runs, so check it has apps up front
+    const knownApps = profile.manifest.apps.filter(id => apps.some(app => app.id === id));
+    if (knownApps.length === 0) {
+      return NextResponse.json(
+        { error: 'Profile has no known apps', unknownApps: profile.manifest.apps },
+        { status: 400 }
+      );
+    }
+
+    const userAgent = request.headers.get('user-agent')?.toLowerCase() ?? '';
+    const shell = (searchParams.get('shell') ?? (userAgent.includes('powershell') ? 'powershell' : 'sh')) as BootstrapShell;
+    if (shell !== 'sh' && shell !== 'powershell') {
+      return NextResponse.json(
+        { error: 'Invalid shell', shell, shells: ['sh', 'powershell'] },
+        { status: 400 }
+      );
+    }
+
+    const stub = shell === 'powershell'
+      ? generatePowerShellBootstrapScript(origin, profileParam)
+      : generateBootstrapScript(origin, profileParam);
+    return new Response(stub, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating bootstrap script:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to generate bootstrap script', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
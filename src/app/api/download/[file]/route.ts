@@ -0,0 +1,128 @@
+// Script download API route
+// Serves the install script of a selection at a stable URL, with its SHA-256 digest and
+// a detached signature made with the server's signing key (SCRIPT_SIGNING_KEY)
+
+import { createHash, createPrivateKey, createPublicKey, sign, type KeyObject } from 'crypto';
+import { NextResponse } from 'next/server';
+import { generateChainInstallScript } from '@/lib/generateInstallScript';
+import { parseScriptRequest, SIGNING_KEY_FILE_NAME } from '@/lib/scriptDownload';
+
+/**
+ * Load the signing key from SCRIPT_SIGNING_KEY
+ * The key is an Ed25519 private key in PEM format; escaped newlines ("\n") are accepted
+ * for hosts that only take single-line environment variables.
+ *
+ * @returns The private key, or null if none is configured
+ */
+function getSigningKey(): KeyObject | null {
+  const pem = process.env.SCRIPT_SIGNING_KEY;
+  if (!pem) {
+    return null;
+  }
+  return createPrivateKey(pem.replace(/\\n/g, '\n'));
+}
+
+/**
+ * Build a file response that browsers and curl -O save under its name
+ */
+function fileResponse(body: BodyInit, fileName: string, contentType: string): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * GET /api/download/[file]
+ *
+ * Serves the install script of a selection, its digest or its signature.
+ * Scripts carry their generation date, so a script and its digest match when they are
+ * fetched on the same day (UTC).
+ *
+ * Path parameters:
+ * - file: `packmate-<chain>.sh` or `packmate-<chain>.ps1` for the script, where <chain> is
+ *   the package manager IDs joined with "-" (e.g. `packmate-apt-flatpak.sh`), followed by
+ *   `.sha256` for its digest in `sha256sum` format or `.sig` for its Ed25519 signature;
+ *   `packmate.pub` for the public key that verifies signatures
+ *
+ * Query parameters:
+ * - apps: Comma-separated app IDs
+ * - versions: (optional) Comma-separated `id@version` pairs of pinned versions
+ * - scope: (optional) `user` to install for the current user only, `system` to install
+ *   system-wide; without it, each package manager's default
+ *
+ * Returns:
+ * - 200: The requested file as an attachment
+ * - 400: No known apps for the package managers
+ * - 404: Unknown file, or a signature or public key without SCRIPT_SIGNING_KEY
+ * - 500: Internal server error (e.g. an invalid signing key)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  try {
+    // Await params (Next.js 15+ async params)
+    const { file } = await params;
+
+    if (file === SIGNING_KEY_FILE_NAME) {
+      const key = getSigningKey();
+      if (!key) {
+        return NextResponse.json({ error: 'Script signing is not configured' }, { status: 404 });
+      }
+      const publicKey = createPublicKey(key).export({ type: 'spki', format: 'pem' }).toString();
+      return fileResponse(publicKey, file, 'application/x-pem-file');
+    }
+
+    const scriptRequest = parseScriptRequest(file, new URL(request.url).search);
+    if (!scriptRequest) {
+      return NextResponse.json({ error: 'Script not found' }, { status: 404 });
+    }
+
+    const { selection, kind } = scriptRequest;
+    if (selection.apps.length === 0) {
+      return NextResponse.json(
+        { error: 'No apps selected that are available for these package managers' },
+        { status: 400 }
+      );
+    }
+
+    const script = generateChainInstallScript(
+      new Set(selection.apps),
+      selection.chain,
+      selection.versions,
+      selection.scope
+    );
+    const scriptFileName = file.replace(/\.(sha256|sig)$/, '');
+
+    if (kind === 'sha256') {
+      const digest = createHash('sha256').update(script).digest('hex');
+      return fileResponse(`${digest}  ${scriptFileName}\n`, file, 'text/plain; charset=utf-8');
+    }
+
+    if (kind === 'sig') {
+      const key = getSigningKey();
+      if (!key) {
+        return NextResponse.json({ error: 'Script signing is not configured' }, { status: 404 });
+      }
+      return fileResponse(new Uint8Array(sign(null, Buffer.from(script), key)), file, 'application/octet-stream');
+    }
+
+    return fileResponse(
+      script,
+      scriptFileName,
+      scriptFileName.endsWith('.ps1') ? 'text/plain; charset=utf-8' : 'text/x-shellscript; charset=utf-8'
+    );
+  } catch (error) {
+    console.error('Error serving script download:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to serve script', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
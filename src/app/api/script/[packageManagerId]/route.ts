@@ -0,0 +1,174 @@
+// Script generation API route
+// Generates the install script or one-liner command of a selection on the server,
+// for provisioning tools that call Packmate instead of going through the UI
+
+import { NextResponse } from 'next/server';
+import {
+  apps,
+  getPackageManagerById,
+  isAppAvailableForPackageManager,
+  isPackageManagerForOS,
+  isValidVersion,
+  type AppVersions,
+  type PackageManagerId,
+} from '@/lib/data';
+import { generateChainCommand, generateChainInstallScript } from '@/lib/generateInstallScript';
+import { getScriptFileName } from '@/lib/scriptDownload';
+
+/**
+ * Output formats: the full install script or a one-liner command
+ */
+const FORMATS = ['script', 'command'] as const;
+
+type Format = typeof FORMATS[number];
+
+/**
+ * Split a comma-separated query parameter into its non-empty values
+ */
+function splitParam(value: string | null): string[] {
+  return (value ?? '').split(',').filter(Boolean);
+}
+
+/**
+ * GET /api/script/[packageManagerId]
+ *
+ * Generates the install script or command for a selection of apps.
+ *
+ * Path parameters:
+ * - packageManagerId: The package manager ID (e.g., "apt", "winget")
+ *
+ * Query parameters:
+ * - apps: Comma-separated app IDs (e.g., "git,vscode")
+ * - format: (optional) "script" (default) or "command"
+ * - fallback: (optional) Comma-separated package manager IDs of the same OS, tried in
+ *   order for apps the package manager doesn't have
+ * - versions: (optional) Comma-separated `id@version` pairs pinning selected apps
+ * - scope: (optional) "system" or "user"; without it, each package manager's default
+ *   (system-wide, except Scoop)
+ *
+ * Returns:
+ * - 200: The script as an attachment (`packmate-<chain>.sh` or `.ps1`), or the command as text
+ * - 400: Invalid parameters, with `unknownApps` and `unavailableApps` listing the app IDs
+ *        that aren't in the catalog or that no package manager of the chain has
+ * - 404: Unknown package manager
+ * - 500: Internal server error during generation
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ packageManagerId: string }> }
+) {
+  try {
+    // Await params (Next.js 15+ async params)
+    const { packageManagerId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const packageManager = getPackageManagerById(packageManagerId as PackageManagerId);
+    if (!packageManager) {
+      return NextResponse.json(
+        { error: 'Unknown package manager', packageManagerId },
+        { status: 404 }
+      );
+    }
+
+    const format = (searchParams.get('format') ?? 'script') as Format;
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format', format, formats: FORMATS },
+        { status: 400 }
+      );
+    }
+
+    // Without a scope, each package manager installs where it does by default
+    const scope = searchParams.get('scope') ?? undefined;
+    if (scope !== undefined && scope !== 'system' && scope !== 'user') {
+      return NextResponse.json(
+        { error: 'Invalid scope', scope, scopes: ['system', 'user'] },
+        { status: 400 }
+      );
+    }
+
+    // Fallbacks must be other package managers offered on an OS of the package manager
+    // (such as Nix on macOS after Homebrew, or Homebrew after Nix)
+    const osIds = [packageManager.osId, ...(packageManager.additionalOsIds ?? [])];
+    const fallback = splitParam(searchParams.get('fallback'));
+    const invalidFallback = fallback.filter(id => {
+      const fallbackManager = getPackageManagerById(id as PackageManagerId);
+      return !fallbackManager
+        || !osIds.some(osId => isPackageManagerForOS(fallbackManager, osId))
+        || id === packageManager.id;
+    });
+    if (invalidFallback.length > 0) {
+      return NextResponse.json(
+        { error: `Fallback package managers must be other ${osIds.join(' or ')} package managers`, invalidFallback },
+        { status: 400 }
+      );
+    }
+    const chain = [packageManager.id, ...new Set(fallback as PackageManagerId[])];
+
+    const appIds = [...new Set(splitParam(searchParams.get('apps')))];
+    if (appIds.length === 0) {
+      return NextResponse.json(
+        { error: 'apps is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate app IDs against the catalog and the chain
+    const unknownApps = appIds.filter(id => !apps.some(app => app.id === id));
+    const unavailableApps = appIds.filter(id => {
+      const app = apps.find(a => a.id === id);
+      return app && !chain.some(pmId => isAppAvailableForPackageManager(app, pmId));
+    });
+    if (unknownApps.length > 0 || unavailableApps.length > 0) {
+      return NextResponse.json(
+        { error: 'Some apps are unknown or unavailable for this package manager', unknownApps, unavailableApps },
+        { status: 400 }
+      );
+    }
+
+    const versions: AppVersions = {};
+    const invalidVersions: string[] = [];
+    splitParam(searchParams.get('versions')).forEach(pair => {
+      const at = pair.indexOf('@');
+      const id = pair.slice(0, at);
+      const version = pair.slice(at + 1);
+      if (at > 0 && appIds.includes(id) && isValidVersion(version)) {
+        versions[id] = version;
+      } else {
+        invalidVersions.push(pair);
+      }
+    });
+    if (invalidVersions.length > 0) {
+      return NextResponse.json(
+        { error: 'Versions must be id@version pairs of selected apps', invalidVersions },
+        { status: 400 }
+      );
+    }
+
+    const selectedAppIds = new Set(appIds);
+
+    if (format === 'command') {
+      return new Response(generateChainCommand(selectedAppIds, chain, versions, scope), {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+
+    const fileName = getScriptFileName(chain);
+    return new Response(generateChainInstallScript(selectedAppIds, chain, versions, scope), {
+      headers: {
+        'Content-Type': packageManager.osId === 'windows'
+          ? 'text/plain; charset=utf-8'
+          : 'text/x-shellscript; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating script:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to generate script', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@
 // Triggers package verification for a specific app and package manager
 
 import { NextResponse } from 'next/server';
-import { apps, type PackageManagerId } from '@/lib/data';
+import { apps, getPackageTarget, type PackageManagerId } from '@/lib/data';
 import { VerificationService } from '@/lib/verification/service';
 import { getMongoClient } from '@/lib/db/mongodb';
 
@@ -91,8 +91,8 @@ export async function POST(
       );
     }
 
-    // Get the package name for the specified package manager
-    const packageName = app.targets[packageManagerId];
+    // Get the package name for the specified package manager (AUR for pacman)
+    const packageName = getPackageTarget(app, packageManagerId);
     
     if (!packageName) {
       return NextResponse.json(
@@ -15,6 +15,8 @@ import { CommandFooter } from '@/components/command';
 import { HowItWorks, GitHubLink, ContributeLink, type HowItWorksRef } from '@/components/header';
 import { CategorySection } from '@/components/app';
 import { SearchEmptyState } from '@/components/search';
+import { SharedSelectionPrompt } from '@/components/share';
+import { ManifestActions } from '@/components/manifest';
 import { Tooltip, LoadingSkeleton } from '@/components/common';
 import { categories, Category } from '@/lib/data';
 import { packCategories } from '@/lib/utils';
@@ -27,10 +29,17 @@ function HomeContent() {
     setSelectedOS,
     selectedPackageManager,
     setSelectedPackageManager,
+    fallbackPackageManagers,
+    setFallbackPackageManagers,
+    installScope,
+    setInstallScope,
     selectedApps,
     toggleApp,
+    replaceSelectedApps,
     isAppAvailable,
     selectedCount,
+    appVersions,
+    setAppVersion,
     isHydrated,
     clearAll,
     // Search state from hook - Smart Search Requirements 1.1, 5.1, 5.2
@@ -39,6 +48,10 @@ function HomeContent() {
     filteredCategories,
     getFilteredAppsByCategoryFn,
     hasSearchResults,
+    // Share link hydration
+    pendingSharedSelection,
+    acceptSharedSelection,
+    dismissSharedSelection,
   } = usePackmateInit();
 
   const { tooltip, show: showTooltip, hide: hideTooltip, tooltipMouseEnter, tooltipMouseLeave, setTooltipRef } = useTooltip();
@@ -220,11 +233,21 @@ function HomeContent() {
               <ContributeLink />
               <GitHubLink />
               <div className="h-6 w-px bg-(--border-primary)" />
+              <ManifestActions
+                selectedApps={selectedApps}
+                packageManagerId={selectedPackageManager}
+                onImport={replaceSelectedApps}
+              />
+              <div className="h-6 w-px bg-(--border-primary)" />
               <OSSelector selectedOS={selectedOS} onSelect={setSelectedOS} />
               <PackageManagerSelector 
                 selectedOS={selectedOS}
                 selectedPackageManager={selectedPackageManager}
                 onSelect={setSelectedPackageManager}
+                fallbackPackageManagers={fallbackPackageManagers}
+                onFallbacksChange={setFallbackPackageManagers}
+                installScope={installScope}
+                onInstallScopeChange={setInstallScope}
               />
               <ThemeToggle />
             </div>
@@ -310,8 +333,13 @@ function HomeContent() {
 
       {/* Command Footer - Requirement 6.1: Appears when apps are selected */}
       <CommandFooter
+        selectedOS={selectedOS}
         selectedApps={selectedApps}
         packageManagerId={selectedPackageManager}
+        fallbackPackageManagers={fallbackPackageManagers}
+        appVersions={appVersions}
+        onAppVersionChange={setAppVersion}
+        installScope={installScope}
         selectedCount={selectedCount}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
@@ -319,6 +347,14 @@ function HomeContent() {
         clearAll={clearAll}
       />
 
+      {/* Confirm before a share link replaces the current selection */}
+      <SharedSelectionPrompt
+        sharedSelection={pendingSharedSelection}
+        localCount={selectedCount}
+        onAccept={acceptSharedSelection}
+        onDismiss={dismissSharedSelection}
+      />
+
       {/* Tooltip */}
       <Tooltip
         tooltip={tooltip}
@@ -1,12 +1,18 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { Check, Copy, Download, Eye, Trash2 } from 'lucide-react';
-import { generateSimpleCommand, generateInstallScript } from '@/lib/generateInstallScript';
-import { getPackageManagerById, type PackageManagerId } from '@/lib/data';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Copy, Download, Eye, FileCog, Link2, PackageMinus, Pin, ShieldCheck, Trash2 } from 'lucide-react';
+import { generateChainCommand, generateChainInstallScript, generateChainUninstallScripts } from '@/lib/generateInstallScript';
+import { ANSIBLE_PLAYBOOK_FILE_NAME, generateAnsiblePlaybook } from '@/lib/scripts';
+import { getPackageManagerById, type AppVersions, type InstallScope, type OSId, type PackageManagerId } from '@/lib/data';
+import { buildShareUrl } from '@/lib/shareLink';
+import { generateVerifiedDownloadCommand } from '@/lib/scriptDownload';
+import { downloadTextFile } from '@/lib/utils';
 import { useTheme } from '@/hooks/useTheme';
+import { FooterButton } from './FooterButton';
 import { ShortcutsBar } from './ShortcutsBar';
 import { TerminalPreviewModal } from './TerminalPreviewModal';
+import { VersionPinningModal } from './VersionPinningModal';
 
 /**
  * CommandFooter Component
@@ -21,13 +27,27 @@ import { TerminalPreviewModal } from './TerminalPreviewModal';
  * - 6.2: Display generated one-liner command in code block
  * - 6.3: Provide "Copy" button that copies to clipboard
  * - 6.4: Provide "Download" button that downloads full script
+ *        (plus an "Uninstall" button that downloads the matching removal script)
+ *        With fallback package managers set, the command and script cover the whole chain,
+ *        and there is an uninstall script for each package manager of the chain.
+ *        An "Ansible" button downloads the same selection as an Ansible playbook.
+ *        A "Versions" button pins selected apps to a version, used by all of the above.
+ *        The command and scripts install for the current user when the install scope is 'user'.
  * - 6.5: Show visual feedback when copy succeeds
+ *        (also used by the "Share" button that copies a link to the current selection,
+ *        and the "Verify" button that copies a one-liner downloading the script from the
+ *        server and running it only if it matches its SHA-256 digest)
  * - 6.7: Hide footer or show placeholder when no apps selected
  */
 
 interface CommandFooterProps {
+  selectedOS: OSId;
   selectedApps: Set<string>;
   packageManagerId: PackageManagerId;
+  fallbackPackageManagers?: PackageManagerId[];
+  appVersions?: AppVersions;
+  onAppVersionChange?: (id: string, version: string) => void;
+  installScope?: InstallScope;
   selectedCount: number;
   searchQuery: string;
   onSearchChange: (query: string) => void;
@@ -36,8 +56,13 @@ interface CommandFooterProps {
 }
 
 export function CommandFooter({
+  selectedOS,
   selectedApps,
   packageManagerId,
+  fallbackPackageManagers = [],
+  appVersions = {},
+  onAppVersionChange = () => {},
+  installScope,
   selectedCount,
   searchQuery,
   onSearchChange,
@@ -45,8 +70,11 @@ export function CommandFooter({
   clearAll,
 }: CommandFooterProps) {
   const [copied, setCopied] = useState(false);
+  const [shareCopied, setShareCopied] = useState(false);
+  const [verifyCopied, setVerifyCopied] = useState(false);
   const [hasEverHadSelection, setHasEverHadSelection] = useState(false);
   const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
+  const [isVersionModalOpen, setIsVersionModalOpen] = useState(false);
   const initialCountRef = useRef(selectedCount);
 
   // Get package manager details for styling
@@ -54,8 +82,15 @@ export function CommandFooter({
   const pmColor = packageManager?.color || 'var(--accent)';
   const pmName = packageManager?.name || packageManagerId;
 
+  // Selected package manager followed by its fallbacks
+  const chain = useMemo(
+    () => [packageManagerId, ...fallbackPackageManagers.filter(id => id !== packageManagerId)],
+    [packageManagerId, fallbackPackageManagers]
+  );
+
   // Generate the command
-  const command = generateSimpleCommand(selectedApps, packageManagerId);
+  const command = generateChainCommand(selectedApps, chain, appVersions, installScope);
+  const pinnedCount = [...selectedApps].filter(id => appVersions[id]).length;
 
   // Track if user has actually interacted - hide the bar until then
   // Otherwise it just sits there looking sad with "No apps selected"
@@ -83,25 +118,75 @@ export function CommandFooter({
     }
   }, [command, selectedCount]);
 
+  // Handle copy of a share link for the current selection
+  const handleCopyShareLink = useCallback(async () => {
+    if (selectedCount === 0) return;
+
+    const url = buildShareUrl(window.location.href, {
+      os: selectedOS,
+      packageManager: packageManagerId,
+      apps: [...selectedApps],
+      versions: appVersions,
+    });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 3000);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  }, [selectedCount, selectedOS, packageManagerId, selectedApps, appVersions]);
+
+  // Handle copy of a one-liner that downloads, checks and runs the script
+  const handleCopyVerifiedCommand = useCallback(async () => {
+    if (selectedCount === 0) return;
+
+    const verifiedCommand = generateVerifiedDownloadCommand(window.location.origin, {
+      chain,
+      apps: [...selectedApps],
+      versions: appVersions,
+      scope: installScope,
+    }, selectedOS);
+
+    try {
+      await navigator.clipboard.writeText(verifiedCommand);
+      setVerifyCopied(true);
+      setTimeout(() => setVerifyCopied(false), 3000);
+    } catch (error) {
+      console.error('Failed to copy verified download command:', error);
+    }
+  }, [selectedCount, chain, selectedApps, appVersions, installScope, selectedOS]);
+
+  // Determine file extension and MIME type based on package manager
+  const isWindows = packageManager?.osId === 'windows';
+  const ext = isWindows ? 'ps1' : 'sh';
+  const mimeType = isWindows ? 'text/plain' : 'text/x-shellscript';
+
   // Handle download script - Requirement 6.4
   const handleDownload = useCallback(() => {
     if (selectedCount === 0) return;
 
-    const script = generateInstallScript(selectedApps, packageManagerId);
-    
-    // Determine file extension and MIME type based on package manager
-    const isWindows = ['winget', 'chocolatey', 'scoop'].includes(packageManagerId);
-    const ext = isWindows ? 'ps1' : 'sh';
-    const mimeType = isWindows ? 'text/plain' : 'text/x-shellscript';
-    
-    const blob = new Blob([script], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `packmate-${packageManagerId}.${ext}`;
-    a.click();
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
-  }, [selectedCount, selectedApps, packageManagerId]);
+    const script = generateChainInstallScript(selectedApps, chain, appVersions, installScope);
+    downloadTextFile(script, `packmate-${chain.join('-')}.${ext}`, mimeType);
+  }, [selectedCount, selectedApps, chain, appVersions, installScope, ext, mimeType]);
+
+  // Handle download of the matching uninstall scripts, one per package manager of the chain
+  const handleDownloadUninstall = useCallback(() => {
+    if (selectedCount === 0) return;
+
+    for (const { packageManagerId: id, script } of generateChainUninstallScripts(selectedApps, chain)) {
+      downloadTextFile(script, `packmate-${id}-uninstall.${ext}`, mimeType);
+    }
+  }, [selectedCount, selectedApps, chain, ext, mimeType]);
+
+  // Handle download of the selection as an Ansible playbook
+  const handleDownloadPlaybook = useCallback(() => {
+    if (selectedCount === 0) return;
+
+    const playbook = generateAnsiblePlaybook(selectedApps, chain, appVersions);
+    downloadTextFile(playbook, ANSIBLE_PLAYBOOK_FILE_NAME, 'text/yaml');
+  }, [selectedCount, selectedApps, chain, appVersions]);
 
   // Handle clear all - Requirement 3.3
   const handleClearAll = useCallback(() => {
@@ -239,29 +324,15 @@ export function CommandFooter({
             <div className="bg-(--bg-tertiary) font-mono text-xs overflow-hidden">
               <div className="flex items-stretch">
                 {/* Requirement 3.2: Preview button */}
-                <button
+                <FooterButton
                   onClick={handleTogglePreviewModal}
                   disabled={selectedCount === 0}
-                  className={`flex items-center gap-2 px-4 py-3 border-r border-(--border-primary)/20 transition-all duration-150 font-sans text-sm ${
-                    selectedCount > 0
-                      ? 'text-(--text-secondary) hover:text-foreground active:scale-[0.97]'
-                      : 'text-(--text-muted) opacity-50 cursor-not-allowed'
-                  }`}
                   title="Preview Script (Tab)"
-                  onMouseEnter={(e) => {
-                    if (selectedCount > 0) {
-                      e.currentTarget.style.backgroundColor = `color-mix(in srgb, ${pmColor}, transparent 95%)`;
-                    }
-                  }}
-                  onMouseLeave={(e) => {
-                    if (selectedCount > 0) {
-                      e.currentTarget.style.backgroundColor = '';
-                    }
-                  }}
-                >
-                  <Eye className="w-4 h-4 shrink-0 opacity-70" />
-                  <span className="hidden sm:inline whitespace-nowrap">Preview</span>
-                </button>
+                  icon={Eye}
+                  label="Preview"
+                  color={pmColor}
+                  border="right"
+                />
 
                 {/* Command summary - Requirement 2.1, 2.2: Clickable summary showing minified command without horizontal scrollbar */}
                 <button
@@ -303,62 +374,79 @@ export function CommandFooter({
                 </button>
 
                 {/* Download button - Requirement 6.4 */}
-                <button
+                <FooterButton
                   onClick={handleDownload}
                   disabled={selectedCount === 0}
-                  className={`flex items-center gap-2 px-4 py-3 border-l border-(--border-primary)/20 transition-all duration-150 font-sans text-sm ${
-                    selectedCount > 0
-                      ? 'text-(--text-secondary) hover:text-foreground active:scale-[0.97]'
-                      : 'text-(--text-muted) opacity-50 cursor-not-allowed'
-                  }`}
                   title="Download Script (d)"
-                  onMouseEnter={(e) => {
-                    if (selectedCount > 0) {
-                      e.currentTarget.style.backgroundColor = `color-mix(in srgb, ${pmColor}, transparent 95%)`;
-                    }
-                  }}
-                  onMouseLeave={(e) => {
-                    if (selectedCount > 0) {
-                      e.currentTarget.style.backgroundColor = '';
-                    }
-                  }}
-                >
-                  <Download className="w-4 h-4 shrink-0 opacity-70" />
-                  <span className="hidden sm:inline whitespace-nowrap">Download</span>
-                </button>
+                  icon={Download}
+                  label="Download"
+                  color={pmColor}
+                />
+
+                {/* Uninstall script download button */}
+                <FooterButton
+                  onClick={handleDownloadUninstall}
+                  disabled={selectedCount === 0}
+                  title="Download Uninstall Script"
+                  icon={PackageMinus}
+                  label="Uninstall"
+                  color={pmColor}
+                />
+
+                {/* Version pinning button */}
+                <FooterButton
+                  onClick={() => setIsVersionModalOpen(true)}
+                  disabled={selectedCount === 0}
+                  title="Pin Versions"
+                  icon={Pin}
+                  label={pinnedCount > 0 ? `Versions (${pinnedCount})` : 'Versions'}
+                  color={pmColor}
+                />
+
+                {/* Ansible playbook download button */}
+                <FooterButton
+                  onClick={handleDownloadPlaybook}
+                  disabled={selectedCount === 0}
+                  title="Download Ansible Playbook"
+                  icon={FileCog}
+                  label="Ansible"
+                  color={pmColor}
+                />
+
+                {/* Share link button */}
+                <FooterButton
+                  onClick={handleCopyShareLink}
+                  disabled={selectedCount === 0}
+                  title="Copy share link"
+                  icon={Link2}
+                  label={shareCopied ? 'Link copied!' : 'Share'}
+                  color={pmColor}
+                  done={shareCopied}
+                />
+
+                {/* Verified download one-liner button */}
+                <FooterButton
+                  onClick={handleCopyVerifiedCommand}
+                  disabled={selectedCount === 0}
+                  title={isWindows
+                    ? 'Copy a command that checks the script with Get-FileHash before running it'
+                    : 'Copy a command that checks the script against its SHA-256 digest before running it'}
+                  icon={ShieldCheck}
+                  label={verifyCopied ? 'Copied!' : 'Verify'}
+                  color={pmColor}
+                  done={verifyCopied}
+                />
 
                 {/* Copy button - Requirements 6.3, 6.5 */}
-                <button
+                <FooterButton
                   onClick={handleCopy}
                   disabled={selectedCount === 0}
-                  className={`flex items-center gap-2 px-4 py-3 border-l border-(--border-primary)/20 transition-all duration-150 font-sans text-sm ${
-                    selectedCount > 0
-                      ? (copied
-                        ? 'text-emerald-400 font-medium'
-                        : 'text-(--text-secondary) hover:text-foreground active:scale-[0.97]')
-                      : 'text-(--text-muted) opacity-50 cursor-not-allowed'
-                  }`}
                   title="Copy Command (y)"
-                  onMouseEnter={(e) => {
-                    if (selectedCount > 0 && !copied) {
-                      e.currentTarget.style.backgroundColor = `color-mix(in srgb, ${pmColor}, transparent 95%)`;
-                    }
-                  }}
-                  onMouseLeave={(e) => {
-                    if (selectedCount > 0 && !copied) {
-                      e.currentTarget.style.backgroundColor = '';
-                    }
-                  }}
-                >
-                  {copied ? (
-                    <Check className="w-4 h-4 shrink-0" />
-                  ) : (
-                    <Copy className="w-4 h-4 shrink-0 opacity-70" />
-                  )}
-                  <span className="hidden sm:inline whitespace-nowrap">
-                    {copied ? 'Copied!' : 'Copy'}
-                  </span>
-                </button>
+                  icon={Copy}
+                  label={copied ? 'Copied!' : 'Copy'}
+                  color={pmColor}
+                  done={copied}
+                />
               </div>
             </div>
           </div>
@@ -371,8 +459,20 @@ export function CommandFooter({
         onClose={handleClosePreviewModal}
         selectedApps={selectedApps}
         packageManagerId={packageManagerId}
+        fallbackPackageManagers={fallbackPackageManagers}
+        appVersions={appVersions}
+        installScope={installScope}
         selectedCount={selectedCount}
       />
+
+      <VersionPinningModal
+        isOpen={isVersionModalOpen}
+        onClose={() => setIsVersionModalOpen(false)}
+        selectedApps={selectedApps}
+        chain={chain}
+        appVersions={appVersions}
+        onChange={onAppVersionChange}
+      />
     </>
   );
 }
@@ -0,0 +1,66 @@
+'use client';
+
+import { Check, type LucideIcon } from 'lucide-react';
+
+/**
+ * FooterButton Component
+ *
+ * An action button of the command bar, tinted with the package manager color on hover.
+ * Buttons that copy something show a check mark while `done` is set.
+ */
+
+interface FooterButtonProps {
+  onClick: () => void;
+  disabled: boolean;
+  title?: string;
+  icon: LucideIcon;
+  label: React.ReactNode;
+  /** Package manager color used for the hover background */
+  color: string;
+  /** Shows the button as done (e.g. "Copied!") until the caller resets it */
+  done?: boolean;
+  /** Side of the divider to the neighbouring button */
+  border?: 'left' | 'right';
+}
+
+export function FooterButton({
+  onClick,
+  disabled,
+  title,
+  icon,
+  label,
+  color,
+  done = false,
+  border = 'left',
+}: FooterButtonProps) {
+  const Icon = done ? Check : icon;
+  const isHoverable = !disabled && !done;
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`flex items-center gap-2 px-4 py-3 ${border === 'left' ? 'border-l' : 'border-r'} border-(--border-primary)/20 transition-all duration-150 font-sans text-sm ${
+        !disabled
+          ? (done
+            ? 'text-emerald-400 font-medium'
+            : 'text-(--text-secondary) hover:text-foreground active:scale-[0.97]')
+          : 'text-(--text-muted) opacity-50 cursor-not-allowed'
+      }`}
+      title={title}
+      onMouseEnter={(e) => {
+        if (isHoverable) {
+          e.currentTarget.style.backgroundColor = `color-mix(in srgb, ${color}, transparent 95%)`;
+        }
+      }}
+      onMouseLeave={(e) => {
+        if (isHoverable) {
+          e.currentTarget.style.backgroundColor = '';
+        }
+      }}
+    >
+      <Icon className={done ? 'w-4 h-4 shrink-0' : 'w-4 h-4 shrink-0 opacity-70'} />
+      <span className="hidden sm:inline whitespace-nowrap">{label}</span>
+    </button>
+  );
+}
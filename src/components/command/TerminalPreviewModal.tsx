@@ -1,15 +1,18 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Check, Copy, Download } from 'lucide-react';
 import { Modal } from '@/components/common/Modal';
-import { generateInstallScript } from '@/lib/generateInstallScript';
-import { getPackageManagerById, type PackageManagerId } from '@/lib/data';
+import { generateChainInstallScript } from '@/lib/generateInstallScript';
+import { getPackageManagerById, type AppVersions, type InstallScope, type PackageManagerId } from '@/lib/data';
+import { resolveFallbackChain } from '@/lib/scripts';
+import { downloadTextFile } from '@/lib/utils';
 
 /**
  * TerminalPreviewModal Component
  * 
- * Displays the full installation script in a modal with syntax highlighting.
+ * Displays the full installation script in a modal with syntax highlighting,
+ * with the post-install steps of the selected apps listed above it.
  * Supports keyboard shortcuts for copy (y), download (d), and close (Escape).
  * 
  * **Validates: Requirements 2.3, 2.4, 2.5, 2.6, 2.7**
@@ -24,6 +27,12 @@ export interface TerminalPreviewModalProps {
   selectedApps: Set<string>;
   /** The selected package manager ID */
   packageManagerId: PackageManagerId;
+  /** Package managers tried in order for apps the selected one doesn't have */
+  fallbackPackageManagers?: PackageManagerId[];
+  /** Pinned versions by app ID */
+  appVersions?: AppVersions;
+  /** Whether apps are installed system-wide or for the current user */
+  installScope?: InstallScope;
   /** Number of selected apps */
   selectedCount: number;
 }
@@ -33,6 +42,9 @@ export function TerminalPreviewModal({
   onClose,
   selectedApps,
   packageManagerId,
+  fallbackPackageManagers = [],
+  appVersions = {},
+  installScope,
   selectedCount,
 }: TerminalPreviewModalProps): React.ReactElement {
   const [copied, setCopied] = useState(false);
@@ -40,10 +52,22 @@ export function TerminalPreviewModal({
   // Get package manager details for styling
   const packageManager = getPackageManagerById(packageManagerId);
   const pmColor = packageManager?.color || 'var(--accent)';
-  const pmName = packageManager?.name || packageManagerId;
+  const chain = useMemo(
+    () => [packageManagerId, ...fallbackPackageManagers.filter(id => id !== packageManagerId)],
+    [packageManagerId, fallbackPackageManagers]
+  );
+  const pmName = chain.map(id => getPackageManagerById(id)?.name || id).join(' → ');
+
+  // Generate the full script (one combined script when fallbacks are set)
+  const script = generateChainInstallScript(selectedApps, chain, appVersions, installScope);
 
-  // Generate the full script
-  const script = generateInstallScript(selectedApps, packageManagerId);
+  // Post-install steps the script runs for the apps it installs
+  const postInstallSteps = useMemo(
+    () => resolveFallbackChain(selectedApps, chain, appVersions, installScope).segments
+      .flatMap(({ packages }) => packages)
+      .flatMap(({ app, postInstall = [] }) => postInstall.map(step => ({ app, step }))),
+    [selectedApps, chain, appVersions, installScope]
+  );
 
   // Determine if this is a Windows package manager (PowerShell)
   const isWindows = ['winget', 'chocolatey', 'scoop'].includes(packageManagerId);
@@ -71,13 +95,7 @@ export function TerminalPreviewModal({
     const ext = isWindows ? 'ps1' : 'sh';
     const mimeType = isWindows ? 'text/plain' : 'text/x-shellscript';
     
-    const blob = new Blob([script], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `packmate-${packageManagerId}.${ext}`;
-    a.click();
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    downloadTextFile(script, `packmate-${packageManagerId}.${ext}`, mimeType);
   }, [script, packageManagerId, isWindows]);
 
   /**
@@ -192,6 +210,24 @@ export function TerminalPreviewModal({
         className="p-4 overflow-y-auto bg-[var(--bg-primary)]/50" 
         style={{ maxHeight: 'calc(80vh - 120px)' }}
       >
+        {/* Post-install steps */}
+        {postInstallSteps.length > 0 && (
+          <section className="mb-4 px-4 py-3 rounded-lg border border-[var(--border-color)] bg-[var(--bg-secondary)]">
+            <h3 className="text-sm font-medium text-[var(--text-primary)]">Post-install steps</h3>
+            <p className="text-xs text-[var(--text-muted)] mt-0.5">
+              Run after installing, only for apps the script installs
+            </p>
+            <ul className="mt-2 flex flex-col gap-2">
+              {postInstallSteps.map(({ app, step }, index) => (
+                <li key={`${app.id}-${index}`} className="text-sm text-[var(--text-secondary)]">
+                  <span className="font-medium text-[var(--text-primary)]">{app.name}</span>: {step.description}
+                  <code className="block mt-0.5 font-mono text-xs text-[var(--text-muted)]">{step.command.join(' ')}</code>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {/* Script code block with syntax highlighting */}
         <div className="bg-[var(--bg-secondary)] rounded-lg border border-[var(--border-color)] overflow-hidden shadow-sm">
           {/* Code block header */}
@@ -313,9 +349,12 @@ function highlightLine(line: string, isWindows: boolean): React.ReactNode {
   // Build highlighted line
   let lastEnd = 0;
   for (const m of matches) {
+    // Skip matches that overlap an earlier one (a string inside ${VAR+"..."})
+    if (m.start < lastEnd) continue;
+
     // Add text before this match
     if (m.start > lastEnd) {
-      parts.push(<span key={keyIndex++}>{line.slice(lastEnd, m.start)}</span>);
+      parts.push(line.slice(lastEnd, m.start));
     }
     
     // Add highlighted match
@@ -336,7 +375,7 @@ function highlightLine(line: string, isWindows: boolean): React.ReactNode {
   
   // Add remaining text
   if (lastEnd < line.length) {
-    parts.push(<span key={keyIndex++}>{line.slice(lastEnd)}</span>);
+    parts.push(line.slice(lastEnd));
   }
   
   return parts.length > 0 ? parts : line;
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { PackageManagerIcon } from '@/components/packageManager/PackageManagerIcon';
+import {
+  getPackageManagerById,
+  isValidVersion,
+  type AppVersions,
+  type PackageManagerId,
+} from '@/lib/data';
+import { resolveFallbackChain, supportsVersionPinning } from '@/lib/scripts';
+
+/**
+ * VersionPinningModal component props interface
+ */
+export interface VersionPinningModalProps {
+  /** Whether the modal is currently open */
+  isOpen: boolean;
+  /** Callback function to close the modal */
+  onClose: () => void;
+  /** Set of selected app IDs */
+  selectedApps: Set<string>;
+  /** Package managers in order of preference */
+  chain: PackageManagerId[];
+  /** Pinned versions by app ID */
+  appVersions: AppVersions;
+  /** Callback function when an app is pinned, or unpinned with an empty version */
+  onChange: (id: string, version: string) => void;
+}
+
+/**
+ * Input placeholder per kind of pin
+ */
+const PLACEHOLDERS = {
+  version: 'Latest version',
+  channel: 'Channel, e.g. latest/beta',
+  branch: 'Branch, e.g. beta',
+} as const;
+
+/**
+ * VersionPinningModal - Modal for pinning selected apps to a version
+ *
+ * Features:
+ * - One input per selected app, grouped under the package manager that installs it
+ * - Snap pins a channel and Flatpak a branch instead of a version
+ * - Package managers that can't pin are flagged, their scripts install the latest version
+ */
+export function VersionPinningModal({
+  isOpen,
+  onClose,
+  selectedApps,
+  chain,
+  appVersions,
+  onChange,
+}: VersionPinningModalProps): React.ReactElement {
+  // Inputs that don't hold a valid version yet, by app ID
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { segments } = useMemo(() => resolveFallbackChain(selectedApps, chain), [selectedApps, chain]);
+
+  const handleChange = (id: string, value: string) => {
+    const trimmed = value.trim();
+    if (trimmed === '' || isValidVersion(trimmed)) {
+      setDrafts(({ [id]: _draft, ...rest }) => rest);
+      onChange(id, trimmed);
+    } else {
+      setDrafts(prev => ({ ...prev, [id]: value }));
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Pin Versions"
+      maxWidth="max-w-md"
+    >
+      <div className="p-4 flex flex-col gap-4">
+        <p className="text-xs text-[var(--text-muted)]">
+          Leave a field empty to install the latest version.
+        </p>
+
+        {segments.map(({ packageManagerId, packages }) => {
+          const pm = getPackageManagerById(packageManagerId);
+          if (!pm) return null;
+          const canPin = supportsVersionPinning(packageManagerId);
+
+          return (
+            <section key={packageManagerId} className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <PackageManagerIcon iconUrl={pm.iconUrl} name={pm.name} size={18} />
+                <h3 className="text-sm font-medium text-[var(--text-primary)]">{pm.name}</h3>
+              </div>
+
+              {!canPin && (
+                <p className="flex items-center gap-1.5 text-xs text-amber-500">
+                  <AlertTriangle size={12} className="flex-shrink-0" />
+                  {pm.name} can&apos;t pin versions, the script warns and installs the latest ones.
+                </p>
+              )}
+
+              {packages.map(({ app }) => {
+                const value = drafts[app.id] ?? appVersions[app.id] ?? '';
+                const isInvalid = app.id in drafts;
+
+                return (
+                  <label key={app.id} className="flex items-center gap-3">
+                    <span className="text-sm flex-1 truncate text-[var(--text-secondary)]">{app.name}</span>
+                    <input
+                      type="text"
+                      value={value}
+                      onChange={e => handleChange(app.id, e.target.value)}
+                      placeholder={pm.versionPinning ? PLACEHOLDERS[pm.versionPinning] : 'Not supported'}
+                      disabled={!canPin && !value}
+                      spellCheck={false}
+                      aria-invalid={isInvalid}
+                      aria-label={`${app.name} version`}
+                      className={`
+                        w-44 px-2 py-1 rounded font-mono text-xs
+                        bg-[var(--bg-secondary)] text-[var(--text-primary)]
+                        border ${isInvalid ? 'border-red-400' : 'border-[var(--border-primary)]'}
+                        disabled:opacity-50 focus:outline-none focus:border-[var(--accent-color)]
+                      `}
+                    />
+                  </label>
+                );
+              })}
+            </section>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
@@ -1,5 +1,8 @@
 // Command components barrel export
 export { CommandFooter } from './CommandFooter';
+export { FooterButton } from './FooterButton';
 export { ShortcutsBar } from './ShortcutsBar';
 export { TerminalPreviewModal } from './TerminalPreviewModal';
 export type { TerminalPreviewModalProps } from './TerminalPreviewModal';
+export { VersionPinningModal } from './VersionPinningModal';
+export type { VersionPinningModalProps } from './VersionPinningModal';
@@ -0,0 +1,114 @@
+'use client';
+
+import { AlertTriangle, Check } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import type { ImportResult } from '@/lib/manifests';
+
+/**
+ * ImportReviewModal component props interface
+ */
+export interface ImportReviewModalProps {
+  /** Whether the modal is currently open */
+  isOpen: boolean;
+  /** Callback function to close the modal without importing */
+  onClose: () => void;
+  /** Callback function to replace the selection with the imported apps */
+  onConfirm: () => void;
+  /** Name of the imported file */
+  fileName: string;
+  /** Name of the package manager the import was resolved for */
+  packageManagerName: string;
+  /** Whether importing switches to that package manager */
+  switchesPackageManager?: boolean;
+  /** Import result, or null when the file could not be parsed */
+  result: ImportResult | null;
+  /** Parse error shown when the file could not be read */
+  error?: string;
+}
+
+/**
+ * ImportReviewModal - Shows what an imported manifest will select before applying it
+ *
+ * Unknown entries and apps without a target for the current package manager
+ * are listed so nothing is dropped silently.
+ */
+export function ImportReviewModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  fileName,
+  packageManagerName,
+  switchesPackageManager = false,
+  result,
+  error,
+}: ImportReviewModalProps): React.ReactElement {
+  const selectableCount = result?.appIds.length ?? 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Import ${fileName}`}
+      maxWidth="max-w-lg"
+    >
+      <div className="p-6 flex flex-col gap-4 text-sm">
+        {error || !result ? (
+          <p className="flex items-start gap-2 text-red-400">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span>{error ?? 'Could not read this file.'}</span>
+          </p>
+        ) : (
+          <>
+            <p className="flex items-start gap-2 text-(--text-secondary)">
+              <Check size={16} className="shrink-0 mt-0.5 text-emerald-400" />
+              <span>
+                {selectableCount} {selectableCount === 1 ? 'app' : 'apps'} will be selected for {packageManagerName}.
+                This replaces your current selection{switchesPackageManager ? ` and switches to ${packageManagerName}` : ''}.
+              </span>
+            </p>
+
+            {result.unavailable.length > 0 && (
+              <div>
+                <p className="text-(--text-secondary) mb-1">
+                  Not available for {packageManagerName} ({result.unavailable.length}):
+                </p>
+                <p className="text-(--text-muted)">
+                  {result.unavailable.map(app => app.name).join(', ')}
+                </p>
+              </div>
+            )}
+
+            {result.unknown.length > 0 && (
+              <div>
+                <p className="text-(--text-secondary) mb-1">
+                  Not in the Packmate catalog ({result.unknown.length}):
+                </p>
+                <p className="text-(--text-muted) font-mono text-xs break-words">
+                  {result.unknown.join(', ')}
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-(--text-secondary) hover:text-foreground hover:bg-(--bg-secondary) transition-colors"
+          >
+            Cancel
+          </button>
+          {result && !error && (
+            <button
+              onClick={onConfirm}
+              disabled={selectableCount === 0}
+              className="px-4 py-2 rounded-lg bg-(--bg-secondary) hover:bg-(--bg-tertiary) text-foreground text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replace selection
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
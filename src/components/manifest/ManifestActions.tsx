@@ -0,0 +1,339 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import { Check, ClipboardPaste, FileCode, FileDown, FileUp, Rocket } from 'lucide-react';
+import { getPackageManagerById, type PackageManagerId } from '@/lib/data';
+import {
+  BREWFILE_NAME,
+  CHOCOLATEY_PACKAGES_CONFIG_NAME,
+  SCOOP_EXPORT_FILE_NAME,
+  WINGET_CONFIGURATION_FILE_NAME,
+  WINGET_PACKAGES_FILE_NAME,
+  createProfile,
+  generateBrewfile,
+  generateChocolateyPackagesConfig,
+  generateScoopExport,
+  generateWingetConfiguration,
+  generateWingetPackages,
+  parseBrewfile,
+  parseChocolateyPackagesConfig,
+  parseProfile,
+  parseScoopExport,
+  parseWingetPackages,
+  resolveBrewfile,
+  resolveChocolateyPackages,
+  resolveProfile,
+  resolveScoopExport,
+  resolveWingetPackages,
+  serializeProfile,
+  type ImportResult,
+  type ManifestParseResult,
+} from '@/lib/manifests';
+import {
+  DEVCONTAINER_FILE_NAME,
+  DOCKERFILE_NAME,
+  NIX_HOME_PACKAGES_FILE_NAME,
+  generateDevcontainer,
+  generateDockerfile,
+  generateNixHomePackages,
+  type DockerPackageManagerId,
+} from '@/lib/scripts';
+import { buildBootstrapCommand } from '@/lib/bootstrap';
+import { downloadTextFile } from '@/lib/utils';
+import { ImportReviewModal } from './ImportReviewModal';
+import { PasteManifestModal } from './PasteManifestModal';
+
+interface ManifestActionsProps {
+  selectedApps: Set<string>;
+  packageManagerId: PackageManagerId;
+  /** Replace the selection with imported app IDs, switching package manager if one is given */
+  onImport: (ids: string[], packageManagerId?: PackageManagerId) => void;
+}
+
+/**
+ * Export of the selection in a package manager's native format
+ */
+interface NativeExport {
+  label: string;
+  fileName: string;
+  mimeType: string;
+  generate: (selectedApps: Set<string>) => string;
+}
+
+/**
+ * Import of a package manager's native format
+ */
+interface NativeImport {
+  name: string;
+  placeholder: string;
+  import: (text: string, packageManagerId: PackageManagerId) => ManifestParseResult<ImportResult>;
+}
+
+/**
+ * Dockerfile fragment for a distro package manager
+ */
+function dockerfileExport(packageManagerId: DockerPackageManagerId): NativeExport {
+  return {
+    label: DOCKERFILE_NAME,
+    fileName: DOCKERFILE_NAME,
+    mimeType: 'text/plain',
+    generate: (selectedApps) => generateDockerfile(selectedApps, packageManagerId),
+  };
+}
+
+/**
+ * Native manifest formats, offered next to Packmate profiles
+ */
+const nativeFormats: Partial<Record<PackageManagerId, { exports: NativeExport[]; import?: NativeImport }>> = {
+  winget: {
+    exports: [
+      { label: 'Winget JSON', fileName: WINGET_PACKAGES_FILE_NAME, mimeType: 'application/json', generate: generateWingetPackages },
+      { label: 'DSC', fileName: WINGET_CONFIGURATION_FILE_NAME, mimeType: 'text/yaml', generate: generateWingetConfiguration },
+    ],
+    import: {
+      name: 'winget export',
+      placeholder: '{ "Sources": [{ "Packages": [{ "PackageIdentifier": "Git.Git" }] }] }',
+      import: (text, packageManagerId) => {
+        const parsed = parseWingetPackages(text);
+        return parsed.ok ? { ok: true, manifest: resolveWingetPackages(parsed.manifest, packageManagerId) } : parsed;
+      },
+    },
+  },
+  chocolatey: {
+    exports: [
+      { label: 'packages.config', fileName: CHOCOLATEY_PACKAGES_CONFIG_NAME, mimeType: 'application/xml', generate: generateChocolateyPackagesConfig },
+    ],
+    import: {
+      name: 'packages.config',
+      placeholder: '<packages>\n  <package id="git" />\n</packages>',
+      import: (text, packageManagerId) => {
+        const parsed = parseChocolateyPackagesConfig(text);
+        return parsed.ok ? { ok: true, manifest: resolveChocolateyPackages(parsed.manifest, packageManagerId) } : parsed;
+      },
+    },
+  },
+  scoop: {
+    exports: [
+      { label: 'Scoop JSON', fileName: SCOOP_EXPORT_FILE_NAME, mimeType: 'application/json', generate: generateScoopExport },
+    ],
+    import: {
+      name: 'scoop export',
+      placeholder: '{ "apps": [{ "Name": "git", "Source": "main" }] }',
+      import: (text, packageManagerId) => {
+        const parsed = parseScoopExport(text);
+        return parsed.ok ? { ok: true, manifest: resolveScoopExport(parsed.manifest, packageManagerId) } : parsed;
+      },
+    },
+  },
+  nix: {
+    exports: [
+      { label: 'home.packages', fileName: NIX_HOME_PACKAGES_FILE_NAME, mimeType: 'text/plain', generate: generateNixHomePackages },
+    ],
+  },
+  homebrew: {
+    exports: [
+      { label: BREWFILE_NAME, fileName: BREWFILE_NAME, mimeType: 'text/plain', generate: generateBrewfile },
+    ],
+    import: {
+      name: BREWFILE_NAME,
+      placeholder: 'brew "git"\ncask "firefox"',
+      import: (text, packageManagerId) => {
+        const parsed = parseBrewfile(text);
+        return parsed.ok ? { ok: true, manifest: resolveBrewfile(parsed.manifest, packageManagerId) } : parsed;
+      },
+    },
+  },
+  apt: {
+    exports: [
+      dockerfileExport('apt'),
+      { label: DEVCONTAINER_FILE_NAME, fileName: DEVCONTAINER_FILE_NAME, mimeType: 'application/json', generate: generateDevcontainer },
+    ],
+  },
+  dnf: { exports: [dockerfileExport('dnf')] },
+  pacman: { exports: [dockerfileExport('pacman')] },
+  zypper: { exports: [dockerfileExport('zypper')] },
+};
+
+interface PendingImport {
+  fileName: string;
+  /** Package manager the import was resolved for */
+  packageManagerId: PackageManagerId;
+  result: ImportResult | null;
+  error?: string;
+}
+
+/**
+ * ManifestActions - Export the selection as a Packmate profile, or import one
+ * Package managers with a native manifest format (a Brewfile for Homebrew,
+ * winget import JSON and DSC configuration for Winget, packages.config for
+ * Chocolatey, a scoop export for Scoop, a home-manager snippet for Nix) also
+ * get exports in that format, and apt, dnf, pacman and zypper get a Dockerfile
+ * (APT a devcontainer.json as well). A native file is imported for its own package manager,
+ * switching to it if another one is selected. "Bootstrap" copies a one-liner that installs
+ * the profile on any machine of the selected OS with the package managers it has.
+ */
+export function ManifestActions({ selectedApps, packageManagerId, onImport }: ManifestActionsProps) {
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [bootstrapCopied, setBootstrapCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const nativeExports = nativeFormats[packageManagerId]?.exports ?? [];
+  const nativeImport = nativeFormats[packageManagerId]?.import;
+  const importPmId = pendingImport?.packageManagerId ?? packageManagerId;
+  const importPmName = getPackageManagerById(importPmId)?.name || importPmId;
+
+  const handleExport = useCallback(() => {
+    const profile = createProfile(selectedApps);
+    downloadTextFile(serializeProfile(profile), 'packmate-profile.json', 'application/json');
+  }, [selectedApps]);
+
+  // Copy a command that installs the selection on any machine of the selected OS
+  const handleCopyBootstrap = useCallback(async () => {
+    const osId = getPackageManagerById(packageManagerId)?.osId ?? 'linux';
+    const command = buildBootstrapCommand(window.location.origin, createProfile(selectedApps), osId);
+    try {
+      await navigator.clipboard.writeText(command);
+      setBootstrapCopied(true);
+      setTimeout(() => setBootstrapCopied(false), 3000);
+    } catch (error) {
+      console.error('Failed to copy bootstrap command:', error);
+    }
+  }, [selectedApps, packageManagerId]);
+
+  // Read a Packmate profile, or a native format - the selected package manager's first
+  const importText = useCallback((fileName: string, text: string) => {
+    const parsed = parseProfile(text);
+    if (parsed.ok) {
+      setPendingImport({ fileName, packageManagerId, result: resolveProfile(parsed.manifest, packageManagerId) });
+      return;
+    }
+
+    const candidates = (Object.keys(nativeFormats) as PackageManagerId[])
+      .sort((a, b) => Number(b === packageManagerId) - Number(a === packageManagerId));
+    const errors = [`Packmate profile: ${parsed.error}`];
+
+    for (const id of candidates) {
+      const format = nativeFormats[id]?.import;
+      if (!format) continue;
+      const native = format.import(text, id);
+      if (native.ok) {
+        setPendingImport({ fileName, packageManagerId: id, result: native.manifest });
+        return;
+      }
+      errors.push(`${format.name}: ${native.error}`);
+    }
+
+    setPendingImport({ fileName, packageManagerId, result: null, error: `Unrecognized file. ${errors.join('. ')}` });
+  }, [packageManagerId]);
+
+  const handlePaste = useCallback((text: string) => {
+    setIsPasteOpen(false);
+    importText('pasted text', text);
+  }, [importText]);
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow re-importing the same file
+    e.target.value = '';
+    if (!file) return;
+
+    importText(file.name, await file.text());
+  }, [importText]);
+
+  const handleConfirm = useCallback(() => {
+    if (pendingImport?.result) {
+      onImport(
+        pendingImport.result.appIds,
+        pendingImport.packageManagerId !== packageManagerId ? pendingImport.packageManagerId : undefined
+      );
+    }
+    setPendingImport(null);
+  }, [pendingImport, packageManagerId, onImport]);
+
+  const handleClose = useCallback(() => {
+    setPendingImport(null);
+  }, []);
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleExport}
+          disabled={selectedApps.size === 0}
+          className="group flex items-center gap-1.5 text-sm text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all duration-200 hover:translate-y-[-1px] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:translate-y-0"
+          title="Export selection as a Packmate profile"
+        >
+          <FileDown size={16} className="transition-transform duration-200 group-hover:scale-110" />
+          <span>Export</span>
+        </button>
+        <button
+          onClick={handleCopyBootstrap}
+          disabled={selectedApps.size === 0}
+          className="group flex items-center gap-1.5 text-sm text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all duration-200 hover:translate-y-[-1px] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:translate-y-0"
+          title="Copy a command that detects the package managers of a machine and installs the selection with them"
+        >
+          {bootstrapCopied ? (
+            <Check size={16} className="text-emerald-400" />
+          ) : (
+            <Rocket size={16} className="transition-transform duration-200 group-hover:scale-110" />
+          )}
+          <span>{bootstrapCopied ? 'Copied!' : 'Bootstrap'}</span>
+        </button>
+        {nativeExports.map(format => (
+          <button
+            key={format.fileName}
+            onClick={() => downloadTextFile(format.generate(selectedApps), format.fileName, format.mimeType)}
+            disabled={selectedApps.size === 0}
+            className="group flex items-center gap-1.5 text-sm text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all duration-200 hover:translate-y-[-1px] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:translate-y-0"
+            title={`Export selection as ${format.fileName}`}
+          >
+            <FileCode size={16} className="transition-transform duration-200 group-hover:scale-110" />
+            <span>{format.label}</span>
+          </button>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="group flex items-center gap-1.5 text-sm text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all duration-200 hover:translate-y-[-1px]"
+          title="Import a Packmate profile or a package manager export"
+        >
+          <FileUp size={16} className="transition-transform duration-200 group-hover:scale-110" />
+          <span>Import</span>
+        </button>
+        <button
+          onClick={() => setIsPasteOpen(true)}
+          className="group flex items-center text-sm text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-all duration-200 hover:translate-y-[-1px]"
+          title="Paste a Packmate profile or a package manager export"
+          aria-label="Paste a manifest"
+        >
+          <ClipboardPaste size={16} className="transition-transform duration-200 group-hover:scale-110" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      <ImportReviewModal
+        isOpen={pendingImport !== null}
+        onClose={handleClose}
+        onConfirm={handleConfirm}
+        fileName={pendingImport?.fileName ?? ''}
+        packageManagerName={importPmName}
+        switchesPackageManager={importPmId !== packageManagerId}
+        result={pendingImport?.result ?? null}
+        error={pendingImport?.error}
+      />
+
+      <PasteManifestModal
+        isOpen={isPasteOpen}
+        onClose={() => setIsPasteOpen(false)}
+        formatName={nativeImport?.name ?? 'manifest'}
+        placeholder={nativeImport?.placeholder ?? '{ "format": "packmate-profile", "version": 1, "apps": ["firefox", "git"] }'}
+        onSubmit={handlePaste}
+      />
+    </>
+  );
+}
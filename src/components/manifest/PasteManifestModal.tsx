@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { Modal } from '@/components/common/Modal';
+
+/**
+ * PasteManifestModal component props interface
+ */
+export interface PasteManifestModalProps {
+  /** Whether the modal is currently open */
+  isOpen: boolean;
+  /** Callback function to close the modal */
+  onClose: () => void;
+  /** Name of the manifest format, e.g. "Brewfile" */
+  formatName: string;
+  /** Example shown in the empty text area */
+  placeholder: string;
+  /** Callback function with the pasted text */
+  onSubmit: (text: string) => void;
+}
+
+/**
+ * PasteManifestModal - Text area for pasting a manifest instead of picking a file
+ */
+export function PasteManifestModal({
+  isOpen,
+  onClose,
+  formatName,
+  placeholder,
+  onSubmit,
+}: PasteManifestModalProps): React.ReactElement {
+  const [text, setText] = useState('');
+
+  const handleSubmit = () => {
+    onSubmit(text);
+    setText('');
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Paste ${formatName}`}
+      maxWidth="max-w-lg"
+    >
+      <div className="p-6 flex flex-col gap-4 text-sm">
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={placeholder}
+          rows={10}
+          spellCheck={false}
+          aria-label={`${formatName} contents`}
+          className="w-full p-3 rounded-lg bg-(--bg-secondary) border border-(--border-primary) font-mono text-xs text-foreground placeholder:text-(--text-muted) focus:outline-none focus:ring-2 focus:ring-(--accent-color)"
+        />
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-(--text-secondary) hover:text-foreground hover:bg-(--bg-secondary) transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={text.trim() === ''}
+            className="px-4 py-2 rounded-lg bg-(--bg-secondary) hover:bg-(--bg-tertiary) text-foreground text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Review import
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
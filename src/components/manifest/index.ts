@@ -0,0 +1,6 @@
+// Manifest components barrel export
+export { ManifestActions } from './ManifestActions';
+export { ImportReviewModal } from './ImportReviewModal';
+export type { ImportReviewModalProps } from './ImportReviewModal';
+export { PasteManifestModal } from './PasteManifestModal';
+export type { PasteManifestModalProps } from './PasteManifestModal';
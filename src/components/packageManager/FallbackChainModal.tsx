@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useCallback, useMemo } from 'react';
+import { ArrowDown, ArrowUp, Check } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { PackageManagerIcon } from './PackageManagerIcon';
+import { OSId, PackageManagerId, getPackageManagersByOS, getPackageManagerById } from '@/lib/data';
+
+/**
+ * FallbackChainModal component props interface
+ */
+export interface FallbackChainModalProps {
+  /** Whether the modal is currently open */
+  isOpen: boolean;
+  /** Callback function to close the modal */
+  onClose: () => void;
+  /** Currently selected OS ID (used to filter package managers) */
+  selectedOS: OSId;
+  /** Currently selected package manager ID (always first in the chain) */
+  selectedPackageManager: PackageManagerId;
+  /** Fallback package managers, in the order they are tried */
+  fallbackPackageManagers: PackageManagerId[];
+  /** Callback function when the fallbacks change */
+  onChange: (ids: PackageManagerId[]) => void;
+}
+
+/**
+ * FallbackChainModal - Modal for choosing and ordering fallback package managers
+ *
+ * Features:
+ * - Selected package manager pinned at the top of the chain
+ * - Toggle other package managers of the OS in or out of the chain
+ * - Move fallbacks up and down to change the order they are tried in
+ */
+export function FallbackChainModal({
+  isOpen,
+  onClose,
+  selectedOS,
+  selectedPackageManager,
+  fallbackPackageManagers,
+  onChange,
+}: FallbackChainModalProps): React.ReactElement {
+  const primary = getPackageManagerById(selectedPackageManager);
+  const fallbacks = useMemo(
+    () => fallbackPackageManagers.filter(id => id !== selectedPackageManager),
+    [fallbackPackageManagers, selectedPackageManager]
+  );
+
+  // Fallbacks in chain order, followed by the package managers not in the chain
+  const otherPackageManagers = [
+    ...fallbacks.map(id => getPackageManagerById(id)).filter(pm => pm !== undefined),
+    ...getPackageManagersByOS(selectedOS)
+      .filter(pm => pm.id !== selectedPackageManager && !fallbacks.includes(pm.id)),
+  ];
+
+  /**
+   * Add a package manager to the end of the chain, or remove it
+   */
+  const handleToggle = useCallback((id: PackageManagerId) => {
+    onChange(fallbacks.includes(id) ? fallbacks.filter(f => f !== id) : [...fallbacks, id]);
+  }, [fallbacks, onChange]);
+
+  /**
+   * Swap a fallback with its neighbour
+   */
+  const handleMove = useCallback((index: number, offset: -1 | 1) => {
+    const next = [...fallbacks];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  }, [fallbacks, onChange]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Fallback Package Managers"
+      maxWidth="max-w-sm"
+    >
+      <div className="p-4 flex flex-col gap-3">
+        <p className="text-xs text-[var(--text-muted)]">
+          Apps {primary?.name} doesn&apos;t have are installed with the first fallback that has them.
+        </p>
+
+        {/* Selected package manager - always first */}
+        {primary && (
+          <div
+            className="flex items-center gap-3 px-4 py-3 rounded-lg border-l-4 border border-[var(--border-primary)] bg-[var(--bg-tertiary)]"
+            style={{ borderLeftColor: primary.color }}
+          >
+            <PackageManagerIcon iconUrl={primary.iconUrl} name={primary.name} size={24} />
+            <span className="text-sm font-medium flex-1 text-[var(--text-primary)]">{primary.name}</span>
+            <span className="text-xs text-[var(--text-muted)] bg-[var(--bg-secondary)] px-2 py-0.5 rounded flex-shrink-0">
+              Selected
+            </span>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2" role="list" aria-label="Fallback package managers">
+          {otherPackageManagers.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)] text-center py-4">
+              No other package managers available for this operating system.
+            </p>
+          ) : (
+            otherPackageManagers.map(pm => {
+              const index = fallbacks.indexOf(pm.id);
+              const isIncluded = index >= 0;
+
+              return (
+                <div
+                  key={pm.id}
+                  role="listitem"
+                  className={`
+                    flex items-center gap-2 px-3 py-2 rounded-lg
+                    border-l-4 border border-[var(--border-primary)]
+                    ${isIncluded ? 'bg-[var(--bg-secondary)]' : 'bg-transparent opacity-60'}
+                  `}
+                  style={{ borderLeftColor: pm.color }}
+                >
+                  <button
+                    onClick={() => handleToggle(pm.id)}
+                    className="flex items-center gap-3 flex-1 px-1 py-1 rounded text-left hover:bg-[var(--bg-hover)] transition-colors"
+                    aria-pressed={isIncluded}
+                    aria-label={`${isIncluded ? 'Remove' : 'Add'} ${pm.name} ${isIncluded ? 'from' : 'to'} fallbacks`}
+                  >
+                    <PackageManagerIcon iconUrl={pm.iconUrl} name={pm.name} size={22} />
+                    <span className="text-sm font-medium flex-1 text-[var(--text-secondary)]">
+                      {isIncluded ? `${index + 1}. ` : ''}{pm.name}
+                    </span>
+                    {isIncluded && (
+                      <span className="text-[var(--accent-color)] flex-shrink-0">
+                        <Check size={16} strokeWidth={2.5} />
+                      </span>
+                    )}
+                  </button>
+
+                  {isIncluded && (
+                    <>
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                        aria-label={`Move ${pm.name} up`}
+                      >
+                        <ArrowUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === fallbacks.length - 1}
+                        className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                        aria-label={`Move ${pm.name} down`}
+                      >
+                        <ArrowDown size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronDown } from 'lucide-react';
+import { ChevronDown, Layers, User, Users } from 'lucide-react';
 import { PackageManagerIcon } from './PackageManagerIcon';
 import { PackageManagerSelectorModal } from './PackageManagerSelectorModal';
+import { FallbackChainModal } from './FallbackChainModal';
 import { 
+  InstallScope,
   OSId, 
   PackageManagerId, 
   packageManagers 
@@ -16,22 +18,40 @@ import {
  * **Validates: Requirements 4.1, 4.5**
  * - Opens modal on click instead of dropdown
  * - Keeps button styling with colored left border
+ * - Optional fallback chain button when onFallbacksChange is provided
+ * - Optional install scope toggle (everyone / just me) when onInstallScopeChange is provided
  */
 interface PackageManagerSelectorProps {
   selectedOS: OSId;
   selectedPackageManager: PackageManagerId;
   onSelect: (id: PackageManagerId) => void;
+  fallbackPackageManagers?: PackageManagerId[];
+  onFallbacksChange?: (ids: PackageManagerId[]) => void;
+  installScope?: InstallScope;
+  onInstallScopeChange?: (scope: InstallScope) => void;
 }
 
 export function PackageManagerSelector({ 
   selectedOS, 
   selectedPackageManager, 
-  onSelect 
+  onSelect,
+  fallbackPackageManagers = [],
+  onFallbacksChange,
+  installScope = 'system',
+  onInstallScopeChange,
 }: PackageManagerSelectorProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isFallbackModalOpen, setIsFallbackModalOpen] = useState(false);
+  const fallbackCount = fallbackPackageManagers.filter(id => id !== selectedPackageManager).length;
 
   // Get current package manager details
   const currentPackageManager = packageManagers.find(pm => pm.id === selectedPackageManager);
+  const isUserScope = installScope === 'user';
+  const scopeTitle = !isUserScope
+    ? 'Installing for everyone (needs admin rights). Click to install for the current user only'
+    : currentPackageManager?.userScope
+      ? 'Installing for the current user only. Click to install for everyone'
+      : `${currentPackageManager?.name ?? 'This package manager'} can't install for the current user only, its apps are installed for everyone`;
 
   /**
    * Handle opening the modal
@@ -84,6 +104,40 @@ export function PackageManagerSelector({
         />
       </button>
 
+      {/* Fallback chain trigger - shows how many fallbacks are set */}
+      {onFallbacksChange && (
+        <button
+          onClick={() => setIsFallbackModalOpen(true)}
+          className="flex items-center gap-1 px-2 py-2 rounded-lg text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors duration-200"
+          aria-haspopup="dialog"
+          aria-label={`Fallback package managers: ${fallbackCount}`}
+          title="Fallback package managers"
+        >
+          <Layers size={16} />
+          {fallbackCount > 0 && (
+            <span className="text-xs font-medium">+{fallbackCount}</span>
+          )}
+        </button>
+      )}
+
+      {/* Install scope toggle - user scope skips admin rights where the package manager allows it */}
+      {onInstallScopeChange && (
+        <button
+          onClick={() => onInstallScopeChange(isUserScope ? 'system' : 'user')}
+          className={`flex items-center gap-1 px-2 py-2 rounded-lg hover:bg-[var(--bg-hover)] transition-colors duration-200 ${
+            isUserScope && !currentPackageManager?.userScope
+              ? 'text-amber-500'
+              : 'text-[var(--text-muted)] hover:text-[var(--text-primary)]'
+          }`}
+          aria-pressed={isUserScope}
+          aria-label={`Install scope: ${isUserScope ? 'current user' : 'everyone'}`}
+          title={scopeTitle}
+        >
+          {isUserScope ? <User size={16} /> : <Users size={16} />}
+          <span className="text-xs font-medium">{isUserScope ? 'Just me' : 'Everyone'}</span>
+        </button>
+      )}
+
       {/* Package Manager Selector Modal */}
       <PackageManagerSelectorModal
         isOpen={isModalOpen}
@@ -92,6 +146,18 @@ export function PackageManagerSelector({
         selectedPackageManager={selectedPackageManager}
         onSelect={handleSelect}
       />
+
+      {/* Fallback Chain Modal */}
+      {onFallbacksChange && (
+        <FallbackChainModal
+          isOpen={isFallbackModalOpen}
+          onClose={() => setIsFallbackModalOpen(false)}
+          selectedOS={selectedOS}
+          selectedPackageManager={selectedPackageManager}
+          fallbackPackageManagers={fallbackPackageManagers}
+          onChange={onFallbacksChange}
+        />
+      )}
     </>
   );
 }
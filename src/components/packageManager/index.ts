@@ -1,3 +1,4 @@
 export { PackageManagerIcon } from './PackageManagerIcon';
 export { PackageManagerSelector } from './PackageManagerSelector';
 export { PackageManagerSelectorModal } from './PackageManagerSelectorModal';
+export { FallbackChainModal } from './FallbackChainModal';
@@ -0,0 +1,70 @@
+'use client';
+
+import { Link2 } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { getOSById, getPackageManagerById } from '@/lib/data';
+import type { SharedSelection } from '@/lib/shareLink';
+
+/**
+ * SharedSelectionPrompt component props interface
+ */
+export interface SharedSelectionPromptProps {
+  /** Selection from the share link, or null when there is nothing to confirm */
+  sharedSelection: SharedSelection | null;
+  /** Number of apps in the current local selection */
+  localCount: number;
+  /** Replace the local selection with the shared one */
+  onAccept: () => void;
+  /** Keep the local selection */
+  onDismiss: () => void;
+}
+
+/**
+ * SharedSelectionPrompt - Asks before a share link replaces an existing local selection
+ */
+export function SharedSelectionPrompt({
+  sharedSelection,
+  localCount,
+  onAccept,
+  onDismiss,
+}: SharedSelectionPromptProps): React.ReactElement {
+  const osName = sharedSelection ? getOSById(sharedSelection.os)?.name : undefined;
+  const pmName = sharedSelection ? getPackageManagerById(sharedSelection.packageManager)?.name : undefined;
+  const sharedCount = sharedSelection?.apps.length ?? 0;
+
+  return (
+    <Modal
+      isOpen={sharedSelection !== null}
+      onClose={onDismiss}
+      title="Open shared selection?"
+      maxWidth="max-w-md"
+    >
+      <div className="p-6 flex flex-col gap-5">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-(--bg-secondary) shrink-0">
+            <Link2 size={20} className="text-(--text-muted)" />
+          </div>
+          <p className="text-sm text-(--text-secondary)">
+            This link selects {sharedCount} {sharedCount === 1 ? 'app' : 'apps'} for {pmName} on {osName}.
+            Opening it will replace your current selection of {localCount} {localCount === 1 ? 'app' : 'apps'}.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-(--text-secondary) hover:text-foreground hover:bg-(--bg-secondary) transition-colors"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={onAccept}
+            className="px-4 py-2 rounded-lg bg-(--bg-secondary) hover:bg-(--bg-tertiary) text-foreground text-sm font-medium transition-colors"
+          >
+            Use shared selection
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,3 @@
+// Share components barrel export
+export { SharedSelectionPrompt } from './SharedSelectionPrompt';
+export type { SharedSelectionPromptProps } from './SharedSelectionPrompt';
@@ -10,14 +10,26 @@ import {
   PackageManagerId, 
   PackageManager,
   AppData,
+  AppVersions,
+  InstallScope,
   getPackageManagersByOS,
+  getPackageManagerById,
   getPrimaryPackageManager,
+  isAppAvailableForPackageManager,
+  isPackageManagerForOS,
+  isValidVersion,
+  sanitizeVersions,
 } from '@/lib/data';
 import {
   filterApps,
   filterCategories,
   getFilteredAppsByCategory,
 } from '@/lib/search';
+import {
+  parseSharedSelection,
+  stripShareParams,
+  type SharedSelection,
+} from '@/lib/shareLink';
 
 // Requirements: 2.3, 2.4, 2.5, 2.6, 8.1, 8.2, 8.3, 8.4, 8.5, 9.1, 9.2, 9.3, 9.4, 9.5
 // Smart Search Requirements: 1.1, 5.1, 6.1, 7.3
@@ -33,12 +45,27 @@ interface UsePackmateInitReturn {
   setSelectedPackageManager: (pm: PackageManagerId) => void;
   getAvailablePackageManagers: () => PackageManager[];
   
+  // Fallback chain - managers tried in order when the selected one has no target for an app
+  fallbackPackageManagers: PackageManagerId[];
+  setFallbackPackageManagers: (ids: PackageManagerId[]) => void;
+  packageManagerChain: PackageManagerId[];
+  
+  // Install scope - system-wide, or for the current user without admin rights or sudo
+  // (unset until chosen, for each package manager's default)
+  installScope: InstallScope | undefined;
+  setInstallScope: (scope: InstallScope) => void;
+  
   // App Selection
   selectedApps: Set<string>;
   toggleApp: (id: string) => void;
+  replaceSelectedApps: (ids: string[], packageManager?: PackageManagerId) => void;
   clearAll: () => void;
   selectedCount: number;
   
+  // Pinned versions (or channels/branches) by app ID - an empty version unpins the app
+  appVersions: AppVersions;
+  setAppVersion: (id: string, version: string) => void;
+  
   // Availability (Requirement 8.2)
   isAppAvailable: (id: string) => boolean;
   
@@ -50,6 +77,11 @@ interface UsePackmateInitReturn {
   getFilteredAppsByCategoryFn: (category: Category) => AppData[];
   hasSearchResults: boolean;
   
+  // Shared selection links - a link that would replace a non-empty local selection waits for confirmation
+  pendingSharedSelection: SharedSelection | null;
+  acceptSharedSelection: () => void;
+  dismissSharedSelection: () => void;
+  
   // Hydration
   isHydrated: boolean;
 }
@@ -101,6 +133,41 @@ function getInitialApps(): Set<string> {
   return new Set();
 }
 
+// Get initial pinned versions from localStorage
+function getInitialVersions(): AppVersions {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.APP_VERSIONS);
+    if (stored) {
+      return sanitizeVersions(JSON.parse(stored));
+    }
+  } catch {
+    // localStorage not available or corrupted data
+  }
+  return {};
+}
+
+// Get initial install scope from localStorage, unset until the user chooses one
+function getInitialInstallScope(): InstallScope | undefined {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.INSTALL_SCOPE);
+    return stored === 'system' || stored === 'user' ? stored : undefined;
+  } catch {
+    // localStorage not available
+  }
+  return undefined;
+}
+
+// Persist pinned versions to localStorage
+function storeVersions(versions: AppVersions) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.APP_VERSIONS, JSON.stringify(versions));
+  } catch {
+    // localStorage not available
+  }
+}
+
 // Get localStorage key for package manager based on OS - Requirement 8.3
 function getPackageManagerStorageKey(osId: OSId): string {
   switch (osId) {
@@ -142,6 +209,42 @@ function getInitialPackageManager(osId: OSId): PackageManagerId {
   return getPrimaryPackageManager(osId).id;
 }
 
+// Get localStorage key for the fallback package managers based on OS
+function getFallbackStorageKey(osId: OSId): string {
+  switch (osId) {
+    case 'windows':
+      return STORAGE_KEYS.FALLBACK_WINDOWS;
+    case 'macos':
+      return STORAGE_KEYS.FALLBACK_MACOS;
+    case 'linux':
+      return STORAGE_KEYS.FALLBACK_LINUX;
+  }
+}
+
+// Keep only package managers of the OS, without duplicates
+function sanitizeFallbacks(osId: OSId, ids: unknown[]): PackageManagerId[] {
+  const availablePMs = getPackageManagersByOS(osId);
+  return [...new Set(ids)]
+    .filter((id): id is PackageManagerId => availablePMs.some(pm => pm.id === id));
+}
+
+// Get initial fallback package managers from localStorage
+function getInitialFallbacks(osId: OSId): PackageManagerId[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(getFallbackStorageKey(osId));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return sanitizeFallbacks(osId, parsed);
+      }
+    }
+  } catch {
+    // localStorage not available or corrupted data
+  }
+  return [];
+}
+
 // Subscribe to storage changes
 function subscribeToStorage(callback: () => void) {
   window.addEventListener('storage', callback);
@@ -168,8 +271,14 @@ export function usePackmateInit(): UsePackmateInitReturn {
   const [selectedPackageManager, setSelectedPackageManagerState] = useState<PackageManagerId>(
     () => getInitialPackageManager(storedOS)
   );
+  const [fallbackPackageManagers, setFallbackPackageManagersState] = useState<PackageManagerId[]>(
+    () => getInitialFallbacks(storedOS)
+  );
   const [selectedApps, setSelectedApps] = useState<Set<string>>(() => getInitialApps());
+  const [appVersions, setAppVersions] = useState<AppVersions>(() => getInitialVersions());
+  const [installScope, setInstallScopeState] = useState<InstallScope | undefined>(() => getInitialInstallScope());
   const [isHydrated, setIsHydrated] = useState(false);
+  const [pendingSharedSelection, setPendingSharedSelection] = useState<SharedSelection | null>(null);
   
   // Search state - Smart Search Requirements 1.1, 5.1, 6.1, 7.3
   const [searchQuery, setSearchQuery] = useState<string>('');
@@ -186,6 +295,56 @@ export function usePackmateInit(): UsePackmateInitReturn {
     }
   }, [storedOS]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Replace the whole selection (OS, package manager and apps) and persist it
+  const applySelection = useCallback((selection: SharedSelection) => {
+    setSelectedOSState(selection.os);
+    setSelectedPackageManagerState(selection.packageManager);
+    setFallbackPackageManagersState(getInitialFallbacks(selection.os));
+    setSelectedApps(new Set(selection.apps));
+    setAppVersions(selection.versions ?? {});
+    storeVersions(selection.versions ?? {});
+    try {
+      localStorage.setItem(STORAGE_KEYS.SELECTED_OS, selection.os);
+      localStorage.setItem(getPackageManagerStorageKey(selection.os), selection.packageManager);
+      localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify(selection.apps));
+    } catch {
+      // localStorage not available
+    }
+  }, []);
+
+  // Hydrate from a share link on mount - takes priority over localStorage,
+  // but asks before replacing a different non-empty local selection
+  useEffect(() => {
+    const shared = parseSharedSelection(window.location.search);
+    if (!shared) return;
+
+    // Drop the share parameters so a reload doesn't apply the link again
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(window.history.state, '', `${pathname}${stripShareParams(search)}${hash}`);
+
+    const isSameApps = shared.apps.length === selectedApps.size &&
+      shared.apps.every(id => selectedApps.has(id));
+
+    if (selectedApps.size === 0 || isSameApps) {
+      applySelection(shared);
+    } else {
+      setPendingSharedSelection(shared);
+    }
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Replace the local selection with the pending shared one
+  const acceptSharedSelection = useCallback(() => {
+    if (pendingSharedSelection) {
+      applySelection(pendingSharedSelection);
+    }
+    setPendingSharedSelection(null);
+  }, [pendingSharedSelection, applySelection]);
+
+  // Keep the local selection and discard the pending shared one
+  const dismissSharedSelection = useCallback(() => {
+    setPendingSharedSelection(null);
+  }, []);
+
   // Persist OS selection and update package manager - Requirements 8.4
   const setSelectedOS = useCallback((os: OSId) => {
     setSelectedOSState(os);
@@ -198,6 +357,7 @@ export function usePackmateInit(): UsePackmateInitReturn {
     // When OS changes, restore persisted PM or fall back to primary - Requirement 8.4
     const newPM = getInitialPackageManager(os);
     setSelectedPackageManagerState(newPM);
+    setFallbackPackageManagersState(getInitialFallbacks(os));
   }, []);
 
   // Set package manager and persist to localStorage - Requirements 8.1, 8.3
@@ -227,16 +387,43 @@ export function usePackmateInit(): UsePackmateInitReturn {
     return getPackageManagersByOS(selectedOS);
   }, [selectedOS]);
 
+  // Set the fallback package managers and persist them to localStorage
+  const setFallbackPackageManagers = useCallback((ids: PackageManagerId[]) => {
+    const next = sanitizeFallbacks(selectedOS, ids);
+    setFallbackPackageManagersState(next);
+    try {
+      localStorage.setItem(getFallbackStorageKey(selectedOS), JSON.stringify(next));
+    } catch {
+      // localStorage not available
+    }
+  }, [selectedOS]);
+
+  // Set the install scope and persist it to localStorage
+  const setInstallScope = useCallback((scope: InstallScope) => {
+    setInstallScopeState(scope);
+    try {
+      localStorage.setItem(STORAGE_KEYS.INSTALL_SCOPE, scope);
+    } catch {
+      // localStorage not available
+    }
+  }, []);
+
+  // Selected package manager followed by its fallbacks
+  const packageManagerChain = useMemo(() => [
+    selectedPackageManager,
+    ...fallbackPackageManagers.filter(id => id !== selectedPackageManager),
+  ], [selectedPackageManager, fallbackPackageManagers]);
+
   // Check if app is available for selected package manager - Requirement 8.2
+  // (or for one of its fallbacks)
   // Note: This is defined before toggleApp so it can be used in the dependency array
   const checkAppAvailable = useCallback((id: string): boolean => {
     const app = apps.find(a => a.id === id);
     if (!app) return false;
     
-    // Check if app has a target for the selected package manager
-    const target = app.targets[selectedPackageManager];
-    return target !== undefined && target !== '';
-  }, [selectedPackageManager]);
+    // Check if app has a target for any package manager in the chain
+    return packageManagerChain.some(pm => isAppAvailableForPackageManager(app, pm));
+  }, [packageManagerChain]);
 
   // Toggle app selection - Requirement 3.5: Prevent selecting unavailable apps
   const toggleApp = useCallback((id: string) => {
@@ -263,11 +450,74 @@ export function usePackmateInit(): UsePackmateInitReturn {
       
       return next;
     });
-  }, [checkAppAvailable]);
+    // Deselecting an app unpins it
+    if (id in appVersions) {
+      const nextVersions = { ...appVersions };
+      delete nextVersions[id];
+      setAppVersions(nextVersions);
+      storeVersions(nextVersions);
+    }
+  }, [checkAppAvailable, appVersions]);
+
+  // Pin a selected app to a version, or unpin it with an empty version
+  const setAppVersion = useCallback((id: string, version: string) => {
+    const trimmed = version.trim();
+    if (trimmed && !isValidVersion(trimmed)) return;
+    const next = { ...appVersions };
+    delete next[id];
+    if (trimmed) next[id] = trimmed;
+    setAppVersions(next);
+    storeVersions(next);
+  }, [appVersions]);
+
+  // Replace the selection (e.g. from an imported manifest), skipping unavailable apps
+  // Passing a package manager switches to it (and its OS) first, e.g. for an imported winget export
+  const replaceSelectedApps = useCallback((ids: string[], packageManager?: PackageManagerId) => {
+    let isAvailable = checkAppAvailable;
+
+    if (packageManager && packageManager !== selectedPackageManager) {
+      const pm = getPackageManagerById(packageManager);
+      if (!pm) return;
+      // Stay on the current OS if the package manager runs there too (e.g. Nix)
+      const os = isPackageManagerForOS(pm, selectedOS) ? selectedOS : pm.osId;
+
+      const fallbacks = getInitialFallbacks(os);
+      setSelectedOSState(os);
+      setSelectedPackageManagerState(packageManager);
+      setFallbackPackageManagersState(fallbacks);
+      try {
+        localStorage.setItem(STORAGE_KEYS.SELECTED_OS, os);
+        localStorage.setItem(getPackageManagerStorageKey(os), packageManager);
+      } catch {
+        // localStorage not available
+      }
+
+      const chain = [packageManager, ...fallbacks];
+      isAvailable = (id: string) => {
+        const app = apps.find(a => a.id === id);
+        return !!app && chain.some(pm => isAppAvailableForPackageManager(app, pm));
+      };
+    }
+
+    const next = new Set(ids.filter(id => isAvailable(id)));
+    setSelectedApps(next);
+    try {
+      localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify([...next]));
+    } catch {
+      // localStorage not available
+    }
+
+    // Pins of apps left out of the new selection go with them
+    const versions = Object.fromEntries(Object.entries(appVersions).filter(([id]) => next.has(id)));
+    setAppVersions(versions);
+    storeVersions(versions);
+  }, [checkAppAvailable, selectedPackageManager, selectedOS, appVersions]);
 
   // Clear all selections
   const clearAll = useCallback(() => {
     setSelectedApps(new Set());
+    setAppVersions({});
+    storeVersions({});
     try {
       localStorage.setItem(STORAGE_KEYS.SELECTED_APPS, JSON.stringify([]));
     } catch {
@@ -307,10 +557,18 @@ export function usePackmateInit(): UsePackmateInitReturn {
     selectedPackageManager,
     setSelectedPackageManager,
     getAvailablePackageManagers,
+    fallbackPackageManagers,
+    setFallbackPackageManagers,
+    packageManagerChain,
+    installScope,
+    setInstallScope,
     selectedApps,
     toggleApp,
+    replaceSelectedApps,
     clearAll,
     selectedCount,
+    appVersions,
+    setAppVersion,
     isAppAvailable,
     searchQuery,
     setSearchQuery,
@@ -318,6 +576,9 @@ export function usePackmateInit(): UsePackmateInitReturn {
     filteredCategories,
     getFilteredAppsByCategoryFn,
     hasSearchResults,
+    pendingSharedSelection,
+    acceptSharedSelection,
+    dismissSharedSelection,
     isHydrated,
   };
 }
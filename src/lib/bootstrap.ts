@@ -0,0 +1,203 @@
+// Bootstrap stubs
+// A tiny script, piped into sh or PowerShell, that detects the OS and the package managers
+// on the machine, then downloads the install script of a profile for them (see /api/download),
+// checks it against its SHA-256 digest and runs it. Works without knowing the machine up front.
+
+import { getPackageManagersByOS, type OSId, type PackageManagerId } from './data';
+import { encodeProfileParam, type PackmateProfile } from './manifests';
+import { SCRIPT_DOWNLOAD_PATH } from './scriptDownload';
+
+/**
+ * Path the bootstrap route is served under
+ */
+export const BOOTSTRAP_PATH = '/api/bootstrap';
+
+/**
+ * Shells the bootstrap route serves a stub for
+ */
+export type BootstrapShell = 'sh' | 'powershell';
+
+/**
+ * Command that tells whether a package manager is present on the machine
+ */
+const DETECT_COMMANDS: Record<PackageManagerId, string> = {
+  winget: 'winget',
+  chocolatey: 'choco',
+  scoop: 'scoop',
+  homebrew: 'brew',
+  macports: 'port',
+  apt: 'apt-get',
+  dnf: 'dnf',
+  pacman: 'pacman',
+  zypper: 'zypper',
+  flatpak: 'flatpak',
+  snap: 'snap',
+  nix: 'nix',
+};
+
+/**
+ * Package managers that add to the system's own one: each one present is a fallback
+ * after it. Of the others, the first one present is used.
+ */
+const ADD_ON_MANAGERS: PackageManagerId[] = ['flatpak', 'snap', 'nix'];
+
+/**
+ * Package managers whose scripts run as root
+ */
+const ROOT_MANAGERS: PackageManagerId[] = ['macports'];
+
+/**
+ * Shell lines that build the chain of package managers present on one OS
+ * Includes managers offered on another OS too, such as Nix on macOS.
+ */
+function detectLines(osId: OSId): string[] {
+  const managers = getPackageManagersByOS(osId);
+  const system = managers.filter(pm => !ADD_ON_MANAGERS.includes(pm.id));
+  const addOns = managers.filter(pm => ADD_ON_MANAGERS.includes(pm.id));
+  return [
+    `${system.map(pm => `found ${pm.id} ${DETECT_COMMANDS[pm.id]}`).join(' || ')} || true`,
+    ...addOns.map(pm => `found ${pm.id} ${DETECT_COMMANDS[pm.id]} || true`),
+  ];
+}
+
+/**
+ * Generate the POSIX shell stub for Linux and macOS
+ * Everything runs inside main, so sh has read the whole stub from the pipe before the
+ * install script starts.
+ *
+ * @param origin - Origin of the server, such as `https://packmate.example`
+ * @param profileParam - Profile encoded with encodeProfileParam
+ * @returns The stub, for `curl -fsSL <url> | sh`
+ */
+export function generateBootstrapScript(origin: string, profileParam: string): string {
+  const indent = (lines: string[]) => lines.map(line => `            ${line}`).join('\n');
+  const rootCases = ROOT_MANAGERS.map(id => `${id}*`).join('|');
+
+  return `#!/bin/sh
+# Packmate bootstrap
+# Detects the OS and the package managers on this machine, then downloads the matching
+# install script, checks it against its SHA-256 digest and runs it.
+# Arguments are passed to the install script: curl -fsSL <url> | sh -s -- --dry-run
+
+main() {
+    set -eu
+    url='${origin}${SCRIPT_DOWNLOAD_PATH}'
+    profile='${profileParam}'
+
+    case "$(uname -s)" in
+        Linux) os=linux ;;
+        Darwin) os=macos ;;
+        *) echo "packmate: unsupported OS: $(uname -s)" >&2; return 1 ;;
+    esac
+
+    # Add a package manager to the chain if its command is present
+    chain=''
+    found() {
+        command -v "$2" >/dev/null 2>&1 || return 1
+        chain=\${chain:+$chain-}$1
+    }
+    case "$os" in
+        linux)
+${indent(detectLines('linux'))}
+            ;;
+        macos)
+${indent(detectLines('macos'))}
+            ;;
+    esac
+    if [ -z "$chain" ]; then
+        echo "packmate: no supported package manager found" >&2
+        return 1
+    fi
+    command -v curl >/dev/null 2>&1 || { echo "packmate: curl is required" >&2; return 1; }
+
+    file=packmate-$chain.sh
+    dir=$(mktemp -d)
+    trap 'rm -rf "$dir"' EXIT
+    echo "packmate: installing with $chain"
+    curl -fsSL "$url/$file?profile=$profile" -o "$dir/$file"
+    curl -fsSL "$url/$file.sha256?profile=$profile" -o "$dir/$file.sha256"
+    if [ "$os" = macos ]; then check='shasum -a 256 -c'; else check='sha256sum -c'; fi
+    (cd "$dir" && $check "$file.sha256" >/dev/null) || {
+        echo "packmate: $file does not match its SHA-256 digest" >&2
+        return 1
+    }
+
+    case "$chain" in
+        ${rootCases}) sudo bash "$dir/$file" "$@" ;;
+        *) bash "$dir/$file" "$@" ;;
+    esac
+}
+
+main "$@"
+`;
+}
+
+/**
+ * Generate the PowerShell stub for Windows
+ * The stub runs in a script block, so it leaves the caller's session as it was.
+ * Scripts that need admin rights (such as Chocolatey's) are run in an elevated
+ * PowerShell when the stub runs in a normal one.
+ *
+ * @param origin - Origin of the server, such as `https://packmate.example`
+ * @param profileParam - Profile encoded with encodeProfileParam
+ * @returns The stub, for `irm <url> | iex`
+ */
+export function generatePowerShellBootstrapScript(origin: string, profileParam: string): string {
+  const managers = getPackageManagersByOS('windows')
+    .map(pm => `        @{ Id = '${pm.id}'; Command = '${DETECT_COMMANDS[pm.id]}' }`);
+
+  return [
+    '# Packmate bootstrap',
+    '# Detects the package manager on this machine, then downloads the matching install',
+    '# script, checks it against its SHA-256 digest and runs it.',
+    '& {',
+    "    $ErrorActionPreference = 'Stop'",
+    `    $url = '${origin}${SCRIPT_DOWNLOAD_PATH}'`,
+    `    $packmateProfile = '${profileParam}'`,
+    '',
+    '    # The first package manager present',
+    '    $managers = @(',
+    managers.join(',\n'),
+    '    )',
+    '    $pm = $managers | Where-Object { Get-Command $_.Command -ErrorAction SilentlyContinue } | Select-Object -First 1',
+    `    if (-not $pm) { throw "packmate: no supported package manager found" }`,
+    '',
+    '    $file = "packmate-$($pm.Id).ps1"',
+    '    $path = Join-Path ([IO.Path]::GetTempPath()) $file',
+    '    Write-Host "packmate: installing with $($pm.Id)"',
+    '    Invoke-WebRequest -UseBasicParsing -Uri "$url/${file}?profile=$packmateProfile" -OutFile $path',
+    '    try {',
+    "        $digest = ((Invoke-RestMethod -Uri \"$url/${file}.sha256?profile=$packmateProfile\") -split '\\s+')[0]",
+    '        if ((Get-FileHash -Algorithm SHA256 $path).Hash -ne $digest) {',
+    '            throw "packmate: $file does not match its SHA-256 digest"',
+    '        }',
+    '        $identity = [Security.Principal.WindowsPrincipal][Security.Principal.WindowsIdentity]::GetCurrent()',
+    '        $isAdmin = $identity.IsInRole([Security.Principal.WindowsBuiltInRole]::Administrator)',
+    "        if (-not $isAdmin -and (Select-String -Path $path -Pattern '^#Requires -RunAsAdministrator' -Quiet)) {",
+    '            Write-Host "packmate: $file needs admin rights, running it as administrator"',
+    '            $runArgs = @(\'-NoProfile\', \'-ExecutionPolicy\', \'Bypass\', \'-File\', "`"$path`"") + $args',
+    '            Start-Process powershell -Verb RunAs -Wait -ArgumentList $runArgs',
+    '        } else {',
+    '            powershell -NoProfile -ExecutionPolicy Bypass -File $path @args',
+    '        }',
+    '    } finally {',
+    '        Remove-Item $path -ErrorAction SilentlyContinue',
+    '    }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Build the one-liner that bootstraps a profile on a machine of an OS
+ * Linux and macOS share the POSIX shell stub.
+ *
+ * @param origin - Origin of the server, such as `https://packmate.example`
+ * @param profile - The profile to install
+ * @param osId - OS of the machine
+ * @returns `curl ... | sh`, or `irm ... | iex` on Windows
+ */
+export function buildBootstrapCommand(origin: string, profile: PackmateProfile, osId: OSId): string {
+  const url = `${origin}${BOOTSTRAP_PATH}?profile=${encodeProfileParam(profile)}`;
+  return osId === 'windows' ? `irm '${url}&shell=powershell' | iex` : `curl -fsSL '${url}' | sh`;
+}
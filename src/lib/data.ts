@@ -25,7 +25,9 @@ export type PackageManagerId =
   | 'pacman'
   | 'zypper'
   | 'flatpak'
-  | 'snap';
+  | 'snap'
+  // Linux and macOS
+  | 'nix';
 
 export interface PackageManager {
   id: PackageManagerId;
@@ -34,9 +36,18 @@ export interface PackageManager {
   color: string;
   installPrefix: string;
   osId: OSId;
+  // Other operating systems the package manager also runs on
+  additionalOsIds?: OSId[];
   isPrimary?: boolean; // Default package manager for the OS
+  // What an app can be pinned to; managers without it always install the latest version
+  versionPinning?: 'version' | 'channel' | 'branch';
+  // Can install apps for the current user only, without admin rights or sudo
+  userScope?: boolean;
 }
 
+// Where apps are installed: system-wide (needs admin rights or sudo) or for the current user only
+export type InstallScope = 'system' | 'user';
+
 // Category Type - 15 categories as per Requirement 4.2
 export type Category =
   | 'Web Browsers'
@@ -55,6 +66,80 @@ export type Category =
   | 'File Sharing'
   | 'System';
 
+// Vendor APT repository, added with its signing key before installing
+export interface AptRepository {
+  // Name of the keyring and sources list files
+  name: string;
+  // Signing key, ASCII-armored or binary
+  keyUrl: string;
+  // Sources line after the options, e.g. "https://packages.microsoft.com/repos/code stable main"
+  repo: string;
+}
+
+// Vendor DNF repository: a .repo file checked against a signing key, a COPR project, or RPM Fusion
+export type DnfRepository =
+  | { type: 'repo'; name: string; keyUrl: string; baseUrl: string }
+  | { type: 'copr'; project: string }
+  | { type: 'rpmfusion'; section: 'free' | 'nonfree' };
+
+// Vendor Zypper repository, added after importing its signing key
+export interface ZypperRepository {
+  name: string;
+  keyUrl: string;
+  baseUrl: string;
+}
+
+// Repositories an app's packages come from, when they aren't in the default ones
+export interface AppRepositories {
+  apt?: AptRepository;
+  dnf?: DnfRepository;
+  zypper?: ZypperRepository;
+  homebrew?: { tap: string };
+}
+
+// Snap channel and confinement, for snaps that don't install from latest/stable or are classic
+export interface SnapOptions {
+  // Risk level (stable, candidate, beta, edge) or track/risk, e.g. "latest/stable"
+  channel?: string;
+  // Classic and devmode snaps need --classic or --devmode; a --classic target is the same as 'classic'
+  confinement?: 'strict' | 'classic' | 'devmode';
+}
+
+// Flatpak remotes apps can be installed from
+export type FlatpakRemote = 'flathub' | 'flathub-beta' | 'fedora';
+
+// Display name and the location `flatpak remote-add` adds each remote from
+export const flatpakRemotes: Record<FlatpakRemote, { name: string; url: string }> = {
+  flathub: { name: 'Flathub', url: 'https://dl.flathub.org/repo/flathub.flatpakrepo' },
+  'flathub-beta': { name: 'Flathub Beta', url: 'https://flathub.org/beta-repo/flathub-beta.flatpakrepo' },
+  fedora: { name: 'Fedora', url: 'oci+https://registry.fedoraproject.org' },
+};
+
+// Flatpak remote and installation, for apps not installed from Flathub system-wide
+export interface FlatpakOptions {
+  // Defaults to flathub
+  remote?: FlatpakRemote;
+  // --user installs for the current user only, --system (the default) for everyone
+  scope?: InstallScope;
+}
+
+// Install options for targets that need more than a package name
+export interface TargetOptions {
+  snap?: SnapOptions;
+  flatpak?: FlatpakOptions;
+}
+
+// Step to run after an app is installed, such as adding the user to a group
+export interface PostInstallStep {
+  // What the step does, shown in the script output and the script preview
+  description: string;
+  // Program and its arguments; an argument of "{user}" stands for the user running the script
+  command: string[];
+}
+
+// Post-install steps per package manager, as each one sets the app up differently
+export type PostInstallSteps = Partial<Record<PackageManagerId, PostInstallStep[]>>;
+
 // App Data Type - Requirements 1.3, 1.4, 1.5, 8.2
 export interface AppData {
   id: string;
@@ -64,6 +149,14 @@ export interface AppData {
   iconUrl: string;
   // Maps package manager to package name/command
   targets: Partial<Record<PackageManagerId, string>>;
+  // AUR package for apps not in the official Arch repos, installed with yay or paru
+  aurTarget?: string;
+  // Vendor repositories or taps that have to be set up before installing
+  repositories?: AppRepositories;
+  // Snap channel/confinement and Flatpak remote/scope
+  targetOptions?: TargetOptions;
+  // Steps after installing, only run when the script installed the app
+  postInstall?: PostInstallSteps;
   // Markdown shown when app unavailable for a package manager
   unavailableReason?: string;
 }
@@ -101,6 +194,8 @@ export const packageManagers: PackageManager[] = [
     installPrefix: 'winget install -e --id',
     osId: 'windows',
     isPrimary: true,
+    versionPinning: 'version',
+    userScope: true,
   },
   {
     id: 'chocolatey',
@@ -109,6 +204,7 @@ export const packageManagers: PackageManager[] = [
     color: '#80B5E3',
     installPrefix: 'choco install -y',
     osId: 'windows',
+    versionPinning: 'version',
   },
   {
     id: 'scoop',
@@ -117,6 +213,8 @@ export const packageManagers: PackageManager[] = [
     color: '#B5E853',
     installPrefix: 'scoop install',
     osId: 'windows',
+    versionPinning: 'version',
+    userScope: true,
   },
   // macOS
   {
@@ -127,6 +225,8 @@ export const packageManagers: PackageManager[] = [
     installPrefix: 'brew install',
     osId: 'macos',
     isPrimary: true,
+    versionPinning: 'version',
+    userScope: true,
   },
   {
     id: 'macports',
@@ -145,6 +245,7 @@ export const packageManagers: PackageManager[] = [
     installPrefix: 'sudo apt install -y',
     osId: 'linux',
     isPrimary: true,
+    versionPinning: 'version',
   },
   {
     id: 'dnf',
@@ -153,6 +254,7 @@ export const packageManagers: PackageManager[] = [
     color: '#51A2DA',
     installPrefix: 'sudo dnf install -y',
     osId: 'linux',
+    versionPinning: 'version',
   },
   {
     id: 'pacman',
@@ -169,6 +271,7 @@ export const packageManagers: PackageManager[] = [
     color: '#73BA25',
     installPrefix: 'sudo zypper install -y',
     osId: 'linux',
+    versionPinning: 'version',
   },
   {
     id: 'flatpak',
@@ -177,6 +280,8 @@ export const packageManagers: PackageManager[] = [
     color: '#4A90D9',
     installPrefix: 'flatpak install flathub -y',
     osId: 'linux',
+    versionPinning: 'branch',
+    userScope: true,
   },
   {
     id: 'snap',
@@ -185,6 +290,18 @@ export const packageManagers: PackageManager[] = [
     color: '#82BEA0',
     installPrefix: 'sudo snap install',
     osId: 'linux',
+    versionPinning: 'channel',
+  },
+  // Linux and macOS
+  {
+    id: 'nix',
+    name: 'Nix',
+    iconUrl: 'https://api.iconify.design/simple-icons/nixos.svg?color=%235277C3',
+    color: '#5277C3',
+    installPrefix: 'nix profile install',
+    osId: 'linux',
+    additionalOsIds: ['macos'],
+    userScope: true,
   },
 ];
 
@@ -226,6 +343,24 @@ export const categories: Category[] = [
   'System'
 ];
 
+// Post-install steps shared by several package managers
+const dockerServiceStep: PostInstallStep = {
+  description: 'Start the Docker service now and at boot',
+  command: ['sudo', 'systemctl', 'enable', '--now', 'docker'],
+};
+const dockerGroupStep: PostInstallStep = {
+  description: 'Add your user to the docker group (log out and back in to apply)',
+  command: ['sudo', 'usermod', '-aG', 'docker', '{user}'],
+};
+const rustupInitStep: PostInstallStep = {
+  description: 'Install the stable toolchain and add it to your shell profile',
+  command: ['rustup-init', '-y'],
+};
+const rustupDefaultStep: PostInstallStep = {
+  description: 'Install the stable toolchain',
+  command: ['rustup', 'default', 'stable'],
+};
+
 // App Data - Requirements 7.1, 7.2, 7.3, 7.4 - Migrated to targets model
 export const apps: AppData[] = [
   // Web Browsers
@@ -247,6 +382,7 @@ export const apps: AppData[] = [
       zypper: 'MozillaFirefox',
       flatpak: 'org.mozilla.firefox',
       snap: 'firefox',
+      nix: 'firefox',
     },
   },
   {
@@ -260,10 +396,19 @@ export const apps: AppData[] = [
       chocolatey: 'googlechrome',
       scoop: 'googlechrome',
       homebrew: '--cask google-chrome',
-      pacman: 'google-chrome',
+      apt: 'google-chrome-stable',
+      dnf: 'google-chrome-stable',
+      zypper: 'google-chrome-stable',
       flatpak: 'com.google.Chrome',
+      nix: 'google-chrome',
+    },
+    aurTarget: 'google-chrome',
+    repositories: {
+      apt: { name: 'google-chrome', keyUrl: 'https://dl.google.com/linux/linux_signing_key.pub', repo: 'https://dl.google.com/linux/chrome/deb/ stable main' },
+      dnf: { type: 'repo', name: 'google-chrome', keyUrl: 'https://dl.google.com/linux/linux_signing_key.pub', baseUrl: 'https://dl.google.com/linux/chrome/rpm/stable/x86_64' },
+      zypper: { name: 'google-chrome', keyUrl: 'https://dl.google.com/linux/linux_signing_key.pub', baseUrl: 'https://dl.google.com/linux/chrome/rpm/stable/x86_64' },
     },
-    unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.google.Chrome) or download from [google.com/chrome](https://www.google.com/chrome/).',
+    unavailableReason: 'Not in MacPorts or Snap. Use [Flatpak](https://flathub.org/apps/com.google.Chrome) or download from [google.com/chrome](https://www.google.com/chrome/).',
   },
   {
     id: 'chromium',
@@ -282,6 +427,7 @@ export const apps: AppData[] = [
       zypper: 'chromium',
       flatpak: 'org.chromium.Chromium',
       snap: 'chromium',
+      nix: 'chromium',
     },
   },
   {
@@ -295,11 +441,20 @@ export const apps: AppData[] = [
       chocolatey: 'brave',
       scoop: 'brave',
       homebrew: '--cask brave-browser',
-      pacman: 'brave-bin',
+      apt: 'brave-browser',
+      dnf: 'brave-browser',
+      zypper: 'brave-browser',
       flatpak: 'com.brave.Browser',
       snap: 'brave',
+      nix: 'brave',
+    },
+    aurTarget: 'brave-bin',
+    repositories: {
+      apt: { name: 'brave-browser', keyUrl: 'https://brave-browser-apt-release.s3.brave.com/brave-browser-archive-keyring.gpg', repo: 'https://brave-browser-apt-release.s3.brave.com/ stable main' },
+      dnf: { type: 'repo', name: 'brave-browser', keyUrl: 'https://brave-browser-rpm-release.s3.brave.com/brave-core.asc', baseUrl: 'https://brave-browser-rpm-release.s3.brave.com/$basearch' },
+      zypper: { name: 'brave-browser', keyUrl: 'https://brave-browser-rpm-release.s3.brave.com/brave-core.asc', baseUrl: 'https://brave-browser-rpm-release.s3.brave.com/$basearch' },
     },
-    unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.brave.Browser), [Snap](https://snapcraft.io/brave), or download from [brave.com](https://brave.com/download/).',
+    unavailableReason: 'Not in MacPorts. Use [Flatpak](https://flathub.org/apps/com.brave.Browser), [Snap](https://snapcraft.io/brave), or download from [brave.com](https://brave.com/download/).',
   },
   {
     id: 'edge',
@@ -311,9 +466,18 @@ export const apps: AppData[] = [
       winget: 'Microsoft.Edge',
       chocolatey: 'microsoft-edge',
       homebrew: '--cask microsoft-edge',
+      apt: 'microsoft-edge-stable',
+      dnf: 'microsoft-edge-stable',
+      zypper: 'microsoft-edge-stable',
       flatpak: 'com.microsoft.Edge',
+      nix: 'microsoft-edge',
     },
-    unavailableReason: 'Not in official Linux distro repos, MacPorts, or Scoop. Use [Flatpak](https://flathub.org/apps/com.microsoft.Edge) or download from [microsoft.com/edge](https://www.microsoft.com/edge).',
+    repositories: {
+      apt: { name: 'microsoft-edge', keyUrl: 'https://packages.microsoft.com/keys/microsoft.asc', repo: 'https://packages.microsoft.com/repos/edge stable main' },
+      dnf: { type: 'repo', name: 'microsoft-edge', keyUrl: 'https://packages.microsoft.com/keys/microsoft.asc', baseUrl: 'https://packages.microsoft.com/yumrepos/edge' },
+      zypper: { name: 'microsoft-edge', keyUrl: 'https://packages.microsoft.com/keys/microsoft.asc', baseUrl: 'https://packages.microsoft.com/yumrepos/edge' },
+    },
+    unavailableReason: 'Not in Arch Linux repos, MacPorts, or Scoop. Use [Flatpak](https://flathub.org/apps/com.microsoft.Edge) or download from [microsoft.com/edge](https://www.microsoft.com/edge).',
   },
   {
     id: 'vivaldi',
@@ -329,6 +493,7 @@ export const apps: AppData[] = [
       pacman: 'vivaldi',
       flatpak: 'com.vivaldi.Vivaldi',
       snap: 'vivaldi',
+      nix: 'vivaldi',
     },
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.vivaldi.Vivaldi), [Snap](https://snapcraft.io/vivaldi), or download from [vivaldi.com](https://vivaldi.com/download/).',
   },
@@ -347,6 +512,7 @@ export const apps: AppData[] = [
       pacman: 'torbrowser-launcher',
       dnf: 'torbrowser-launcher',
       flatpak: 'org.torproject.torbrowser-launcher',
+      nix: 'tor-browser',
     },
     unavailableReason: 'Not in all Linux distro repos. Use [Flatpak](https://flathub.org/apps/org.torproject.torbrowser-launcher) or download from [torproject.org](https://www.torproject.org/download/).',
   },
@@ -361,9 +527,10 @@ export const apps: AppData[] = [
       chocolatey: 'librewolf',
       scoop: 'librewolf',
       homebrew: '--cask librewolf',
-      pacman: 'librewolf-bin',
       flatpak: 'io.gitlab.librewolf-community',
+      nix: 'librewolf',
     },
+    aurTarget: 'librewolf-bin',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/io.gitlab.librewolf-community) or download from [librewolf.net](https://librewolf.net/installation/).',
   },
   
@@ -379,11 +546,16 @@ export const apps: AppData[] = [
       chocolatey: 'discord',
       scoop: 'discord',
       homebrew: '--cask discord',
+      dnf: 'discord',
       pacman: 'discord',
       flatpak: 'com.discordapp.Discord',
       snap: 'discord',
+      nix: 'discord',
+    },
+    repositories: {
+      dnf: { type: 'rpmfusion', section: 'nonfree' },
     },
-    unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.discordapp.Discord), [Snap](https://snapcraft.io/discord), or download from [discord.com](https://discord.com/download).',
+    unavailableReason: 'Not in Debian/Ubuntu or openSUSE repos, or MacPorts. Use [Flatpak](https://flathub.org/apps/com.discordapp.Discord), [Snap](https://snapcraft.io/discord), or download from [discord.com](https://discord.com/download).',
   },
   {
     id: 'slack',
@@ -396,10 +568,11 @@ export const apps: AppData[] = [
       chocolatey: 'slack',
       scoop: 'slack',
       homebrew: '--cask slack',
-      pacman: 'slack-desktop',
       flatpak: 'com.slack.Slack',
       snap: 'slack --classic',
+      nix: 'slack',
     },
+    aurTarget: 'slack-desktop',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.slack.Slack), [Snap](https://snapcraft.io/slack), or download from [slack.com](https://slack.com/downloads).',
   },
   {
@@ -413,10 +586,11 @@ export const apps: AppData[] = [
       chocolatey: 'zoom',
       scoop: 'zoom',
       homebrew: '--cask zoom',
-      pacman: 'zoom',
       flatpak: 'us.zoom.Zoom',
       snap: 'zoom-client',
+      nix: 'zoom-us',
     },
+    aurTarget: 'zoom',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/us.zoom.Zoom), [Snap](https://snapcraft.io/zoom-client), or download from [zoom.us](https://zoom.us/download).',
   },
   {
@@ -437,6 +611,7 @@ export const apps: AppData[] = [
       zypper: 'telegram-desktop',
       flatpak: 'org.telegram.desktop',
       snap: 'telegram-desktop',
+      nix: 'telegram-desktop',
     },
   },
   {
@@ -449,11 +624,16 @@ export const apps: AppData[] = [
       winget: 'OpenWhisperSystems.Signal',
       chocolatey: 'signal',
       homebrew: '--cask signal',
+      apt: 'signal-desktop',
       pacman: 'signal-desktop',
       flatpak: 'org.signal.Signal',
       snap: 'signal-desktop',
+      nix: 'signal-desktop',
     },
-    unavailableReason: 'Not in official Linux distro repos, MacPorts, or Scoop. Use [Flatpak](https://flathub.org/apps/org.signal.Signal), [Snap](https://snapcraft.io/signal-desktop), or download from [signal.org](https://signal.org/download/).',
+    repositories: {
+      apt: { name: 'signal-desktop', keyUrl: 'https://updates.signal.org/desktop/apt/keys.asc', repo: 'https://updates.signal.org/desktop/apt xenial main' },
+    },
+    unavailableReason: 'Not in Fedora or openSUSE repos, MacPorts, or Scoop. Use [Flatpak](https://flathub.org/apps/org.signal.Signal), [Snap](https://snapcraft.io/signal-desktop), or download from [signal.org](https://signal.org/download/).',
   },
   {
     id: 'thunderbird',
@@ -473,6 +653,7 @@ export const apps: AppData[] = [
       zypper: 'MozillaThunderbird',
       flatpak: 'org.mozilla.Thunderbird',
       snap: 'thunderbird',
+      nix: 'thunderbird',
     },
   },
   {
@@ -489,6 +670,7 @@ export const apps: AppData[] = [
       pacman: 'element-desktop',
       flatpak: 'im.riot.Riot',
       snap: 'element-desktop',
+      nix: 'element-desktop',
     },
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/im.riot.Riot), [Snap](https://snapcraft.io/element-desktop), or download from [element.io](https://element.io/download).',
   },
@@ -526,6 +708,10 @@ export const apps: AppData[] = [
       zypper: 'vlc',
       flatpak: 'org.videolan.VLC',
       snap: 'vlc',
+      nix: 'vlc',
+    },
+    repositories: {
+      dnf: { type: 'rpmfusion', section: 'free' },
     },
   },
   {
@@ -546,6 +732,7 @@ export const apps: AppData[] = [
       zypper: 'mpv',
       flatpak: 'io.mpv.Mpv',
       snap: 'mpv',
+      nix: 'mpv',
     },
   },
   {
@@ -559,10 +746,11 @@ export const apps: AppData[] = [
       chocolatey: 'spotify',
       scoop: 'spotify',
       homebrew: '--cask spotify',
-      pacman: 'spotify',
       flatpak: 'com.spotify.Client',
       snap: 'spotify',
+      nix: 'spotify',
     },
+    aurTarget: 'spotify',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.spotify.Client), [Snap](https://snapcraft.io/spotify), or download from [spotify.com](https://www.spotify.com/download/).',
   },
   {
@@ -583,6 +771,10 @@ export const apps: AppData[] = [
       zypper: 'obs-studio',
       flatpak: 'com.obsproject.Studio',
       snap: 'obs-studio',
+      nix: 'obs-studio',
+    },
+    repositories: {
+      dnf: { type: 'rpmfusion', section: 'free' },
     },
   },
   {
@@ -603,6 +795,7 @@ export const apps: AppData[] = [
       zypper: 'handbrake',
       flatpak: 'fr.handbrake.ghb',
       snap: 'handbrake-jz',
+      nix: 'handbrake',
     },
   },
   {
@@ -622,6 +815,7 @@ export const apps: AppData[] = [
       zypper: 'kdenlive',
       flatpak: 'org.kde.kdenlive',
       snap: 'kdenlive',
+      nix: 'kdePackages.kdenlive',
     },
   },
   {
@@ -640,6 +834,10 @@ export const apps: AppData[] = [
       dnf: 'ffmpeg',
       pacman: 'ffmpeg',
       zypper: 'ffmpeg',
+      nix: 'ffmpeg',
+    },
+    repositories: {
+      dnf: { type: 'rpmfusion', section: 'free' },
     },
     unavailableReason: 'FFmpeg is a CLI tool and not available via Flatpak or Snap.',
   },
@@ -660,6 +858,7 @@ export const apps: AppData[] = [
       zypper: 'kodi',
       flatpak: 'tv.kodi.Kodi',
       snap: 'kodi',
+      nix: 'kodi',
     },
   },
   {
@@ -672,9 +871,10 @@ export const apps: AppData[] = [
       winget: 'Stremio.Stremio',
       chocolatey: 'stremio',
       homebrew: '--cask stremio',
-      pacman: 'stremio',
       flatpak: 'com.stremio.Stremio',
+      nix: 'stremio',
     },
+    aurTarget: 'stremio',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/com.stremio.Stremio) or download from [stremio.com](https://www.stremio.com/downloads).',
   },
   
@@ -696,6 +896,10 @@ export const apps: AppData[] = [
       zypper: 'steam',
       flatpak: 'com.valvesoftware.Steam',
       snap: 'steam',
+      nix: 'steam',
+    },
+    repositories: {
+      dnf: { type: 'rpmfusion', section: 'nonfree' },
     },
   },
   {
@@ -710,6 +914,7 @@ export const apps: AppData[] = [
       pacman: 'lutris',
       zypper: 'lutris',
       flatpak: 'net.lutris.Lutris',
+      nix: 'lutris',
     },
     unavailableReason: 'Linux-only application. Not available for Windows or macOS.',
   },
@@ -723,9 +928,10 @@ export const apps: AppData[] = [
       winget: 'HeroicGamesLauncher.HeroicGamesLauncher',
       chocolatey: 'heroic-games-launcher',
       homebrew: '--cask heroic',
-      pacman: 'heroic-games-launcher-bin',
       flatpak: 'com.heroicgameslauncher.hgl',
+      nix: 'heroic',
     },
+    aurTarget: 'heroic-games-launcher-bin',
     unavailableReason: 'Not in official Linux distro repos, MacPorts, or Scoop. Use [Flatpak](https://flathub.org/apps/com.heroicgameslauncher.hgl) or download from [heroicgameslauncher.com](https://heroicgameslauncher.com/).',
   },
   {
@@ -746,6 +952,7 @@ export const apps: AppData[] = [
       zypper: 'retroarch',
       flatpak: 'org.libretro.RetroArch',
       snap: 'retroarch',
+      nix: 'retroarch',
     },
   },
   {
@@ -761,6 +968,7 @@ export const apps: AppData[] = [
       homebrew: '--cask prismlauncher',
       pacman: 'prismlauncher',
       flatpak: 'org.prismlauncher.PrismLauncher',
+      nix: 'prismlauncher',
     },
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/org.prismlauncher.PrismLauncher) or download from [prismlauncher.org](https://prismlauncher.org/download/).',
   },
@@ -811,6 +1019,7 @@ export const apps: AppData[] = [
       zypper: 'libreoffice',
       flatpak: 'org.libreoffice.LibreOffice',
       snap: 'libreoffice',
+      nix: 'libreoffice',
     },
   },
   {
@@ -824,10 +1033,11 @@ export const apps: AppData[] = [
       chocolatey: 'onlyoffice',
       scoop: 'onlyoffice-desktopeditors',
       homebrew: '--cask onlyoffice',
-      pacman: 'onlyoffice-bin',
       flatpak: 'org.onlyoffice.desktopeditors',
       snap: 'onlyoffice-desktopeditors',
+      nix: 'onlyoffice-desktopeditors',
     },
+    aurTarget: 'onlyoffice-bin',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/org.onlyoffice.desktopeditors), [Snap](https://snapcraft.io/onlyoffice-desktopeditors), or download from [onlyoffice.com](https://www.onlyoffice.com/desktop.aspx).',
   },
   {
@@ -858,6 +1068,7 @@ export const apps: AppData[] = [
       pacman: 'obsidian',
       flatpak: 'md.obsidian.Obsidian',
       snap: 'obsidian --classic',
+      nix: 'obsidian',
     },
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/md.obsidian.Obsidian), [Snap](https://snapcraft.io/obsidian), or download from [obsidian.md](https://obsidian.md/).',
   },
@@ -872,10 +1083,11 @@ export const apps: AppData[] = [
       chocolatey: 'logseq',
       scoop: 'logseq',
       homebrew: '--cask logseq',
-      pacman: 'logseq-desktop-bin',
       flatpak: 'com.logseq.Logseq',
       snap: 'logseq',
+      nix: 'logseq',
     },
+    aurTarget: 'logseq-desktop-bin',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.logseq.Logseq) or download from [logseq.com](https://logseq.com/).',
   },
   {
@@ -889,10 +1101,11 @@ export const apps: AppData[] = [
       chocolatey: 'joplin',
       scoop: 'joplin',
       homebrew: '--cask joplin',
-      pacman: 'joplin-appimage',
       flatpak: 'net.cozic.joplin_desktop',
       snap: 'joplin-desktop',
+      nix: 'joplin-desktop',
     },
+    aurTarget: 'joplin-appimage',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/net.cozic.joplin_desktop), [Snap](https://snapcraft.io/joplin-desktop), or download from [joplinapp.org](https://joplinapp.org/).',
   },
   {
@@ -911,6 +1124,7 @@ export const apps: AppData[] = [
       pacman: 'calibre',
       zypper: 'calibre',
       flatpak: 'com.calibre_ebook.calibre',
+      nix: 'calibre',
     },
   },
   {
@@ -930,6 +1144,7 @@ export const apps: AppData[] = [
       zypper: 'okular',
       flatpak: 'org.kde.okular',
       snap: 'okular',
+      nix: 'kdePackages.okular',
     },
   },
 
@@ -952,6 +1167,7 @@ export const apps: AppData[] = [
       zypper: 'gimp',
       flatpak: 'org.gimp.GIMP',
       snap: 'gimp',
+      nix: 'gimp',
     },
   },
   {
@@ -972,6 +1188,7 @@ export const apps: AppData[] = [
       zypper: 'inkscape',
       flatpak: 'org.inkscape.Inkscape',
       snap: 'inkscape',
+      nix: 'inkscape',
     },
   },
   {
@@ -992,6 +1209,7 @@ export const apps: AppData[] = [
       zypper: 'blender',
       flatpak: 'org.blender.Blender',
       snap: 'blender --classic',
+      nix: 'blender',
     },
   },
   {
@@ -1011,6 +1229,7 @@ export const apps: AppData[] = [
       zypper: 'krita',
       flatpak: 'org.kde.krita',
       snap: 'krita',
+      nix: 'krita',
     },
   },
   {
@@ -1046,6 +1265,7 @@ export const apps: AppData[] = [
       zypper: 'audacity',
       flatpak: 'org.audacityteam.Audacity',
       snap: 'audacity',
+      nix: 'audacity',
     },
   },
   {
@@ -1065,6 +1285,7 @@ export const apps: AppData[] = [
       zypper: 'darktable',
       flatpak: 'org.darktable.Darktable',
       snap: 'darktable',
+      nix: 'darktable',
     },
   },
   {
@@ -1084,6 +1305,7 @@ export const apps: AppData[] = [
       zypper: 'freecad',
       flatpak: 'org.freecad.FreeCAD',
       snap: 'freecad',
+      nix: 'freecad',
     },
   },
   {
@@ -1102,6 +1324,7 @@ export const apps: AppData[] = [
       pacman: 'godot',
       flatpak: 'org.godotengine.Godot',
       snap: 'godot-4',
+      nix: 'godot_4',
     },
   },
   
@@ -1117,11 +1340,20 @@ export const apps: AppData[] = [
       chocolatey: 'vscode',
       scoop: 'vscode',
       homebrew: '--cask visual-studio-code',
+      apt: 'code',
+      dnf: 'code',
       pacman: 'code',
+      zypper: 'code',
       flatpak: 'com.visualstudio.code',
       snap: 'code --classic',
+      nix: 'vscode',
     },
-    unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.visualstudio.code), [Snap](https://snapcraft.io/code), or download from [code.visualstudio.com](https://code.visualstudio.com/Download).',
+    repositories: {
+      apt: { name: 'vscode', keyUrl: 'https://packages.microsoft.com/keys/microsoft.asc', repo: 'https://packages.microsoft.com/repos/code stable main' },
+      dnf: { type: 'repo', name: 'vscode', keyUrl: 'https://packages.microsoft.com/keys/microsoft.asc', baseUrl: 'https://packages.microsoft.com/yumrepos/vscode' },
+      zypper: { name: 'vscode', keyUrl: 'https://packages.microsoft.com/keys/microsoft.asc', baseUrl: 'https://packages.microsoft.com/yumrepos/vscode' },
+    },
+    unavailableReason: 'Not in MacPorts. Download from [code.visualstudio.com](https://code.visualstudio.com/Download).',
   },
   {
     id: 'vscodium',
@@ -1134,10 +1366,11 @@ export const apps: AppData[] = [
       chocolatey: 'vscodium',
       scoop: 'vscodium',
       homebrew: '--cask vscodium',
-      pacman: 'vscodium-bin',
       flatpak: 'com.vscodium.codium',
       snap: 'codium --classic',
+      nix: 'vscodium',
     },
+    aurTarget: 'vscodium-bin',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.vscodium.codium), [Snap](https://snapcraft.io/codium), or download from [vscodium.com](https://vscodium.com/).',
   },
   {
@@ -1150,8 +1383,9 @@ export const apps: AppData[] = [
       winget: 'Anysphere.Cursor',
       chocolatey: 'cursor',
       homebrew: '--cask cursor',
-      pacman: 'cursor-bin',
+      nix: 'code-cursor',
     },
+    aurTarget: 'cursor-bin',
     unavailableReason: 'Not in official Linux distro repos, MacPorts, Scoop, Flatpak, or Snap. Download from [cursor.sh](https://cursor.sh/).',
   },
   {
@@ -1164,6 +1398,7 @@ export const apps: AppData[] = [
       homebrew: '--cask zed',
       pacman: 'zed',
       flatpak: 'dev.zed.Zed',
+      nix: 'zed-editor',
     },
     unavailableReason: 'Currently only available for macOS and Linux. Not available for Windows. Use [Homebrew](https://formulae.brew.sh/cask/zed) on macOS or [Flatpak](https://flathub.org/apps/dev.zed.Zed) on Linux.',
   },
@@ -1185,6 +1420,7 @@ export const apps: AppData[] = [
       zypper: 'vim',
       flatpak: 'org.vim.Vim',
       snap: 'vim-editor',
+      nix: 'vim',
     },
   },
   {
@@ -1205,6 +1441,7 @@ export const apps: AppData[] = [
       zypper: 'neovim',
       flatpak: 'io.neovim.nvim',
       snap: 'nvim --classic',
+      nix: 'neovim',
     },
   },
   {
@@ -1222,6 +1459,7 @@ export const apps: AppData[] = [
       dnf: 'helix',
       flatpak: 'com.helix-editor.Helix',
       snap: 'helix --classic',
+      nix: 'helix',
     },
     unavailableReason: 'Not in official Debian/Ubuntu repos. Use [Flatpak](https://flathub.org/apps/com.helix-editor.Helix), [Snap](https://snapcraft.io/helix), or download from [helix-editor.com](https://helix-editor.com/).',
   },
@@ -1237,11 +1475,19 @@ export const apps: AppData[] = [
       scoop: 'sublime-text',
       homebrew: '--cask sublime-text',
       macports: 'sublime-text',
-      pacman: 'sublime-text-4',
+      apt: 'sublime-text',
+      dnf: 'sublime-text',
+      zypper: 'sublime-text',
       flatpak: 'com.sublimetext.three',
       snap: 'sublime-text --classic',
+      nix: 'sublime4',
+    },
+    aurTarget: 'sublime-text-4',
+    repositories: {
+      apt: { name: 'sublime-text', keyUrl: 'https://download.sublimetext.com/sublimehq-pub.gpg', repo: 'https://download.sublimetext.com/ apt/stable/' },
+      dnf: { type: 'repo', name: 'sublime-text', keyUrl: 'https://download.sublimetext.com/sublimehq-pub.gpg', baseUrl: 'https://download.sublimetext.com/rpm/stable/x86_64' },
+      zypper: { name: 'sublime-text', keyUrl: 'https://download.sublimetext.com/sublimehq-pub.gpg', baseUrl: 'https://download.sublimetext.com/rpm/stable/x86_64' },
     },
-    unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/com.sublimetext.three), [Snap](https://snapcraft.io/sublime-text), or download from [sublimetext.com](https://www.sublimetext.com/).',
   },
   {
     id: 'emacs',
@@ -1261,6 +1507,7 @@ export const apps: AppData[] = [
       zypper: 'emacs',
       flatpak: 'org.gnu.emacs',
       snap: 'emacs --classic',
+      nix: 'emacs',
     },
   },
   {
@@ -1280,6 +1527,7 @@ export const apps: AppData[] = [
       zypper: 'kate',
       flatpak: 'org.kde.kate',
       snap: 'kate --classic',
+      nix: 'kdePackages.kate',
     },
   },
 
@@ -1300,6 +1548,13 @@ export const apps: AppData[] = [
       pacman: 'docker',
       zypper: 'docker',
       snap: 'docker',
+      nix: 'docker',
+    },
+    postInstall: {
+      apt: [dockerGroupStep],
+      dnf: [dockerServiceStep, dockerGroupStep],
+      pacman: [dockerServiceStep, dockerGroupStep],
+      zypper: [dockerServiceStep, dockerGroupStep],
     },
     unavailableReason: 'Docker Desktop is proprietary. On Linux, use the open-source Docker Engine from official repos. On macOS, use [Homebrew](https://formulae.brew.sh/cask/docker) or download from [docker.com](https://www.docker.com/products/docker-desktop/).',
   },
@@ -1317,6 +1572,7 @@ export const apps: AppData[] = [
       dnf: 'podman',
       pacman: 'podman',
       zypper: 'podman',
+      nix: 'podman',
     },
     unavailableReason: 'Podman is a system package and not available via Flatpak or Snap.',
   },
@@ -1331,10 +1587,11 @@ export const apps: AppData[] = [
       chocolatey: 'postman',
       scoop: 'postman',
       homebrew: '--cask postman',
-      pacman: 'postman-bin',
       flatpak: 'com.getpostman.Postman',
       snap: 'postman',
+      nix: 'postman',
     },
+    aurTarget: 'postman-bin',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.getpostman.Postman), [Snap](https://snapcraft.io/postman), or download from [postman.com](https://www.postman.com/downloads/).',
   },
   {
@@ -1350,6 +1607,7 @@ export const apps: AppData[] = [
       homebrew: '--cask insomnia',
       flatpak: 'rest.insomnia.Insomnia',
       snap: 'insomnia',
+      nix: 'insomnia',
     },
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/rest.insomnia.Insomnia), [Snap](https://snapcraft.io/insomnia), or download from [insomnia.rest](https://insomnia.rest/download).',
   },
@@ -1364,10 +1622,11 @@ export const apps: AppData[] = [
       chocolatey: 'bruno',
       scoop: 'bruno',
       homebrew: '--cask bruno',
-      pacman: 'bruno-bin',
       flatpak: 'com.usebruno.Bruno',
       snap: 'bruno',
+      nix: 'bruno',
     },
+    aurTarget: 'bruno-bin',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/com.usebruno.Bruno), [Snap](https://snapcraft.io/bruno), or download from [usebruno.com](https://www.usebruno.com/downloads).',
   },
   {
@@ -1385,6 +1644,7 @@ export const apps: AppData[] = [
       pacman: 'dbeaver',
       flatpak: 'io.dbeaver.DBeaverCommunity',
       snap: 'dbeaver-ce',
+      nix: 'dbeaver-bin',
     },
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/io.dbeaver.DBeaverCommunity), [Snap](https://snapcraft.io/dbeaver-ce), or download from [dbeaver.io](https://dbeaver.io/download/).',
   },
@@ -1402,6 +1662,7 @@ export const apps: AppData[] = [
       apt: 'virtualbox',
       pacman: 'virtualbox',
       zypper: 'virtualbox',
+      nix: 'virtualbox',
     },
     unavailableReason: 'VirtualBox requires kernel modules and is not available via Flatpak or Snap. Download from [virtualbox.org](https://www.virtualbox.org/wiki/Downloads).',
   },
@@ -1421,6 +1682,7 @@ export const apps: AppData[] = [
       pacman: 'meld',
       zypper: 'meld',
       flatpak: 'org.gnome.meld',
+      nix: 'meld',
     },
   },
   {
@@ -1438,6 +1700,7 @@ export const apps: AppData[] = [
       dnf: 'lazygit',
       pacman: 'lazygit',
       zypper: 'lazygit',
+      nix: 'lazygit',
     },
   },
   {
@@ -1457,6 +1720,7 @@ export const apps: AppData[] = [
       pacman: 'cmake',
       zypper: 'cmake',
       snap: 'cmake --classic',
+      nix: 'cmake',
     },
   },
   
@@ -1478,6 +1742,7 @@ export const apps: AppData[] = [
       pacman: 'nodejs',
       zypper: 'nodejs',
       snap: 'node --classic',
+      nix: 'nodejs',
     },
   },
   {
@@ -1496,6 +1761,7 @@ export const apps: AppData[] = [
       dnf: 'python3',
       pacman: 'python',
       zypper: 'python3',
+      nix: 'python3',
     },
   },
   {
@@ -1514,6 +1780,15 @@ export const apps: AppData[] = [
       dnf: 'rustup',
       zypper: 'rustup',
       snap: 'rustup --classic',
+      nix: 'rustup',
+    },
+    postInstall: {
+      homebrew: [rustupInitStep],
+      pacman: [rustupDefaultStep],
+      dnf: [rustupInitStep],
+      zypper: [rustupDefaultStep],
+      snap: [rustupDefaultStep],
+      nix: [rustupDefaultStep],
     },
     unavailableReason: 'Install via [rustup.rs](https://rustup.rs) on Ubuntu and Debian.',
   },
@@ -1534,6 +1809,7 @@ export const apps: AppData[] = [
       pacman: 'go',
       zypper: 'go',
       snap: 'go --classic',
+      nix: 'go',
     },
   },
   {
@@ -1552,6 +1828,7 @@ export const apps: AppData[] = [
       dnf: 'java-21-openjdk-devel',
       pacman: 'jdk-openjdk',
       zypper: 'java-21-openjdk-devel',
+      nix: 'jdk',
     },
   },
   {
@@ -1571,6 +1848,7 @@ export const apps: AppData[] = [
       pacman: 'ruby',
       zypper: 'ruby',
       snap: 'ruby --classic',
+      nix: 'ruby',
     },
   },
   {
@@ -1589,6 +1867,7 @@ export const apps: AppData[] = [
       dnf: 'php',
       pacman: 'php',
       zypper: 'php8',
+      nix: 'php',
     },
   },
   {
@@ -1603,6 +1882,7 @@ export const apps: AppData[] = [
       scoop: 'deno',
       homebrew: 'deno',
       pacman: 'deno',
+      nix: 'deno',
     },
     unavailableReason: 'Install via `curl -fsSL https://deno.land/install.sh | sh` on other distros.',
   },
@@ -1615,8 +1895,12 @@ export const apps: AppData[] = [
     targets: {
       winget: 'Oven-sh.Bun',
       scoop: 'bun',
-      homebrew: 'bun',
+      homebrew: 'oven-sh/bun/bun',
       pacman: 'bun',
+      nix: 'bun',
+    },
+    repositories: {
+      homebrew: { tap: 'oven-sh/bun' },
     },
     unavailableReason: 'Install via `curl -fsSL https://bun.sh/install | bash`. See [bun.sh](https://bun.sh/).',
   },
@@ -1633,6 +1917,7 @@ export const apps: AppData[] = [
       homebrew: 'pnpm',
       pacman: 'pnpm',
       dnf: 'pnpm',
+      nix: 'pnpm',
     },
     unavailableReason: 'Install via `curl -fsSL https://get.pnpm.io/install.sh | sh`. See [pnpm.io](https://pnpm.io/installation).',
   },
@@ -1647,6 +1932,7 @@ export const apps: AppData[] = [
     targets: {
       homebrew: '--cask iterm2',
       macports: 'iTerm2',
+      nix: 'iterm2',
     },
     unavailableReason: 'macOS-only application. Not available for Windows or Linux.',
   },
@@ -1667,6 +1953,7 @@ export const apps: AppData[] = [
       pacman: 'alacritty',
       zypper: 'alacritty',
       snap: 'alacritty --classic',
+      nix: 'alacritty',
     },
   },
   {
@@ -1683,6 +1970,7 @@ export const apps: AppData[] = [
       macports: 'wezterm',
       pacman: 'wezterm',
       flatpak: 'org.wezfurlong.wezterm',
+      nix: 'wezterm',
     },
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/org.wezfurlong.wezterm) or download from [wezfurlong.org/wezterm](https://wezfurlong.org/wezterm/install/linux.html).',
   },
@@ -1699,6 +1987,7 @@ export const apps: AppData[] = [
       dnf: 'kitty',
       pacman: 'kitty',
       zypper: 'kitty',
+      nix: 'kitty',
     },
     unavailableReason: 'Not available for Windows. Use on macOS or Linux.',
   },
@@ -1728,6 +2017,7 @@ export const apps: AppData[] = [
       dnf: 'zsh',
       pacman: 'zsh',
       zypper: 'zsh',
+      nix: 'zsh',
     },
     unavailableReason: 'Zsh is a system shell and not available via Flatpak, Snap, or Windows package managers.',
   },
@@ -1744,6 +2034,7 @@ export const apps: AppData[] = [
       dnf: 'fish',
       pacman: 'fish',
       zypper: 'fish',
+      nix: 'fish',
     },
     unavailableReason: 'Fish is a system shell and not available via Flatpak, Snap, or Windows package managers.',
   },
@@ -1759,10 +2050,14 @@ export const apps: AppData[] = [
       scoop: 'starship',
       homebrew: 'starship',
       apt: 'starship',
+      dnf: 'starship',
       pacman: 'starship',
       zypper: 'starship',
+      nix: 'starship',
+    },
+    repositories: {
+      dnf: { type: 'copr', project: 'atim/starship' },
     },
-    unavailableReason: 'Not in Fedora repos. Install via `curl -sS https://starship.rs/install.sh | sh` or see [starship.rs](https://starship.rs/).',
   },
   {
     id: 'powershell',
@@ -1777,9 +2072,10 @@ export const apps: AppData[] = [
       homebrew: '--cask powershell',
       apt: 'powershell',
       dnf: 'powershell',
-      pacman: 'powershell-bin',
       snap: 'powershell --classic',
+      nix: 'powershell',
     },
+    aurTarget: 'powershell-bin',
   },
   
   // CLI Tools
@@ -1799,6 +2095,7 @@ export const apps: AppData[] = [
       dnf: 'git',
       pacman: 'git',
       zypper: 'git',
+      nix: 'git',
     },
   },
   {
@@ -1818,6 +2115,7 @@ export const apps: AppData[] = [
       pacman: 'github-cli',
       zypper: 'gh',
       snap: 'gh',
+      nix: 'gh',
     },
   },
   {
@@ -1836,6 +2134,7 @@ export const apps: AppData[] = [
       dnf: 'fzf',
       pacman: 'fzf',
       zypper: 'fzf',
+      nix: 'fzf',
     },
   },
   {
@@ -1854,6 +2153,7 @@ export const apps: AppData[] = [
       dnf: 'ripgrep',
       pacman: 'ripgrep',
       zypper: 'ripgrep',
+      nix: 'ripgrep',
     },
   },
   {
@@ -1872,6 +2172,7 @@ export const apps: AppData[] = [
       dnf: 'jq',
       pacman: 'jq',
       zypper: 'jq',
+      nix: 'jq',
     },
   },
   {
@@ -1890,6 +2191,7 @@ export const apps: AppData[] = [
       pacman: 'btop',
       zypper: 'btop',
       snap: 'btop',
+      nix: 'btop',
     },
   },
   {
@@ -1906,6 +2208,7 @@ export const apps: AppData[] = [
       pacman: 'htop',
       zypper: 'htop',
       snap: 'htop',
+      nix: 'htop',
     },
     unavailableReason: 'Unix/Linux-only application. Not available for Windows.',
   },
@@ -1925,6 +2228,7 @@ export const apps: AppData[] = [
       dnf: 'bat',
       pacman: 'bat',
       zypper: 'bat',
+      nix: 'bat',
     },
   },
   {
@@ -1941,6 +2245,7 @@ export const apps: AppData[] = [
       apt: 'eza',
       pacman: 'eza',
       zypper: 'eza',
+      nix: 'eza',
     },
     unavailableReason: 'Not in Fedora repos. CLI-only (no Flatpak/Snap).',
   },
@@ -1959,6 +2264,7 @@ export const apps: AppData[] = [
       dnf: 'zoxide',
       pacman: 'zoxide',
       zypper: 'zoxide',
+      nix: 'zoxide',
     },
   },
   {
@@ -1977,6 +2283,7 @@ export const apps: AppData[] = [
       dnf: 'fd-find',
       pacman: 'fd',
       zypper: 'fd',
+      nix: 'fd',
     },
   },
   {
@@ -1993,6 +2300,7 @@ export const apps: AppData[] = [
       dnf: 'tmux',
       pacman: 'tmux',
       zypper: 'tmux',
+      nix: 'tmux',
     },
   },
   {
@@ -2011,6 +2319,7 @@ export const apps: AppData[] = [
       dnf: 'wget',
       pacman: 'wget',
       zypper: 'wget',
+      nix: 'wget',
     },
   },
   {
@@ -2029,6 +2338,7 @@ export const apps: AppData[] = [
       dnf: 'curl',
       pacman: 'curl',
       zypper: 'curl',
+      nix: 'curl',
     },
   },
   {
@@ -2045,6 +2355,7 @@ export const apps: AppData[] = [
       dnf: 'ncdu',
       pacman: 'ncdu',
       zypper: 'ncdu',
+      nix: 'ncdu',
     },
   },
   {
@@ -2061,6 +2372,7 @@ export const apps: AppData[] = [
       dnf: 'rsync',
       pacman: 'rsync',
       zypper: 'rsync',
+      nix: 'rsync',
     },
   },
 
@@ -2080,6 +2392,7 @@ export const apps: AppData[] = [
       pacman: 'tailscale',
       dnf: 'tailscale',
       zypper: 'tailscale',
+      nix: 'tailscale',
     },
     unavailableReason: 'Not in Debian or Ubuntu repos. Follow instructions at [tailscale.com/download/linux](https://tailscale.com/download/linux).',
   },
@@ -2099,6 +2412,7 @@ export const apps: AppData[] = [
       dnf: 'wireguard-tools',
       pacman: 'wireguard-tools',
       zypper: 'wireguard-tools',
+      nix: 'wireguard-tools',
     },
   },
   {
@@ -2113,6 +2427,7 @@ export const apps: AppData[] = [
       homebrew: '--cask protonvpn',
       pacman: 'proton-vpn-gtk-app',
       flatpak: 'com.protonvpn.www',
+      nix: 'protonvpn-gui',
     },
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/com.protonvpn.www) or download from [protonvpn.com](https://protonvpn.com/support/linux-vpn-setup/).',
   },
@@ -2126,8 +2441,9 @@ export const apps: AppData[] = [
       winget: 'MullvadVPN.MullvadVPN',
       chocolatey: 'mullvad-app',
       homebrew: '--cask mullvad-vpn',
-      pacman: 'mullvad-vpn-bin',
+      nix: 'mullvad-vpn',
     },
+    aurTarget: 'mullvad-vpn-bin',
     unavailableReason: 'Not in official Linux distro repos. Download from [mullvad.net](https://mullvad.net/en/download).',
   },
   {
@@ -2147,6 +2463,7 @@ export const apps: AppData[] = [
       pacman: 'wireshark-qt',
       zypper: 'wireshark',
       flatpak: 'org.wireshark.Wireshark',
+      nix: 'wireshark',
     },
   },
   {
@@ -2165,6 +2482,7 @@ export const apps: AppData[] = [
       dnf: 'openvpn',
       pacman: 'openvpn',
       zypper: 'openvpn',
+      nix: 'openvpn',
     },
   },
   {
@@ -2183,6 +2501,7 @@ export const apps: AppData[] = [
       dnf: 'nmap',
       pacman: 'nmap',
       zypper: 'nmap',
+      nix: 'nmap',
     },
   },
   
@@ -2201,6 +2520,7 @@ export const apps: AppData[] = [
       pacman: 'bitwarden',
       flatpak: 'com.bitwarden.desktop',
       snap: 'bitwarden',
+      nix: 'bitwarden-desktop',
     },
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/com.bitwarden.desktop), [Snap](https://snapcraft.io/bitwarden), or download from [bitwarden.com](https://bitwarden.com/download/).',
   },
@@ -2215,10 +2535,11 @@ export const apps: AppData[] = [
       chocolatey: '1password',
       scoop: '1password',
       homebrew: '--cask 1password',
-      pacman: '1password',
       flatpak: 'com.onepassword.OnePassword',
       snap: '1password',
+      nix: '_1password-gui',
     },
+    aurTarget: '1password',
     unavailableReason: 'Not in official Linux distro repos or MacPorts. Use [Flatpak](https://flathub.org/apps/com.onepassword.OnePassword), [Snap](https://snapcraft.io/1password), or download from [1password.com](https://1password.com/downloads/).',
   },
   {
@@ -2239,6 +2560,7 @@ export const apps: AppData[] = [
       zypper: 'keepassxc',
       flatpak: 'org.keepassxc.KeePassXC',
       snap: 'keepassxc',
+      nix: 'keepassxc',
     },
   },
   {
@@ -2257,6 +2579,7 @@ export const apps: AppData[] = [
       dnf: 'gnupg2',
       pacman: 'gnupg',
       zypper: 'gpg2',
+      nix: 'gnupg',
     },
   },
   {
@@ -2272,6 +2595,7 @@ export const apps: AppData[] = [
       homebrew: '--cask veracrypt',
       pacman: 'veracrypt',
       zypper: 'veracrypt',
+      nix: 'veracrypt',
     },
     unavailableReason: 'Not in official Debian/Ubuntu/Fedora repos. Download from [veracrypt.fr](https://veracrypt.fr/en/Downloads.html).',
   },
@@ -2290,6 +2614,7 @@ export const apps: AppData[] = [
       dnf: 'clamav',
       pacman: 'clamav',
       zypper: 'clamav',
+      nix: 'clamav',
     },
   },
   
@@ -2312,6 +2637,7 @@ export const apps: AppData[] = [
       zypper: 'syncthing',
       flatpak: 'me.kozec.syncthingtk',
       snap: 'syncthing',
+      nix: 'syncthing',
     },
   },
   {
@@ -2332,6 +2658,7 @@ export const apps: AppData[] = [
       zypper: 'qbittorrent',
       flatpak: 'org.qbittorrent.qBittorrent',
       snap: 'qbittorrent-arnatious',
+      nix: 'qbittorrent',
     },
   },
   {
@@ -2349,6 +2676,7 @@ export const apps: AppData[] = [
       pacman: 'transmission-gtk',
       zypper: 'transmission',
       flatpak: 'com.transmissionbt.Transmission',
+      nix: 'transmission_4-gtk',
     },
   },
   {
@@ -2368,6 +2696,7 @@ export const apps: AppData[] = [
       pacman: 'filezilla',
       zypper: 'filezilla',
       flatpak: 'org.filezillaproject.Filezilla',
+      nix: 'filezilla',
     },
   },
   {
@@ -2381,9 +2710,10 @@ export const apps: AppData[] = [
       chocolatey: 'localsend',
       scoop: 'localsend',
       homebrew: '--cask localsend',
-      pacman: 'localsend-bin',
       flatpak: 'org.localsend.localsend_app',
+      nix: 'localsend',
     },
+    aurTarget: 'localsend-bin',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/org.localsend.localsend_app) or download from [localsend.org](https://localsend.org/download).',
   },
   {
@@ -2403,6 +2733,7 @@ export const apps: AppData[] = [
       zypper: 'nextcloud-desktop',
       flatpak: 'com.nextcloud.desktopclient.nextcloud',
       snap: 'nextcloud-desktop-client',
+      nix: 'nextcloud-client',
     },
   },
   {
@@ -2416,9 +2747,10 @@ export const apps: AppData[] = [
       chocolatey: 'dropbox',
       scoop: 'dropbox',
       homebrew: '--cask dropbox',
-      pacman: 'dropbox',
       flatpak: 'com.dropbox.Client',
+      nix: 'dropbox',
     },
+    aurTarget: 'dropbox',
     unavailableReason: 'Not in official Linux distro repos. Use [Flatpak](https://flathub.org/apps/com.dropbox.Client) or download from [dropbox.com](https://www.dropbox.com/install).',
   },
 
@@ -2438,6 +2770,7 @@ export const apps: AppData[] = [
       pacman: 'neofetch',
       zypper: 'neofetch',
       snap: 'neofetch',
+      nix: 'neofetch',
     },
   },
   {
@@ -2455,6 +2788,7 @@ export const apps: AppData[] = [
       dnf: 'fastfetch',
       pacman: 'fastfetch',
       zypper: 'fastfetch',
+      nix: 'fastfetch',
     },
   },
   {
@@ -2468,6 +2802,7 @@ export const apps: AppData[] = [
       dnf: 'timeshift',
       pacman: 'timeshift',
       zypper: 'timeshift',
+      nix: 'timeshift',
     },
     unavailableReason: 'Linux-only application. Not available for Windows or macOS.',
   },
@@ -2482,6 +2817,7 @@ export const apps: AppData[] = [
       dnf: 'gparted',
       pacman: 'gparted',
       zypper: 'gparted',
+      nix: 'gparted',
     },
     unavailableReason: 'Linux-only application. GParted requires root access and is not available via Flatpak or Snap.',
   },
@@ -2501,6 +2837,7 @@ export const apps: AppData[] = [
       pacman: 'flameshot',
       zypper: 'flameshot',
       flatpak: 'org.flameshot.Flameshot',
+      nix: 'flameshot',
     },
   },
   {
@@ -2519,6 +2856,7 @@ export const apps: AppData[] = [
       pacman: 'bleachbit',
       zypper: 'bleachbit',
       flatpak: 'org.bleachbit.BleachBit',
+      nix: 'bleachbit',
     },
   },
   {
@@ -2535,6 +2873,7 @@ export const apps: AppData[] = [
       dnf: 'kdeconnectd',
       pacman: 'kdeconnect',
       zypper: 'kdeconnect-kde',
+      nix: 'kdePackages.kdeconnect-kde',
     },
   },
   {
@@ -2552,6 +2891,7 @@ export const apps: AppData[] = [
       dnf: 'borgbackup',
       pacman: 'borg',
       zypper: 'borgbackup',
+      nix: 'borgbackup',
     },
   },
   {
@@ -2570,6 +2910,7 @@ export const apps: AppData[] = [
       dnf: 'restic',
       pacman: 'restic',
       zypper: 'restic',
+      nix: 'restic',
     },
   },
 ];
@@ -2597,11 +2938,26 @@ export function getOSById(id: OSId): OS | undefined {
   return operatingSystems.find(os => os.id === id);
 }
 
+/**
+ * Get the package an app is installed as with a given package manager
+ * Falls back to the AUR target for Pacman, whose scripts install it through an AUR helper.
+ */
+export function getPackageTarget(app: AppData, packageManagerId: PackageManagerId): string | undefined {
+  return app.targets[packageManagerId] || (packageManagerId === 'pacman' ? app.aurTarget : undefined);
+}
+
+/**
+ * Check if an app's package for a package manager comes from a vendor repository
+ */
+export function needsRepository(app: AppData, packageManagerId: PackageManagerId): boolean {
+  return !!app.repositories && packageManagerId in app.repositories;
+}
+
 /**
  * Check if an app is available for a given package manager
  */
 export function isAppAvailableForPackageManager(app: AppData, packageManagerId: PackageManagerId): boolean {
-  const target = app.targets[packageManagerId];
+  const target = getPackageTarget(app, packageManagerId);
   return target !== undefined && target !== '';
 }
 
@@ -2616,11 +2972,18 @@ export function isAppAvailableForOS(app: AppData, osId: OSId): boolean {
 
 // Package Manager Helper Functions - Requirements 1.1, 1.2, 2.1
 
+/**
+ * Check if a package manager runs on an operating system
+ */
+export function isPackageManagerForOS(pm: PackageManager, osId: OSId): boolean {
+  return pm.osId === osId || (pm.additionalOsIds?.includes(osId) ?? false);
+}
+
 /**
  * Get package managers filtered by operating system
  */
 export function getPackageManagersByOS(osId: OSId): PackageManager[] {
-  return packageManagers.filter(pm => pm.osId === osId);
+  return packageManagers.filter(pm => isPackageManagerForOS(pm, osId));
 }
 
 /**
@@ -2646,13 +3009,70 @@ export function getPrimaryPackageManager(osId: OSId): PackageManager {
   return fallback;
 }
 
+/**
+ * Versions the user pinned selected apps to, keyed by app ID
+ * A value is a version, or a channel (Snap) or branch (Flatpak), depending on
+ * the package manager's versionPinning.
+ */
+export type AppVersions = Record<string, string>;
+
+/**
+ * Characters a pinned version may contain, enough for Debian epochs and
+ * revisions (1:2.3~rc1-1), Snap channels (latest/edge) and Flatpak branches
+ * while keeping the value a single shell word
+ */
+const VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._+~:/-]{0,63}$/;
+
+/**
+ * Check if a pinned version can be passed to a package manager as-is
+ */
+export function isValidVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version);
+}
+
+/**
+ * Characters a post-install argument may contain, keeping it a single shell word
+ */
+const POST_INSTALL_ARG_PATTERN = /^[A-Za-z0-9_@%+=:,./{}-]{1,128}$/;
+
+/**
+ * Check if a post-install step can be put in a script: a short description without
+ * control characters and a command of plain arguments
+ */
+export function isValidPostInstallStep(step: PostInstallStep): boolean {
+  return step.description.length > 0 &&
+    step.description.length <= 120 &&
+    [...step.description].every(char => char >= ' ' && char !== '\u007f') &&
+    step.command.length > 0 &&
+    step.command.every(arg => POST_INSTALL_ARG_PATTERN.test(arg));
+}
+
+/**
+ * Keep the valid versions of known apps from untrusted input (storage, links)
+ */
+export function sanitizeVersions(value: unknown): AppVersions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([id, version]) =>
+      typeof version === 'string' && isValidVersion(version) && apps.some(app => app.id === id))
+  );
+}
+
 // LocalStorage Keys
 export const STORAGE_KEYS = {
   SELECTED_OS: 'packmate-os',
   SELECTED_APPS: 'packmate-apps',
+  // Pinned versions of selected apps (AppVersions)
+  APP_VERSIONS: 'packmate-versions',
   THEME: 'packmate-theme',
+  // Install scope for all operating systems (InstallScope)
+  INSTALL_SCOPE: 'packmate-scope',
   // New: per-OS package manager selection - Requirements 2.3
   PACKAGE_MANAGER_WINDOWS: 'packmate-pm-windows',
   PACKAGE_MANAGER_MACOS: 'packmate-pm-macos',
   PACKAGE_MANAGER_LINUX: 'packmate-pm-linux',
+  // Per-OS fallback package managers, tried in order after the selected one
+  FALLBACK_WINDOWS: 'packmate-fallback-windows',
+  FALLBACK_MACOS: 'packmate-fallback-macos',
+  FALLBACK_LINUX: 'packmate-fallback-linux',
 } as const;
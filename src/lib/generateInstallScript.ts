@@ -1,30 +1,37 @@
 // Main script generation entry point
 // Requirements: 4.1, 4.2, 5.1
 
-import type { PackageManagerId } from './data';
+import { getPackageManagerById, type AppVersions, type InstallScope, type PackageManagerId } from './data';
 
 // Import all script generators
-import { generateWingetScript, generateWingetCommand } from './scripts/winget';
-import { generateChocolateyScript, generateChocolateyCommand } from './scripts/chocolatey';
-import { generateScoopScript, generateScoopCommand } from './scripts/scoop';
-import { generateHomebrewScript, generateHomebrewCommand } from './scripts/homebrew';
-import { generateMacPortsScript, generateMacPortsCommand } from './scripts/macports';
-import { generateAptScript, generateAptCommand } from './scripts/apt';
-import { generateDnfScript, generateDnfCommand } from './scripts/dnf';
-import { generatePacmanScript, generatePacmanCommand } from './scripts/pacman';
-import { generateZypperScript, generateZypperCommand } from './scripts/zypper';
-import { generateFlatpakScript, generateFlatpakCommand } from './scripts/flatpak';
-import { generateSnapScript, generateSnapCommand } from './scripts/snap';
+import { generateWingetScript, generateWingetUninstallScript, generateWingetCommand } from './scripts/winget';
+import { generateChocolateyScript, generateChocolateyUninstallScript, generateChocolateyCommand } from './scripts/chocolatey';
+import { generateScoopScript, generateScoopUninstallScript, generateScoopCommand } from './scripts/scoop';
+import { generateHomebrewScript, generateHomebrewUninstallScript, generateHomebrewCommand } from './scripts/homebrew';
+import { generateMacPortsScript, generateMacPortsUninstallScript, generateMacPortsCommand } from './scripts/macports';
+import { generateAptScript, generateAptUninstallScript, generateAptCommand } from './scripts/apt';
+import { generateDnfScript, generateDnfUninstallScript, generateDnfCommand } from './scripts/dnf';
+import { generatePacmanScript, generatePacmanUninstallScript, generatePacmanCommand } from './scripts/pacman';
+import { generateZypperScript, generateZypperUninstallScript, generateZypperCommand } from './scripts/zypper';
+import { generateFlatpakScript, generateFlatpakUninstallScript, generateFlatpakCommand } from './scripts/flatpak';
+import { generateSnapScript, generateSnapUninstallScript, generateSnapCommand } from './scripts/snap';
+import { generateNixScript, generateNixUninstallScript, generateNixCommand } from './scripts/nix';
+import { generateFallbackScript, resolveFallbackChain } from './scripts/fallback';
 
 /**
  * Script generator function type
  */
 type ScriptGenerator = (selectedAppIds: Set<string>) => string;
 
+/**
+ * Install script and command generator function type, taking pinned versions and the install scope
+ */
+type PinnedScriptGenerator = (selectedAppIds: Set<string>, versions?: AppVersions, scope?: InstallScope) => string;
+
 /**
  * Map of package manager IDs to their script generators
  */
-const scriptGenerators: Record<PackageManagerId, ScriptGenerator> = {
+const scriptGenerators: Record<PackageManagerId, PinnedScriptGenerator> = {
   // Windows
   winget: generateWingetScript,
   chocolatey: generateChocolateyScript,
@@ -39,12 +46,36 @@ const scriptGenerators: Record<PackageManagerId, ScriptGenerator> = {
   zypper: generateZypperScript,
   flatpak: generateFlatpakScript,
   snap: generateSnapScript,
+  // Linux and macOS
+  nix: generateNixScript,
+};
+
+/**
+ * Map of package manager IDs to their uninstall script generators
+ */
+const uninstallScriptGenerators: Record<PackageManagerId, ScriptGenerator> = {
+  // Windows
+  winget: generateWingetUninstallScript,
+  chocolatey: generateChocolateyUninstallScript,
+  scoop: generateScoopUninstallScript,
+  // macOS
+  homebrew: generateHomebrewUninstallScript,
+  macports: generateMacPortsUninstallScript,
+  // Linux
+  apt: generateAptUninstallScript,
+  dnf: generateDnfUninstallScript,
+  pacman: generatePacmanUninstallScript,
+  zypper: generateZypperUninstallScript,
+  flatpak: generateFlatpakUninstallScript,
+  snap: generateSnapUninstallScript,
+  // Linux and macOS
+  nix: generateNixUninstallScript,
 };
 
 /**
  * Map of package manager IDs to their command generators
  */
-const commandGenerators: Record<PackageManagerId, ScriptGenerator> = {
+const commandGenerators: Record<PackageManagerId, PinnedScriptGenerator> = {
   // Windows
   winget: generateWingetCommand,
   chocolatey: generateChocolateyCommand,
@@ -59,6 +90,8 @@ const commandGenerators: Record<PackageManagerId, ScriptGenerator> = {
   zypper: generateZypperCommand,
   flatpak: generateFlatpakCommand,
   snap: generateSnapCommand,
+  // Linux and macOS
+  nix: generateNixCommand,
 };
 
 /**
@@ -68,11 +101,16 @@ const commandGenerators: Record<PackageManagerId, ScriptGenerator> = {
  * 
  * @param selectedAppIds - Set of selected app IDs
  * @param packageManagerId - The package manager to generate the script for
+ * @param versions - Pinned versions by app ID
+ * @param scope - Whether apps are installed system-wide or for the current user,
+ *   unset for each package manager's default
  * @returns The generated installation script
  */
 export function generateInstallScript(
   selectedAppIds: Set<string>,
-  packageManagerId: PackageManagerId
+  packageManagerId: PackageManagerId,
+  versions: AppVersions = {},
+  scope?: InstallScope
 ): string {
   // Handle empty selection case
   if (selectedAppIds.size === 0) {
@@ -84,6 +122,33 @@ export function generateInstallScript(
     return `# Unknown package manager: ${packageManagerId}`;
   }
 
+  return generator(selectedAppIds, versions, scope);
+}
+
+/**
+ * Generate a full uninstall script for the selected apps and package manager
+ * 
+ * Mirrors generateInstallScript: apps without a target for the package manager are left out,
+ * and packages that are not installed are reported as skipped.
+ * 
+ * @param selectedAppIds - Set of selected app IDs
+ * @param packageManagerId - The package manager to generate the script for
+ * @returns The generated uninstall script
+ */
+export function generateUninstallScript(
+  selectedAppIds: Set<string>,
+  packageManagerId: PackageManagerId
+): string {
+  // Handle empty selection case
+  if (selectedAppIds.size === 0) {
+    return '# No packages selected';
+  }
+
+  const generator = uninstallScriptGenerators[packageManagerId];
+  if (!generator) {
+    return `# Unknown package manager: ${packageManagerId}`;
+  }
+
   return generator(selectedAppIds);
 }
 
@@ -95,11 +160,16 @@ export function generateInstallScript(
  * 
  * @param selectedAppIds - Set of selected app IDs
  * @param packageManagerId - The package manager to generate the command for
+ * @param versions - Pinned versions by app ID
+ * @param scope - Whether apps are installed system-wide or for the current user,
+ *   unset for each package manager's default
  * @returns The generated one-liner command
  */
 export function generateSimpleCommand(
   selectedAppIds: Set<string>,
-  packageManagerId: PackageManagerId
+  packageManagerId: PackageManagerId,
+  versions: AppVersions = {},
+  scope?: InstallScope
 ): string {
   // Handle empty selection case
   if (selectedAppIds.size === 0) {
@@ -111,5 +181,107 @@ export function generateSimpleCommand(
     return `# Unknown package manager: ${packageManagerId}`;
   }
 
-  return generator(selectedAppIds);
+  return generator(selectedAppIds, versions, scope);
+}
+
+/**
+ * Generate a full installation script for a fallback chain of package managers
+ * Each app is installed by the first package manager in the chain that has a target for it.
+ * A chain with a single package manager produces the same script as generateInstallScript.
+ * 
+ * @param selectedAppIds - Set of selected app IDs
+ * @param chain - Package managers in order of preference
+ * @param versions - Pinned versions by app ID
+ * @param scope - Whether apps are installed system-wide or for the current user,
+ *   unset for each package manager's default
+ * @returns The generated installation script
+ */
+export function generateChainInstallScript(
+  selectedAppIds: Set<string>,
+  chain: PackageManagerId[],
+  versions: AppVersions = {},
+  scope?: InstallScope
+): string {
+  if (chain.length <= 1) {
+    return generateInstallScript(selectedAppIds, chain[0], versions, scope);
+  }
+
+  // Handle empty selection case
+  if (selectedAppIds.size === 0) {
+    return '# No packages selected';
+  }
+
+  return generateFallbackScript(selectedAppIds, chain, versions, scope);
+}
+
+/**
+ * Generate one-liner commands for a fallback chain of package managers
+ * Produces one command per package manager that installs at least one app, chained
+ * with `&&` (or `;` in PowerShell, which has no `&&` before version 7).
+ * 
+ * @param selectedAppIds - Set of selected app IDs
+ * @param chain - Package managers in order of preference
+ * @param versions - Pinned versions by app ID
+ * @param scope - Whether apps are installed system-wide or for the current user,
+ *   unset for each package manager's default
+ * @returns The generated command line
+ */
+export function generateChainCommand(
+  selectedAppIds: Set<string>,
+  chain: PackageManagerId[],
+  versions: AppVersions = {},
+  scope?: InstallScope
+): string {
+  if (chain.length <= 1) {
+    return generateSimpleCommand(selectedAppIds, chain[0], versions, scope);
+  }
+
+  // Handle empty selection case
+  if (selectedAppIds.size === 0) {
+    return '# No packages selected';
+  }
+
+  const { segments } = resolveFallbackChain(selectedAppIds, chain, versions, scope);
+  if (segments.length === 0) {
+    return '# No packages selected';
+  }
+
+  const separator = getPackageManagerById(chain[0])?.osId === 'windows' ? '; ' : ' && ';
+  return segments
+    .map(({ packageManagerId, packages }) =>
+      commandGenerators[packageManagerId](new Set(packages.map(p => p.app.id)), versions, scope))
+    .join(separator);
+}
+
+/**
+ * Uninstall script of one package manager in a fallback chain
+ */
+export interface ChainUninstallScript {
+  packageManagerId: PackageManagerId;
+  script: string;
+}
+
+/**
+ * Generate one uninstall script per package manager of a fallback chain
+ * Each app is removed by the package manager the chain installs it with, so there
+ * is a script for every manager that installs at least one app.
+ * A chain with a single package manager produces the same script as generateUninstallScript.
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @param chain - Package managers in order of preference
+ * @returns Uninstall scripts in chain order
+ */
+export function generateChainUninstallScripts(
+  selectedAppIds: Set<string>,
+  chain: PackageManagerId[]
+): ChainUninstallScript[] {
+  const { segments } = resolveFallbackChain(selectedAppIds, chain);
+  if (chain.length <= 1 || segments.length === 0) {
+    return [{ packageManagerId: chain[0], script: generateUninstallScript(selectedAppIds, chain[0]) }];
+  }
+
+  return segments.map(({ packageManagerId, packages }) => ({
+    packageManagerId,
+    script: generateUninstallScript(new Set(packages.map(p => p.app.id)), packageManagerId),
+  }));
 }
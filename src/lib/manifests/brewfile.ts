@@ -0,0 +1,156 @@
+// Brewfile - the manifest format of `brew bundle`
+// Exports Homebrew selections as `brew "..."` / `cask "..."` lines and maps a
+// Brewfile back onto catalog apps through their `targets.homebrew`.
+
+import {
+  apps,
+  isAppAvailableForPackageManager,
+  type AppData,
+  type PackageManagerId,
+} from '@/lib/data';
+import { HomebrewVerifier } from '@/lib/verification/verifiers/homebrew';
+import type { ImportResult, ManifestParseResult } from './types';
+
+/**
+ * Default file name `brew bundle` looks for
+ */
+export const BREWFILE_NAME = 'Brewfile';
+
+/**
+ * One directive of a Brewfile, e.g. `cask "firefox"`
+ */
+export interface BrewfileEntry {
+  /** Directive name: brew, cask, tap, mas, vscode, ... */
+  type: string;
+  name: string;
+}
+
+/**
+ * Directives `brew bundle` understands
+ * Only brew and cask entries map to catalog apps; taps are prerequisites.
+ */
+const BREWFILE_DIRECTIVES = ['tap', 'brew', 'cask', 'mas', 'vscode', 'whalebrew', 'go', 'cargo'];
+
+/**
+ * Matches a directive with a quoted first argument, ignoring any options after it
+ * e.g. `brew "mysql@8.0", restart_service: true`
+ */
+const DIRECTIVE_PATTERN = /^([a-z_]+)\s*\(?\s*(["'])(.+?)\2/;
+
+/**
+ * Tap a fully qualified formula comes from, e.g. "user/repo" for "user/repo/formula"
+ */
+function getTap(name: string): string | null {
+  const parts = name.split('/');
+  return parts.length === 3 ? `${parts[0]}/${parts[1]}` : null;
+}
+
+/**
+ * Generate a Brewfile for the selected apps
+ * Formulae come before casks, each in selection order. Apps without a
+ * Homebrew target are listed in a comment so they aren't lost silently.
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @returns Brewfile contents
+ */
+export function generateBrewfile(selectedAppIds: Iterable<string>): string {
+  const selected = [...selectedAppIds]
+    .map(id => apps.find(a => a.id === id))
+    .filter((app): app is AppData => !!app);
+
+  const formulae: string[] = [];
+  const casks: string[] = [];
+  const missing: string[] = [];
+
+  for (const app of selected) {
+    const target = app.targets.homebrew;
+    if (!target) {
+      missing.push(app.name);
+      continue;
+    }
+    const { isCask, name } = HomebrewVerifier.parsePackageName(target);
+    (isCask ? casks : formulae).push(name);
+  }
+
+  const taps = [...new Set(formulae.map(getTap).filter((tap): tap is string => tap !== null))];
+
+  const lines = [
+    '# Brewfile generated by Packmate',
+    '# Install with: brew bundle --file=Brewfile',
+    ...(missing.length > 0 ? [`# Not available via Homebrew: ${missing.join(', ')}`] : []),
+    '',
+    ...taps.map(tap => `tap "${tap}"`),
+    ...formulae.map(name => `brew "${name}"`),
+    ...casks.map(name => `cask "${name}"`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse the entries of a Brewfile
+ * Comments, blank lines and Ruby the parser doesn't understand (e.g. `if OS.mac?`)
+ * are skipped, since a Brewfile is a Ruby script.
+ *
+ * @param text - Brewfile contents
+ * @returns The entries, or an error when the text contains none
+ */
+export function parseBrewfile(text: string): ManifestParseResult<BrewfileEntry[]> {
+  const entries: BrewfileEntry[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const match = DIRECTIVE_PATTERN.exec(line);
+    if (match && BREWFILE_DIRECTIVES.includes(match[1])) {
+      entries.push({ type: match[1], name: match[3] });
+    }
+  }
+
+  if (entries.length === 0) {
+    return { ok: false, error: 'No Brewfile entries found (expected lines like brew "git" or cask "firefox")' };
+  }
+  return { ok: true, manifest: entries };
+}
+
+/**
+ * Map Brewfile entries onto catalog apps through their Homebrew targets
+ * A formula or cask matches an app whose target has the same name, preferring
+ * the same kind; tap-qualified names also match on their last segment.
+ * Taps are skipped, other entry types are reported as unknown.
+ *
+ * @param entries - Parsed Brewfile entries
+ * @param packageManagerId - Package manager the selection is for
+ * @returns Selectable app IDs plus everything that couldn't be selected
+ */
+export function resolveBrewfile(entries: BrewfileEntry[], packageManagerId: PackageManagerId): ImportResult {
+  const homebrewApps = apps
+    .filter(app => app.targets.homebrew)
+    .map(app => ({ app, ...HomebrewVerifier.parsePackageName(app.targets.homebrew!) }));
+
+  const result: ImportResult = { appIds: [], unknown: [], unavailable: [] };
+  const seen = new Set<string>();
+
+  for (const { type, name } of entries) {
+    if (type === 'tap') continue;
+
+    const isCask = type === 'cask';
+    const shortName = name.split('/').pop()!;
+    const candidates = type === 'brew' || isCask
+      ? homebrewApps.filter(h => h.name === name || h.name === shortName)
+      : [];
+    const match = candidates.find(h => h.isCask === isCask) ?? candidates[0];
+
+    if (!match) {
+      result.unknown.push(`${type} "${name}"`);
+    } else if (!seen.has(match.app.id)) {
+      seen.add(match.app.id);
+      if (isAppAvailableForPackageManager(match.app, packageManagerId)) {
+        result.appIds.push(match.app.id);
+      } else {
+        result.unavailable.push(match.app);
+      }
+    }
+  }
+  return result;
+}
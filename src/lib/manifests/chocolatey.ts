@@ -0,0 +1,154 @@
+// Chocolatey packages.config - the XML read by `choco install packages.config`
+// and written by `choco export`. Built from `targets.chocolatey` package IDs.
+
+import {
+  apps,
+  isAppAvailableForPackageManager,
+  type PackageManagerId,
+} from '@/lib/data';
+import type { ImportResult, ManifestParseResult } from './types';
+
+/**
+ * Default file name of a Chocolatey package list
+ */
+export const CHOCOLATEY_PACKAGES_CONFIG_NAME = 'packages.config';
+
+/**
+ * Matches a `<package ... />` element and captures its attributes
+ */
+const PACKAGE_ELEMENT_PATTERN = /<package\b([^>]*?)\/?>/g;
+
+/**
+ * Matches the `id` attribute inside a package element's attributes
+ */
+const ID_ATTRIBUTE_PATTERN = /\bid\s*=\s*(["'])(.*?)\1/;
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+/**
+ * Escape a string for use in an XML attribute value
+ */
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ *
+ * @returns The decoded value, or null if a character reference is out of the Unicode range
+ */
+function unescapeXml(value: string): string | null {
+  let valid = true;
+  const decoded = value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1].toLowerCase() === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (code > 0x10ffff) {
+        valid = false;
+        return entity;
+      }
+      return String.fromCodePoint(code);
+    }
+    const char = Object.keys(XML_ENTITIES).find(key => XML_ENTITIES[key] === `&${ref.toLowerCase()};`);
+    return char ?? entity;
+  });
+  return valid ? decoded : null;
+}
+
+/**
+ * Generate a Chocolatey packages.config for the selected apps
+ * Apps without a Chocolatey package are listed in a comment.
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @returns packages.config XML
+ */
+export function generateChocolateyPackagesConfig(selectedAppIds: Iterable<string>): string {
+  const packages: string[] = [];
+  const missing: string[] = [];
+
+  for (const id of selectedAppIds) {
+    const app = apps.find(a => a.id === id);
+    if (!app) continue;
+    if (app.targets.chocolatey) {
+      packages.push(app.targets.chocolatey);
+    } else {
+      missing.push(app.name);
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<!-- Generated by Packmate. Install with: choco install ${CHOCOLATEY_PACKAGES_CONFIG_NAME} -y -->`,
+    // "--" may not appear inside an XML comment
+    ...(missing.length > 0 ? [`<!-- Not available via Chocolatey: ${missing.join(', ').replace(/--/g, '- -')} -->`] : []),
+    '<packages>',
+    ...packages.map(pkg => `  <package id="${escapeXml(pkg)}" />`),
+    '</packages>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Parse the package IDs of a Chocolatey packages.config
+ * Attributes other than `id` (version, source, install arguments) are ignored.
+ *
+ * @param xml - File contents
+ * @returns Package IDs in file order, or a description of what is wrong
+ */
+export function parseChocolateyPackagesConfig(xml: string): ManifestParseResult<string[]> {
+  // Comments may contain anything, including example package elements
+  const content = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  if (!/<packages\b[^>]*>/.test(content)) {
+    return { ok: false, error: 'No <packages> element found' };
+  }
+
+  const ids: string[] = [];
+  for (const [element, attributes] of content.matchAll(PACKAGE_ELEMENT_PATTERN)) {
+    const match = ID_ATTRIBUTE_PATTERN.exec(attributes);
+    if (!match || match[2].trim() === '') {
+      return { ok: false, error: `Package element without an id: ${element}` };
+    }
+    const id = unescapeXml(match[2].trim());
+    if (id === null) {
+      return { ok: false, error: `Invalid character reference in package id: ${element}` };
+    }
+    ids.push(id);
+  }
+
+  return { ok: true, manifest: ids };
+}
+
+/**
+ * Map Chocolatey package IDs onto catalog apps through their Chocolatey targets
+ * IDs are compared case-insensitively, like Chocolatey itself does.
+ *
+ * @param ids - Package IDs from a packages.config
+ * @param packageManagerId - Package manager the selection is for
+ * @returns Selectable app IDs plus everything that couldn't be selected
+ */
+export function resolveChocolateyPackages(ids: string[], packageManagerId: PackageManagerId): ImportResult {
+  const result: ImportResult = { appIds: [], unknown: [], unavailable: [] };
+  const seen = new Set<string>();
+
+  for (const id of ids) {
+    const key = id.toLowerCase();
+    const app = apps.find(a => a.targets.chocolatey?.toLowerCase() === key);
+
+    if (!app) {
+      result.unknown.push(id);
+    } else if (!seen.has(app.id)) {
+      seen.add(app.id);
+      if (isAppAvailableForPackageManager(app, packageManagerId)) {
+        result.appIds.push(app.id);
+      } else {
+        result.unavailable.push(app);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,7 @@
+// Manifests library barrel export
+export * from './types';
+export * from './profile';
+export * from './brewfile';
+export * from './winget';
+export * from './chocolatey';
+export * from './scoop';
@@ -0,0 +1,208 @@
+// Packmate profile - a versioned, cross-OS JSON manifest of app IDs
+// A profile lists the apps a team wants on every machine, plus optional
+// per-package-manager overrides that add or remove apps for one manager.
+
+import {
+  apps,
+  packageManagers,
+  isAppAvailableForPackageManager,
+  type AppData,
+  type PackageManagerId,
+} from '@/lib/data';
+import type { ImportResult, ManifestParseResult } from './types';
+
+/**
+ * Marker identifying a Packmate profile file
+ */
+export const PROFILE_FORMAT = 'packmate-profile';
+
+/**
+ * Latest profile format version this build reads and writes
+ */
+export const PROFILE_VERSION = 1;
+
+/**
+ * Apps added to or removed from the profile for one package manager
+ */
+export interface ProfileOverride {
+  add?: string[];
+  remove?: string[];
+}
+
+/**
+ * A Packmate profile manifest
+ */
+export interface PackmateProfile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  name?: string;
+  apps: string[];
+  overrides?: Partial<Record<PackageManagerId, ProfileOverride>>;
+}
+
+/**
+ * Create a profile from a selection
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @param name - Optional profile name
+ * @returns A profile at the current format version
+ */
+export function createProfile(selectedAppIds: Iterable<string>, name?: string): PackmateProfile {
+  return {
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    ...(name ? { name } : {}),
+    apps: [...selectedAppIds],
+  };
+}
+
+/**
+ * Serialize a profile as pretty-printed JSON
+ */
+export function serializeProfile(profile: PackmateProfile): string {
+  return JSON.stringify(profile, null, 2) + '\n';
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Parse and validate a profile
+ *
+ * @param json - Profile file contents
+ * @returns The profile, or a description of what is wrong with it
+ */
+export function parseProfile(json: string): ManifestParseResult<PackmateProfile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'Profile is not valid JSON' };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, error: 'Profile must be a JSON object' };
+  }
+
+  const profile = data as Record<string, unknown>;
+
+  if (profile.format !== PROFILE_FORMAT) {
+    return { ok: false, error: `Not a Packmate profile (expected "format": "${PROFILE_FORMAT}")` };
+  }
+  if (typeof profile.version !== 'number' || !Number.isInteger(profile.version) || profile.version < 1) {
+    return { ok: false, error: '"version" must be a positive integer' };
+  }
+  if (profile.version > PROFILE_VERSION) {
+    return { ok: false, error: `Profile version ${profile.version} is newer than this version of Packmate supports (${PROFILE_VERSION})` };
+  }
+  if (profile.name !== undefined && typeof profile.name !== 'string') {
+    return { ok: false, error: '"name" must be a string' };
+  }
+  if (!isStringArray(profile.apps)) {
+    return { ok: false, error: '"apps" must be an array of app IDs' };
+  }
+
+  if (profile.overrides !== undefined) {
+    if (typeof profile.overrides !== 'object' || profile.overrides === null || Array.isArray(profile.overrides)) {
+      return { ok: false, error: '"overrides" must be an object keyed by package manager' };
+    }
+    for (const [pmId, override] of Object.entries(profile.overrides)) {
+      if (!packageManagers.some(pm => pm.id === pmId)) {
+        return { ok: false, error: `Unknown package manager "${pmId}" in "overrides"` };
+      }
+      if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+        return { ok: false, error: `"overrides.${pmId}" must be an object` };
+      }
+      const { add, remove } = override as Record<string, unknown>;
+      if ((add !== undefined && !isStringArray(add)) || (remove !== undefined && !isStringArray(remove))) {
+        return { ok: false, error: `"overrides.${pmId}.add" and "overrides.${pmId}.remove" must be arrays of app IDs` };
+      }
+    }
+  }
+
+  return { ok: true, manifest: profile as unknown as PackmateProfile };
+}
+
+/**
+ * Resolve a profile for one package manager
+ * Applies the manager's override, then reports unknown IDs and apps the
+ * manager can't install instead of dropping them.
+ *
+ * @param profile - A validated profile
+ * @param packageManagerId - Package manager the selection is for
+ * @returns Selectable app IDs plus everything that couldn't be selected
+ */
+export function resolveProfile(profile: PackmateProfile, packageManagerId: PackageManagerId): ImportResult {
+  const override = profile.overrides?.[packageManagerId];
+  const removed = new Set(override?.remove ?? []);
+  const ids = [...new Set([...profile.apps, ...(override?.add ?? [])])].filter(id => !removed.has(id));
+
+  const result: ImportResult = { appIds: [], unknown: [], unavailable: [] };
+  for (const id of ids) {
+    const app = apps.find(a => a.id === id);
+    if (!app) {
+      result.unknown.push(id);
+    } else if (!isAppAvailableForPackageManager(app, packageManagerId)) {
+      result.unavailable.push(app);
+    } else {
+      result.appIds.push(id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Encode a profile for a URL query parameter, as base64url of its compact JSON
+ * (the characters are safe in URLs and in quoted shell and PowerShell strings)
+ *
+ * @param profile - The profile to encode
+ * @returns Encoded profile
+ */
+export function encodeProfileParam(profile: PackmateProfile): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(profile));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode and validate a profile from a URL query parameter
+ *
+ * @param param - Profile encoded with encodeProfileParam
+ * @returns The profile, or a description of what is wrong with it
+ */
+export function decodeProfileParam(param: string): ManifestParseResult<PackmateProfile> {
+  if (!/^[A-Za-z0-9_-]+$/.test(param)) {
+    return { ok: false, error: 'Profile must be base64url-encoded' };
+  }
+
+  let json: string;
+  try {
+    const binary = atob(param.replace(/-/g, '+').replace(/_/g, '/'));
+    json = new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    return { ok: false, error: 'Profile must be base64url-encoded' };
+  }
+  return parseProfile(json);
+}
+
+/**
+ * Resolve a profile for a fallback chain of package managers
+ * The overrides of the first package manager apply; an app is selectable when any
+ * package manager of the chain has it.
+ *
+ * @param profile - A validated profile
+ * @param chain - Package managers in order of preference
+ * @returns Selectable app IDs plus everything that couldn't be selected
+ */
+export function resolveProfileForChain(profile: PackmateProfile, chain: PackageManagerId[]): ImportResult {
+  const result = resolveProfile(profile, chain[0]);
+  const inChain = (app: AppData) => chain.some(id => isAppAvailableForPackageManager(app, id));
+  return {
+    ...result,
+    appIds: [...result.appIds, ...result.unavailable.filter(inChain).map(app => app.id)],
+    unavailable: result.unavailable.filter(app => !inChain(app)),
+  };
+}
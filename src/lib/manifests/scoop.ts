@@ -0,0 +1,153 @@
+// Scoop export - the JSON written by `scoop export` and read by `scoop import`
+// Built from `targets.scoop`, which is either an app name or `bucket/app`.
+
+import {
+  apps,
+  isAppAvailableForPackageManager,
+  type PackageManagerId,
+} from '@/lib/data';
+import type { ImportResult, ManifestParseResult } from './types';
+
+/**
+ * Default file name for a Scoop export
+ */
+export const SCOOP_EXPORT_FILE_NAME = 'scoopfile.json';
+
+/**
+ * Repositories of the known buckets, as listed by `scoop bucket known`
+ */
+const KNOWN_BUCKETS: Record<string, string> = {
+  main: 'https://github.com/ScoopInstaller/Main',
+  extras: 'https://github.com/ScoopInstaller/Extras',
+  versions: 'https://github.com/ScoopInstaller/Versions',
+  'nerd-fonts': 'https://github.com/matthewjberger/scoop-nerd-fonts',
+  nirsoft: 'https://github.com/ScoopInstaller/Nirsoft',
+  sysinternals: 'https://github.com/niheaven/scoop-sysinternals',
+  java: 'https://github.com/ScoopInstaller/Java',
+  nonportable: 'https://github.com/ScoopInstaller/Nonportable',
+  games: 'https://github.com/Calinou/scoop-games',
+};
+
+/**
+ * An app entry of a Scoop export
+ */
+export interface ScoopExportApp {
+  Name: string;
+  /** Bucket the app was installed from, or a name, path or URL to install */
+  Source?: string;
+}
+
+/**
+ * Split a Scoop target into its bucket, if qualified, and app name
+ */
+function parseScoopTarget(target: string): { bucket?: string; name: string } {
+  const slash = target.lastIndexOf('/');
+  return slash === -1
+    ? { name: target }
+    : { bucket: target.slice(0, slash), name: target.slice(slash + 1) };
+}
+
+/**
+ * Generate a `scoop import` JSON file for the selected apps
+ * Buckets of `bucket/app` targets are listed so `scoop import` adds them first.
+ * `scoop import` installs an app whose Source isn't a bucket by passing the
+ * Source to `scoop install`, so unqualified targets use their own name as
+ * Source and are found in any added bucket, like in the install script.
+ * Apps without a Scoop target are left out.
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @returns JSON in the format written by `scoop export`
+ */
+export function generateScoopExport(selectedAppIds: Iterable<string>): string {
+  const entries: ScoopExportApp[] = [];
+  const qualifiedBuckets = new Set<string>();
+
+  for (const id of selectedAppIds) {
+    const target = apps.find(a => a.id === id)?.targets.scoop;
+    if (!target) continue;
+    const { bucket, name } = parseScoopTarget(target);
+    entries.push({ Name: name, Source: bucket ?? name });
+    if (bucket) qualifiedBuckets.add(bucket);
+  }
+
+  const buckets = [...qualifiedBuckets].map(bucket => ({
+    Name: bucket,
+    ...(KNOWN_BUCKETS[bucket] ? { Source: KNOWN_BUCKETS[bucket] } : {}),
+  }));
+
+  return JSON.stringify({
+    buckets,
+    apps: entries.map(entry => ({ ...entry, Info: '' })),
+  }, null, 2) + '\n';
+}
+
+/**
+ * Parse the apps of a `scoop export` JSON file
+ *
+ * @param json - File contents
+ * @returns App entries in file order, or a description of what is wrong
+ */
+export function parseScoopExport(json: string): ManifestParseResult<ScoopExportApp[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'Scoop export is not valid JSON' };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, error: 'Scoop export must be a JSON object' };
+  }
+
+  const entries = (data as Record<string, unknown>).apps;
+  if (!Array.isArray(entries)) {
+    return { ok: false, error: '"apps" must be an array' };
+  }
+
+  const result: ScoopExportApp[] = [];
+  for (const [i, entry] of entries.entries()) {
+    const { Name, Source } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof Name !== 'string') {
+      return { ok: false, error: `"apps[${i}].Name" must be a string` };
+    }
+    result.push(typeof Source === 'string' ? { Name, Source } : { Name });
+  }
+
+  return { ok: true, manifest: result };
+}
+
+/**
+ * Map Scoop export entries onto catalog apps through their Scoop targets
+ * Names are compared case-insensitively. An app in the same bucket is
+ * preferred when several buckets have an app of that name.
+ *
+ * @param entries - Parsed Scoop export entries
+ * @param packageManagerId - Package manager the selection is for
+ * @returns Selectable app IDs plus everything that couldn't be selected
+ */
+export function resolveScoopExport(entries: ScoopExportApp[], packageManagerId: PackageManagerId): ImportResult {
+  const scoopApps = apps
+    .filter(app => app.targets.scoop)
+    .map(app => ({ app, ...parseScoopTarget(app.targets.scoop!.toLowerCase()) }));
+
+  const result: ImportResult = { appIds: [], unknown: [], unavailable: [] };
+  const seen = new Set<string>();
+
+  for (const { Name, Source } of entries) {
+    const name = Name.toLowerCase();
+    const candidates = scoopApps.filter(s => s.name === name);
+    const match = candidates.find(s => s.bucket === Source?.toLowerCase()) ?? candidates[0];
+
+    if (!match) {
+      result.unknown.push(Source && Source !== Name ? `${Source}/${Name}` : Name);
+    } else if (!seen.has(match.app.id)) {
+      seen.add(match.app.id);
+      if (isAppAvailableForPackageManager(match.app, packageManagerId)) {
+        result.appIds.push(match.app.id);
+      } else {
+        result.unavailable.push(match.app);
+      }
+    }
+  }
+  return result;
+}
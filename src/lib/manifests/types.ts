@@ -0,0 +1,25 @@
+// Shared types for importing and exporting selections as manifest files
+
+import type { AppData } from '@/lib/data';
+
+/**
+ * Result of parsing a manifest file
+ * Parsing fails only on malformed input; entries that don't map to the
+ * catalog are reported by the import result instead.
+ */
+export type ManifestParseResult<T> =
+  | { ok: true; manifest: T }
+  | { ok: false; error: string };
+
+/**
+ * Result of mapping an imported manifest onto the app catalog
+ * Nothing is dropped silently: every entry ends up in exactly one list.
+ */
+export interface ImportResult {
+  /** App IDs that can be selected for the target package manager */
+  appIds: string[];
+  /** Entries that don't match any app in the catalog */
+  unknown: string[];
+  /** Apps in the catalog that have no target for the package manager */
+  unavailable: AppData[];
+}
@@ -0,0 +1,190 @@
+// Winget manifests - the JSON read by `winget import` / written by `winget export`,
+// and the DSC configuration YAML applied with `winget configure`.
+// Both are built from `targets.winget` package identifiers.
+
+import {
+  apps,
+  isAppAvailableForPackageManager,
+  type AppData,
+  type PackageManagerId,
+} from '@/lib/data';
+import { parseWingetPackageId } from '@/lib/verification/verifiers/winget';
+import type { ImportResult, ManifestParseResult } from './types';
+
+/**
+ * Schema of the `winget import` / `winget export` JSON
+ */
+export const WINGET_PACKAGES_SCHEMA = 'https://aka.ms/winget-packages.schema.2.0.json';
+
+/**
+ * Schema of the `winget configure` DSC YAML
+ */
+export const WINGET_CONFIGURATION_SCHEMA = 'https://aka.ms/configuration-dsc-schema/0.2';
+
+/**
+ * Default file names for the two formats
+ */
+export const WINGET_PACKAGES_FILE_NAME = 'winget-packages.json';
+export const WINGET_CONFIGURATION_FILE_NAME = 'configuration.winget';
+
+/**
+ * Source entry `winget export` writes for the community repository
+ */
+const WINGET_SOURCE_DETAILS = {
+  Argument: 'https://cdn.winget.microsoft.com/cache',
+  Identifier: 'Microsoft.Winget.Source_8wekyb3d8bbwe',
+  Name: 'winget',
+  Type: 'Microsoft.PreIndexed.Package',
+};
+
+/**
+ * Selected apps with a valid Winget package identifier, plus the ones without
+ */
+function getWingetPackages(selectedAppIds: Iterable<string>): {
+  packages: { app: AppData; id: string }[];
+  missing: AppData[];
+} {
+  const packages: { app: AppData; id: string }[] = [];
+  const missing: AppData[] = [];
+
+  for (const id of selectedAppIds) {
+    const app = apps.find(a => a.id === id);
+    if (!app) continue;
+    const target = app.targets.winget;
+    if (target && parseWingetPackageId(target)) {
+      packages.push({ app, id: target });
+    } else {
+      missing.push(app);
+    }
+  }
+  return { packages, missing };
+}
+
+/**
+ * Generate a `winget import` JSON file for the selected apps
+ * Apps without a Winget package identifier are left out.
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @returns JSON in the format written by `winget export`
+ */
+export function generateWingetPackages(selectedAppIds: Iterable<string>): string {
+  const { packages } = getWingetPackages(selectedAppIds);
+
+  return JSON.stringify({
+    $schema: WINGET_PACKAGES_SCHEMA,
+    CreationDate: new Date().toISOString(),
+    Sources: [
+      {
+        Packages: packages.map(({ id }) => ({ PackageIdentifier: id })),
+        SourceDetails: WINGET_SOURCE_DETAILS,
+      },
+    ],
+  }, null, 2) + '\n';
+}
+
+/**
+ * Generate a `winget configure` DSC configuration for the selected apps
+ * Each app becomes a WinGetPackage resource. Strings are written as JSON
+ * strings, which are valid double-quoted YAML scalars.
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @returns Configuration YAML
+ */
+export function generateWingetConfiguration(selectedAppIds: Iterable<string>): string {
+  const { packages, missing } = getWingetPackages(selectedAppIds);
+
+  const resources = packages.flatMap(({ app, id }) => [
+    '    - resource: Microsoft.WinGet.DSC/WinGetPackage',
+    `      id: ${JSON.stringify(id)}`,
+    '      directives:',
+    `        description: ${JSON.stringify(`Install ${app.name}`)}`,
+    '      settings:',
+    `        id: ${JSON.stringify(id)}`,
+    '        source: winget',
+  ]);
+
+  return [
+    `# yaml-language-server: $schema=${WINGET_CONFIGURATION_SCHEMA}`,
+    '# Generated by Packmate',
+    `# Apply with: winget configure -f ${WINGET_CONFIGURATION_FILE_NAME}`,
+    ...(missing.length > 0 ? [`# Not available via Winget: ${missing.map(app => app.name).join(', ')}`] : []),
+    'properties:',
+    '  configurationVersion: 0.2.0',
+    ...(resources.length > 0 ? ['  resources:', ...resources] : ['  resources: []']),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Parse the package identifiers of a `winget export` JSON file
+ * Packages from every source are read; the file must follow the
+ * `Sources[].Packages[].PackageIdentifier` layout.
+ *
+ * @param json - File contents
+ * @returns Package identifiers in file order, or a description of what is wrong
+ */
+export function parseWingetPackages(json: string): ManifestParseResult<string[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'Winget export is not valid JSON' };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, error: 'Winget export must be a JSON object' };
+  }
+
+  const sources = (data as Record<string, unknown>).Sources;
+  if (!Array.isArray(sources)) {
+    return { ok: false, error: '"Sources" must be an array' };
+  }
+
+  const identifiers: string[] = [];
+  for (const [i, source] of sources.entries()) {
+    const packages = (source as Record<string, unknown> | null)?.Packages;
+    if (!Array.isArray(packages)) {
+      return { ok: false, error: `"Sources[${i}].Packages" must be an array` };
+    }
+    for (const [j, pkg] of packages.entries()) {
+      const identifier = (pkg as Record<string, unknown> | null)?.PackageIdentifier;
+      if (typeof identifier !== 'string') {
+        return { ok: false, error: `"Sources[${i}].Packages[${j}].PackageIdentifier" must be a string` };
+      }
+      identifiers.push(identifier);
+    }
+  }
+
+  return { ok: true, manifest: identifiers };
+}
+
+/**
+ * Map Winget package identifiers onto catalog apps through their Winget targets
+ * Identifiers are compared case-insensitively, like winget itself does.
+ *
+ * @param identifiers - Package identifiers from a winget export
+ * @param packageManagerId - Package manager the selection is for
+ * @returns Selectable app IDs plus everything that couldn't be selected
+ */
+export function resolveWingetPackages(identifiers: string[], packageManagerId: PackageManagerId): ImportResult {
+  const result: ImportResult = { appIds: [], unknown: [], unavailable: [] };
+  const seen = new Set<string>();
+
+  for (const identifier of identifiers) {
+    const key = identifier.toLowerCase();
+    const app = parseWingetPackageId(identifier)
+      ? apps.find(a => a.targets.winget?.toLowerCase() === key)
+      : undefined;
+
+    if (!app) {
+      result.unknown.push(identifier);
+    } else if (!seen.has(app.id)) {
+      seen.add(app.id);
+      if (isAppAvailableForPackageManager(app, packageManagerId)) {
+        result.appIds.push(app.id);
+      } else {
+        result.unavailable.push(app);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,185 @@
+// Verified script downloads
+// Install scripts for a selection are served at a stable URL (see /api/download), next to
+// their SHA-256 digest and, when the server has a signing key, a detached signature.
+// The one-liners here download a script, check it against its digest and only then run it.
+
+import {
+  apps,
+  getPackageManagerById,
+  isAppAvailableForPackageManager,
+  isPackageManagerForOS,
+  operatingSystems,
+  type AppVersions,
+  type InstallScope,
+  type OSId,
+  type PackageManagerId,
+} from './data';
+import { decodeProfileParam, resolveProfileForChain } from './manifests';
+import { encodeVersions, parseVersions } from './shareLink';
+
+/**
+ * Path the download route is served under
+ */
+export const SCRIPT_DOWNLOAD_PATH = '/api/download';
+
+/**
+ * File name of the public key that verifies script signatures
+ */
+export const SIGNING_KEY_FILE_NAME = 'packmate.pub';
+
+/**
+ * Files served for a script: the script itself, its digest in `sha256sum` format
+ * and its detached signature
+ */
+export type ScriptFileKind = 'script' | 'sha256' | 'sig';
+
+/**
+ * A selection to generate a script for
+ */
+export interface ScriptSelection {
+  /** Selected package manager followed by its fallbacks */
+  chain: PackageManagerId[];
+  apps: string[];
+  /** Pinned versions by app ID, for selected apps only */
+  versions?: AppVersions;
+  scope?: InstallScope;
+}
+
+/**
+ * Query parameter names used by script download URLs
+ */
+export const SCRIPT_PARAMS = {
+  APPS: 'apps',
+  VERSIONS: 'versions',
+  SCOPE: 'scope',
+  /** A Packmate profile (see encodeProfileParam) to take the apps from instead of `apps` */
+  PROFILE: 'profile',
+} as const;
+
+const FILE_SUFFIXES: Record<ScriptFileKind, string> = {
+  script: '',
+  sha256: '.sha256',
+  sig: '.sig',
+};
+
+/**
+ * Whether a chain installs on Windows, where scripts are PowerShell
+ */
+function isWindowsChain(chain: PackageManagerId[]): boolean {
+  return getPackageManagerById(chain[0])?.osId === 'windows';
+}
+
+/**
+ * File name of the install script for a chain, the same one the Download button uses
+ *
+ * @param chain - Selected package manager followed by its fallbacks
+ * @returns File name such as `packmate-apt-flatpak.sh` or `packmate-winget.ps1`
+ */
+export function getScriptFileName(chain: PackageManagerId[]): string {
+  return `packmate-${chain.join('-')}.${isWindowsChain(chain) ? 'ps1' : 'sh'}`;
+}
+
+/**
+ * Build the URL of a script for a selection, or of its digest or signature
+ * The package managers are in the file name; apps, versions and scope in the query string.
+ *
+ * @param origin - Origin of the server, such as `https://packmate.example`
+ * @param selection - The selection to generate the script for
+ * @param kind - Which file to link to
+ * @returns Absolute URL
+ */
+export function buildScriptDownloadUrl(
+  origin: string,
+  selection: ScriptSelection,
+  kind: ScriptFileKind = 'script'
+): string {
+  const versions = encodeVersions(selection.versions ?? {}, selection.apps);
+  const query = [
+    `${SCRIPT_PARAMS.APPS}=${selection.apps.map(encodeURIComponent).join(',')}`,
+    ...(versions ? [`${SCRIPT_PARAMS.VERSIONS}=${versions}`] : []),
+    ...(selection.scope ? [`${SCRIPT_PARAMS.SCOPE}=${selection.scope}`] : []),
+  ].join('&');
+  return `${origin}${SCRIPT_DOWNLOAD_PATH}/${getScriptFileName(selection.chain)}${FILE_SUFFIXES[kind]}?${query}`;
+}
+
+/**
+ * Parse a script request from the file name and query string of its URL
+ * Apps that are unknown or that no package manager of the chain has are dropped,
+ * and so are invalid versions. With a profile, its apps are resolved for the chain
+ * (an invalid profile selects nothing).
+ *
+ * @param fileName - Last path segment, such as `packmate-apt.sh.sha256`
+ * @param search - Query string, with or without the leading "?"
+ * @returns The selection and the requested file, or null if the file name is not a script's
+ */
+export function parseScriptRequest(
+  fileName: string,
+  search: string
+): { selection: ScriptSelection; kind: ScriptFileKind } | null {
+  const match = /^packmate-([a-z]+(?:-[a-z]+)*)\.(sh|ps1)(\.sha256|\.sig)?$/.exec(fileName);
+  if (!match) {
+    return null;
+  }
+
+  // Every package manager of the chain must be one of the same OS, like in the fallback chain picker
+  const chain = match[1].split('-') as PackageManagerId[];
+  const managers = chain.map(id => getPackageManagerById(id));
+  const isChainForOS = (osId: OSId) => managers.every(pm => pm && isPackageManagerForOS(pm, osId));
+  if (!operatingSystems.some(os => isChainForOS(os.id)) || new Set(chain).size !== chain.length) {
+    return null;
+  }
+  if (getScriptFileName(chain) !== `packmate-${match[1]}.${match[2]}`) {
+    return null;
+  }
+
+  const params = new URLSearchParams(search);
+  const scope = params.get(SCRIPT_PARAMS.SCOPE);
+  const profileParam = params.get(SCRIPT_PARAMS.PROFILE);
+  const profile = profileParam !== null ? decodeProfileParam(profileParam) : null;
+  const appIds = new Set(profile
+    ? (profile.ok ? resolveProfileForChain(profile.manifest, chain).appIds : [])
+    : (params.get(SCRIPT_PARAMS.APPS) ?? '').split(',').filter(Boolean));
+  const selectedApps = apps
+    .filter(app => appIds.has(app.id) && chain.some(id => isAppAvailableForPackageManager(app, id)))
+    .map(app => app.id);
+
+  const kind = (Object.keys(FILE_SUFFIXES) as ScriptFileKind[])
+    .find(k => FILE_SUFFIXES[k] === (match[3] ?? ''))!;
+
+  return {
+    selection: {
+      chain,
+      apps: selectedApps,
+      versions: parseVersions(params.get(SCRIPT_PARAMS.VERSIONS) ?? '', selectedApps),
+      scope: scope === 'system' || scope === 'user' ? scope : undefined,
+    },
+    kind,
+  };
+}
+
+/**
+ * Generate a one-liner that downloads the script of a selection, checks it against
+ * its SHA-256 digest and runs it only if they match
+ * Uses `sha256sum` on Linux, `shasum` on macOS and `Get-FileHash` on Windows.
+ *
+ * @param origin - Origin of the server, such as `https://packmate.example`
+ * @param selection - The selection to generate the script for
+ * @param osId - Selected OS (a chain such as nix alone doesn't tell Linux from macOS)
+ * @returns Command line for the selected OS
+ */
+export function generateVerifiedDownloadCommand(origin: string, selection: ScriptSelection, osId: OSId): string {
+  const fileName = getScriptFileName(selection.chain);
+  const scriptUrl = buildScriptDownloadUrl(origin, selection);
+  const digestUrl = buildScriptDownloadUrl(origin, selection, 'sha256');
+
+  if (osId === 'windows') {
+    return [
+      `Invoke-WebRequest -UseBasicParsing -Uri '${scriptUrl}' -OutFile ${fileName}`,
+      `if ((Get-FileHash -Algorithm SHA256 ${fileName}).Hash -eq ((Invoke-RestMethod -Uri '${digestUrl}') -split '\\s+')[0]) ` +
+        `{ powershell -NoProfile -ExecutionPolicy Bypass -File .\\${fileName} } else { Write-Error "${fileName}: checksum mismatch" }`,
+    ].join('; ');
+  }
+
+  const check = osId === 'macos' ? 'shasum -a 256 -c' : 'sha256sum -c';
+  return `curl -fsSL '${scriptUrl}' -o ${fileName} && curl -fsSL '${digestUrl}' | ${check} && bash ${fileName}`;
+}
@@ -0,0 +1,461 @@
+// Ansible playbook generator
+// Turns the selection into a playbook that installs each package manager's
+// packages with its Ansible module, for hosts provisioned with Ansible.
+
+import {
+  flatpakRemotes,
+  getPackageManagerById,
+  type AppVersions,
+  type DnfRepository,
+  type FlatpakRemote,
+  type InstallScope,
+  type PackageManagerId,
+} from '../data';
+import { getSnapChannel, getSnapConfinement, getSnapName } from './snap';
+import { getFlatpakRemote, getFlatpakScope } from './flatpak';
+import { isAurPackage } from './pacman';
+import { resolveFallbackChain } from './fallback';
+import { getPinnedPackage, supportsVersionPinning } from './versions';
+import type { PackageInfo } from './shared';
+
+/**
+ * Default file name for the downloaded playbook
+ */
+export const ANSIBLE_PLAYBOOK_FILE_NAME = 'packmate.yml';
+
+/**
+ * Characters JSON leaves as-is but YAML treats as line breaks or won't accept raw
+ */
+const YAML_UNPRINTABLE = /[\u007f-\u009f\u2028\u2029\ufeff\ufffe\uffff]/g;
+
+/**
+ * Quote a string as a YAML scalar Ansible won't template
+ * JSON strings are valid double-quoted YAML scalars, so quotes, backslashes and
+ * control characters can't end the value early. Values with a `{` could open a
+ * Jinja2 expression and are tagged `!unsafe` so Ansible uses them verbatim.
+ *
+ * @param str - The string to quote
+ * @returns The YAML scalar
+ */
+export function quoteAnsibleString(str: string): string {
+  const quoted = JSON.stringify(str)
+    .replace(YAML_UNPRINTABLE, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+  return str.includes('{') ? `!unsafe ${quoted}` : quoted;
+}
+
+/**
+ * One task of the generated playbook
+ */
+interface AnsibleTask {
+  name: string;
+  /** Fully qualified module name */
+  module: string;
+  /** Module arguments, already rendered as YAML lines relative to the argument block */
+  args: string[];
+  become?: boolean;
+  /** Items for `loop`, referenced as `{{ item }}` in the arguments */
+  loop?: string[];
+  /** Extra task keywords, already rendered as YAML lines */
+  keywords?: string[];
+}
+
+/**
+ * YAML list lines for package names
+ */
+function nameList(names: string[]): string[] {
+  return ['name:', ...names.map(name => `  - ${quoteAnsibleString(name)}`)];
+}
+
+/**
+ * Task installing a list of packages with a module that takes `name` and `state`
+ */
+function packageTask(
+  name: string,
+  module: string,
+  packages: string[],
+  options: { become?: boolean; args?: string[] } = {}
+): AnsibleTask {
+  return {
+    name,
+    module,
+    args: [...nameList(packages), 'state: present', ...(options.args ?? [])],
+    become: options.become,
+  };
+}
+
+/**
+ * Idempotent winget install, since neither ansible.windows nor community.windows
+ * has a winget module. The package ID is passed as a parameter, never spliced
+ * into the script.
+ */
+const wingetInstallScript = [
+  'param([string]$Id)',
+  'winget list --id $Id --exact --accept-source-agreements | Out-Null',
+  'if ($LASTEXITCODE -eq 0) {',
+  '    $Ansible.Changed = $false',
+  '    return',
+  '}',
+  'winget install --id $Id --exact --silent --accept-package-agreements --accept-source-agreements',
+  'if ($LASTEXITCODE -ne 0) { throw "winget install failed for $Id" }',
+];
+
+/**
+ * Install into the user's Nix profile unless the attribute is already there,
+ * since there is no Nix profile module. The attribute comes from the PKG
+ * environment variable, never spliced into the command.
+ */
+const nixInstallCommand = [
+  'nix_cmd() { nix --extra-experimental-features "nix-command flakes" "$@"; }',
+  'system=$(nix_cmd eval --impure --raw --expr builtins.currentSystem)',
+  'if nix_cmd profile list | tr -s \' \\t\' \'\\n\' | sed \'s/^.*#//\' | grep -Fxq "legacyPackages.$system.$PKG"; then',
+  '  echo "already installed"',
+  'else',
+  '  NIXPKGS_ALLOW_UNFREE=1 nix_cmd profile install --impure "nixpkgs#$PKG"',
+  'fi',
+];
+
+/**
+ * Map of package manager IDs to the tasks installing their packages
+ */
+const ansibleTasks: Record<PackageManagerId, (packages: string[]) => AnsibleTask[]> = {
+  // Windows
+  winget: (packages) => [{
+    name: 'Install winget packages',
+    module: 'ansible.windows.win_powershell',
+    args: [
+      'parameters:',
+      '  Id: "{{ item }}"',
+      'script: |',
+      ...wingetInstallScript.map(line => `  ${line}`),
+    ],
+    loop: packages,
+  }],
+  chocolatey: (packages) => [packageTask('Install Chocolatey packages', 'chocolatey.chocolatey.win_chocolatey', packages)],
+  scoop: (packages) => [packageTask('Install Scoop packages', 'community.windows.win_scoop', packages)],
+  // macOS - Homebrew refuses to run as root
+  homebrew: (packages) => {
+    const casks = packages.filter(pkg => pkg.startsWith('--cask ')).map(pkg => pkg.replace('--cask ', ''));
+    const formulae = packages.filter(pkg => !pkg.startsWith('--cask '));
+    return [
+      ...(formulae.length > 0 ? [packageTask('Install Homebrew formulae', 'community.general.homebrew', formulae)] : []),
+      ...(casks.length > 0 ? [packageTask('Install Homebrew casks', 'community.general.homebrew_cask', casks)] : []),
+    ];
+  },
+  macports: (packages) => [packageTask('Install MacPorts ports', 'community.general.macports', packages, { become: true })],
+  // Linux
+  apt: (packages) => [packageTask('Install apt packages', 'ansible.builtin.apt', packages, { become: true, args: ['update_cache: true'] })],
+  dnf: (packages) => [packageTask('Install dnf packages', 'ansible.builtin.dnf', packages, { become: true })],
+  pacman: (packages) => [packageTask('Install pacman packages', 'community.general.pacman', packages, { become: true, args: ['update_cache: true'] })],
+  zypper: (packages) => [packageTask('Install zypper packages', 'community.general.zypper', packages, { become: true })],
+  flatpak: (packages) => flatpakTasks(packages),
+  snap: (packages) => {
+    const classic = packages.filter(pkg => pkg.includes('--classic')).map(getSnapName);
+    const strict = packages.filter(pkg => !pkg.includes('--classic'));
+    return [
+      ...(strict.length > 0 ? [packageTask('Install snaps', 'community.general.snap', strict, { become: true })] : []),
+      ...(classic.length > 0
+        ? [packageTask('Install classic snaps', 'community.general.snap', classic, { become: true, args: ['classic: true'] })]
+        : []),
+    ];
+  },
+  // Linux and macOS
+  nix: (packages) => [{
+    name: 'Install Nix packages',
+    module: 'ansible.builtin.shell',
+    args: [
+      'cmd: |',
+      ...nixInstallCommand.map(line => `  ${line}`),
+    ],
+    loop: packages,
+    keywords: [
+      'environment:',
+      '  PKG: "{{ item }}"',
+      'register: nix_install',
+      'changed_when: "\'already installed\' not in nix_install.stdout"',
+    ],
+  }],
+};
+
+/**
+ * Tasks adding a Flatpak remote to the system or user installation, and
+ * installing apps from it
+ */
+function flatpakTasks(packages: string[], remote: FlatpakRemote = 'flathub', scope: InstallScope = 'system'): AnsibleTask[] {
+  const { name, url } = flatpakRemotes[remote];
+  const isUser = scope === 'user';
+  const method = isUser ? ['method: user'] : [];
+  return [
+    {
+      name: `Add the ${name} remote${isUser ? ' for the user' : ''}`,
+      module: 'community.general.flatpak_remote',
+      args: [`name: ${remote}`, 'state: present', `flatpakrepo_url: ${url}`, ...method],
+      become: !isUser,
+    },
+    packageTask(
+      `Install Flatpak apps${remote === 'flathub' ? '' : ` from ${name}`}${isUser ? ' for the user' : ''}`,
+      'community.general.flatpak',
+      packages,
+      { become: !isUser, args: [`remote: ${remote}`, ...method] }
+    ),
+  ];
+}
+
+/**
+ * Task installing devmode snaps, which the snap module can't do
+ */
+function devmodeSnapTask(packages: string[], channel?: string): AnsibleTask {
+  return {
+    name: 'Install devmode snaps',
+    module: 'ansible.builtin.command',
+    args: [
+      'argv:',
+      '  - snap',
+      '  - install',
+      '  - "{{ item }}"',
+      '  - --devmode',
+      ...(channel ? [`  - ${quoteAnsibleString(`--channel=${channel}`)}`] : []),
+      'creates: "/snap/{{ item }}"',
+    ],
+    become: true,
+    loop: packages,
+  };
+}
+
+/**
+ * Packages grouped by a key, in the order each key first appears
+ */
+function groupPackages(packages: PackageInfo[], key: (packageInfo: PackageInfo) => string): PackageInfo[][] {
+  const groups = new Map<string, PackageInfo[]>();
+  packages.forEach(p => groups.set(key(p), [...(groups.get(key(p)) ?? []), p]));
+  return [...groups.values()];
+}
+
+/**
+ * Install tasks for a segment's packages, honouring pinned versions, Flatpak
+ * remotes and scopes, and snap channels and confinement
+ */
+function installTasks(packageManagerId: PackageManagerId, packages: PackageInfo[]): AnsibleTask[] {
+  switch (packageManagerId) {
+    case 'flatpak':
+      return groupPackages(packages, p => `${getFlatpakRemote(p)}|${getFlatpakScope(p)}`)
+        .flatMap(group => flatpakTasks(
+          group.map(p => getPinnedPackage('flatpak', p)),
+          getFlatpakRemote(group[0]),
+          getFlatpakScope(group[0])
+        ));
+    case 'snap':
+      return groupPackages(packages, p => `${getSnapChannel(p) ?? ''}|${getSnapConfinement(p) === 'devmode'}`)
+        .flatMap(group => {
+          const channel = getSnapChannel(group[0]);
+          if (getSnapConfinement(group[0]) === 'devmode') {
+            return [devmodeSnapTask(group.map(p => getSnapName(p.pkg)), channel)];
+          }
+          const names = group.map(p => `${getSnapName(p.pkg)}${getSnapConfinement(p) === 'classic' ? ' --classic' : ''}`);
+          return ansibleTasks.snap(names).map(task => channel
+            ? { ...task, name: `${task.name} from ${channel}`, args: [...task.args, `channel: ${quoteAnsibleString(channel)}`] }
+            : task);
+        });
+    case 'chocolatey': {
+      // win_chocolatey takes the version separately, so pinned packages get a task each
+      const unpinned = packages.filter(({ version }) => !version).map(({ pkg }) => pkg);
+      return [
+        ...(unpinned.length > 0 ? ansibleTasks.chocolatey(unpinned) : []),
+        ...packages.filter(({ version }) => version).flatMap(({ pkg, version }) => ansibleTasks.chocolatey([pkg])
+          .map(task => ({ ...task, args: [...task.args, `version: ${quoteAnsibleString(version!)}`] }))),
+      ];
+    }
+    default:
+      return ansibleTasks[packageManagerId](packages.map(p => getPinnedPackage(packageManagerId, p)));
+  }
+}
+
+/**
+ * Tasks adding the vendor repositories, COPR projects and taps of the packages
+ * (see AppData.repositories), to run before the packages are installed
+ */
+function repositoryTasks(packageManagerId: PackageManagerId, packages: PackageInfo[]): AnsibleTask[] {
+  const seen = new Set<string>();
+  const once = (key: string) => !seen.has(key) && !!seen.add(key);
+  const tasks: AnsibleTask[] = [];
+
+  for (const { app } of packages) {
+    const repositories = app.repositories;
+    if (packageManagerId === 'apt' && repositories?.apt && once(repositories.apt.name)) {
+      // "<uri> <suite> [components...]", as in a one-line sources.list entry
+      const [uri, suite, ...components] = repositories.apt.repo.split(' ');
+      tasks.push({
+        name: `Add the ${repositories.apt.name} repository`,
+        module: 'ansible.builtin.deb822_repository',
+        args: [
+          `name: ${quoteAnsibleString(repositories.apt.name)}`,
+          'types: deb',
+          `uris: ${quoteAnsibleString(uri)}`,
+          `suites: ${quoteAnsibleString(suite)}`,
+          ...(components.length > 0 ? [`components: ${quoteAnsibleString(components.join(' '))}`] : []),
+          `signed_by: ${quoteAnsibleString(repositories.apt.keyUrl)}`,
+        ],
+        become: true,
+      });
+    }
+    if (packageManagerId === 'dnf' && repositories?.dnf) {
+      tasks.push(...dnfRepositoryTasks(repositories.dnf, once));
+    }
+    if (packageManagerId === 'zypper' && repositories?.zypper && once(repositories.zypper.name)) {
+      tasks.push(
+        {
+          name: `Import the ${repositories.zypper.name} signing key`,
+          module: 'ansible.builtin.rpm_key',
+          args: [`key: ${quoteAnsibleString(repositories.zypper.keyUrl)}`, 'state: present'],
+          become: true,
+        },
+        {
+          name: `Add the ${repositories.zypper.name} repository`,
+          module: 'community.general.zypper_repository',
+          args: [
+            `name: ${quoteAnsibleString(repositories.zypper.name)}`,
+            `repo: ${quoteAnsibleString(repositories.zypper.baseUrl)}`,
+            'autorefresh: true',
+            'state: present',
+          ],
+          become: true,
+        }
+      );
+    }
+    if (packageManagerId === 'homebrew' && repositories?.homebrew && once(repositories.homebrew.tap)) {
+      tasks.push({
+        name: `Tap ${repositories.homebrew.tap}`,
+        module: 'community.general.homebrew_tap',
+        args: [`name: ${quoteAnsibleString(repositories.homebrew.tap)}`, 'state: present'],
+      });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Tasks adding one DNF repository; RPM Fusion nonfree brings in free as well
+ */
+function dnfRepositoryTasks(repository: DnfRepository, once: (key: string) => boolean): AnsibleTask[] {
+  if (repository.type === 'repo') {
+    return once(`repo:${repository.name}`)
+      ? [{
+          name: `Add the ${repository.name} repository`,
+          module: 'ansible.builtin.yum_repository',
+          args: [
+            `name: ${quoteAnsibleString(repository.name)}`,
+            `description: ${quoteAnsibleString(repository.name)}`,
+            `baseurl: ${quoteAnsibleString(repository.baseUrl)}`,
+            'gpgcheck: true',
+            `gpgkey: ${quoteAnsibleString(repository.keyUrl)}`,
+          ],
+          become: true,
+        }]
+      : [];
+  }
+  if (repository.type === 'copr') {
+    return once(`copr:${repository.project}`)
+      ? [{
+          name: `Enable COPR ${repository.project}`,
+          module: 'community.general.copr',
+          args: [`name: ${quoteAnsibleString(repository.project)}`, 'state: enabled'],
+          become: true,
+        }]
+      : [];
+  }
+  const sections = repository.section === 'nonfree' ? ['free', 'nonfree'] : ['free'];
+  return sections.filter(section => once(`rpmfusion:${section}`)).map(section => ({
+    name: `Enable RPM Fusion ${section}`,
+    module: 'ansible.builtin.dnf',
+    // Templated on purpose, so not quoted with quoteAnsibleString
+    args: [
+      `name: "https://mirrors.rpmfusion.org/${section}/fedora/rpmfusion-${section}-release-{{ ansible_distribution_major_version }}.noarch.rpm"`,
+      'state: present',
+      'disable_gpg_check: true',
+    ],
+    become: true,
+  }));
+}
+
+/**
+ * Task building AUR packages with the helper kewlfft.aur finds (yay, paru, ...
+ * or plain makepkg). The module refuses to run as root, so the task doesn't
+ * become root; the remote user needs passwordless sudo for pacman.
+ */
+function aurTask(packages: string[]): AnsibleTask {
+  return packageTask('Install AUR packages', 'kewlfft.aur.aur', packages, { args: ['use: auto'] });
+}
+
+/**
+ * Render a task as YAML lines, indented for the play's task list
+ */
+function renderTask(task: AnsibleTask): string[] {
+  return [
+    `    - name: ${quoteAnsibleString(task.name)}`,
+    ...(task.become ? ['      become: true'] : []),
+    `      ${task.module}:`,
+    ...task.args.map(line => `        ${line}`),
+    ...(task.keywords ?? []).map(line => `      ${line}`),
+    ...(task.loop ? ['      loop:', ...task.loop.map(item => `        - ${quoteAnsibleString(item)}`)] : []),
+  ];
+}
+
+/**
+ * Collection a module belongs to, for the header's install instructions
+ */
+function getCollection(module: string): string | null {
+  const collection = module.split('.').slice(0, 2).join('.');
+  return collection === 'ansible.builtin' ? null : collection;
+}
+
+/**
+ * Generate an Ansible playbook installing the selected apps
+ * Each app is installed by the first package manager in the chain that has a
+ * target for it, like the fallback chain script. Apps that none of them has
+ * are listed in a comment.
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @param chain - Package managers in order of preference
+ * @param versions - Pinned versions by app ID
+ * @returns Playbook YAML
+ */
+export function generateAnsiblePlaybook(
+  selectedAppIds: Set<string>,
+  chain: PackageManagerId[],
+  versions: AppVersions = {}
+): string {
+  const { segments, missing } = resolveFallbackChain(selectedAppIds, chain, versions);
+  const tasks = segments.flatMap(({ packageManagerId, packages }) => {
+    if (packageManagerId !== 'pacman') {
+      return [
+        ...repositoryTasks(packageManagerId, packages),
+        ...installTasks(packageManagerId, packages),
+      ];
+    }
+    const repo = packages.filter(p => !isAurPackage(p)).map(({ pkg }) => pkg);
+    const aur = packages.filter(isAurPackage).map(({ pkg }) => pkg);
+    return [...(repo.length > 0 ? ansibleTasks.pacman(repo) : []), ...(aur.length > 0 ? [aurTask(aur)] : [])];
+  });
+
+  const collections = [...new Set(tasks.map(task => getCollection(task.module)).filter((c): c is string => c !== null))];
+  const managerNames = segments.map(({ packageManagerId }) => getPackageManagerById(packageManagerId)?.name || packageManagerId);
+  // Names go into comments, which end at a line break
+  const missingNames = missing.map(app => app.name.replace(/[\r\n]+/g, ' '));
+  // winget has no module to pass a version to, the rest can't pin at all
+  const unpinnedNames = segments
+    .filter(({ packageManagerId }) => packageManagerId === 'winget' || !supportsVersionPinning(packageManagerId))
+    .flatMap(({ packages }) => packages.filter(({ version }) => version))
+    .map(({ app, version }) => `${app.name.replace(/[\r\n]+/g, ' ')} ${version}`);
+
+  return [
+    '# Ansible playbook generated by Packmate',
+    ...(managerNames.length > 0 ? [`# Package managers: ${managerNames.join(', ')}`] : []),
+    ...(collections.length > 0 ? [`# Requires: ansible-galaxy collection install ${collections.join(' ')}`] : []),
+    `# Run with: ansible-playbook -i <inventory> ${ANSIBLE_PLAYBOOK_FILE_NAME}`,
+    ...(missingNames.length > 0 ? [`# Not available: ${missingNames.join(', ')}`] : []),
+    ...(unpinnedNames.length > 0 ? [`# Versions not pinned: ${unpinnedNames.join(', ')}`] : []),
+    '',
+    '- name: Install Packmate selection',
+    '  hosts: all',
+    ...(tasks.length > 0 ? ['  tasks:', ...tasks.flatMap(renderTask)] : ['  tasks: []']),
+  ].join('\n') + '\n';
+}
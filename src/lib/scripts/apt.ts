@@ -2,40 +2,55 @@
 // Requirements: 4.4, 5.1
 
 import {
-  escapeShellString,
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { getPinnedPackage } from './versions';
+import { generateAptRepositorySetup } from './repositories';
+import { generateScopeWarning } from './scope';
+import { generateQueueFunctions, generateQueuedCalls, isQueued } from './concurrency';
 
 /**
- * Generate APT installation script for Debian/Ubuntu
- * Requirements: 5.1
+ * Shell function that checks whether a package is already installed
  */
-export function generateAptScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'apt');
-
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for APT
-echo "No packages selected"
-exit 0
-`;
-  }
+const isInstalledFn = `# Check if package is already installed
+# A pinned package (pkg=version) only counts at that version
+is_installed() {
+    local pkg=\${1%%=*}
+    dpkg -l "$pkg" 2>/dev/null | grep -q "^ii" || return 1
+    [[ $1 != *=* ]] || [ "$(dpkg-query -W -f='\${Version}' "$pkg")" = "\${1#*=}" ]
+}`;
 
-  const installCalls = packages
-    .map(({ app, pkg }) => `install_pkg "${escapeShellString(app.name)}" "${pkg}"`)
-    .join('\n');
+/**
+ * Shell pre-flight checks shared by the install and uninstall scripts
+ */
+const preflightChecks = `# Safety check: Don't run as root
+[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
 
-  return (
-    generateAsciiHeader('APT (Debian/Ubuntu)', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Check if package is already installed
-is_installed() {
-    dpkg -l "$1" 2>/dev/null | grep -q "^ii"
+# Requirement 5.8: Check if package manager is installed
+command -v apt-get &>/dev/null || {
+    error "APT not found. This script is for Debian/Ubuntu-based systems."
+    exit 1
 }
 
+# Wait for package manager lock
+while fuser /var/lib/dpkg/lock-frontend >/dev/null 2>&1; do
+    warn "Waiting for package manager..."
+    sleep 2
+done`;
+
+/**
+ * Parts of the APT install script, shared with the fallback chain generator
+ */
+export const aptInstallParts: InstallScriptParts = {
+  functions: (packages) => `${isInstalledFn}
+
 # Fix broken dependencies
 fix_deps() {
     if sudo apt-get --fix-broken install -y >/dev/null 2>&1; then
@@ -47,11 +62,21 @@ fix_deps() {
 
 install_pkg() {
     local name=$1 pkg=$2
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
     if is_installed "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" sudo apt-get install --only-upgrade -y "$pkg"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -59,7 +84,7 @@ install_pkg() {
     local start=$(date +%s)
 
     local output
-    if output=$(with_retry sudo apt-get install -y "$pkg" 2>&1); then
+    if output=$(with_retry sudo apt-get install -y --allow-downgrades "$pkg" 2>&1); then
         local elapsed=$(($(date +%s) - start))
         update_avg_time $elapsed
         printf "\\r\\033[K"
@@ -72,7 +97,7 @@ install_pkg() {
         elif echo "$output" | grep -q "unmet dependencies"; then
             echo -e "    \${DIM}Fixing dependencies...\${NC}"
             if fix_deps; then
-                if sudo apt-get install -y "$pkg" >/dev/null 2>&1; then
+                if sudo apt-get install -y --allow-downgrades "$pkg" >/dev/null 2>&1; then
                     timing "$name" "$(($(date +%s) - start))"
                     SUCCEEDED+=("$name")
                     return 0
@@ -81,55 +106,97 @@ install_pkg() {
         fi
         FAILED+=("$name")
     fi
-}
+}${isQueued('batch', packages) ? `
+
+${generateQueueFunctions('batch', packages)}` : ''}`,
+  preflight: (packages) => `${[preflightChecks, generateScopeWarning('apt', packages), generateAptRepositorySetup(packages)].filter(Boolean).join('\n\n')}
+
+if [ "$DRY_RUN" = true ]; then
+    info "Skipping package list update (dry run)"
+else
+    info "Updating package lists..."
+    with_retry sudo apt-get update -qq >/dev/null && success "Updated" || warn "Update failed, continuing..."
+fi`,
+  calls: (packages) => generateQueuedCalls(
+    'batch',
+    packages,
+    (p) => `"${getPinnedPackage('apt', p)}"`,
+    'install_queued sudo apt-get install -y --allow-downgrades'
+  ),
+};
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate APT installation script for Debian/Ubuntu
+ * Requirements: 5.1
+ */
+export function generateAptScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'apt', versions, scope);
 
-# Safety check: Don't run as root
-[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for APT
+echo "No packages selected"
+exit 0
+`;
+  }
 
-# Requirement 5.8: Check if package manager is installed
-command -v apt-get &>/dev/null || {
-    error "APT not found. This script is for Debian/Ubuntu-based systems."
-    exit 1
+  return (
+    generateAsciiHeader('APT (Debian/Ubuntu)', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(aptInstallParts, packages)
+  );
 }
 
-# Wait for package manager lock
-while fuser /var/lib/dpkg/lock-frontend >/dev/null 2>&1; do
-    warn "Waiting for package manager..."
-    sleep 2
-done
-
-info "Updating package lists..."
-with_retry sudo apt-get update -qq >/dev/null && success "Updated" || warn "Update failed, continuing..."
-
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Parts of the APT uninstall script
+ */
+const aptUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: preflightChecks,
+  remove: 'sudo apt-get remove -y "$pkg"',
+  cleanup: `if [ "$DRY_RUN" = true ]; then
+    info "Skipping dependency cleanup (dry run)"
+else
+    info "Cleaning up unused dependencies..."
+    sudo apt-get autoremove -y >/dev/null 2>&1 && success "Cleaned up" || warn "Cleanup failed"
+fi`,
+};
 
-echo
-info "Installing $TOTAL packages"
-echo
+/**
+ * Generate APT uninstall script for Debian/Ubuntu
+ */
+export function generateAptUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'apt');
 
-${installCalls}
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for APT
+echo "No packages selected"
+exit 0
+`;
+  }
 
-print_summary
-`
+  return (
+    generateAsciiHeader('APT (Debian/Ubuntu)', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(aptUninstallParts, packages)
   );
 }
 
 /**
  * Generate simple one-liner command for APT
  */
-export function generateAptCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'apt');
+export function generateAptCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'apt', versions);
 
   if (packages.length === 0) {
     return '# No packages selected';
   }
 
-  const packageNames = packages.map(p => p.pkg).join(' ');
+  const packageNames = packages.map(p => getPinnedPackage('apt', p)).join(' ');
   return `sudo apt install -y ${packageNames}`;
 }
@@ -0,0 +1,185 @@
+// Batched and parallel installs for generated scripts
+// Managers that hold a lock while installing (APT, DNF, Pacman, Zypper) install
+// the queued packages in one transaction. Managers that can install several
+// packages side by side (Flatpak, Snap) run a few installs in the background.
+
+import { escapeShellString, type PackageInfo } from './shared';
+
+/**
+ * How the queued packages of a script are installed
+ */
+export type QueuedInstall = 'batch' | 'parallel';
+
+/**
+ * Minimum number of packages worth a batched or parallel install
+ */
+const minPackages: Record<QueuedInstall, number> = {
+  batch: 2,
+  parallel: 3,
+};
+
+/**
+ * Number of packages installed at the same time, unless PACKMATE_JOBS is set
+ */
+export const DEFAULT_JOBS = 4;
+
+/**
+ * Check if a script queues its packages for a batched or parallel install
+ */
+export function isQueued(mode: QueuedInstall, packages: PackageInfo[]): boolean {
+  return packages.length >= minPackages[mode];
+}
+
+/**
+ * Shell setting for the number of background installs, from PACKMATE_JOBS
+ */
+export const jobsSetting = `# Number of packages installed at the same time (PACKMATE_JOBS)
+JOBS=\${PACKMATE_JOBS:-${DEFAULT_JOBS}}
+[[ $JOBS =~ ^[1-9][0-9]*$ ]] || JOBS=${DEFAULT_JOBS}`;
+
+/**
+ * Shell function that queues a package, or hands it to install_pkg when
+ * there is nothing to install (already installed, or a dry run)
+ * Extra install_pkg arguments are kept joined with "|".
+ */
+const queueFn = `# Queue a package for a batched or parallel install
+# Installed packages (and all of them in a dry run) go through install_pkg right away,
+# and packages a resumed run is done with are skipped
+QUEUED_NAMES=() QUEUED_PKGS=() QUEUED_ARGS=()
+queue_pkg() {
+    resumed "$1" && return 0
+    if is_installed "$2" || [ "$DRY_RUN" = true ]; then
+        install_pkg "$@"
+        return 0
+    fi
+    QUEUED_NAMES+=("$1")
+    QUEUED_PKGS+=("$2")
+    QUEUED_ARGS+=("$(IFS='|'; printf '%s' "\${*:3}")")
+}`;
+
+/**
+ * Shell function that installs the queued packages in one transaction
+ */
+const batchInstallFn = `# Install the queued packages in one transaction, with one lock and one
+# dependency resolution; if it fails, install them one at a time to find the ones that fail
+# BATCH_NAMES lists the packages the transaction installed
+BATCH_NAMES=()
+install_queued() {
+    BATCH_NAMES=()
+    [ \${#QUEUED_NAMES[@]} -gt 0 ] || return 0
+    local names=("\${QUEUED_NAMES[@]}") pkgs=("\${QUEUED_PKGS[@]}") args=("\${QUEUED_ARGS[@]}")
+    QUEUED_NAMES=() QUEUED_PKGS=() QUEUED_ARGS=()
+    local count=\${#names[@]} i
+
+    # A single package (the others were installed or skipped) is installed on its own
+    if [ $count -gt 1 ]; then
+        CURRENT=$((CURRENT + count))
+        show_progress $CURRENT $TOTAL "$count packages"
+        local start=$(date +%s)
+
+        if with_retry "$@" "\${pkgs[@]}" >/dev/null 2>&1; then
+            local elapsed=$(($(date +%s) - start))
+            update_avg_time $((elapsed / count))
+            printf "\\r\\033[K"
+            for i in "\${!names[@]}"; do
+                success "\${names[$i]}"
+                report_time "\${names[$i]}" "$elapsed"
+                SUCCEEDED+=("\${names[$i]}")
+            done
+            echo -e "\${DIM}$count packages in one transaction took \${elapsed}s\${NC}"
+            BATCH_NAMES=("\${names[@]}")
+            return 0
+        fi
+
+        printf "\\r\\033[K"
+        warn "Installing $count packages together failed, installing them one at a time..."
+        CURRENT=$((CURRENT - count))
+    fi
+
+    for i in "\${!names[@]}"; do
+        local extra=()
+        IFS='|' read -r -a extra <<< "\${args[$i]}"
+        install_pkg "\${names[$i]}" "\${pkgs[$i]}" "\${extra[@]}"
+    done
+}`;
+
+/**
+ * Shell function that installs the queued packages in the background, a few at a time
+ */
+const parallelInstallFn = `${jobsSetting}
+
+# Install the queued packages in the background, at most $JOBS at a time
+# Each one runs "<job> <pkg> <args...>"; the progress bar counts them as they finish
+install_parallel() {
+    local job=$1
+    [ \${#QUEUED_NAMES[@]} -gt 0 ] || return 0
+    local names=("\${QUEUED_NAMES[@]}") pkgs=("\${QUEUED_PKGS[@]}") args=("\${QUEUED_ARGS[@]}")
+    QUEUED_NAMES=() QUEUED_PKGS=() QUEUED_ARGS=()
+    local count=\${#names[@]} next=0 finished=0 pids=() starts=()
+
+    info "Installing $count packages, up to $JOBS at a time..."
+    while [ $finished -lt $count ]; do
+        while [ $next -lt $count ] && [ $((next - finished)) -lt $JOBS ]; do
+            local extra=()
+            IFS='|' read -r -a extra <<< "\${args[$next]}"
+            REPORT_STARTED+=("\${names[$next]}")
+            (with_retry "$job" "\${pkgs[$next]}" "\${extra[@]}" >/dev/null 2>&1) &
+            pids+=($!)
+            starts+=($(date +%s))
+            next=$((next + 1))
+        done
+
+        show_progress $((CURRENT + 1)) $TOTAL "\${names[$finished]}" $JOBS
+        local status=0
+        wait "\${pids[$finished]}" || status=$?
+        local name=\${names[$finished]}
+        local elapsed=$(($(date +%s) - \${starts[$finished]}))
+        CURRENT=$((CURRENT + 1))
+        finished=$((finished + 1))
+
+        printf "\\r\\033[K"
+        if [ $status -eq 0 ]; then
+            update_avg_time $elapsed
+            timing "$name" "$elapsed"
+            SUCCEEDED+=("$name")
+        else
+            printf "\${RED}✗\${NC} %s\\n" "$name"
+            FAILED+=("$name")
+        fi
+    done
+}`;
+
+/**
+ * Generate the shell functions a script needs to queue its packages
+ *
+ * @param mode - Whether the queued packages are batched or installed in parallel
+ * @param packages - Packages to install
+ * @returns Shell functions, or an empty string if the packages aren't queued
+ */
+export function generateQueueFunctions(mode: QueuedInstall, packages: PackageInfo[]): string {
+  if (!isQueued(mode, packages)) return '';
+  return `${queueFn}
+
+${mode === 'batch' ? batchInstallFn : parallelInstallFn}`;
+}
+
+/**
+ * Generate the install calls of a script: one install_pkg call per package, or
+ * a queue_pkg call per package followed by the call installing the queue
+ *
+ * @param mode - Whether the queued packages are batched or installed in parallel
+ * @param packages - Packages to install
+ * @param toArgs - install_pkg arguments after the app name
+ * @param flush - Shell code installing the queued packages
+ * @returns Shell code
+ */
+export function generateQueuedCalls(
+  mode: QueuedInstall,
+  packages: PackageInfo[],
+  toArgs: (packageInfo: PackageInfo) => string,
+  flush: string
+): string {
+  const fn = isQueued(mode, packages) ? 'queue_pkg' : 'install_pkg';
+  const calls = packages.map(p => `${fn} "${escapeShellString(p.app.name)}" ${toArgs(p)}`);
+  return [...calls, ...(fn === 'queue_pkg' ? [flush] : [])].join('\n');
+}
@@ -0,0 +1,79 @@
+// devcontainer.json generator for Dev Containers
+// Language toolchains become official devcontainer features; everything else
+// is installed with apt by the postCreateCommand of a Debian/Ubuntu base image.
+
+import { apps } from '../data';
+import { getSelectedPackages } from './shared';
+import { getUncontainedApps, isContainerPackage, quoteShellWord } from './dockerfile';
+
+/**
+ * Default file name, to be placed in the repository's .devcontainer directory
+ */
+export const DEVCONTAINER_FILE_NAME = 'devcontainer.json';
+
+/**
+ * Base image the apt packages are installed into
+ */
+const DEVCONTAINER_IMAGE = 'mcr.microsoft.com/devcontainers/base:ubuntu';
+
+/**
+ * Official devcontainer features for the apps of the Dev: Languages category
+ * Deno and Bun have no official feature and go through apt like other apps.
+ */
+const languageFeatures: Record<string, { feature: string; options?: Record<string, string> }> = {
+  nodejs: { feature: 'ghcr.io/devcontainers/features/node:1' },
+  pnpm: { feature: 'ghcr.io/devcontainers/features/node:1', options: { pnpmVersion: 'latest' } },
+  python: { feature: 'ghcr.io/devcontainers/features/python:1' },
+  rust: { feature: 'ghcr.io/devcontainers/features/rust:1' },
+  go: { feature: 'ghcr.io/devcontainers/features/go:1' },
+  java: { feature: 'ghcr.io/devcontainers/features/java:1' },
+  ruby: { feature: 'ghcr.io/devcontainers/features/ruby:1' },
+  php: { feature: 'ghcr.io/devcontainers/features/php:1' },
+};
+
+/**
+ * Generate a devcontainer.json for the selected apps
+ * Apps with an official feature are added as features. The other apps are
+ * installed from their APT targets after the container is created; apps that
+ * only ship as Flatpak or Snap, or have no APT target, are listed in comments,
+ * which devcontainer.json (JSON with comments) allows.
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @returns devcontainer.json content
+ */
+export function generateDevcontainer(selectedAppIds: Set<string>): string {
+  const features: Record<string, Record<string, string>> = {};
+  const featureIds = new Set<string>();
+  for (const app of apps) {
+    const mapping = languageFeatures[app.id];
+    if (!mapping || !selectedAppIds.has(app.id) || app.category !== 'Dev: Languages') continue;
+    features[mapping.feature] = { ...features[mapping.feature], ...mapping.options };
+    featureIds.add(app.id);
+  }
+
+  const packages = getSelectedPackages(selectedAppIds, 'apt')
+    .filter(({ app }) => !featureIds.has(app.id) && isContainerPackage(app, 'apt'));
+  const installed = new Set([...featureIds, ...packages.map(({ app }) => app.id)]);
+  const { skipped, vendor, missing } = getUncontainedApps(selectedAppIds, installed, 'apt');
+
+  const config = {
+    name: 'Packmate',
+    image: DEVCONTAINER_IMAGE,
+    ...(featureIds.size > 0 ? { features } : {}),
+    ...(packages.length > 0
+      ? {
+          postCreateCommand: 'sudo apt-get update && sudo DEBIAN_FRONTEND=noninteractive apt-get install -y --no-install-recommends '
+            + packages.map(({ pkg }) => quoteShellWord(pkg)).join(' '),
+        }
+      : {}),
+  };
+
+  return [
+    '// Generated by Packmate',
+    `// Save as .devcontainer/${DEVCONTAINER_FILE_NAME}`,
+    ...(skipped.length > 0 ? [`// Skipped, Flatpak and Snap apps don't run in containers: ${skipped.join(', ')}`] : []),
+    ...(vendor.length > 0 ? [`// Skipped, need a vendor repository: ${vendor.join(', ')}`] : []),
+    ...(missing.length > 0 ? [`// Not available via APT: ${missing.join(', ')}`] : []),
+    JSON.stringify(config, null, 2),
+  ].join('\n') + '\n';
+}
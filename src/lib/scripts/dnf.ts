@@ -2,51 +2,64 @@
 // Requirements: 4.4, 5.1
 
 import {
-  escapeShellString,
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { getPinnedPackage } from './versions';
+import { generateDnfRepositorySetup } from './repositories';
+import { generateScopeWarning } from './scope';
+import { generateQueueFunctions, generateQueuedCalls, isQueued } from './concurrency';
 
 /**
- * Generate DNF installation script for Fedora
- * Requirements: 5.1
+ * Shell function that checks whether a package is already installed
  */
-export function generateDnfScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'dnf');
-
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for DNF
-echo "No packages selected"
-exit 0
-`;
-  }
+const isInstalledFn = `# Check if package is already installed
+# (rpm matches a pinned pkg-version only at that version)
+is_installed() {
+    rpm -q "$1" &>/dev/null
+}`;
 
-  // Check if any packages need RPM Fusion
-  const rpmFusionPkgs = ['steam', 'vlc', 'ffmpeg', 'obs-studio'];
-  const needsRpmFusion = packages.some(p => rpmFusionPkgs.includes(p.pkg));
+/**
+ * Shell pre-flight checks shared by the install and uninstall scripts
+ */
+const preflightChecks = `# Safety check: Don't run as root
+[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
 
-  const installCalls = packages
-    .map(({ app, pkg }) => `install_pkg "${escapeShellString(app.name)}" "${pkg}"`)
-    .join('\n');
+# Requirement 5.8: Check if package manager is installed
+command -v dnf &>/dev/null || {
+    error "DNF not found. This script is for Fedora-based systems."
+    exit 1
+}`;
 
-  return (
-    generateAsciiHeader('DNF (Fedora)', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Check if package is already installed
-is_installed() {
-    rpm -q "$1" &>/dev/null
-}
+/**
+ * Parts of the DNF install script, shared with the fallback chain generator
+ */
+export const dnfInstallParts: InstallScriptParts = {
+  functions: (packages) => `${isInstalledFn}
 
 install_pkg() {
     local name=$1 pkg=$2
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
     if is_installed "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" sudo dnf upgrade -y "$pkg"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -67,57 +80,90 @@ install_pkg() {
         fi
         FAILED+=("$name")
     fi
-}
+}${isQueued('batch', packages) ? `
+
+${generateQueueFunctions('batch', packages)}` : ''}`,
+  preflight: (packages) => [preflightChecks, generateScopeWarning('dnf', packages), generateDnfRepositorySetup(packages)].filter(Boolean).join('\n\n'),
+  calls: (packages) => generateQueuedCalls(
+    'batch',
+    packages,
+    (p) => `"${getPinnedPackage('dnf', p)}"`,
+    'install_queued sudo dnf install -y'
+  ),
+};
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate DNF installation script for Fedora
+ * Requirements: 5.1
+ */
+export function generateDnfScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'dnf', versions, scope);
 
-# Safety check: Don't run as root
-[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for DNF
+echo "No packages selected"
+exit 0
+`;
+  }
 
-# Requirement 5.8: Check if package manager is installed
-command -v dnf &>/dev/null || {
-    error "DNF not found. This script is for Fedora-based systems."
-    exit 1
+  return (
+    generateAsciiHeader('DNF (Fedora)', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(dnfInstallParts, packages)
+  );
 }
 
-${needsRpmFusion ? `
-# Enable RPM Fusion for multimedia packages
-if ! dnf repolist 2>/dev/null | grep -q rpmfusion; then
-    info "Enabling RPM Fusion..."
-    sudo dnf install -y \\
-        "https://mirrors.rpmfusion.org/free/fedora/rpmfusion-free-release-$(rpm -E %fedora).noarch.rpm" \\
-        "https://mirrors.rpmfusion.org/nonfree/fedora/rpmfusion-nonfree-release-$(rpm -E %fedora).noarch.rpm" \\
-        >/dev/null 2>&1 && success "RPM Fusion enabled" || warn "RPM Fusion setup failed"
-fi
-` : ''}
-
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
-
-echo
-info "Installing $TOTAL packages"
-echo
-
-${installCalls}
-
-print_summary
-`
+/**
+ * Parts of the DNF uninstall script
+ */
+const dnfUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: preflightChecks,
+  remove: 'sudo dnf remove -y "$pkg"',
+  cleanup: `if [ "$DRY_RUN" = true ]; then
+    info "Skipping dependency cleanup (dry run)"
+else
+    info "Cleaning up unused dependencies..."
+    sudo dnf autoremove -y >/dev/null 2>&1 && success "Cleaned up" || warn "Cleanup failed"
+fi`,
+};
+
+/**
+ * Generate DNF uninstall script for Fedora
+ */
+export function generateDnfUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'dnf');
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for DNF
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('DNF (Fedora)', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(dnfUninstallParts, packages)
   );
 }
 
 /**
  * Generate simple one-liner command for DNF
  */
-export function generateDnfCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'dnf');
+export function generateDnfCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'dnf', versions);
 
   if (packages.length === 0) {
     return '# No packages selected';
   }
 
-  const packageNames = packages.map(p => p.pkg).join(' ');
+  const packageNames = packages.map(p => getPinnedPackage('dnf', p)).join(' ');
   return `sudo dnf install -y ${packageNames}`;
 }
@@ -0,0 +1,155 @@
+// Dockerfile generator for container images
+// Emits a fragment that installs the selection for one distro package manager
+// in a single RUN layer, cleaning the package cache in the same layer.
+
+import { apps, getPackageManagerById, needsRepository, type AppData, type PackageManagerId } from '../data';
+import { getSelectedPackages } from './shared';
+
+/**
+ * Default file name for the downloaded fragment
+ */
+export const DOCKERFILE_NAME = 'Dockerfile';
+
+/**
+ * Package managers that can install into a container image
+ */
+export type DockerPackageManagerId = 'apt' | 'dnf' | 'pacman' | 'zypper';
+
+/**
+ * Commands of the RUN layer for each distro, run as root without prompts
+ */
+interface DockerInstall {
+  /** Images the fragment is meant for */
+  baseImages: string;
+  /** Index refresh before installing, if the install command doesn't do it */
+  refresh?: string;
+  install: string;
+  /** Removes what the layer doesn't need to keep (package lists, cache) */
+  cleanup: string;
+}
+
+const dockerInstalls: Record<DockerPackageManagerId, DockerInstall> = {
+  apt: {
+    baseImages: 'debian or ubuntu',
+    refresh: 'apt-get update',
+    install: 'DEBIAN_FRONTEND=noninteractive apt-get install -y --no-install-recommends',
+    cleanup: 'rm -rf /var/lib/apt/lists/*',
+  },
+  dnf: {
+    baseImages: 'fedora',
+    install: 'dnf install -y --setopt=install_weak_deps=False',
+    cleanup: 'dnf clean all',
+  },
+  pacman: {
+    baseImages: 'archlinux',
+    install: 'pacman -Syu --noconfirm --needed',
+    cleanup: 'rm -rf /var/cache/pacman/pkg/*',
+  },
+  zypper: {
+    baseImages: 'opensuse/leap or opensuse/tumbleweed',
+    refresh: 'zypper --non-interactive refresh',
+    install: 'zypper --non-interactive install --no-recommends',
+    cleanup: 'zypper clean --all',
+  },
+};
+
+/**
+ * Check if a package manager can be used in a Dockerfile
+ */
+export function isDockerPackageManager(packageManagerId: PackageManagerId): packageManagerId is DockerPackageManagerId {
+  return packageManagerId in dockerInstalls;
+}
+
+/**
+ * Quote a package name for a shell command line unless it is a plain word
+ */
+export function quoteShellWord(word: string): string {
+  return /^[A-Za-z0-9@%+=:,./_-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Whether a container build installs an app's package: only packages from the
+ * distro's own repositories, since AUR packages need an unprivileged build
+ * user and vendor repositories have to be added first
+ */
+export function isContainerPackage(app: AppData, packageManagerId: PackageManagerId): boolean {
+  return !!app.targets[packageManagerId] && !needsRepository(app, packageManagerId);
+}
+
+/**
+ * Names of the selected apps a container build leaves out, for comments
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @param installedIds - IDs of the apps the container does install
+ * @param packageManagerId - Package manager of the container build
+ * @returns Flatpak and Snap apps (with the formats they ship as), apps from
+ * vendor repositories, AUR apps (for pacman), and apps with no usable target
+ */
+export function getUncontainedApps(
+  selectedAppIds: Set<string>,
+  installedIds: Set<string>,
+  packageManagerId: PackageManagerId
+): { skipped: string[]; vendor: string[]; aur: string[]; missing: string[] } {
+  const skipped: string[] = [];
+  const vendor: string[] = [];
+  const aur: string[] = [];
+  const missing: string[] = [];
+  for (const id of selectedAppIds) {
+    const app = apps.find(a => a.id === id);
+    if (!app || installedIds.has(app.id)) continue;
+    // Names go into comments, which end at a line break
+    const name = app.name.replace(/[\r\n]+/g, ' ');
+    const sandboxed = (['flatpak', 'snap'] as const).filter(pm => app.targets[pm]);
+    if (app.targets[packageManagerId] && needsRepository(app, packageManagerId)) {
+      vendor.push(name);
+    } else if (packageManagerId === 'pacman' && app.aurTarget) {
+      aur.push(name);
+    } else if (sandboxed.length > 0) {
+      skipped.push(`${name} (${sandboxed.join('/')})`);
+    } else {
+      missing.push(name);
+    }
+  }
+  return { skipped, vendor, aur, missing };
+}
+
+/**
+ * Generate a Dockerfile fragment installing the selected apps
+ * Apps that only ship as Flatpak or Snap are listed as skipped, since
+ * containers run neither snapd nor a Flatpak session; apps without any
+ * of these targets are listed as unavailable.
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @param packageManagerId - apt, dnf, pacman or zypper
+ * @returns Dockerfile fragment to paste after a matching FROM line
+ */
+export function generateDockerfile(selectedAppIds: Set<string>, packageManagerId: DockerPackageManagerId): string {
+  const { baseImages, refresh, install, cleanup } = dockerInstalls[packageManagerId];
+  const pmName = getPackageManagerById(packageManagerId)?.name || packageManagerId;
+  const packages = getSelectedPackages(selectedAppIds, packageManagerId)
+    .filter(({ app }) => isContainerPackage(app, packageManagerId));
+  const { skipped, vendor, aur, missing } = getUncontainedApps(
+    selectedAppIds,
+    new Set(packages.map(({ app }) => app.id)),
+    packageManagerId
+  );
+
+  const lines = [
+    `# Generated by Packmate for ${pmName}`,
+    `# Use after a FROM line for an image based on ${baseImages}`,
+    ...(skipped.length > 0 ? [`# Skipped, Flatpak and Snap apps don't run in containers: ${skipped.join(', ')}`] : []),
+    ...(vendor.length > 0 ? [`# Skipped, need a vendor repository: ${vendor.join(', ')}`] : []),
+    ...(aur.length > 0 ? [`# Skipped, AUR packages need an AUR helper: ${aur.join(', ')}`] : []),
+    ...(missing.length > 0 ? [`# Not available via ${pmName}: ${missing.join(', ')}`] : []),
+  ];
+
+  if (packages.length > 0) {
+    lines.push(
+      `RUN ${refresh ? `${refresh} \\\n    && ` : ''}${install} \\`,
+      ...packages.map(({ pkg }) => `        ${quoteShellWord(pkg)} \\`),
+      `    && ${cleanup}`,
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,256 @@
+// Fallback chain script generator
+// Installs each selected app with the first package manager in an ordered chain
+// that has a target for it (e.g. apt → flatpak → snap), in one combined script.
+
+import {
+  apps,
+  getPackageManagerById,
+  isPackageManagerForOS,
+  type AppData,
+  type AppVersions,
+  type InstallScope,
+  type PackageManagerId,
+} from '../data';
+import {
+  getSelectedPackages,
+  generateAsciiHeader,
+  generateSharedUtils,
+  type InstallScriptParts,
+  type PackageInfo,
+} from './shared';
+import { getStateKey } from './resume';
+import { isSystemScope } from './scope';
+import { generatePostInstallSteps } from './postInstall';
+import { generatePowerShellHeader, generatePowerShellUtils, generatePowerShellInstallBody } from './powershell';
+import { wingetInstallParts } from './winget';
+import { chocolateyInstallParts } from './chocolatey';
+import { scoopInstallParts } from './scoop';
+import { homebrewInstallParts } from './homebrew';
+import { macportsInstallParts } from './macports';
+import { aptInstallParts } from './apt';
+import { dnfInstallParts } from './dnf';
+import { pacmanInstallParts } from './pacman';
+import { zypperInstallParts } from './zypper';
+import { flatpakInstallParts } from './flatpak';
+import { snapInstallParts } from './snap';
+import { nixInstallParts } from './nix';
+
+/**
+ * Map of package manager IDs to their install script parts
+ */
+const installParts: Record<PackageManagerId, InstallScriptParts> = {
+  // Windows
+  winget: wingetInstallParts,
+  chocolatey: chocolateyInstallParts,
+  scoop: scoopInstallParts,
+  // macOS
+  homebrew: homebrewInstallParts,
+  macports: macportsInstallParts,
+  // Linux
+  apt: aptInstallParts,
+  dnf: dnfInstallParts,
+  pacman: pacmanInstallParts,
+  zypper: zypperInstallParts,
+  flatpak: flatpakInstallParts,
+  snap: snapInstallParts,
+  // Linux and macOS
+  nix: nixInstallParts,
+};
+
+/**
+ * Packages assigned to one package manager of a fallback chain
+ */
+export interface FallbackSegment {
+  packageManagerId: PackageManagerId;
+  packages: PackageInfo[];
+}
+
+/**
+ * Result of resolving a selection against a fallback chain
+ */
+export interface FallbackPlan {
+  /** Managers that install at least one app, in chain order */
+  segments: FallbackSegment[];
+  /** Selected apps that no manager in the chain has a target for */
+  missing: AppData[];
+}
+
+/**
+ * Assign each selected app to the first package manager in the chain that has a target for it
+ * Managers that share no OS with the first one in the chain are ignored,
+ * since bash and PowerShell segments cannot share a script.
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @param chain - Package managers in order of preference
+ * @param versions - Pinned versions by app ID
+ * @param scope - Whether apps are installed system-wide or for the current user,
+ *   unset for each package manager's default
+ * @returns Segments per package manager and the apps left without a target
+ */
+export function resolveFallbackChain(
+  selectedAppIds: Set<string>,
+  chain: PackageManagerId[],
+  versions: AppVersions = {},
+  scope?: InstallScope
+): FallbackPlan {
+  const first = chain.length > 0 ? getPackageManagerById(chain[0]) : undefined;
+  const osIds = first ? [first.osId, ...(first.additionalOsIds ?? [])] : [];
+  const assigned = new Set<string>();
+  const segments: FallbackSegment[] = [];
+
+  for (const packageManagerId of new Set(chain)) {
+    const pm = getPackageManagerById(packageManagerId);
+    if (!pm || !osIds.some(osId => isPackageManagerForOS(pm, osId))) {
+      continue;
+    }
+    const packages = getSelectedPackages(selectedAppIds, packageManagerId, versions, scope)
+      .filter(({ app }) => !assigned.has(app.id));
+    packages.forEach(({ app }) => assigned.add(app.id));
+    if (packages.length > 0) {
+      segments.push({ packageManagerId, packages });
+    }
+  }
+
+  const missing = getSelectedApps(selectedAppIds).filter(app => !assigned.has(app.id));
+  return { segments, missing };
+}
+
+/**
+ * Look up the selected apps, skipping unknown IDs
+ */
+function getSelectedApps(selectedAppIds: Set<string>): AppData[] {
+  return Array.from(selectedAppIds)
+    .map(id => apps.find(a => a.id === id))
+    .filter((app): app is AppData => !!app);
+}
+
+/**
+ * Display name of a package manager
+ */
+function getName(packageManagerId: PackageManagerId): string {
+  return getPackageManagerById(packageManagerId)?.name ?? packageManagerId;
+}
+
+/**
+ * Generate a bash script that installs each segment with its own package manager
+ * The pre-flight checks of every manager run first. Each manager's install
+ * functions are (re)defined right before its own install calls.
+ */
+function generateBashFallbackScript(segments: FallbackSegment[], total: number): string {
+  const preflights = segments
+    .map(({ packageManagerId, packages }) =>
+      `# ${getName(packageManagerId)}\n${installParts[packageManagerId].preflight(packages)}`)
+    .join('\n\n');
+
+  const installs = segments
+    .map(({ packageManagerId, packages }) => {
+      const parts = installParts[packageManagerId];
+      return `# ── ${getName(packageManagerId)} ──
+
+${parts.functions(packages)}
+
+${parts.calls(packages)}`;
+    })
+    .join('\n\n');
+
+  const epilogues = segments
+    .map(({ packageManagerId }) => installParts[packageManagerId].epilogue)
+    .filter(Boolean)
+    .join('');
+
+  return (
+    generateAsciiHeader(segments.map(s => getName(s.packageManagerId)).join(' → '), total) +
+    generateSharedUtils(total) +
+    `
+# ─────────────────────────────────────────────────────────────────────────────
+#  Pre-flight
+# ─────────────────────────────────────────────────────────────────────────────
+
+load_state ${getStateKey(segments.flatMap(s => s.packages))}
+
+${preflights}
+
+# ─────────────────────────────────────────────────────────────────────────────
+#  Installation
+# ─────────────────────────────────────────────────────────────────────────────
+
+echo
+info "Installing $TOTAL packages"
+echo
+
+${installs}
+${generatePostInstallSteps(segments.flatMap(s => s.packages))}
+print_summary
+${epilogues}`
+  );
+}
+
+/**
+ * Generate a PowerShell script that installs each segment with its own package manager
+ * Install functions have manager-specific names, so all of them are defined up front.
+ */
+function generatePowerShellFallbackScript(segments: FallbackSegment[], total: number): string {
+  const combined: InstallScriptParts = {
+    functions: () => segments
+      .map(({ packageManagerId, packages }) => installParts[packageManagerId].functions(packages))
+      .join('\n\n'),
+    preflight: () => segments
+      .map(({ packageManagerId, packages }) => installParts[packageManagerId].preflight(packages))
+      .join('\n'),
+    calls: () => segments
+      .map(({ packageManagerId, packages }) =>
+        `# ${getName(packageManagerId)}\n${installParts[packageManagerId].calls(packages)}`)
+      .join('\n\n'),
+  };
+
+  const header = generatePowerShellHeader(segments.map(s => getName(s.packageManagerId)).join(' → '), total, {
+    requiresAdmin: segments.some(s =>
+      s.packageManagerId === 'chocolatey' || (s.packageManagerId === 'scoop' && isSystemScope(s.packages))),
+  });
+  const utils = generatePowerShellUtils(total);
+
+  return header + utils + generatePowerShellInstallBody(combined, segments.flatMap(s => s.packages));
+}
+
+/**
+ * Generate one installation script for a fallback chain of package managers
+ * Only managers that install at least one app get their pre-flight checks.
+ * Apps no manager in the chain has a target for are left out.
+ *
+ * Note: Homebrew refuses to run as root while MacPorts requires it, so a
+ * chain that uses both of them cannot complete in one run.
+ *
+ * @param selectedAppIds - Set of selected app IDs
+ * @param chain - Package managers in order of preference
+ * @param versions - Pinned versions by app ID
+ * @param scope - Whether apps are installed system-wide or for the current user,
+ *   unset for each package manager's default
+ * @returns The generated installation script
+ */
+export function generateFallbackScript(
+  selectedAppIds: Set<string>,
+  chain: PackageManagerId[],
+  versions: AppVersions = {},
+  scope?: InstallScope
+): string {
+  const { segments } = resolveFallbackChain(selectedAppIds, chain, versions, scope);
+  const total = segments.reduce((sum, s) => sum + s.packages.length, 0);
+  const isWindows = chain.length > 0 && getPackageManagerById(chain[0])?.osId === 'windows';
+
+  if (total === 0) {
+    return isWindows
+      ? `# No packages selected
+Write-Host "No packages selected" -ForegroundColor Yellow
+exit 0
+`
+      : `#!/bin/bash
+# No packages selected
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return isWindows
+    ? generatePowerShellFallbackScript(segments, total)
+    : generateBashFallbackScript(segments, total);
+}
@@ -2,107 +2,99 @@
 // Requirements: 4.4, 5.1
 
 import {
-  escapeShellString,
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
+  type PackageInfo,
 } from './shared';
+import { flatpakRemotes, type AppVersions, type FlatpakRemote, type InstallScope } from '../data';
+import { getPinnedPackage } from './versions';
+import { generateQueueFunctions, generateQueuedCalls, isQueued } from './concurrency';
 
 /**
- * Generate Flatpak installation script
- * Requirements: 5.1
- * 
- * Uses parallel installation when 3+ packages are selected for faster installs.
+ * Shell function that checks whether an app is already installed
  */
-export function generateFlatpakScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'flatpak');
+const isInstalledFn = `# Check if app is already installed
+# A pinned app (appid//branch) only counts on that branch
+is_installed() {
+    if [[ $1 == *//* ]]; then
+        flatpak info "\${1%%//*}" "\${1#*//}" &>/dev/null
+    else
+        flatpak list --app 2>/dev/null | grep -q "$1"
+    fi
+}`;
 
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for Flatpak
-echo "No packages selected"
-exit 0
-`;
-  }
+/**
+ * Shell pre-flight check that the package manager is available
+ */
+const managerCheck = `# Requirement 5.8: Check if package manager is installed
+command -v flatpak &>/dev/null || {
+    error "Flatpak not installed"
+    info "Install: sudo apt/dnf/pacman install flatpak"
+    exit 1
+}`;
 
-  const parallel = packages.length >= 3;
+/**
+ * Remote an app installs from (see FlatpakOptions), Flathub by default
+ */
+export function getFlatpakRemote({ app }: PackageInfo): FlatpakRemote {
+  return app.targetOptions?.flatpak?.remote ?? 'flathub';
+}
 
-  const installLogic = parallel
-    ? `install_parallel ${packages.map(({ app, pkg }) => `"${escapeShellString(app.name)}|${pkg}"`).join(' ')}`
-    : packages.map(({ app, pkg }) => `install_pkg "${escapeShellString(app.name)}" "${pkg}"`).join('\n');
+/**
+ * Installation an app goes into: the user's when installing for the current user only,
+ * else the app's own (see FlatpakOptions), system-wide by default
+ */
+export function getFlatpakScope({ app, scope }: PackageInfo): InstallScope {
+  return scope === 'user' ? scope : app.targetOptions?.flatpak?.scope ?? 'system';
+}
 
-  return (
-    generateAsciiHeader('Flatpak', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Check if app is already installed
-is_installed() {
-    flatpak list --app 2>/dev/null | grep -q "$1"
+/**
+ * Remote and scope pairs the packages install from, each listed once
+ */
+function getRemoteScopes(packages: PackageInfo[]): { remote: FlatpakRemote; scope: InstallScope }[] {
+  const keys = [...new Set(packages.map(p => `${getFlatpakRemote(p)}|${getFlatpakScope(p)}`))];
+  return keys.map(key => {
+    const [remote, scope] = key.split('|');
+    return { remote: remote as FlatpakRemote, scope: scope as InstallScope };
+  });
 }
 
-${parallel ? `
-# Parallel install for Flatpak (faster for multiple packages)
-install_parallel() {
-    local pids=()
-    local names=()
-    local start=$(date +%s)
+/**
+ * Parts of the Flatpak install script, shared with the fallback chain generator
+ * Three or more apps are installed in parallel (see install_parallel).
+ */
+export const flatpakInstallParts: InstallScriptParts = {
+  functions: (packages) => `${isInstalledFn}
 
-    for pair in "$@"; do
-        local name="\${pair%%|*}"
-        local appid="\${pair##*|}"
+install_pkg() {
+    local name=$1 appid=$2 remote=$3 scope=$4
+    resumed "$name" && return 0
+    CURRENT=$((CURRENT + 1))
 
-        if is_installed "$appid"; then
+    if is_installed "$appid"; then
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" flatpak update -y "--$scope" "$appid"
+        else
             skip "$name"
             SKIPPED+=("$name")
-            continue
         fi
-
-        (flatpak install flathub -y "$appid" >/dev/null 2>&1) &
-        pids+=($!)
-        names+=("$name")
-    done
-
-    local total=\${#pids[@]}
-    local done_count=0
-
-    if [ $total -eq 0 ]; then
-        return
+        return 0
     fi
 
-    info "Installing $total apps in parallel..."
-
-    for i in "\${!pids[@]}"; do
-        wait \${pids[$i]}
-        local status=$?
-        done_count=$((done_count + 1))
-
-        if [ $status -eq 0 ]; then
-            SUCCEEDED+=("\${names[$i]}")
-            success "\${names[$i]}"
-        else
-            FAILED+=("\${names[$i]}")
-            error "\${names[$i]} failed"
-        fi
-    done
-
-    local elapsed=$(($(date +%s) - start))
-    echo -e "\${DIM}Parallel install took \${elapsed}s\${NC}"
-}
-` : `
-install_pkg() {
-    local name=$1 appid=$2
-    CURRENT=$((CURRENT + 1))
-
-    if is_installed "$appid"; then
-        skip "$name"
-        SKIPPED+=("$name")
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
     show_progress $CURRENT $TOTAL "$name"
     local start=$(date +%s)
 
-    if with_retry flatpak install flathub -y "$appid" >/dev/null 2>&1; then
+    if with_retry flatpak install "--$scope" -y "$remote" "$appid" >/dev/null 2>&1; then
         local elapsed=$(($(date +%s) - start))
         update_avg_time $elapsed
         printf "\\r\\033[K"
@@ -112,54 +104,132 @@ install_pkg() {
         printf "\\r\\033[K\${RED}✗\${NC} %s\\n" "$name"
         FAILED+=("$name")
     fi
+}${isQueued('parallel', packages) ? `
+
+# Install an app in the background (see install_parallel)
+flatpak_install() {
+    local appid=$1 remote=$2 scope=$3
+    flatpak install "--$scope" -y "$remote" "$appid"
 }
-`}
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+${generateQueueFunctions('parallel', packages)}` : ''}`,
+  preflight: (packages) => `${managerCheck}
 
-# Requirement 5.8: Check if package manager is installed
-command -v flatpak &>/dev/null || {
-    error "Flatpak not installed"
-    info "Install: sudo apt/dnf/pacman install flatpak"
-    exit 1
+# Ensure the remotes are added to the installations apps go into
+add_remote() {
+    local remote=$1 scope=$2 title=$3 location=$4
+    flatpak remotes "--$scope" 2>/dev/null | awk '{print $1}' | grep -qx "$remote" && return 0
+    if [ "$DRY_RUN" = true ]; then
+        info "Would add $title (dry run)"
+    else
+        info "Adding $title..."
+        flatpak remote-add "--$scope" --if-not-exists "$remote" "$location" && success "$title added"
+    fi
 }
 
-# Ensure Flathub is added
-if ! flatpak remotes 2>/dev/null | grep -q flathub; then
-    info "Adding Flathub..."
-    flatpak remote-add --if-not-exists flathub https://dl.flathub.org/repo/flathub.flatpakrepo
-    success "Flathub added"
-fi
+${getRemoteScopes(packages)
+    .map(({ remote, scope }) => {
+      const { name, url } = flatpakRemotes[remote];
+      return `add_remote ${remote} ${scope} "${name}${scope === 'user' ? ' for this user' : ''}" "${url}"`;
+    })
+    .join('\n')}`,
+  calls: (packages) => generateQueuedCalls(
+    'parallel',
+    packages,
+    (p) => `"${getPinnedPackage('flatpak', p)}" ${getFlatpakRemote(p)} ${getFlatpakScope(p)}`,
+    'install_parallel flatpak_install'
+  ),
+  epilogue: `echo
+info "Restart session for apps to appear in menu."
+`,
+};
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate Flatpak installation script
+ * Requirements: 5.1
+ * 
+ * Uses parallel installation when 3+ packages are selected for faster installs.
+ */
+export function generateFlatpakScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'flatpak', versions, scope);
 
-echo
-info "Installing $TOTAL packages"
-echo
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Flatpak
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Flatpak', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(flatpakInstallParts, packages)
+  );
+}
 
-${installLogic}
+/**
+ * Parts of the Flatpak uninstall script
+ */
+const flatpakUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: managerCheck,
+  remove: 'flatpak uninstall -y "$pkg"',
+};
 
-print_summary
-echo
-info "Restart session for apps to appear in menu."
-`
+/**
+ * Generate Flatpak uninstall script
+ */
+export function generateFlatpakUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'flatpak');
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Flatpak
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Flatpak', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(flatpakUninstallParts, packages)
   );
 }
 
 /**
  * Generate simple one-liner command for Flatpak
+ * One install per remote and scope; remotes other than a system-wide Flathub are added first.
  */
-export function generateFlatpakCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'flatpak');
+export function generateFlatpakCommand(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'flatpak', versions, scope);
 
   if (packages.length === 0) {
     return '# No packages selected';
   }
 
-  const appIds = packages.map(p => p.pkg).join(' ');
-  return `flatpak install flathub -y ${appIds}`;
+  return getRemoteScopes(packages)
+    .flatMap(({ remote, scope }) => {
+      const appIds = packages
+        .filter(p => getFlatpakRemote(p) === remote && getFlatpakScope(p) === scope)
+        .map(p => getPinnedPackage('flatpak', p))
+        .join(' ');
+      if (remote === 'flathub' && scope === 'system') {
+        return [`flatpak install flathub -y ${appIds}`];
+      }
+      return [
+        `flatpak remote-add --${scope} --if-not-exists ${remote} ${flatpakRemotes[remote].url}`,
+        `flatpak install --${scope} ${remote} -y ${appIds}`,
+      ];
+    })
+    .join(' && ');
 }
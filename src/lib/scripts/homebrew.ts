@@ -6,41 +6,22 @@ import {
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
+  type PackageInfo,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { getPinnedPackage } from './versions';
+import { generateHomebrewTapSetup } from './repositories';
+import { isUserScope } from './scope';
+import { isQueued, jobsSetting } from './concurrency';
 
 /**
- * Generate Homebrew installation script
- * Requirements: 4.3, 5.1
- * 
- * Handles --cask prefixed packages by grouping them separately into
- * a `brew install --cask` command.
+ * Shell platform detection and root check shared by the install and uninstall scripts
  */
-export function generateHomebrewScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'homebrew');
-
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for Homebrew
-echo "No packages selected"
-exit 0
-`;
-  }
-
-  const installCalls = packages
-    .map(({ app, pkg }) => {
-      if (pkg.startsWith('--cask ')) {
-        const caskName = pkg.replace('--cask ', '');
-        return `install_package "${escapeShellString(app.name)}" "${caskName}" "--cask"`;
-      }
-      return `install_package "${escapeShellString(app.name)}" "${pkg}" ""`;
-    })
-    .join('\n');
-
-  return (
-    generateAsciiHeader('Homebrew', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Platform detection
+const platformChecks = `# Platform detection
 IS_MACOS=false
 if [[ "$OSTYPE" == "darwin"* ]]; then
     IS_MACOS=true
@@ -50,28 +31,103 @@ fi
 if [ "$EUID" -eq 0 ]; then
     error "Homebrew should not be run as root. Please run as a normal user."
     exit 1
-fi
+fi`;
+
+/**
+ * Folder casks are installed into for the current user, instead of /Applications
+ */
+const userAppDir = '$HOME/Applications';
 
-# Requirement 5.4: Check if package is already installed
+/**
+ * Shell setup of the Applications folder casks go into when installing for the current user
+ */
+const userAppDirSetup = `# Casks are installed into ~/Applications, so no admin rights are needed
+if [ "$IS_MACOS" = true ] && [ "$DRY_RUN" != true ]; then
+    mkdir -p "${userAppDir}"
+fi`;
+
+/**
+ * Shell function that checks whether a formula or cask is already installed
+ */
+const isInstalledFn = `# Requirement 5.4: Check if package is already installed
 is_installed() {
     local type=$1
     local pkg=$2
     # brew list returns 0 if installed, 1 if not
     # Use grep -Fxq for exact line matching to handle special chars in names
+    # Formulae from taps (user/repo/name) are listed by their short name
     if [ "$type" == "--cask" ]; then
         brew list --cask 2>/dev/null | grep -Fxq "$pkg"
     else
-        brew list --formula 2>/dev/null | grep -Fxq "$pkg"
+        brew list --formula 2>/dev/null | grep -Fxq "\${pkg##*/}"
     fi
+}`;
+
+/**
+ * Shell function that downloads casks in the background before they are installed
+ * Homebrew holds a lock while installing, so only the downloads run side by side.
+ */
+const fetchCasksFn = `${jobsSetting}
+
+# Download casks in the background, at most $JOBS at a time, so installing them is quick
+fetch_casks() {
+    [ "$IS_MACOS" = true ] && [ "$DRY_RUN" != true ] || return 0
+    info "Downloading casks, up to $JOBS at a time..."
+    local pids=() waited=0 cask
+    for cask in "$@"; do
+        is_installed --cask "$cask" && continue
+        (brew fetch --cask "$cask" >/dev/null 2>&1) &
+        pids+=($!)
+        if [ $((\${#pids[@]} - waited)) -ge $JOBS ]; then
+            wait "\${pids[$waited]}" || true
+            waited=$((waited + 1))
+        fi
+    done
+    while [ $waited -lt \${#pids[@]} ]; do
+        wait "\${pids[$waited]}" || true
+        waited=$((waited + 1))
+    done
+}`;
+
+/**
+ * Casks among the packages; three or more are downloaded in parallel (see fetch_casks)
+ */
+function getCaskPackages(packages: PackageInfo[]): PackageInfo[] {
+  return packages.filter(p => getPinnedPackage('homebrew', p).startsWith('--cask '));
 }
 
+/**
+ * Build the per-package call, splitting the --cask prefix into its own argument
+ * and passing the user's Applications folder to casks installed for the current user
+ */
+function toPackageCall(fn: string, name: string, pkg: string, scope?: InstallScope): string {
+  if (pkg.startsWith('--cask ')) {
+    const caskName = pkg.replace('--cask ', '');
+    return `${fn} "${escapeShellString(name)}" "${caskName}" "--cask"${scope === 'user' ? ` "${userAppDir}"` : ''}`;
+  }
+  return `${fn} "${escapeShellString(name)}" "${pkg}" ""`;
+}
+
+/**
+ * Parts of the Homebrew install script, shared with the fallback chain generator
+ */
+export const homebrewInstallParts: InstallScriptParts = {
+  functions: (packages) => `${isInstalledFn}
+
 install_package() {
     local name=$1
     local pkg=$2
     local type=$3 # "" (formula) or "--cask"
+    local appdir=\${4:-} # Applications folder of a cask installed for the current user
 
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
+    local args=("$pkg")
+    if [ -n "$appdir" ]; then
+        args+=("--appdir=$appdir")
+    fi
+
     # Casks are macOS only
     if [ "$type" == "--cask" ] && [ "$IS_MACOS" = false ]; then
         printf "\\r\\033[K\${YELLOW}○\${NC} %s \${DIM}(cask skipped on Linux)\${NC}\\n" "$name"
@@ -80,8 +136,17 @@ install_package() {
     fi
 
     if is_installed "$type" "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" brew upgrade $type "\${args[@]}"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -95,7 +160,7 @@ install_package() {
     fi
 
     local output
-    if output=$(with_retry $cmd "$pkg" 2>&1); then
+    if output=$(with_retry $cmd "\${args[@]}" 2>&1); then
         local elapsed=$(($(date +%s) - start))
         update_avg_time $elapsed
         printf "\\r\\033[K"
@@ -113,11 +178,10 @@ install_package() {
 
         FAILED+=("$name")
     fi
-}
+}${isQueued('parallel', getCaskPackages(packages)) ? `
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+${fetchCasksFn}` : ''}`,
+  preflight: (packages) => [`${platformChecks}
 
 # Requirement 5.8: Check if package manager is installed
 command -v brew &>/dev/null || {
@@ -131,22 +195,85 @@ else
     info "Detected Linux - formulae only (casks will be skipped)"
 fi
 
-info "Updating Homebrew..."
-# Run update silently; on error warn but continue (network flakes shouldn't block install)
-brew update >/dev/null 2>&1 && success "Updated" || warn "Update failed, continuing..."
+if [ "$DRY_RUN" = true ]; then
+    info "Skipping Homebrew update (dry run)"
+else
+    info "Updating Homebrew..."
+    # Run update silently; on error warn but continue (network flakes shouldn't block install)
+    brew update >/dev/null 2>&1 && success "Updated" || warn "Update failed, continuing..."
+fi`, isUserScope(packages) ? userAppDirSetup : '', generateHomebrewTapSetup(packages)].filter(Boolean).join('\n\n'),
+  calls: (packages) => [
+    ...(isQueued('parallel', getCaskPackages(packages))
+      ? [`fetch_casks ${getCaskPackages(packages).map(p => `"${getPinnedPackage('homebrew', p).replace('--cask ', '')}"`).join(' ')}`]
+      : []),
+    ...packages.map((p) => toPackageCall('install_package', p.app.name, getPinnedPackage('homebrew', p), p.scope)),
+  ].join('\n'),
+};
+
+/**
+ * Generate Homebrew installation script
+ * Requirements: 4.3, 5.1
+ * 
+ * Handles --cask prefixed packages by grouping them separately into
+ * a `brew install --cask` command.
+ */
+export function generateHomebrewScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'homebrew', versions, scope);
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Homebrew
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Homebrew', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(homebrewInstallParts, packages)
+  );
+}
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Parts of the Homebrew uninstall script
+ */
+const homebrewUninstallParts: UninstallScriptParts = {
+  functions: `${platformChecks}
 
-echo
-info "Installing $TOTAL packages"
-echo
+${isInstalledFn}`,
+  preflight: `# Requirement 5.8: Check if package manager is installed
+command -v brew &>/dev/null || {
+    error "Homebrew not found. Install from https://brew.sh"
+    exit 1
+}`,
+  remove: 'brew uninstall $type "$pkg"',
+  installedCheck: 'is_installed "$type" "$pkg"',
+  calls: (packages) => packages.map(({ app, pkg }) => toPackageCall('remove_pkg', app.name, pkg)).join('\n'),
+};
 
-${installCalls}
+/**
+ * Generate Homebrew uninstall script
+ */
+export function generateHomebrewUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'homebrew');
 
-print_summary
-`
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Homebrew
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Homebrew', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(homebrewUninstallParts, packages)
   );
 }
 
@@ -155,10 +282,15 @@ print_summary
  * Requirement 4.3: Handle --cask prefixed packages by grouping them separately
  * 
  * Groups cask packages into a separate `brew install --cask` command
- * and formula packages into a `brew install` command.
+ * and formula packages into a `brew install` command. Casks installed for
+ * the current user go into ~/Applications.
  */
-export function generateHomebrewCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'homebrew');
+export function generateHomebrewCommand(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'homebrew', versions, scope);
 
   if (packages.length === 0) {
     return '# No packages selected';
@@ -168,7 +300,7 @@ export function generateHomebrewCommand(selectedAppIds: Set<string>): string {
   const caskPackages: string[] = [];
   const formulaPackages: string[] = [];
 
-  for (const { pkg } of packages) {
+  for (const pkg of packages.map(p => getPinnedPackage('homebrew', p))) {
     if (pkg.startsWith('--cask ')) {
       caskPackages.push(pkg.replace('--cask ', ''));
     } else {
@@ -183,7 +315,8 @@ export function generateHomebrewCommand(selectedAppIds: Set<string>): string {
   }
 
   if (caskPackages.length > 0) {
-    commands.push(`brew install --cask ${caskPackages.join(' ')}`);
+    const appDirFlag = scope === 'user' ? ` --appdir="${userAppDir}"` : '';
+    commands.push(`brew install --cask${appDirFlag} ${caskPackages.join(' ')}`);
   }
 
   return commands.join(' && ');
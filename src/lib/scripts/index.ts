@@ -7,22 +7,92 @@ export {
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  SCRIPT_EXIT_CODES,
+  type InstallScriptParts,
+  type UninstallScriptParts,
   type PackageInfo,
+  type ScriptAction,
 } from './shared';
 
+// PowerShell utilities
+export {
+  generatePowerShellHeader,
+  generatePowerShellUtils,
+  generatePowerShellInstallBody,
+  generatePowerShellUninstallBody,
+} from './powershell';
+
 // Windows script generators
-export { generateWingetScript, generateWingetCommand } from './winget';
-export { generateChocolateyScript, generateChocolateyCommand } from './chocolatey';
-export { generateScoopScript, generateScoopCommand } from './scoop';
+export { generateWingetScript, generateWingetUninstallScript, generateWingetCommand } from './winget';
+export { generateChocolateyScript, generateChocolateyUninstallScript, generateChocolateyCommand } from './chocolatey';
+export { generateScoopScript, generateScoopUninstallScript, generateScoopCommand } from './scoop';
 
 // macOS script generators
-export { generateHomebrewScript, generateHomebrewCommand } from './homebrew';
-export { generateMacPortsScript, generateMacPortsCommand } from './macports';
+export { generateHomebrewScript, generateHomebrewUninstallScript, generateHomebrewCommand } from './homebrew';
+export { generateMacPortsScript, generateMacPortsUninstallScript, generateMacPortsCommand } from './macports';
 
 // Linux script generators
-export { generateAptScript, generateAptCommand } from './apt';
-export { generateDnfScript, generateDnfCommand } from './dnf';
-export { generatePacmanScript, generatePacmanCommand } from './pacman';
-export { generateZypperScript, generateZypperCommand } from './zypper';
-export { generateFlatpakScript, generateFlatpakCommand } from './flatpak';
-export { generateSnapScript, generateSnapCommand } from './snap';
+export { generateAptScript, generateAptUninstallScript, generateAptCommand } from './apt';
+export { generateDnfScript, generateDnfUninstallScript, generateDnfCommand } from './dnf';
+export {
+  generatePacmanScript,
+  generatePacmanUninstallScript,
+  generatePacmanCommand,
+  isAurPackage,
+} from './pacman';
+export { generateZypperScript, generateZypperUninstallScript, generateZypperCommand } from './zypper';
+export { generateFlatpakScript, generateFlatpakUninstallScript, generateFlatpakCommand } from './flatpak';
+export { generateSnapScript, generateSnapUninstallScript, generateSnapCommand } from './snap';
+
+// Linux and macOS script generators
+export {
+  generateNixScript,
+  generateNixUninstallScript,
+  generateNixCommand,
+  generateNixHomePackages,
+  NIX_HOME_PACKAGES_FILE_NAME,
+} from './nix';
+
+// Fallback chains (several package managers in one script)
+export {
+  generateFallbackScript,
+  resolveFallbackChain,
+  type FallbackPlan,
+  type FallbackSegment,
+} from './fallback';
+
+// Version pinning
+export {
+  supportsVersionPinning,
+  getPinnedPackage,
+  getUnpinnablePackages,
+  generatePinningWarnings,
+} from './versions';
+
+// Install scope (system-wide or for the current user)
+export { supportsUserScope, isUserScope, isSystemScope, generateScopeWarning, generatePowerShellScopeWarning } from './scope';
+
+// Batched and parallel installs
+export { DEFAULT_JOBS, isQueued, generateQueueFunctions, generateQueuedCalls, type QueuedInstall } from './concurrency';
+
+// Resumable installs
+export { getStateKey } from './resume';
+
+// Post-install steps
+export { generatePostInstallSteps, generatePowerShellPostInstallSteps } from './postInstall';
+
+// Ansible playbook output
+export { ANSIBLE_PLAYBOOK_FILE_NAME, generateAnsiblePlaybook, quoteAnsibleString } from './ansible';
+
+// Dockerfile output
+export {
+  DOCKERFILE_NAME,
+  generateDockerfile,
+  isDockerPackageManager,
+  type DockerPackageManagerId,
+} from './dockerfile';
+
+// devcontainer.json output
+export { DEVCONTAINER_FILE_NAME, generateDevcontainer } from './devcontainer';
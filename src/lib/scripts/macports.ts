@@ -6,56 +6,69 @@ import {
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { generatePinningWarnings } from './versions';
+import { generateScopeWarning } from './scope';
 
 /**
- * Generate MacPorts installation script
- * Requirement 5.1: Generate downloadable shell scripts for each package manager type
+ * Shell root check shared by the install and uninstall scripts
  */
-export function generateMacPortsScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'macports');
-
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for MacPorts
-echo "No packages selected"
-exit 0
-`;
-  }
-
-  const installCalls = packages
-    .map(
-      ({ app, pkg }) =>
-        `install_package "${escapeShellString(app.name)}" "${pkg}"`
-    )
-    .join('\n');
-
-  return (
-    generateAsciiHeader('MacPorts', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# MacPorts requires root for installation
+const rootCheck = `# MacPorts requires root for installation
 if [ "$EUID" -ne 0 ]; then
     error "MacPorts requires root privileges. Please run with sudo."
     exit 1
-fi
+fi`;
 
-# Requirement 5.4: Check if package is already installed
+/**
+ * Shell function that checks whether a port is already installed
+ */
+const isInstalledFn = `# Requirement 5.4: Check if package is already installed
 is_installed() {
     local pkg=$1
     # port installed returns 0 if installed, 1 if not
     port installed "$pkg" 2>/dev/null | grep -q "is installed"
-}
+}`;
+
+/**
+ * Shell pre-flight check that the package manager is available
+ */
+const managerCheck = `# Requirement 5.8: Check if package manager is installed
+command -v port &>/dev/null || {
+    error "MacPorts not found."
+    info "Install from https://www.macports.org/install.php"
+    exit 1
+}`;
+
+/**
+ * Parts of the MacPorts install script, shared with the fallback chain generator
+ */
+export const macportsInstallParts: InstallScriptParts = {
+  functions: () => `${isInstalledFn}
 
 install_package() {
     local name=$1
     local pkg=$2
 
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
     if is_installed "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" port upgrade "$pkg"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -81,45 +94,92 @@ install_package() {
 
         FAILED+=("$name")
     fi
-}
-
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+}`,
+  preflight: (packages) => `${[rootCheck, generateScopeWarning('macports', packages)].filter(Boolean).join('\n\n')}
 
-# Requirement 5.8: Check if package manager is installed
-command -v port &>/dev/null || {
-    error "MacPorts not found."
-    info "Install from https://www.macports.org/install.php"
-    exit 1
-}
+${managerCheck}
 
 info "MacPorts found"
 
-info "Updating MacPorts..."
-# Run selfupdate silently; on error warn but continue
-port selfupdate >/dev/null 2>&1 && success "Updated" || warn "Update failed, continuing..."
+if [ "$DRY_RUN" = true ]; then
+    info "Skipping MacPorts selfupdate (dry run)"
+else
+    info "Updating MacPorts..."
+    # Run selfupdate silently; on error warn but continue
+    port selfupdate >/dev/null 2>&1 && success "Updated" || warn "Update failed, continuing..."
+fi`,
+  calls: (packages) => [
+    generatePinningWarnings('macports', packages),
+    ...packages.map(
+      ({ app, pkg }) =>
+        `install_package "${escapeShellString(app.name)}" "${pkg}"`
+    ),
+  ].filter(Boolean).join('\n'),
+};
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate MacPorts installation script
+ * Requirement 5.1: Generate downloadable shell scripts for each package manager type
+ */
+export function generateMacPortsScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'macports', versions, scope);
 
-echo
-info "Installing $TOTAL packages"
-echo
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for MacPorts
+echo "No packages selected"
+exit 0
+`;
+  }
 
-${installCalls}
+  return (
+    generateAsciiHeader('MacPorts', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(macportsInstallParts, packages)
+  );
+}
+
+/**
+ * Parts of the MacPorts uninstall script
+ */
+const macportsUninstallParts: UninstallScriptParts = {
+  functions: `${rootCheck}
+
+${isInstalledFn}`,
+  preflight: managerCheck,
+  remove: 'port uninstall "$pkg"',
+};
 
-print_summary
-`
+/**
+ * Generate MacPorts uninstall script
+ */
+export function generateMacPortsUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'macports');
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for MacPorts
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('MacPorts', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(macportsUninstallParts, packages)
   );
 }
 
 /**
  * Generate simple one-liner command for MacPorts
  */
-export function generateMacPortsCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'macports');
+export function generateMacPortsCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'macports', versions);
 
   if (packages.length === 0) {
     return '# No packages selected';
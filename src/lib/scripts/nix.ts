@@ -0,0 +1,210 @@
+// Nix script generator for Linux and macOS
+// Installs nixpkgs attributes into the user's profile with `nix profile install`,
+// and writes the same selection as a home-manager `home.packages` snippet.
+
+import {
+  escapeShellString,
+  getSelectedPackages,
+  generateAsciiHeader,
+  generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
+} from './shared';
+import type { AppVersions } from '../data';
+import { generatePinningWarnings } from './versions';
+
+/**
+ * Default file name for the home.packages snippet
+ */
+export const NIX_HOME_PACKAGES_FILE_NAME = 'packmate-packages.nix';
+
+/**
+ * Shell helper checking against the attribute paths installed in the profile
+ * Handles both the `flake:nixpkgs#legacyPackages.<system>.<attr>` column of
+ * older Nix versions and the `Flake attribute:` lines of newer ones.
+ */
+const nixFns = `# Requirement 5.4: Check if package is already installed
+is_installed() {
+    nix_cmd profile list 2>/dev/null | tr -s ' \\t' '\\n' | sed 's/^.*#//' | grep -Fxq "legacyPackages.$NIX_SYSTEM.$1"
+}`;
+
+/**
+ * Shell pre-flight check that Nix is available, plus the current system
+ * used to match installed attribute paths
+ * Defines nix_cmd (nix with the experimental commands `nix profile` needs) itself,
+ * since a fallback chain runs every pre-flight before any install functions.
+ */
+const managerCheck = `# Requirement 5.8: Check if package manager is installed
+command -v nix &>/dev/null || {
+    error "Nix not found"
+    info "Install: curl -L https://nixos.org/nix/install | sh"
+    exit 1
+}
+
+nix_cmd() {
+    nix --extra-experimental-features "nix-command flakes" "$@"
+}
+
+NIX_SYSTEM=$(nix_cmd eval --impure --raw --expr builtins.currentSystem 2>/dev/null)`;
+
+/**
+ * Whether a nixpkgs attribute path can be written unquoted in a Nix expression
+ */
+function isNixAttrPath(attr: string): boolean {
+  return /^[a-zA-Z_][a-zA-Z0-9_'-]*(\.[a-zA-Z_][a-zA-Z0-9_'-]*)*$/.test(attr);
+}
+
+/**
+ * Parts of the Nix install script, shared with the fallback chain generator
+ */
+export const nixInstallParts: InstallScriptParts = {
+  functions: () => `${nixFns}
+
+install_pkg() {
+    local name=$1 pkg=$2
+    resumed "$name" && return 0
+    CURRENT=$((CURRENT + 1))
+
+    if is_installed "$pkg"; then
+        if [ "$UPGRADE" = true ]; then
+            # Newer Nix versions name profile elements after the last attribute
+            upgrade_pkg "$name" nix_cmd profile upgrade "\${pkg##*.}"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
+        return 0
+    fi
+
+    show_progress $CURRENT $TOTAL "$name"
+    local start=$(date +%s)
+
+    local output
+    if output=$(with_retry nix_cmd profile install --impure "nixpkgs#$pkg"); then
+        local elapsed=$(($(date +%s) - start))
+        update_avg_time $elapsed
+        printf "\\r\\033[K"
+        timing "$name" "$elapsed"
+        SUCCEEDED+=("$name")
+    else
+        printf "\\r\\033[K\${RED}✗\${NC} %s\\n" "$name"
+        if echo "$output" | grep -q "does not provide attribute"; then
+            echo -e "    \${DIM}Package not found in nixpkgs\${NC}"
+        elif echo "$output" | grep -q "not supported on"; then
+            echo -e "    \${DIM}Not available for $NIX_SYSTEM\${NC}"
+        fi
+        FAILED+=("$name")
+    fi
+}`,
+  preflight: () => `${managerCheck}
+
+# Several catalog apps are unfree; --impure lets nix read this
+export NIXPKGS_ALLOW_UNFREE=1`,
+  calls: (packages) => [
+    generatePinningWarnings('nix', packages),
+    ...packages.map(({ app, pkg }) => `install_pkg "${escapeShellString(app.name)}" "${escapeShellString(pkg)}"`),
+  ].filter(Boolean).join('\n'),
+};
+
+/**
+ * Generate Nix installation script
+ * Packages go into the user's default profile; no root access is needed.
+ */
+export function generateNixScript(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'nix', versions);
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Nix
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Nix', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(nixInstallParts, packages)
+  );
+}
+
+/**
+ * Parts of the Nix uninstall script
+ */
+const nixUninstallParts: UninstallScriptParts = {
+  functions: nixFns,
+  preflight: managerCheck,
+  remove: 'nix_cmd profile remove "${pkg##*.}"',
+  calls: (packages) => packages
+    .map(({ app, pkg }) => `remove_pkg "${escapeShellString(app.name)}" "${escapeShellString(pkg)}"`)
+    .join('\n'),
+};
+
+/**
+ * Generate Nix uninstall script
+ */
+export function generateNixUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'nix');
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Nix
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Nix', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(nixUninstallParts, packages)
+  );
+}
+
+/**
+ * Generate simple one-liner command for Nix
+ */
+export function generateNixCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'nix', versions);
+
+  if (packages.length === 0) {
+    return '# No packages selected';
+  }
+
+  const installables = packages.map(({ pkg }) => `nixpkgs#${pkg}`).join(' ');
+  return `NIXPKGS_ALLOW_UNFREE=1 nix profile install --impure ${installables}`;
+}
+
+/**
+ * Generate a home-manager `home.packages` snippet for the selected apps
+ * Attribute paths that aren't plain identifiers are written as quoted
+ * `pkgs."..."` paths, so a target can't break out of the list.
+ *
+ * @param selectedAppIds - Selected app IDs
+ * @returns Nix snippet for home.nix
+ */
+export function generateNixHomePackages(selectedAppIds: Iterable<string>): string {
+  const packages = getSelectedPackages(new Set(selectedAppIds), 'nix');
+
+  const entries = packages.map(({ pkg }) => {
+    if (isNixAttrPath(pkg)) return pkg;
+    const quoted = pkg.split('.').map(part => `"${part.replace(/[\\"]/g, '\\$&').replace(/\$\{/g, '\\${')}"`);
+    return `pkgs.${quoted.join('.')}`;
+  });
+
+  return [
+    '# Generated by Packmate',
+    '# Add to your home-manager configuration (home.nix).',
+    '# Some packages are unfree and need nixpkgs.config.allowUnfree = true;',
+    'home.packages = with pkgs; [',
+    ...entries.map(entry => `  ${entry}`),
+    '];',
+  ].join('\n') + '\n';
+}
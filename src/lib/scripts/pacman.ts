@@ -6,43 +6,165 @@ import {
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
+  type PackageInfo,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { generatePinningWarnings } from './versions';
+import { generateScopeWarning } from './scope';
+import { generateQueueFunctions, generateQueuedCalls } from './concurrency';
 
 /**
- * Generate Pacman installation script for Arch Linux
- * Requirements: 5.1
+ * Shell function that checks whether a package is already installed
  */
-export function generatePacmanScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'pacman');
+const isInstalledFn = `# Check if package is already installed
+is_installed() {
+    pacman -Qi "$1" &>/dev/null
+}`;
 
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for Pacman
-echo "No packages selected"
-exit 0
-`;
-  }
+/**
+ * Shell pre-flight checks shared by the install and uninstall scripts
+ */
+const preflightChecks = `# Safety check: Don't run as root
+[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
 
-  const installCalls = packages
-    .map(({ app, pkg }) => `install_pkg "${escapeShellString(app.name)}" "${pkg}"`)
-    .join('\n');
+# Requirement 5.8: Check if package manager is installed
+command -v pacman &>/dev/null || {
+    error "Pacman not found. This script is for Arch-based systems."
+    exit 1
+}
 
-  return (
-    generateAsciiHeader('Pacman (Arch Linux)', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Check if package is already installed
-is_installed() {
-    pacman -Qi "$1" &>/dev/null
+# Wait for pacman lock
+while [ -f /var/lib/pacman/db.lck ]; do
+    warn "Waiting for pacman lock..."
+    sleep 2
+done`;
+
+/**
+ * Whether a package comes from the AUR rather than the official repos
+ */
+export function isAurPackage({ app }: PackageInfo): boolean {
+  return !app.targets.pacman;
 }
 
+/**
+ * Shell function installing an AUR package with the detected helper
+ * Runs as the invoking user, since makepkg refuses to build as root.
+ */
+const installAurFn = `install_aur_pkg() {
+    local name=$1 pkg=$2
+    resumed "$name" && return 0
+    CURRENT=$((CURRENT + 1))
+
+    if is_installed "$pkg"; then
+        if [ "$UPGRADE" = true ] && [ -n "$AUR_HELPER" ]; then
+            upgrade_pkg "$name" "$AUR_HELPER" -S "\${AUR_FLAGS[@]}" "$pkg"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
+        return 0
+    fi
+
+    if [ -z "$AUR_HELPER" ]; then
+        printf "\${RED}✗\${NC} %s\\n" "$name"
+        echo -e "    \${DIM}No AUR helper - install yay or paru\${NC}"
+        FAILED+=("$name")
+        AUR_FAILED+=("$name")
+        return 0
+    fi
+
+    show_progress $CURRENT $TOTAL "$name"
+    local start=$(date +%s)
+
+    local output
+    if output=$(with_retry "$AUR_HELPER" -S --needed "\${AUR_FLAGS[@]}" "$pkg" 2>&1); then
+        local elapsed=$(($(date +%s) - start))
+        update_avg_time $elapsed
+        printf "\\r\\033[K"
+        timing "$name" "$elapsed"
+        SUCCEEDED+=("$name")
+        AUR_SUCCEEDED+=("$name")
+    else
+        printf "\\r\\033[K\${RED}✗\${NC} %s\\n" "$name"
+        if echo "$output" | grep -qi "could not find\\|not found"; then
+            echo -e "    \${DIM}Package not found in the AUR\${NC}"
+        fi
+        FAILED+=("$name")
+        AUR_FAILED+=("$name")
+    fi
+}`;
+
+/**
+ * Shell pre-flight step finding yay or paru, or building yay-bin from the AUR
+ * The script never runs as root (see the pre-flight checks), so makepkg can build it.
+ */
+const aurHelperSetup = `# AUR helper: yay or paru, with flags that skip the PKGBUILD review prompts
+AUR_HELPER=""
+for helper in yay paru; do
+    command -v "$helper" &>/dev/null && { AUR_HELPER=$helper; break; }
+done
+
+if [ -z "$AUR_HELPER" ]; then
+    if [ "$DRY_RUN" = true ]; then
+        info "Would install yay from the AUR (dry run)"
+        AUR_HELPER=yay
+    else
+        info "Installing yay from the AUR..."
+        AUR_BUILD_DIR=$(mktemp -d)
+        if with_retry sudo pacman -S --needed --noconfirm base-devel git >/dev/null \\
+            && with_retry git clone --depth 1 https://aur.archlinux.org/yay-bin.git "$AUR_BUILD_DIR/yay-bin" >/dev/null \\
+            && (cd "$AUR_BUILD_DIR/yay-bin" && makepkg -si --noconfirm >/dev/null 2>&1); then
+            AUR_HELPER=yay
+            success "yay installed"
+        else
+            warn "Could not install yay, AUR packages will fail"
+        fi
+        rm -rf "$AUR_BUILD_DIR"
+    fi
+fi
+
+case "$AUR_HELPER" in
+    yay) AUR_FLAGS=(--noconfirm --answerclean None --answerdiff None) ;;
+    paru) AUR_FLAGS=(--noconfirm --skipreview) ;;
+esac`;
+
+/**
+ * Parts of the Pacman install script, shared with the fallback chain generator
+ * AUR packages (see isAurPackage) get the AUR helper set-up and their own
+ * install function, and the summary is followed by repo and AUR counts.
+ * Two or more repo packages are installed in one transaction (see install_queued).
+ */
+export const pacmanInstallParts: InstallScriptParts = {
+  functions: (packages) => [`${isInstalledFn}
+
+REPO_SUCCEEDED=() REPO_FAILED=() AUR_SUCCEEDED=() AUR_FAILED=()
+
 install_pkg() {
     local name=$1 pkg=$2
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
     if is_installed "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" sudo pacman -S --noconfirm "$pkg"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -56,6 +178,7 @@ install_pkg() {
         printf "\\r\\033[K"
         timing "$name" "$elapsed"
         SUCCEEDED+=("$name")
+        REPO_SUCCEEDED+=("$name")
     else
         printf "\\r\\033[K\${RED}✗\${NC} %s\\n" "$name"
         if echo "$output" | grep -q "target not found"; then
@@ -64,56 +187,114 @@ install_pkg() {
             echo -e "    \${DIM}GPG issue - try: sudo pacman-key --refresh-keys\${NC}"
         fi
         FAILED+=("$name")
+        REPO_FAILED+=("$name")
     fi
-}
+}`,
+    generateQueueFunctions('batch', packages.filter(pkg => !isAurPackage(pkg))),
+    packages.some(isAurPackage) ? installAurFn : '',
+  ].filter(Boolean).join('\n\n'),
+  preflight: (packages) => `${[preflightChecks, generateScopeWarning('pacman', packages)].filter(Boolean).join('\n\n')}
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+if [ "$DRY_RUN" = true ]; then
+    info "Skipping database sync (dry run)"
+else
+    info "Syncing databases..."
+    with_retry sudo pacman -Sy --noconfirm >/dev/null && success "Synced" || warn "Sync failed, continuing..."
+fi${packages.some(isAurPackage) ? `
 
-# Safety check: Don't run as root
-[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
+${aurHelperSetup}` : ''}`,
+  calls: (packages) => [
+    generatePinningWarnings('pacman', packages),
+    generateQueuedCalls(
+      'batch',
+      packages.filter(pkg => !isAurPackage(pkg)),
+      (pkg) => `"${pkg.pkg}"`,
+      'install_queued sudo pacman -S --needed --noconfirm\nREPO_SUCCEEDED+=("${BATCH_NAMES[@]}")'
+    ),
+    ...packages.filter(isAurPackage).map(pkg => `install_aur_pkg "${escapeShellString(pkg.app.name)}" "${pkg.pkg}"`),
+  ].filter(Boolean).join('\n'),
+  epilogue: `
+# Repo and AUR installs, counted separately
+if [ \${#AUR_SUCCEEDED[@]} -gt 0 ] || [ \${#AUR_FAILED[@]} -gt 0 ]; then
+    echo -e "  Repos: \${#REPO_SUCCEEDED[@]} installed, \${#REPO_FAILED[@]} failed  \${DIM}·\${NC}  AUR (\${AUR_HELPER:-no helper}): \${#AUR_SUCCEEDED[@]} installed, \${#AUR_FAILED[@]} failed"
+fi
+`,
+};
 
-# Requirement 5.8: Check if package manager is installed
-command -v pacman &>/dev/null || {
-    error "Pacman not found. This script is for Arch-based systems."
-    exit 1
-}
+/**
+ * Generate Pacman installation script for Arch Linux
+ * AUR packages are installed through yay or paru, bootstrapping yay if neither is found.
+ * Requirements: 5.1
+ */
+export function generatePacmanScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'pacman', versions, scope);
 
-# Wait for pacman lock
-while [ -f /var/lib/pacman/db.lck ]; do
-    warn "Waiting for pacman lock..."
-    sleep 2
-done
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Pacman
+echo "No packages selected"
+exit 0
+`;
+  }
 
-info "Syncing databases..."
-with_retry sudo pacman -Sy --noconfirm >/dev/null && success "Synced" || warn "Sync failed, continuing..."
+  return (
+    generateAsciiHeader('Pacman (Arch Linux)', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(pacmanInstallParts, packages)
+  );
+}
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Parts of the Pacman uninstall script
+ */
+const pacmanUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: preflightChecks,
+  remove: 'sudo pacman -Rs --noconfirm "$pkg"',
+};
 
-echo
-info "Installing $TOTAL packages"
-echo
+/**
+ * Generate Pacman uninstall script for Arch Linux
+ * AUR packages are local packages to pacman, so they are removed the same way.
+ */
+export function generatePacmanUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'pacman');
 
-${installCalls}
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Pacman
+echo "No packages selected"
+exit 0
+`;
+  }
 
-print_summary
-`
+  return (
+    generateAsciiHeader('Pacman (Arch Linux)', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(pacmanUninstallParts, packages)
   );
 }
 
 /**
  * Generate simple one-liner command for Pacman
+ * AUR packages are installed with yay after the repo packages.
  */
-export function generatePacmanCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'pacman');
+export function generatePacmanCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'pacman', versions);
 
   if (packages.length === 0) {
     return '# No packages selected';
   }
 
-  const packageNames = packages.map(p => p.pkg).join(' ');
-  return `sudo pacman -S --needed --noconfirm ${packageNames}`;
+  const repoNames = packages.filter(p => !isAurPackage(p)).map(p => p.pkg).join(' ');
+  const aurNames = packages.filter(isAurPackage).map(p => p.pkg).join(' ');
+  return [
+    ...(repoNames ? [`sudo pacman -S --needed --noconfirm ${repoNames}`] : []),
+    // yay and paru take the same flags
+    ...(aurNames ? [`yay -S --needed --noconfirm ${aurNames}`] : []),
+  ].join(' && ');
 }
@@ -0,0 +1,102 @@
+// Post-install steps for generated scripts
+// Runs the steps of the selected apps (see AppData.postInstall) after all packages
+// are installed, for the apps the script installed; skipped apps are left alone.
+
+import { escapeShellString, type PackageInfo } from './shared';
+import type { PostInstallStep } from '../data';
+
+/**
+ * Argument of a post-install command that stands for the user running the script
+ */
+const USER_PLACEHOLDER = '{user}';
+
+/**
+ * Shell function that runs a post-install step of an app this run installed
+ * In a dry run, the steps of the apps it would install are listed instead.
+ */
+const postInstallFn = `# Run a post-install step of a package this run installed (not one that was skipped)
+post_install() {
+    local name=$1 description=$2
+    shift 2
+    if [ "$DRY_RUN" = true ]; then
+        if in_list "$name" \${PLANNED[@]+"\${PLANNED[@]}"}; then
+            planned "$name: $description" "run"
+        fi
+        return 0
+    fi
+    in_list "$name" \${SUCCEEDED[@]+"\${SUCCEEDED[@]}"} || return 0
+    info "$name: $description"
+    "$@" >/dev/null 2>&1 || warn "$name: post-install step failed, run it yourself: $*"
+}`;
+
+/**
+ * PowerShell function that runs a post-install step of an app this run installed
+ */
+const postInstallPowerShellFn = [
+  '# Run a post-install step of a package this run installed (not one that was skipped)',
+  'function Invoke-PostInstall {',
+  '    param([string]$Name, [string]$Description, [string[]]$Command)',
+  '    if ($WhatIf) {',
+  '        if ($script:Planned -contains $Name) { Write-Planned -Message "${Name}: $Description" -Verb "run" }',
+  '        return',
+  '    }',
+  '    if ($script:Succeeded -notcontains $Name) { return }',
+  '    Write-Info "${Name}: $Description"',
+  '    try {',
+  '        $program, $arguments = $Command',
+  '        $global:LASTEXITCODE = 0',
+  '        & $program @arguments 2>&1 | Out-Null',
+  '        if ($LASTEXITCODE -ne 0) { throw "exit code $LASTEXITCODE" }',
+  '    } catch {',
+  '        Write-Warn "${Name}: post-install step failed, run it yourself: $($Command -join \' \')"',
+  '    }',
+  '}',
+  '',
+].join('\n');
+
+/**
+ * Packages with post-install steps
+ */
+function withSteps(packages: PackageInfo[]): (PackageInfo & { postInstall: PostInstallStep[] })[] {
+  return packages.filter((p): p is PackageInfo & { postInstall: PostInstallStep[] } => !!p.postInstall);
+}
+
+/**
+ * Generate the post-install section of a bash script
+ *
+ * @param packages - Packages the script installs
+ * @returns The post_install function and one call per step, or an empty string without steps
+ */
+export function generatePostInstallSteps(packages: PackageInfo[]): string {
+  const calls = withSteps(packages).flatMap(({ app, postInstall }) => postInstall.map(step => {
+    const args = step.command.map(arg => (arg === USER_PLACEHOLDER ? '"${USER:-$(id -un)}"' : `"${escapeShellString(arg)}"`));
+    return `post_install "${escapeShellString(app.name)}" "${escapeShellString(step.description)}" ${args.join(' ')}`;
+  }));
+  if (calls.length === 0) return '';
+
+  return `
+# ─────────────────────────────────────────────────────────────────────────────
+#  Post-install
+# ─────────────────────────────────────────────────────────────────────────────
+
+${postInstallFn}
+
+${calls.join('\n')}
+`;
+}
+
+/**
+ * Generate the post-install steps of a PowerShell script
+ *
+ * @param packages - Packages the script installs
+ * @returns The Invoke-PostInstall function and one call per step, or an empty string without steps
+ */
+export function generatePowerShellPostInstallSteps(packages: PackageInfo[]): string {
+  const calls = withSteps(packages).flatMap(({ app, postInstall }) => postInstall.map(step => {
+    const args = step.command.map(arg => (arg === USER_PLACEHOLDER ? '$env:USERNAME' : `"${escapeShellString(arg)}"`));
+    return `Invoke-PostInstall -Name "${escapeShellString(app.name)}" -Description "${escapeShellString(step.description)}" -Command @(${args.join(', ')})`;
+  }));
+  if (calls.length === 0) return '';
+
+  return [postInstallPowerShellFn, ...calls].join('\n');
+}
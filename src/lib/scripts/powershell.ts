@@ -0,0 +1,336 @@
+// Shared utilities for the PowerShell (Windows) script generators
+// Requirements: 5.1, 5.2, 5.3, 5.7
+
+import {
+  SCRIPT_EXIT_CODES,
+  escapeShellString,
+  type InstallScriptParts,
+  type PackageInfo,
+  type ScriptAction,
+  type UninstallScriptParts,
+} from './shared';
+import { getStateKey, resumeStatePowerShellFns } from './resume';
+import { generatePowerShellPostInstallSteps } from './postInstall';
+
+/**
+ * Options for the PowerShell script header
+ */
+export interface PowerShellHeaderOptions {
+  /** Adds `#Requires -RunAsAdministrator` (Chocolatey needs an elevated shell) */
+  requiresAdmin?: boolean;
+  /** Whether the script installs or removes packages */
+  action?: ScriptAction;
+}
+
+/**
+ * Parameters accepted by the generated PowerShell scripts
+ */
+interface ScriptParam {
+  name: string;
+  description: string;
+  actions: ScriptAction[];
+  /** Environment variable a string parameter defaults to; parameters without one are switches */
+  env?: string;
+}
+
+const scriptParams: ScriptParam[] = [
+  { name: 'Upgrade', description: 'Upgrade packages that are already installed instead of skipping them', actions: ['install'] },
+  { name: 'WhatIf', description: 'Show what would change without changing anything', actions: ['install', 'uninstall'] },
+  { name: 'Resume', description: 'Skip packages the last run is done with', actions: ['install'] },
+  {
+    name: 'JsonReport',
+    description: 'Write a JSON report to this path (or set PACKMATE_JSON_REPORT)',
+    actions: ['install', 'uninstall'],
+    env: 'PACKMATE_JSON_REPORT',
+  },
+];
+
+/**
+ * Generate the PowerShell script header with metadata
+ * Requirement 5.2: Include header with metadata (package manager name, package count, generation date)
+ *
+ * @param packageManagerName - Name of the package manager
+ * @param pkgCount - Number of packages in the script
+ * @param options - Header options
+ * @returns PowerShell header string
+ */
+export function generatePowerShellHeader(
+  packageManagerName: string,
+  pkgCount: number,
+  options: PowerShellHeaderOptions = {}
+): string {
+  const date = new Date().toISOString().split('T')[0];
+  const { requiresAdmin = false, action = 'install' } = options;
+  const params = scriptParams.filter(p => p.actions.includes(action));
+
+  // Build script using string concatenation to avoid template literal issues with PowerShell syntax
+  return [
+    '#Requires -Version 5.1',
+    ...(requiresAdmin ? ['#Requires -RunAsAdministrator'] : []),
+    '<#',
+    '.SYNOPSIS',
+    '    Packmate - Cross-Platform App Installer',
+    '.DESCRIPTION',
+    '    PACKMATE - Cross-Platform App Installer',
+    '    https://github.com/prime399/packmate',
+    '',
+    `    Package Manager: ${packageManagerName}`,
+    `    Packages: ${pkgCount}`,
+    ...(action === 'uninstall' ? ['    Mode: Uninstall'] : []),
+    `    Generated: ${date}`,
+    ...params.flatMap(p => ['', `.PARAMETER ${p.name}`, `    ${p.description}`]),
+    '',
+    '.NOTES',
+    `    Exit codes: 0 done, ${SCRIPT_EXIT_CODES.SOME_FAILED} some packages failed, ${SCRIPT_EXIT_CODES.ALL_FAILED} all packages failed`,
+    '#>',
+    ...(params.length > 0
+      ? ['param(', params.map(p => (p.env ? `    [string]$${p.name} = $env:${p.env}` : `    [switch]$${p.name}`)).join(',\n'), ')']
+      : []),
+    '',
+    '$ErrorActionPreference = "Stop"',
+    '$ProgressPreference = "SilentlyContinue"',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate shared PowerShell utilities (output helpers, progress, summary)
+ * Requirements:
+ * - 5.3: Colored output utilities for success, error, warning, and progress messages
+ * - 5.7: Print a summary at the end showing installed, skipped, and failed packages
+ *
+ * @param total - Total number of packages in the script
+ * @param action - Whether the script installs or removes packages
+ * @returns PowerShell utilities string
+ */
+export function generatePowerShellUtils(total: number, action: ScriptAction = 'install'): string {
+  const done = action === 'uninstall' ? 'removed' : 'installed';
+  const skippedLabel = action === 'uninstall' ? 'not installed' : 'already installed';
+  const verb = action === 'uninstall' ? 'Removing' : 'Installing';
+  const planned = action === 'uninstall' ? 'remove' : 'install';
+
+  return [
+    '# Colors & Utilities',
+    'function Write-Info { param([string]$Message) Write-Host ":: " -ForegroundColor Blue -NoNewline; Write-Host $Message }',
+    'function Write-Success { param([string]$Message) Write-Host "[OK] " -ForegroundColor Green -NoNewline; Write-Host $Message }',
+    'function Write-Warn { param([string]$Message) Write-Host "[!] " -ForegroundColor Yellow -NoNewline; Write-Host $Message }',
+    'function Write-Err { param([string]$Message) Write-Host "[X] " -ForegroundColor Red -NoNewline; Write-Host $Message }',
+    `function Write-Skip { param([string]$Message) Write-Host "[o] $Message (${skippedLabel})" -ForegroundColor DarkGray }`,
+    'function Write-Timing { param([string]$Message, [int]$Seconds) Write-Host "[OK] " -ForegroundColor Green -NoNewline; Write-Host "$Message ($Seconds s)"; $script:Durations[$Message] = $Seconds }',
+    'function Write-Upgraded { param([string]$Message, [int]$Seconds) Write-Host "[^] " -ForegroundColor Cyan -NoNewline; Write-Host "$Message (upgraded, $Seconds s)"; $script:Durations[$Message] = $Seconds }',
+    'function Write-Planned { param([string]$Message, [string]$Verb) Write-Host "[>] " -ForegroundColor Blue -NoNewline; Write-Host "$Message (would $Verb)" }',
+    '',
+    `$script:Total = ${total}`,
+    '$script:Current = 0',
+    '$script:Failed = @()',
+    '$script:Succeeded = @()',
+    '$script:Skipped = @()',
+    '$script:Upgraded = @()',
+    '$script:Planned = @()',
+    '$script:Durations = @{}',
+    '$script:Errors = @{}',
+    '$script:StartTime = Get-Date',
+    '',
+    'if ($WhatIf) { Write-Info "Dry run: no changes will be made" }',
+    '',
+    '# Progress display',
+    'function Show-Progress {',
+    '    param([int]$Current, [int]$Total, [string]$Name)',
+    '    $percent = [math]::Floor($Current * 100 / $Total)',
+    `    Write-Host "[$percent%] ($Current/$Total) ${verb} $Name..."`,
+    '}',
+    '',
+    '# Record a failed package with the last lines of its error',
+    'function Add-Failure {',
+    '    param([string]$Name, [string]$Message = $Name, $ErrorRecord)',
+    '    Write-Err $Message',
+    '    $script:Failed += $Name',
+    '    if ($ErrorRecord) { $script:Errors[$Name] = @(($ErrorRecord | Out-String).Trim() -split "`r?`n" | Select-Object -Last 10) }',
+    '}',
+    '',
+    `# Record a package the script would ${planned} (used with -WhatIf)`,
+    'function Add-Planned {',
+    '    param([string]$Name)',
+    `    Write-Planned -Message $Name -Verb "${planned}"`,
+    '    $script:Planned += $Name',
+    '}',
+    '',
+    ...(action === 'install'
+      ? [
+        '# Upgrade an already-installed package (used with -Upgrade)',
+        'function Invoke-Upgrade {',
+        '    param([string]$Name, [scriptblock]$Command)',
+        '    if ($WhatIf) {',
+        '        Write-Planned -Message $Name -Verb "upgrade"',
+        '        $script:Upgraded += $Name',
+        '        return',
+        '    }',
+        '    Show-Progress -Current $script:Current -Total $script:Total -Name $Name',
+        '    $startTime = Get-Date',
+        '    try {',
+        '        $global:LASTEXITCODE = 0',
+        '        $output = & $Command 2>&1',
+        '        if ($LASTEXITCODE -ne 0) { throw "exit code $LASTEXITCODE`n$($output | Out-String)" }',
+        '        $elapsed = [math]::Floor(((Get-Date) - $startTime).TotalSeconds)',
+        '        Write-Upgraded -Message $Name -Seconds $elapsed',
+        '        $script:Upgraded += $Name',
+        '    } catch {',
+        '        Add-Failure -Name $Name -Message "$Name (upgrade failed)" -ErrorRecord $_',
+        '    }',
+        '}',
+        '',
+        resumeStatePowerShellFns,
+      ]
+      : []),
+    '# Print summary',
+    'function Print-Summary {',
+    '    $endTime = Get-Date',
+    '    $duration = ($endTime - $script:StartTime).TotalSeconds',
+    '    $mins = [math]::Floor($duration / 60)',
+    '    $secs = [math]::Floor($duration % 60)',
+    '    Write-Host ""',
+    '    Write-Host "Summary:"',
+    `    $${done} = $script:Succeeded.Count`,
+    '    $skippedCount = $script:Skipped.Count',
+    '    $failedCount = $script:Failed.Count',
+    '    $upgradedStr = ""',
+    '    if ($script:Upgraded.Count -gt 0) { $upgradedStr = ", $($script:Upgraded.Count) upgraded" }',
+    '    if ($WhatIf) {',
+    '        if ($script:Upgraded.Count -gt 0) { $upgradedStr = ", $($script:Upgraded.Count) to upgrade" }',
+    `        Write-Info "Dry run: $($script:Planned.Count) to ${planned}$upgradedStr, $skippedCount ${skippedLabel} (no changes made)"`,
+    '    } elseif ($failedCount -eq 0) {',
+    `        Write-Success "Done! $${done} ${done}$upgradedStr, $skippedCount ${skippedLabel} ($mins m $secs s)"`,
+    '    } else {',
+    `        Write-Warn "$${done} ${done}$upgradedStr, $skippedCount skipped, $failedCount failed ($mins m $secs s)"`,
+    '        Write-Host "Failed:" -ForegroundColor Red',
+    '        foreach ($pkg in $script:Failed) { Write-Host "  - $pkg" }',
+    '    }',
+    '}',
+    '',
+    `# Exit with ${SCRIPT_EXIT_CODES.SOME_FAILED} when some packages failed and ${SCRIPT_EXIT_CODES.ALL_FAILED} when all of them did, writing the report first`,
+    'function Exit-WithReport {',
+    '    $exitCode = 0',
+    '    if ($script:Failed.Count -gt 0) {',
+    `        $exitCode = if (($script:Succeeded.Count + $script:Upgraded.Count + $script:Skipped.Count) -eq 0) { ${SCRIPT_EXIT_CODES.ALL_FAILED} } else { ${SCRIPT_EXIT_CODES.SOME_FAILED} }`,
+    '    }',
+    '    if ($JsonReport) {',
+    `        $statuses = [ordered]@{ ${done} = $script:Succeeded; upgraded = $script:Upgraded; skipped = $script:Skipped; planned = $script:Planned; failed = $script:Failed }`,
+    '        $summary = [ordered]@{}',
+    '        $packages = @()',
+    '        foreach ($status in $statuses.Keys) {',
+    '            $summary[$status] = @($statuses[$status]).Count',
+    '            foreach ($name in $statuses[$status]) {',
+    '                $output = @()',
+    '                if ($status -eq "failed" -and $script:Errors.ContainsKey($name)) { $output = $script:Errors[$name] }',
+    '                $packages += [ordered]@{ name = $name; status = $status; durationSeconds = $script:Durations[$name]; output = $output }',
+    '            }',
+    '        }',
+    '        $report = [ordered]@{',
+    `            action = "${action}"`,
+    '            dryRun = [bool]$WhatIf',
+    '            exitCode = $exitCode',
+    '            durationSeconds = [math]::Floor(((Get-Date) - $script:StartTime).TotalSeconds)',
+    '            summary = $summary',
+    '            packages = $packages',
+    '        }',
+    '        try {',
+    '            ConvertTo-Json -InputObject $report -Depth 4 | Set-Content -Path $JsonReport -Encoding UTF8',
+    '        } catch {',
+    '            Write-Err "Could not write the JSON report to $JsonReport"',
+    '        }',
+    '    }',
+    '    exit $exitCode',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate the body of a PowerShell install script from its parts
+ * Functions come first, then the pre-flight checks, the install calls and the summary.
+ * Post-install steps follow the install calls. The state for -Resume is saved
+ * even when they are interrupted.
+ *
+ * @param parts - Package manager specific parts of the script
+ * @param packages - Packages to install
+ * @returns PowerShell script body (without header and utilities)
+ */
+export function generatePowerShellInstallBody(parts: InstallScriptParts, packages: PackageInfo[]): string {
+  return [
+    parts.functions(packages),
+    '',
+    `Import-InstallState -Key "${getStateKey(packages)}"`,
+    parts.preflight(packages),
+    'Write-Host ""',
+    'Write-Info "Installing $script:Total packages"',
+    'Write-Host ""',
+    '',
+    'try {',
+    [parts.calls(packages), generatePowerShellPostInstallSteps(packages)]
+      .filter(Boolean)
+      .join('\n')
+      .split('\n')
+      .map(line => (line ? `    ${line}` : line))
+      .join('\n'),
+    '    $script:Finished = $true',
+    '} finally {',
+    '    Print-Summary',
+    '    Save-InstallState',
+    '}',
+    ...(parts.epilogue ? [parts.epilogue] : []),
+    'Exit-WithReport',
+  ].join('\n');
+}
+
+/**
+ * Generate the body of a PowerShell uninstall script from its parts
+ * A removal that exits with an error fails the package.
+ *
+ * @param parts - Package manager specific parts of the script
+ * @param packages - Packages to remove
+ * @returns PowerShell script body (without header and utilities)
+ */
+export function generatePowerShellUninstallBody(parts: UninstallScriptParts, packages: PackageInfo[]): string {
+  const calls = parts.calls
+    ? parts.calls(packages)
+    : packages.map(({ app, pkg }) => `Uninstall-App -Name "${escapeShellString(app.name)}" -Package "${pkg}"`).join('\n');
+
+  return [
+    parts.functions,
+    'function Uninstall-App {',
+    '    param([string]$Name, [string]$Package)',
+    '    $script:Current++',
+    `    if (-not (${parts.installedCheck})) {`,
+    '        Write-Skip $Name',
+    '        $script:Skipped += $Name',
+    '        return',
+    '    }',
+    '    if ($WhatIf) {',
+    '        Add-Planned -Name $Name',
+    '        return',
+    '    }',
+    '    Show-Progress -Current $script:Current -Total $script:Total -Name $Name',
+    '    $startTime = Get-Date',
+    '    try {',
+    '        $global:LASTEXITCODE = 0',
+    `        $output = ${parts.remove} 2>&1`,
+    '        if ($LASTEXITCODE -ne 0) { throw "exit code $LASTEXITCODE`n$($output | Out-String)" }',
+    '        $elapsed = [math]::Floor(((Get-Date) - $startTime).TotalSeconds)',
+    '        Write-Timing -Message $Name -Seconds $elapsed',
+    '        $script:Succeeded += $Name',
+    '    } catch {',
+    '        Add-Failure -Name $Name -ErrorRecord $_',
+    '    }',
+    '}',
+    '',
+    parts.preflight,
+    'Write-Host ""',
+    'Write-Info "Removing $script:Total packages"',
+    'Write-Host ""',
+    '',
+    calls,
+    '',
+    'Print-Summary',
+    'Exit-WithReport',
+  ].join('\n');
+}
@@ -0,0 +1,220 @@
+// Vendor repository setup for generated scripts
+// Adds the repositories, COPR projects and taps the selected apps need
+// (see AppData.repositories) before anything is installed. Each step is
+// skipped when its repository is already configured.
+
+import type { AptRepository, DnfRepository, ZypperRepository } from '../data';
+import { escapeShellString, type PackageInfo } from './shared';
+
+/**
+ * Repositories of one package manager needed by the packages, without duplicates
+ */
+function collectRepositories<T>(
+  packages: PackageInfo[],
+  getRepository: (pkg: PackageInfo) => T | undefined,
+  key: (repository: T) => string
+): T[] {
+  const repositories = new Map<string, T>();
+  for (const pkg of packages) {
+    const repository = getRepository(pkg);
+    if (repository && !repositories.has(key(repository))) {
+      repositories.set(key(repository), repository);
+    }
+  }
+  return [...repositories.values()];
+}
+
+/**
+ * Quote a value for a double-quoted shell argument
+ */
+function quote(value: string): string {
+  return `"${escapeShellString(value)}"`;
+}
+
+/**
+ * Generate the pre-flight step adding the vendor APT repositories of the packages
+ * Keys go to /etc/apt/keyrings and each source is limited to its key with
+ * signed-by. Armored keys are kept as .asc files, which apt reads directly.
+ * Must run before the package lists are updated.
+ *
+ * @param packages - Packages to install with APT
+ * @returns Shell code, or an empty string if no package needs a vendor repository
+ */
+export function generateAptRepositorySetup(packages: PackageInfo[]): string {
+  const repositories = collectRepositories<AptRepository>(packages, ({ app }) => app.repositories?.apt, r => r.name);
+  if (repositories.length === 0) return '';
+
+  return `# Vendor repositories
+add_apt_repo() {
+    local name=$1 key_url=$2 repo=$3
+    local list="/etc/apt/sources.list.d/$name.list"
+    [ -f "$list" ] && return 0
+
+    if [ "$DRY_RUN" = true ]; then
+        info "Would add the $name repository (dry run)"
+        return 0
+    fi
+
+    local key keyring
+    key=$(mktemp)
+    if ! with_retry curl -fsSL -o "$key" "$key_url" >/dev/null; then
+        # Only this vendor's apps fail to install, the rest go on
+        warn "Could not download the $name signing key"
+        rm -f "$key"
+        return 0
+    fi
+    if grep -q "BEGIN PGP PUBLIC KEY BLOCK" "$key"; then
+        keyring="/etc/apt/keyrings/$name.asc"
+    else
+        keyring="/etc/apt/keyrings/$name.gpg"
+    fi
+    sudo install -d -m 0755 /etc/apt/keyrings
+    sudo install -m 0644 "$key" "$keyring"
+    rm -f "$key"
+
+    echo "deb [arch=$(dpkg --print-architecture) signed-by=$keyring] $repo" | sudo tee "$list" >/dev/null
+    success "Added the $name repository"
+}
+
+${repositories.map(r => `add_apt_repo ${quote(r.name)} ${quote(r.keyUrl)} ${quote(r.repo)}`).join('\n')}`;
+}
+
+/**
+ * Generate the pre-flight step adding the vendor DNF repositories of the packages
+ * .repo files check packages against the vendor key, COPR projects are enabled
+ * with the copr plugin, and RPM Fusion is enabled through its release packages
+ * (nonfree needs free as well).
+ *
+ * @param packages - Packages to install with DNF
+ * @returns Shell code, or an empty string if no package needs a vendor repository
+ */
+export function generateDnfRepositorySetup(packages: PackageInfo[]): string {
+  const repositories = collectRepositories<DnfRepository>(packages, ({ app }) => app.repositories?.dnf, r =>
+    r.type === 'repo' ? `repo:${r.name}` : r.type === 'copr' ? `copr:${r.project}` : `rpmfusion:${r.section}`
+  );
+  if (repositories.length === 0) return '';
+
+  const rpmFusionSections = repositories.some(r => r.type === 'rpmfusion' && r.section === 'nonfree')
+    ? ['free', 'nonfree']
+    : repositories.some(r => r.type === 'rpmfusion') ? ['free'] : [];
+
+  const calls = [
+    ...rpmFusionSections.map(section => `enable_rpmfusion ${section}`),
+    ...repositories.flatMap(r => {
+      if (r.type === 'repo') return [`add_dnf_repo ${quote(r.name)} ${quote(r.keyUrl)} ${quote(r.baseUrl)}`];
+      if (r.type === 'copr') return [`enable_copr ${quote(r.project)}`];
+      return [];
+    }),
+  ];
+
+  return `# Vendor repositories
+add_dnf_repo() {
+    local name=$1 key_url=$2 base_url=$3
+    local file="/etc/yum.repos.d/$name.repo"
+    [ -f "$file" ] && return 0
+
+    if [ "$DRY_RUN" = true ]; then
+        info "Would add the $name repository (dry run)"
+        return 0
+    fi
+
+    printf '[%s]\\nname=%s\\nbaseurl=%s\\nenabled=1\\ngpgcheck=1\\ngpgkey=%s\\n' "$name" "$name" "$base_url" "$key_url" \\
+        | sudo tee "$file" >/dev/null
+    success "Added the $name repository"
+}
+
+enable_copr() {
+    local project=$1
+    compgen -G "/etc/yum.repos.d/_copr*:\${project//\\//:}.repo" >/dev/null && return 0
+
+    if [ "$DRY_RUN" = true ]; then
+        info "Would enable COPR $project (dry run)"
+        return 0
+    fi
+
+    if with_retry sudo dnf install -y 'dnf-command(copr)' >/dev/null \\
+        && with_retry sudo dnf copr enable -y "$project" >/dev/null; then
+        success "Enabled COPR $project"
+    else
+        warn "Could not enable COPR $project"
+    fi
+}
+
+enable_rpmfusion() {
+    local section=$1
+    rpm -q "rpmfusion-$section-release" &>/dev/null && return 0
+
+    if [ "$DRY_RUN" = true ]; then
+        info "Would enable RPM Fusion $section (dry run)"
+        return 0
+    fi
+
+    if with_retry sudo dnf install -y \\
+        "https://mirrors.rpmfusion.org/$section/fedora/rpmfusion-$section-release-$(rpm -E %fedora).noarch.rpm" >/dev/null; then
+        success "Enabled RPM Fusion $section"
+    else
+        warn "Could not enable RPM Fusion $section"
+    fi
+}
+
+${calls.join('\n')}`;
+}
+
+/**
+ * Generate the pre-flight step adding the vendor Zypper repositories of the packages
+ * The vendor key is imported into the RPM database first, so the repository
+ * is added with GPG checks on. Must run before the repositories are refreshed.
+ *
+ * @param packages - Packages to install with Zypper
+ * @returns Shell code, or an empty string if no package needs a vendor repository
+ */
+export function generateZypperRepositorySetup(packages: PackageInfo[]): string {
+  const repositories = collectRepositories<ZypperRepository>(packages, ({ app }) => app.repositories?.zypper, r => r.name);
+  if (repositories.length === 0) return '';
+
+  return `# Vendor repositories
+add_zypper_repo() {
+    local name=$1 key_url=$2 base_url=$3
+    zypper repos "$name" &>/dev/null && return 0
+
+    if [ "$DRY_RUN" = true ]; then
+        info "Would add the $name repository (dry run)"
+        return 0
+    fi
+
+    if with_retry sudo rpm --import "$key_url" >/dev/null \\
+        && sudo zypper --non-interactive addrepo --refresh --gpgcheck "$base_url" "$name" >/dev/null; then
+        success "Added the $name repository"
+    else
+        warn "Could not add the $name repository"
+    fi
+}
+
+${repositories.map(r => `add_zypper_repo ${quote(r.name)} ${quote(r.keyUrl)} ${quote(r.baseUrl)}`).join('\n')}`;
+}
+
+/**
+ * Generate the pre-flight step tapping the Homebrew taps of the packages
+ *
+ * @param packages - Packages to install with Homebrew
+ * @returns Shell code, or an empty string if no package needs a tap
+ */
+export function generateHomebrewTapSetup(packages: PackageInfo[]): string {
+  const taps = collectRepositories(packages, ({ app }) => app.repositories?.homebrew?.tap, tap => tap);
+  if (taps.length === 0) return '';
+
+  return `# Taps
+add_tap() {
+    local tap=$1
+    brew tap 2>/dev/null | grep -Fxq "$tap" && return 0
+
+    if [ "$DRY_RUN" = true ]; then
+        info "Would tap $tap (dry run)"
+        return 0
+    fi
+
+    with_retry brew tap "$tap" >/dev/null && success "Tapped $tap" || warn "Could not tap $tap"
+}
+
+${taps.map(tap => `add_tap ${quote(tap)}`).join('\n')}`;
+}
@@ -0,0 +1,168 @@
+// Resumable installs for generated scripts
+// Install scripts keep a state file per selection with the packages that are done
+// and the ones that failed, so a rerun with --resume (-Resume on Windows) skips the
+// packages that are done and retries the rest.
+
+import type { PackageInfo } from './shared';
+
+/**
+ * Key of the state file of a selection: a hash of its packages, so the same
+ * selection shares its state across downloads of the script
+ * (FNV-1a, as scripts are also generated in the browser)
+ *
+ * @param packages - Packages the script installs
+ * @returns Hash as 8 hex digits
+ */
+export function getStateKey(packages: PackageInfo[]): string {
+  const selection = packages
+    .map(({ app, pkg, version, scope }) => [app.id, pkg, version ?? '', scope === 'user' ? scope : ''].join(':'))
+    .sort()
+    .join('\n');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < selection.length; i++) {
+    hash ^= selection.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Shell functions that load, check and save the state of a run
+ * The state file has one "done<TAB>name" or "failed<TAB>name" line per package.
+ */
+export const resumeStateFns = `# State file of this selection, under $XDG_STATE_HOME/packmate (set by load_state)
+STATE_FILE=""
+STATE_DONE=()
+STATE_FAILED=()
+
+# Check if a name is in a list
+in_list() {
+    local name=$1 item
+    shift
+    for item in "$@"; do
+        [ "$item" = "$name" ] && return 0
+    done
+    return 1
+}
+
+# Load the state of the last run of the selection with this key (used when --resume is passed)
+# The failures of that run are listed up front, as they are retried
+load_state() {
+    STATE_FILE=\${XDG_STATE_HOME:-$HOME/.local/state}/packmate/$1.state
+    [ "$RESUME" = true ] || return 0
+    if [ ! -f "$STATE_FILE" ]; then
+        warn "No previous run to resume, installing everything"
+        return 0
+    fi
+
+    local status name
+    while IFS=$'\\t' read -r status name; do
+        case "$status" in
+            done) STATE_DONE+=("$name") ;;
+            failed) STATE_FAILED+=("$name") ;;
+        esac
+    done < "$STATE_FILE"
+
+    info "Resuming the previous run: \${#STATE_DONE[@]} done, \${#STATE_FAILED[@]} failed"
+    if [ \${#STATE_FAILED[@]} -gt 0 ]; then
+        echo -e "\${RED}Failed last time:\${NC}"
+        for name in "\${STATE_FAILED[@]}"; do
+            echo "  • $name"
+        done
+    fi
+}
+
+# Skip a package the resumed run is done with
+resumed() {
+    [ \${#STATE_DONE[@]} -gt 0 ] && in_list "$1" "\${STATE_DONE[@]}" || return 1
+    CURRENT=$((CURRENT + 1))
+    echo -e "\${DIM}○\${NC} $1 \${DIM}(done in the previous run)\${NC}"
+    SKIPPED+=("$1")
+}
+
+# Save the packages that are done and the ones that failed, for --resume
+# A run that finishes without failures leaves nothing to resume
+save_state() {
+    local exit_code=$1 name
+    [ -n "$STATE_FILE" ] && [ "$DRY_RUN" != true ] || return 0
+    if [ $exit_code -eq 0 ]; then
+        rm -f "$STATE_FILE"
+        return 0
+    fi
+
+    local done_names=(\${SUCCEEDED[@]+"\${SUCCEEDED[@]}"} \${UPGRADED[@]+"\${UPGRADED[@]}"} \${SKIPPED[@]+"\${SKIPPED[@]}"} \${STATE_DONE[@]+"\${STATE_DONE[@]}"})
+    mkdir -p "$(dirname "$STATE_FILE")"
+    {
+        for name in \${done_names[@]+"\${done_names[@]}"}; do printf 'done\\t%s\\n' "$name"; done
+        for name in \${FAILED[@]+"\${FAILED[@]}"}; do printf 'failed\\t%s\\n' "$name"; done
+        # Earlier failures this run didn't get to
+        for name in \${STATE_FAILED[@]+"\${STATE_FAILED[@]}"}; do
+            in_list "$name" \${done_names[@]+"\${done_names[@]}"} || printf 'failed\\t%s\\n' "$name"
+        done
+    } | awk '!seen[$0]++' > "$STATE_FILE"
+    info "Run the script again with --resume to skip the packages that are done"
+}`;
+
+/**
+ * PowerShell functions that load, check and save the state of a run
+ * The state file is JSON with the names of the packages that are done and failed.
+ */
+export const resumeStatePowerShellFns = [
+  '# State file of this selection, under %LOCALAPPDATA%\\packmate (set by Import-InstallState)',
+  '$script:StateFile = $null',
+  '$script:StateDone = @()',
+  '$script:StateFailed = @()',
+  '$script:Finished = $false',
+  '',
+  '# Load the state of the last run of the selection with this key (used with -Resume)',
+  '# The failures of that run are listed up front, as they are retried',
+  'function Import-InstallState {',
+  '    param([string]$Key)',
+  '    $script:StateFile = Join-Path $env:LOCALAPPDATA "packmate\\$Key.json"',
+  '    if (-not $Resume) { return }',
+  '    if (-not (Test-Path $script:StateFile)) {',
+  '        Write-Warn "No previous run to resume, installing everything"',
+  '        return',
+  '    }',
+  '    $state = Get-Content -Path $script:StateFile -Raw | ConvertFrom-Json',
+  '    $script:StateDone = @($state.done)',
+  '    $script:StateFailed = @($state.failed)',
+  '    Write-Info "Resuming the previous run: $($script:StateDone.Count) done, $($script:StateFailed.Count) failed"',
+  '    if ($script:StateFailed.Count -gt 0) {',
+  '        Write-Host "Failed last time:" -ForegroundColor Red',
+  '        foreach ($pkg in $script:StateFailed) { Write-Host "  - $pkg" }',
+  '    }',
+  '}',
+  '',
+  '# Skip a package the resumed run is done with',
+  'function Skip-Resumed {',
+  '    param([string]$Name)',
+  '    if ($script:StateDone -notcontains $Name) { return $false }',
+  '    $script:Current++',
+  '    Write-Host "[o] $Name (done in the previous run)" -ForegroundColor DarkGray',
+  '    $script:Skipped += $Name',
+  '    return $true',
+  '}',
+  '',
+  '# Save the packages that are done and the ones that failed, for -Resume',
+  '# A run that finishes without failures leaves nothing to resume',
+  'function Save-InstallState {',
+  '    if (-not $script:StateFile -or $WhatIf) { return }',
+  '    if ($script:Finished -and $script:Failed.Count -eq 0) {',
+  '        Remove-Item -Path $script:StateFile -ErrorAction SilentlyContinue',
+  '        return',
+  '    }',
+  '    $done = @($script:Succeeded + $script:Upgraded + $script:Skipped + $script:StateDone | Select-Object -Unique)',
+  '    # Earlier failures this run didn\'t get to',
+  '    $failed = @($script:Failed + @($script:StateFailed | Where-Object { $done -notcontains $_ }) | Select-Object -Unique)',
+  '    try {',
+  '        New-Item -ItemType Directory -Path (Split-Path $script:StateFile) -Force | Out-Null',
+  '        ConvertTo-Json -InputObject ([ordered]@{ done = $done; failed = $failed }) | Set-Content -Path $script:StateFile -Encoding UTF8',
+  '        Write-Info "Run the script again with -Resume to skip the packages that are done"',
+  '    } catch {',
+  '        Write-Err "Could not save the state to $script:StateFile"',
+  '    }',
+  '}',
+  '',
+].join('\n');
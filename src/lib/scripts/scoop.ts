@@ -1,152 +1,235 @@
 // Scoop script generator for Windows
 // Requirements: 5.1, 5.4, 5.8
 
-import { escapeShellString, getSelectedPackages } from './shared';
+import { escapeShellString, getSelectedPackages, type InstallScriptParts, type UninstallScriptParts } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { isSystemScope } from './scope';
+import { getPinnedPackage } from './versions';
+import {
+  generatePowerShellHeader,
+  generatePowerShellUtils,
+  generatePowerShellInstallBody,
+  generatePowerShellUninstallBody,
+} from './powershell';
+import { DEFAULT_JOBS, isQueued } from './concurrency';
 
 /**
- * Generate Scoop installation script
- * Requirements: 5.1, 5.4, 5.8
+ * PowerShell function that checks whether a package is already installed
  */
-export function generateScoopScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'scoop');
-  
-  if (packages.length === 0) {
-    return `# No packages selected for Scoop
-Write-Host "No packages selected" -ForegroundColor Yellow
-exit 0
-`;
-  }
-
-  const date = new Date().toISOString().split('T')[0];
-  const pkgCount = packages.length;
-  const installCalls = packages
-    .map(({ app, pkg }) => `Install-ScoopPackage -Name "${escapeShellString(app.name)}" -PackageName "${pkg}"`)
-    .join('\n');
+const isInstalledFn = [
+  '# Check if package is already installed',
+  '# A pinned package (app@version) only counts at that version',
+  'function Test-ScoopInstalled {',
+  '    param([string]$PackageName)',
+  '    $app, $version = $PackageName -split "@", 2',
+  '    try {',
+  '        $result = scoop list 2>$null | Select-String -Pattern "^\\s*$app\\s+$(if ($version) { [regex]::Escape($version) })"',
+  '        return $null -ne $result',
+  '    } catch { return $false }',
+  '}',
+  '',
+].join('\n');
 
-  // Build script using string concatenation to avoid template literal issues with PowerShell syntax
-  const header = [
-    '#Requires -Version 5.1',
-    '<#',
-    '.SYNOPSIS',
-    '    Packmate - Cross-Platform App Installer',
-    '.DESCRIPTION',
-    '    PACKMATE - Cross-Platform App Installer',
-    '    https://github.com/prime399/packmate',
-    '',
-    '    Package Manager: Scoop',
-    `    Packages: ${pkgCount}`,
-    `    Generated: ${date}`,
-    '#>',
-    '',
-    '$ErrorActionPreference = "Stop"',
-    '$ProgressPreference = "SilentlyContinue"',
-    '',
-  ].join('\n');
+/**
+ * PowerShell pre-flight check that the package manager is available
+ */
+const managerCheck = [
+  '# Check if package manager is installed',
+  'if (-not (Get-Command scoop -ErrorAction SilentlyContinue)) {',
+  '    Write-Err "Scoop not found."',
+  '    Write-Info "Install from: https://scoop.sh"',
+  '    exit 1',
+  '}',
+  '',
+].join('\n');
 
-  const utils = [
-    '# Colors & Utilities',
-    'function Write-Info { param([string]$Message) Write-Host ":: " -ForegroundColor Blue -NoNewline; Write-Host $Message }',
-    'function Write-Success { param([string]$Message) Write-Host "[OK] " -ForegroundColor Green -NoNewline; Write-Host $Message }',
-    'function Write-Warn { param([string]$Message) Write-Host "[!] " -ForegroundColor Yellow -NoNewline; Write-Host $Message }',
-    'function Write-Err { param([string]$Message) Write-Host "[X] " -ForegroundColor Red -NoNewline; Write-Host $Message }',
-    'function Write-Skip { param([string]$Message) Write-Host "[o] $Message (already installed)" -ForegroundColor DarkGray }',
-    'function Write-Timing { param([string]$Message, [int]$Seconds) Write-Host "[OK] " -ForegroundColor Green -NoNewline; Write-Host "$Message ($Seconds s)" }',
-    '',
-    `$script:Total = ${pkgCount}`,
-    '$script:Current = 0',
-    '$script:Failed = @()',
-    '$script:Succeeded = @()',
-    '$script:Skipped = @()',
-    '$script:StartTime = Get-Date',
-    '',
-    '# Progress display',
-    'function Show-Progress {',
-    '    param([int]$Current, [int]$Total, [string]$Name)',
-    '    $percent = [math]::Floor($Current * 100 / $Total)',
-    '    Write-Host "[$percent%] ($Current/$Total) Installing $Name..."',
-    '}',
-    '',
-    '# Print summary',
-    'function Print-Summary {',
-    '    $endTime = Get-Date',
-    '    $duration = ($endTime - $script:StartTime).TotalSeconds',
-    '    $mins = [math]::Floor($duration / 60)',
-    '    $secs = [math]::Floor($duration % 60)',
-    '    Write-Host ""',
-    '    Write-Host "Summary:"',
-    '    $installed = $script:Succeeded.Count',
-    '    $skippedCount = $script:Skipped.Count',
-    '    $failedCount = $script:Failed.Count',
-    '    if ($failedCount -eq 0) {',
-    '        Write-Success "Done! $installed installed, $skippedCount already installed ($mins m $secs s)"',
-    '    } else {',
-    '        Write-Warn "$installed installed, $skippedCount skipped, $failedCount failed ($mins m $secs s)"',
-    '        Write-Host "Failed:" -ForegroundColor Red',
-    '        foreach ($pkg in $script:Failed) { Write-Host "  - $pkg" }',
-    '    }',
-    '}',
-    '',
-  ].join('\n');
+/**
+ * PowerShell function that installs packages in background jobs, a few at a time
+ */
+const parallelInstallFn = [
+  '',
+  '# Number of packages installed at the same time (PACKMATE_JOBS)',
+  `$script:Jobs = ${DEFAULT_JOBS}`,
+  'if ($env:PACKMATE_JOBS -match "^[1-9][0-9]*$") { $script:Jobs = [int]$env:PACKMATE_JOBS }',
+  '',
+  '# Install packages in background jobs, at most $script:Jobs at a time',
+  '# Installed packages (and all of them with -WhatIf) go through Install-ScoopPackage,',
+  '# and packages a resumed run is done with are skipped',
+  'function Install-ScoopParallel {',
+  '    param([hashtable[]]$Packages)',
+  '    $queue = @()',
+  '    foreach ($pkg in $Packages) {',
+  '        if (Skip-Resumed -Name $pkg.Name) { continue }',
+  '        if ($WhatIf -or (Test-ScoopInstalled -PackageName $pkg.PackageName)) {',
+  '            Install-ScoopPackage -Name $pkg.Name -PackageName $pkg.PackageName -Global:([bool]$pkg.Global)',
+  '        } else {',
+  '            $queue += $pkg',
+  '        }',
+  '    }',
+  '    if ($queue.Count -eq 0) { return }',
+  '    Write-Info "Installing $($queue.Count) packages, up to $script:Jobs at a time..."',
+  '    $running = @()',
+  '    $next = 0',
+  '    while ($next -lt $queue.Count -or $running.Count -gt 0) {',
+  '        while ($next -lt $queue.Count -and $running.Count -lt $script:Jobs) {',
+  '            $job = Start-Job -ArgumentList $queue[$next].PackageName, [bool]$queue[$next].Global -ScriptBlock {',
+  '                param([string]$PackageName, [bool]$Global)',
+  '                $ErrorActionPreference = "Stop"',
+  '                $globalArgs = if ($Global) { @("--global") } else { @() }',
+  '                $global:LASTEXITCODE = 0',
+  '                $output = scoop install $PackageName @globalArgs 2>&1',
+  '                if ($LASTEXITCODE -ne 0) { throw "exit code $LASTEXITCODE`n$($output | Out-String)" }',
+  '            }',
+  '            $running += [pscustomobject]@{ Job = $job; Name = $queue[$next].Name; StartTime = Get-Date }',
+  '            $next++',
+  '        }',
+  '        Show-Progress -Current ($script:Current + 1) -Total $script:Total -Name (($running | ForEach-Object { $_.Name }) -join ", ")',
+  '        $finished = Wait-Job -Job @($running | ForEach-Object { $_.Job }) -Any',
+  '        $entry = $running | Where-Object { $_.Job.Id -eq $finished.Id } | Select-Object -First 1',
+  '        $running = @($running | Where-Object { $_.Job.Id -ne $finished.Id })',
+  '        $script:Current++',
+  '        $elapsed = [math]::Floor(((Get-Date) - $entry.StartTime).TotalSeconds)',
+  '        try {',
+  '            Receive-Job -Job $finished -ErrorAction Stop | Out-Null',
+  '            Write-Timing -Message $entry.Name -Seconds $elapsed',
+  '            $script:Succeeded += $entry.Name',
+  '        } catch {',
+  '            Add-Failure -Name $entry.Name -ErrorRecord $_',
+  '        } finally {',
+  '            Remove-Job -Job $finished -Force',
+  '        }',
+  '    }',
+  '}',
+].join('\n');
 
-  const mainScript = [
-    '# Check if package is already installed',
-    'function Test-ScoopInstalled {',
-    '    param([string]$PackageName)',
-    '    try {',
-    '        $result = scoop list 2>$null | Select-String -Pattern "^\\s*$PackageName\\s"',
-    '        return $null -ne $result',
-    '    } catch { return $false }',
-    '}',
-    '',
+/**
+ * Parts of the Scoop install script, shared with the fallback chain generator
+ * Three or more packages are installed in parallel (see Install-ScoopParallel).
+ */
+export const scoopInstallParts: InstallScriptParts = {
+  functions: (packages) => [
+    isInstalledFn,
     'function Install-ScoopPackage {',
-    '    param([string]$Name, [string]$PackageName)',
+    '    param([string]$Name, [string]$PackageName, [switch]$Global)',
+    '    if (Skip-Resumed -Name $Name) { return }',
     '    $script:Current++',
+    '    $globalArgs = if ($Global) { @("--global") } else { @() }',
     '    if (Test-ScoopInstalled -PackageName $PackageName) {',
-    '        Write-Skip $Name',
-    '        $script:Skipped += $Name',
+    '        if ($Upgrade) {',
+    '            Invoke-Upgrade -Name $Name -Command { scoop update $PackageName @globalArgs }.GetNewClosure()',
+    '        } else {',
+    '            Write-Skip $Name',
+    '            $script:Skipped += $Name',
+    '        }',
+    '        return',
+    '    }',
+    '    if ($WhatIf) {',
+    '        Add-Planned -Name $Name',
     '        return',
     '    }',
     '    Show-Progress -Current $script:Current -Total $script:Total -Name $Name',
     '    $startTime = Get-Date',
     '    try {',
-    '        scoop install $PackageName 2>&1 | Out-Null',
+    '        $global:LASTEXITCODE = 0',
+    '        $output = scoop install $PackageName @globalArgs 2>&1',
+    '        if ($LASTEXITCODE -ne 0) { throw "exit code $LASTEXITCODE`n$($output | Out-String)" }',
     '        $elapsed = [math]::Floor(((Get-Date) - $startTime).TotalSeconds)',
     '        Write-Timing -Message $Name -Seconds $elapsed',
     '        $script:Succeeded += $Name',
     '    } catch {',
-    '        Write-Err $Name',
-    '        $script:Failed += $Name',
+    '        Add-Failure -Name $Name -ErrorRecord $_',
     '    }',
     '}',
-    '',
-    '# Check if package manager is installed',
-    'if (-not (Get-Command scoop -ErrorAction SilentlyContinue)) {',
-    '    Write-Err "Scoop not found."',
-    '    Write-Info "Install from: https://scoop.sh"',
-    '    exit 1',
-    '}',
-    '',
+    ...(isQueued('parallel', packages) ? [parallelInstallFn] : []),
+  ].join('\n'),
+  preflight: (packages) => [
+    managerCheck,
     'Write-Info "Scoop found"',
-    'Write-Host ""',
-    'Write-Info "Installing $script:Total packages"',
-    'Write-Host ""',
-    '',
-    installCalls,
-    '',
-    'Print-Summary',
-  ].join('\n');
+    ...(isSystemScope(packages) ? ['Write-Info "Installing for all users (--global), admin rights needed"'] : []),
+  ].join('\n'),
+  calls: (packages) => isQueued('parallel', packages)
+    ? [
+      'Install-ScoopParallel -Packages @(',
+      ...packages.map((p) => `    @{ Name = "${escapeShellString(p.app.name)}"; PackageName = "${getPinnedPackage('scoop', p)}"${p.scope === 'system' ? '; Global = $true' : ''} }`),
+      ')',
+    ].join('\n')
+    : packages
+      .map((p) => `Install-ScoopPackage -Name "${escapeShellString(p.app.name)}" -PackageName "${getPinnedPackage('scoop', p)}"${p.scope === 'system' ? ' -Global' : ''}`)
+      .join('\n'),
+};
+
+/**
+ * Generate Scoop installation script
+ * Scoop installs into the user's profile unless the system scope is asked for,
+ * which adds --global and needs admin rights.
+ * Requirements: 5.1, 5.4, 5.8
+ */
+export function generateScoopScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope?: InstallScope
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'scoop', versions, scope);
+  
+  if (packages.length === 0) {
+    return `# No packages selected for Scoop
+Write-Host "No packages selected" -ForegroundColor Yellow
+exit 0
+`;
+  }
+
+  const pkgCount = packages.length;
+  const header = generatePowerShellHeader('Scoop', pkgCount, { requiresAdmin: scope === 'system' });
+  const utils = generatePowerShellUtils(pkgCount);
+
+  const mainScript = generatePowerShellInstallBody(scoopInstallParts, packages);
 
   return header + utils + mainScript;
 }
 
 /**
- * Generate simple one-liner command for Scoop
+ * Parts of the Scoop uninstall script
+ */
+const scoopUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: [managerCheck, 'Write-Info "Scoop found"'].join('\n'),
+  installedCheck: 'Test-ScoopInstalled -PackageName $Package',
+  remove: 'scoop uninstall $Package',
+};
+
+/**
+ * Generate Scoop uninstall script
  */
-export function generateScoopCommand(selectedAppIds: Set<string>): string {
+export function generateScoopUninstallScript(selectedAppIds: Set<string>): string {
   const packages = getSelectedPackages(selectedAppIds, 'scoop');
+
+  if (packages.length === 0) {
+    return `# No packages selected for Scoop
+Write-Host "No packages selected" -ForegroundColor Yellow
+exit 0
+`;
+  }
+
+  const pkgCount = packages.length;
+  const header = generatePowerShellHeader('Scoop', pkgCount, { action: 'uninstall' });
+  const utils = generatePowerShellUtils(pkgCount, 'uninstall');
+
+  return header + utils + generatePowerShellUninstallBody(scoopUninstallParts, packages);
+}
+
+/**
+ * Generate simple one-liner command for Scoop
+ * Asking for the system scope adds -g.
+ */
+export function generateScoopCommand(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope?: InstallScope
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'scoop', versions, scope);
   if (packages.length === 0) {
     return '# No packages selected';
   }
-  const packageNames = packages.map(p => p.pkg).join(' ');
-  return `scoop install ${packageNames}`;
+  const packageNames = packages.map(p => getPinnedPackage('scoop', p)).join(' ');
+  return `scoop install ${scope === 'system' ? '-g ' : ''}${packageNames}`;
 }
@@ -0,0 +1,54 @@
+// Install scope for generated scripts and commands
+// Apps can be installed for the current user only, without admin rights or sudo.
+// Package managers that only install system-wide keep needing them, with a warning.
+
+import { getPackageManagerById, type PackageManagerId } from '../data';
+import { escapeShellString, type PackageInfo } from './shared';
+
+/**
+ * Check if a package manager can install apps for the current user only
+ */
+export function supportsUserScope(packageManagerId: PackageManagerId): boolean {
+  return !!getPackageManagerById(packageManagerId)?.userScope;
+}
+
+/**
+ * Check if packages are to be installed for the current user only
+ */
+export function isUserScope(packages: PackageInfo[]): boolean {
+  return packages.some(({ scope }) => scope === 'user');
+}
+
+/**
+ * Check if packages are to be installed system-wide because the user asked for it,
+ * rather than by default
+ */
+export function isSystemScope(packages: PackageInfo[]): boolean {
+  return packages.some(({ scope }) => scope === 'system');
+}
+
+/**
+ * Generate a bash warning for a user scope the package manager can't honour
+ *
+ * @param packageManagerId - Package manager that installs the packages
+ * @param packages - Packages to install
+ * @returns A `warn` line, or an empty string
+ */
+export function generateScopeWarning(packageManagerId: PackageManagerId, packages: PackageInfo[]): string {
+  if (supportsUserScope(packageManagerId) || !isUserScope(packages)) return '';
+  const pmName = getPackageManagerById(packageManagerId)?.name || packageManagerId;
+  return `warn "${escapeShellString(`${pmName} can't install for the current user only, installing system-wide with sudo`)}"`;
+}
+
+/**
+ * Generate a PowerShell warning for a user scope the package manager can't honour
+ *
+ * @param packageManagerId - Package manager that installs the packages
+ * @param packages - Packages to install
+ * @returns A `Write-Warn` line, or an empty string
+ */
+export function generatePowerShellScopeWarning(packageManagerId: PackageManagerId, packages: PackageInfo[]): string {
+  if (supportsUserScope(packageManagerId) || !isUserScope(packages)) return '';
+  const pmName = getPackageManagerById(packageManagerId)?.name || packageManagerId;
+  return `Write-Warn "${escapeShellString(`${pmName} can't install for the current user only, installing system-wide with admin rights`)}"`;
+}
@@ -1,11 +1,117 @@
 // Shared utilities for all package manager script generators
 // Requirements: 4.5, 5.2, 5.3, 5.5, 5.6, 5.7
 
-import { apps, type PackageManagerId, type AppData } from '../data';
+import {
+  apps,
+  getPackageTarget,
+  isValidPostInstallStep,
+  isValidVersion,
+  type PackageManagerId,
+  type AppData,
+  type AppVersions,
+  type InstallScope,
+  type PostInstallStep,
+} from '../data';
+import { getStateKey, resumeStateFns } from './resume';
+import { generatePostInstallSteps } from './postInstall';
 
 export interface PackageInfo {
   app: AppData;
   pkg: string;
+  /** Version (or channel/branch) the user pinned the app to */
+  version?: string;
+  /** Set when the user chose where to install (unset for the package manager's default) */
+  scope?: InstallScope;
+  /** Valid post-install steps of the app for the package manager */
+  postInstall?: PostInstallStep[];
+}
+
+/**
+ * Whether a generated script installs or removes the selected packages
+ */
+export type ScriptAction = 'install' | 'uninstall';
+
+/**
+ * Wording used in script output for each action
+ */
+const actionLabels: Record<ScriptAction, { done: string; skipped: string; cancelled: string; planned: string }> = {
+  install: { done: 'installed', skipped: 'already installed', cancelled: 'Installation', planned: 'install' },
+  uninstall: { done: 'removed', skipped: 'not installed', cancelled: 'Uninstall', planned: 'remove' },
+};
+
+/**
+ * Command-line flags accepted by the generated bash scripts
+ */
+interface ScriptFlag {
+  flag: string;
+  /** Shell variable set to true when the flag is passed, or to the flag's value */
+  variable: string;
+  description: string;
+  actions: ScriptAction[];
+  /** Placeholder for the value the flag takes; flags without one are switches */
+  value?: string;
+  /** Environment variable the value defaults to */
+  env?: string;
+}
+
+const scriptFlags: ScriptFlag[] = [
+  { flag: '--upgrade', variable: 'UPGRADE', description: 'Upgrade packages that are already installed', actions: ['install'] },
+  { flag: '--dry-run', variable: 'DRY_RUN', description: 'Show what would change without changing anything', actions: ['install', 'uninstall'] },
+  { flag: '--resume', variable: 'RESUME', description: 'Skip packages the last run is done with', actions: ['install'] },
+  {
+    flag: '--json-report',
+    variable: 'JSON_REPORT',
+    value: '<path>',
+    env: 'PACKMATE_JSON_REPORT',
+    description: 'Write a JSON report to <path> (or set PACKMATE_JSON_REPORT)',
+    actions: ['install', 'uninstall'],
+  },
+];
+
+/**
+ * Exit codes of the generated scripts (bash and PowerShell) when packages fail
+ */
+export const SCRIPT_EXIT_CODES = {
+  /** Some packages failed, others were installed, upgraded or skipped */
+  SOME_FAILED: 2,
+  /** Every package that was attempted failed */
+  ALL_FAILED: 3,
+} as const;
+
+/**
+ * Building blocks of a package manager's install script
+ * Each generator assembles its own script from these, and the fallback chain
+ * generator combines the parts of several managers into one script.
+ */
+export interface InstallScriptParts {
+  /** Installed check, install function and helpers */
+  functions: (packages: PackageInfo[]) => string;
+  /** Pre-flight checks and setup (manager present, repositories, index refresh) */
+  preflight: (packages: PackageInfo[]) => string;
+  /** One install call per package */
+  calls: (packages: PackageInfo[]) => string;
+  /** Optional output after the summary */
+  epilogue?: string;
+}
+
+/**
+ * Building blocks of a package manager's uninstall script
+ * The removal loop (installed check, progress, summary) is shared, each
+ * manager only brings its installed check and removal command.
+ */
+export interface UninstallScriptParts {
+  /** Installed check and helpers */
+  functions: string;
+  /** Pre-flight checks (manager present) */
+  preflight: string;
+  /** Command removing the package (`"$pkg"` in bash, `$Package` in PowerShell) */
+  remove: string;
+  /** Installed check of the package (bash defaults to `is_installed "$pkg"`, PowerShell needs one) */
+  installedCheck?: string;
+  /** One remove call per package (defaults to the app name and its target) */
+  calls?: (packages: PackageInfo[]) => string;
+  /** Optional steps after the removal, such as cleaning up dependencies */
+  cleanup?: string;
 }
 
 /**
@@ -27,19 +133,35 @@ export function escapeShellString(str: string): string {
 /**
  * Get packages available for the selected package manager from the selected app IDs
  * Filters apps to only include those with targets for the specified package manager
+ * (for Pacman, AUR targets of apps that aren't in the official repos too)
  * 
  * @param selectedAppIds - Set of selected app IDs
  * @param packageManagerId - The package manager to filter by
- * @returns Array of PackageInfo objects with app and package name
+ * @param versions - Pinned versions by app ID; invalid ones are ignored
+ * @param scope - Whether the packages are installed system-wide or for the current user,
+ *   unset for the package manager's default
+ * @returns Array of PackageInfo objects with app and package name (and post-install steps; invalid ones are left out)
  */
 export function getSelectedPackages(
   selectedAppIds: Set<string>,
-  packageManagerId: PackageManagerId
+  packageManagerId: PackageManagerId,
+  versions: AppVersions = {},
+  scope?: InstallScope
 ): PackageInfo[] {
   return Array.from(selectedAppIds)
     .map(id => apps.find(a => a.id === id))
-    .filter((app): app is AppData => !!app && !!app.targets[packageManagerId])
-    .map(app => ({ app, pkg: app.targets[packageManagerId]! }));
+    .filter((app): app is AppData => !!app && !!getPackageTarget(app, packageManagerId))
+    .map(app => {
+      const version = versions[app.id];
+      const postInstall = app.postInstall?.[packageManagerId]?.filter(isValidPostInstallStep) ?? [];
+      return {
+        app,
+        pkg: getPackageTarget(app, packageManagerId)!,
+        ...(version && isValidVersion(version) ? { version } : {}),
+        ...(scope ? { scope } : {}),
+        ...(postInstall.length > 0 ? { postInstall } : {}),
+      };
+    });
 }
 
 /**
@@ -48,10 +170,21 @@ export function getSelectedPackages(
  * 
  * @param packageManagerName - Name of the package manager
  * @param pkgCount - Number of packages to install
+ * @param action - Whether the script installs or removes packages
  * @returns Shell script header string
  */
-export function generateAsciiHeader(packageManagerName: string, pkgCount: number): string {
+export function generateAsciiHeader(
+  packageManagerName: string,
+  pkgCount: number,
+  action: ScriptAction = 'install'
+): string {
   const date = new Date().toISOString().split('T')[0];
+  const modeLine = action === 'uninstall' ? '\n#  Mode: Uninstall' : '';
+  const flags = scriptFlags.filter(f => f.actions.includes(action));
+  const optionLines = flags.length > 0
+    ? '\n#\n#  Options:' + flags.map(f => `\n#    ${[f.flag, f.value].filter(Boolean).join(' ').padEnd(22)}${f.description}`).join('')
+    : '';
+  const exitCodeLine = `\n#\n#  Exit codes: 0 done, ${SCRIPT_EXIT_CODES.SOME_FAILED} some packages failed, ${SCRIPT_EXIT_CODES.ALL_FAILED} all packages failed`;
   return `#!/bin/bash
 #
 #  ██████╗  █████╗  ██████╗██╗  ██╗███╗   ███╗ █████╗ ████████╗███████╗
@@ -65,8 +198,8 @@ export function generateAsciiHeader(packageManagerName: string, pkgCount: number
 #  https://github.com/prime399/packmate
 #
 #  Package Manager: ${packageManagerName}
-#  Packages: ${pkgCount}
-#  Generated: ${date}
+#  Packages: ${pkgCount}${modeLine}
+#  Generated: ${date}${optionLines}${exitCodeLine}
 #
 # ─────────────────────────────────────────────────────────────────────────────
 
@@ -84,9 +217,13 @@ set -euo pipefail
  * - 5.7: Print a summary at the end showing installed, skipped, and failed packages
  * 
  * @param total - Total number of packages to install
+ * @param action - Whether the script installs or removes packages
  * @returns Shell script utilities string
  */
-export function generateSharedUtils(total: number): string {
+export function generateSharedUtils(total: number, action: ScriptAction = 'install'): string {
+  const labels = actionLabels[action];
+  const flags = scriptFlags.filter(f => f.actions.includes(action));
+
   return `# ─────────────────────────────────────────────────────────────────────────────
 #  Colors & Utilities
 # ─────────────────────────────────────────────────────────────────────────────
@@ -103,31 +240,61 @@ info()    { echo -e "\${BLUE}::\${NC} $1"; }
 success() { echo -e "\${GREEN}✓\${NC} $1"; }
 warn()    { echo -e "\${YELLOW}!\${NC} $1"; }
 error()   { echo -e "\${RED}✗\${NC} $1" >&2; }
-skip()    { echo -e "\${DIM}○\${NC} $1 \${DIM}(already installed)\${NC}"; }
-timing()  { echo -e "\${GREEN}✓\${NC} $1 \${DIM}($2s)\${NC}"; }
+skip()    { echo -e "\${DIM}○\${NC} $1 \${DIM}(${labels.skipped})\${NC}"; }
+timing()  { echo -e "\${GREEN}✓\${NC} $1 \${DIM}($2s)\${NC}"; report_time "$1" "$2"; }
+upgraded() { echo -e "\${CYAN}↑\${NC} $1 \${DIM}(upgraded, $2s)\${NC}"; report_time "$1" "$2"; }
+planned() { echo -e "\${BLUE}→\${NC} $1 \${DIM}(would $2)\${NC}"; }
+
+# Command-line options
+${flags.map(f => f.value ? `${f.variable}=\${${f.env}:-}` : `${f.variable}=false`).join('\n')}
+while [ $# -gt 0 ]; do
+    case "$1" in
+${flags.map(f => f.value
+    ? `        ${f.flag})
+            [ $# -gt 1 ] || { error "${f.flag} needs a value"; exit 1; }
+            ${f.variable}=$2
+            shift ;;
+        ${f.flag}=*) ${f.variable}=\${1#*=} ;;`
+    : `        ${f.flag}) ${f.variable}=true ;;`).join('\n')}
+        *) warn "Unknown option: $1" ;;
+    esac
+    shift
+done
+
+if [ "$DRY_RUN" = true ]; then
+    info "Dry run: no changes will be made"
+fi
 
 # Graceful exit on Ctrl+C
-trap 'printf "\\n"; warn "Installation cancelled by user"; print_summary; exit 130' INT
+trap 'printf "\\n"; warn "${labels.cancelled} cancelled by user"; print_summary; exit 130' INT
 
 TOTAL=${total}
 CURRENT=0
 FAILED=()
 SUCCEEDED=()
 SKIPPED=()
+UPGRADED=()
+PLANNED=()
 INSTALL_TIMES=()
+REPORT_STARTED=()
+REPORT_TIMED=()
+REPORT_SECONDS=()
+REPORT_DIR=""
 START_TIME=$(date +%s)
 AVG_TIME=8  # Initial estimate: 8 seconds per package
 
 # Requirement 5.6: Progress bar with ETA
+# With packages installed in parallel, pass the number of them installed at a time
 show_progress() {
-    local current=$1 total=$2 name=$3
+    local current=$1 total=$2 name=$3 jobs=\${4:-1}
+    REPORT_STARTED+=("$name")
     local percent=$((current * 100 / total))
     local filled=$((percent / 5))
     local empty=$((20 - filled))
     
-    # Calculate ETA
+    # Calculate ETA (parallel installs finish $jobs packages per AVG_TIME)
     local remaining=$((total - current))
-    local eta=$((remaining * AVG_TIME))
+    local eta=$(((remaining * AVG_TIME + jobs - 1) / jobs))
     local eta_str=""
     if [ $eta -ge 60 ]; then
         eta_str="~$((eta / 60))m"
@@ -158,8 +325,13 @@ update_avg_time() {
 }
 
 # Safe command executor (no eval)
+# With a JSON report, the output is also kept for the package in progress
 run_cmd() {
-    "$@" 2>&1
+    if [ -n "$REPORT_DIR" ] && [ \${#REPORT_STARTED[@]} -gt 0 ]; then
+        "$@" 2>&1 | tee "$REPORT_DIR/$((\${#REPORT_STARTED[@]} - 1))"
+    else
+        "$@" 2>&1
+    fi
 }
 
 # Requirement 5.5: Network retry wrapper with exponential backoff
@@ -191,7 +363,39 @@ with_retry() {
     return 1
 }
 
-# Requirement 5.7: Print summary showing installed, skipped, and failed packages
+# Record a package the script would ${labels.planned} (used when --dry-run is passed)
+plan_pkg() {
+    planned "$1" "${labels.planned}"
+    PLANNED+=("$1")
+}
+
+${action === 'install' ? `# Upgrade an already-installed package (used when --upgrade is passed)
+upgrade_pkg() {
+    local name=$1
+    shift
+
+    if [ "$DRY_RUN" = true ]; then
+        planned "$name" "upgrade"
+        UPGRADED+=("$name")
+        return 0
+    fi
+
+    show_progress $CURRENT $TOTAL "$name"
+    local start=$(date +%s)
+
+    if with_retry "$@" >/dev/null 2>&1; then
+        local elapsed=$(($(date +%s) - start))
+        update_avg_time $elapsed
+        printf "\\r\\033[K"
+        upgraded "$name" "$elapsed"
+        UPGRADED+=("$name")
+    else
+        printf "\\r\\033[K\${RED}✗\${NC} %s \${DIM}(upgrade failed)\${NC}\\n" "$name"
+        FAILED+=("$name")
+    fi
+}
+
+` : ''}# Requirement 5.7: Print summary showing installed, skipped, and failed packages
 print_summary() {
     local end_time=$(date +%s)
     local duration=$((end_time - START_TIME))
@@ -200,18 +404,28 @@ print_summary() {
     
     echo
     echo "─────────────────────────────────────────────────────────────────────────────"
-    local installed=\${#SUCCEEDED[@]}
+    local done_count=\${#SUCCEEDED[@]}
     local skipped_count=\${#SKIPPED[@]}
     local failed_count=\${#FAILED[@]}
+    local upgraded_count=\${#UPGRADED[@]}
+    local upgraded_str=""
+    if [ $upgraded_count -gt 0 ]; then
+        upgraded_str=", $upgraded_count upgraded"
+    fi
     
-    if [ $failed_count -eq 0 ]; then
-        if [ $skipped_count -gt 0 ]; then
-            echo -e "\${GREEN}✓\${NC} Done! $installed installed, $skipped_count already installed \${DIM}(\${mins}m \${secs}s)\${NC}"
+    if [ "$DRY_RUN" = true ]; then
+        if [ $upgraded_count -gt 0 ]; then
+            upgraded_str=", $upgraded_count to upgrade"
+        fi
+        echo -e "\${BLUE}→\${NC} Dry run: \${#PLANNED[@]} to ${labels.planned}\${upgraded_str}, $skipped_count ${labels.skipped} \${DIM}(no changes made)\${NC}"
+    elif [ $failed_count -eq 0 ]; then
+        if [ $skipped_count -gt 0 ] || [ $upgraded_count -gt 0 ]; then
+            echo -e "\${GREEN}✓\${NC} Done! $done_count ${labels.done}\${upgraded_str}, $skipped_count ${labels.skipped} \${DIM}(\${mins}m \${secs}s)\${NC}"
         else
-            echo -e "\${GREEN}✓\${NC} All $TOTAL packages installed! \${DIM}(\${mins}m \${secs}s)\${NC}"
+            echo -e "\${GREEN}✓\${NC} All $TOTAL packages ${labels.done}! \${DIM}(\${mins}m \${secs}s)\${NC}"
         fi
     else
-        echo -e "\${YELLOW}!\${NC} $installed installed, $skipped_count skipped, $failed_count failed \${DIM}(\${mins}m \${secs}s)\${NC}"
+        echo -e "\${YELLOW}!\${NC} $done_count ${labels.done}\${upgraded_str}, $skipped_count skipped, $failed_count failed \${DIM}(\${mins}m \${secs}s)\${NC}"
         echo
         echo -e "\${RED}Failed:\${NC}"
         for pkg in "\${FAILED[@]}"; do
@@ -221,5 +435,204 @@ print_summary() {
     echo "─────────────────────────────────────────────────────────────────────────────"
 }
 
+# ─────────────────────────────────────────────────────────────────────────────
+#  JSON Report & Exit Code
+# ─────────────────────────────────────────────────────────────────────────────
+
+if [ -n "$JSON_REPORT" ]; then
+    REPORT_DIR=$(mktemp -d)
+fi
+
+# Remember how long a package took
+report_time() {
+    REPORT_TIMED+=("$1")
+    REPORT_SECONDS+=("$2")
+}
+
+# Quote a single line as a JSON string, dropping control characters
+json_str() {
+    printf '"%s"' "$(printf '%s' "$1" | tr -d '\\000-\\037' | sed -e 's/\\\\/\\\\\\\\/g' -e 's/"/\\\\"/g')"
+}
+
+# One package of the report, with the last lines of output of a failed one
+# (from the latest time it was started with its output kept)
+report_pkg() {
+    local name=$1 status=$2 seconds=null output="" line i
+    for ((i = \${#REPORT_TIMED[@]} - 1; i >= 0; i--)); do
+        if [ "\${REPORT_TIMED[$i]}" = "$name" ]; then
+            seconds=\${REPORT_SECONDS[$i]}
+            break
+        fi
+    done
+    if [ "$status" = failed ]; then
+        for ((i = \${#REPORT_STARTED[@]} - 1; i >= 0; i--)); do
+            if [ "\${REPORT_STARTED[$i]}" = "$name" ] && [ -f "$REPORT_DIR/$i" ]; then
+                while IFS= read -r line; do
+                    output+="\${output:+, }$(json_str "$line")"
+                done < <(tail -n 10 "$REPORT_DIR/$i")
+                break
+            fi
+        done
+    fi
+    printf '    {"name": %s, "status": "%s", "durationSeconds": %s, "output": [%s]}' \\
+        "$(json_str "$name")" "$status" "$seconds" "$output"
+}
+
+# Write the JSON report (--json-report or PACKMATE_JSON_REPORT)
+write_report() {
+    local exit_code=$1 entries=() name i
+    for name in \${SUCCEEDED[@]+"\${SUCCEEDED[@]}"}; do entries+=("$(report_pkg "$name" ${labels.done})"); done
+    for name in \${UPGRADED[@]+"\${UPGRADED[@]}"}; do entries+=("$(report_pkg "$name" upgraded)"); done
+    for name in \${SKIPPED[@]+"\${SKIPPED[@]}"}; do entries+=("$(report_pkg "$name" skipped)"); done
+    for name in \${PLANNED[@]+"\${PLANNED[@]}"}; do entries+=("$(report_pkg "$name" planned)"); done
+    for name in \${FAILED[@]+"\${FAILED[@]}"}; do entries+=("$(report_pkg "$name" failed)"); done
+
+    {
+        echo "{"
+        echo "  \\"action\\": \\"${action}\\","
+        echo "  \\"dryRun\\": $DRY_RUN,"
+        echo "  \\"exitCode\\": $exit_code,"
+        echo "  \\"durationSeconds\\": $(($(date +%s) - START_TIME)),"
+        echo "  \\"summary\\": {\\"${labels.done}\\": \${#SUCCEEDED[@]}, \\"upgraded\\": \${#UPGRADED[@]}, \\"skipped\\": \${#SKIPPED[@]}, \\"planned\\": \${#PLANNED[@]}, \\"failed\\": \${#FAILED[@]}},"
+        echo "  \\"packages\\": ["
+        for ((i = 0; i < \${#entries[@]}; i++)); do
+            if [ $i -lt $((\${#entries[@]} - 1)) ]; then
+                echo "\${entries[$i]},"
+            else
+                echo "\${entries[$i]}"
+            fi
+        done
+        echo "  ]"
+        echo "}"
+    } > "$JSON_REPORT"
+}
+
+${action === 'install' ? `# ─────────────────────────────────────────────────────────────────────────────
+#  Resume
+# ─────────────────────────────────────────────────────────────────────────────
+
+${resumeStateFns}
+
+` : ''}# Exit with ${SCRIPT_EXIT_CODES.SOME_FAILED} when some packages failed and ${SCRIPT_EXIT_CODES.ALL_FAILED} when all of them did, writing the report first
+finish() {
+    local exit_code=$?
+    if [ $exit_code -eq 0 ] && [ \${#FAILED[@]} -gt 0 ]; then
+        if [ $((\${#SUCCEEDED[@]} + \${#UPGRADED[@]} + \${#SKIPPED[@]})) -eq 0 ]; then
+            exit_code=${SCRIPT_EXIT_CODES.ALL_FAILED}
+        else
+            exit_code=${SCRIPT_EXIT_CODES.SOME_FAILED}
+        fi
+    fi${action === 'install' ? `
+    save_state $exit_code || warn "Could not save the state to $STATE_FILE"` : ''}
+    if [ -n "$JSON_REPORT" ]; then
+        write_report $exit_code || error "Could not write the JSON report to $JSON_REPORT"
+        rm -rf "$REPORT_DIR"
+    fi
+    exit $exit_code
+}
+trap finish EXIT
+
+`;
+}
+
+/**
+ * Generate the body of a bash install script from its parts
+ * (everything after the header and shared utilities)
+ *
+ * @param parts - The package manager's install script parts
+ * @param packages - Packages to install
+ * @returns Shell script body string
+ */
+export function generateInstallBody(parts: InstallScriptParts, packages: PackageInfo[]): string {
+  return `
+${parts.functions(packages)}
+
+# ─────────────────────────────────────────────────────────────────────────────
+#  Pre-flight
+# ─────────────────────────────────────────────────────────────────────────────
+
+load_state ${getStateKey(packages)}
+
+${parts.preflight(packages)}
+
+# ─────────────────────────────────────────────────────────────────────────────
+#  Installation
+# ─────────────────────────────────────────────────────────────────────────────
+
+echo
+info "Installing $TOTAL packages"
+echo
+
+${parts.calls(packages)}
+${generatePostInstallSteps(packages)}
+print_summary
+${parts.epilogue ?? ''}`;
+}
+
+/**
+ * Generate the body of a bash uninstall script from its parts
+ * (everything after the header and shared utilities)
+ *
+ * @param parts - The package manager's uninstall script parts
+ * @param packages - Packages to remove
+ * @returns Shell script body string
+ */
+export function generateUninstallBody(parts: UninstallScriptParts, packages: PackageInfo[]): string {
+  const calls = parts.calls
+    ? parts.calls(packages)
+    : packages.map(({ app, pkg }) => `remove_pkg "${escapeShellString(app.name)}" "${pkg}"`).join('\n');
+
+  return `
+${parts.functions}
+
+remove_pkg() {
+    local name=$1 pkg=$2 type=\${3:-} # "--cask" for Homebrew casks
+    CURRENT=$((CURRENT + 1))
+
+    if ! ${parts.installedCheck ?? 'is_installed "$pkg"'}; then
+        skip "$name"
+        SKIPPED+=("$name")
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
+        return 0
+    fi
+
+    show_progress $CURRENT $TOTAL "$name"
+    local start=$(date +%s)
+
+    if run_cmd ${parts.remove} >/dev/null; then
+        local elapsed=$(($(date +%s) - start))
+        update_avg_time $elapsed
+        printf "\\r\\033[K"
+        timing "$name" "$elapsed"
+        SUCCEEDED+=("$name")
+    else
+        printf "\\r\\033[K\${RED}✗\${NC} %s\\n" "$name"
+        FAILED+=("$name")
+    fi
+}
+
+# ─────────────────────────────────────────────────────────────────────────────
+#  Pre-flight
+# ─────────────────────────────────────────────────────────────────────────────
+
+${parts.preflight}
+
+# ─────────────────────────────────────────────────────────────────────────────
+#  Removal
+# ─────────────────────────────────────────────────────────────────────────────
+
+echo
+info "Removing $TOTAL packages"
+echo
+
+${calls}
+
+${parts.cleanup ? `${parts.cleanup}
+
+` : ''}print_summary
 `;
 }
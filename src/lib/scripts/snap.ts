@@ -6,55 +6,93 @@ import {
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
+  type PackageInfo,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { generateScopeWarning } from './scope';
+import { generateQueueFunctions, generateQueuedCalls, isQueued } from './concurrency';
 
 /**
- * Generate Snap installation script
- * Requirements: 4.4, 5.1
- * 
- * Handles --classic flags appropriately for packages that require it.
- * Packages with --classic suffix in their target will have the flag included.
+ * Shell function that checks whether a snap is already installed
  */
-export function generateSnapScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'snap');
-
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for Snap
-echo "No packages selected"
-exit 0
-`;
-  }
-
-  // Generate install calls, handling --classic flag
-  const installCalls = packages
-    .map(({ app, pkg }) => {
-      // Check if package has --classic flag
-      if (pkg.includes('--classic')) {
-        const snapName = pkg.replace(' --classic', '').replace('--classic ', '').trim();
-        return `install_pkg "${escapeShellString(app.name)}" "${snapName}" "--classic"`;
-      }
-      return `install_pkg "${escapeShellString(app.name)}" "${pkg}" ""`;
-    })
-    .join('\n');
-
-  return (
-    generateAsciiHeader('Snap', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Check if snap is already installed
+const isInstalledFn = `# Check if snap is already installed
 is_installed() {
     local snap_name=$(echo "$1" | awk '{print $1}')
     snap list 2>/dev/null | grep -q "^$snap_name "
+}`;
+
+/**
+ * Shell pre-flight check that the package manager is available
+ */
+const managerCheck = `# Requirement 5.8: Check if package manager is installed
+command -v snap &>/dev/null || {
+    error "Snap not installed"
+    info "Install: sudo apt/dnf/pacman install snapd"
+    exit 1
+}`;
+
+/**
+ * Strip the --classic flag from a snap target, leaving the snap name
+ */
+export function getSnapName(pkg: string): string {
+  return pkg.replace(' --classic', '').replace('--classic ', '').trim();
+}
+
+/**
+ * Channel a snap installs from: the one it is pinned to, else the app's own
+ * (see SnapOptions), or undefined for the default latest/stable
+ */
+export function getSnapChannel({ app, version }: PackageInfo): string | undefined {
+  return version ?? app.targetOptions?.snap?.channel;
+}
+
+/**
+ * Confinement of a snap, from its options or a --classic target
+ */
+export function getSnapConfinement({ app, pkg }: PackageInfo): 'strict' | 'classic' | 'devmode' {
+  return app.targetOptions?.snap?.confinement ?? (pkg.includes('--classic') ? 'classic' : 'strict');
 }
 
+/**
+ * Install flags of a snap: --classic or --devmode for its confinement, and its channel
+ */
+export function getSnapFlags(packageInfo: PackageInfo): string[] {
+  const confinement = getSnapConfinement(packageInfo);
+  const channel = getSnapChannel(packageInfo);
+  return [
+    ...(confinement !== 'strict' ? [`--${confinement}`] : []),
+    ...(channel ? [`--channel=${channel}`] : []),
+  ];
+}
+
+/**
+ * Parts of the Snap install script, shared with the fallback chain generator
+ * Three or more snaps are installed in parallel (see install_parallel).
+ */
+export const snapInstallParts: InstallScriptParts = {
+  functions: (packages) => `${isInstalledFn}
+
 install_pkg() {
     local name=$1 pkg=$2 flags=$3
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
     if is_installed "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" sudo snap refresh "$pkg" $flags
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -62,14 +100,8 @@ install_pkg() {
     local start=$(date +%s)
 
     local output
-    # Requirement 4.4: Handle --classic flags appropriately
-    if [ -n "$flags" ]; then
-        output=$(with_retry sudo snap install "$pkg" $flags 2>&1)
-    else
-        output=$(with_retry sudo snap install "$pkg" 2>&1)
-    fi
-
-    if [ $? -eq 0 ]; then
+    # Requirement 4.4: Handle --classic flags appropriately (and --devmode, --channel)
+    if output=$(with_retry sudo snap install "$pkg" $flags 2>&1); then
         local elapsed=$(($(date +%s) - start))
         update_avg_time $elapsed
         printf "\\r\\033[K"
@@ -81,43 +113,103 @@ install_pkg() {
             echo -e "    \${DIM}Snap not found\${NC}"
         elif echo "$output" | grep -q "classic"; then
             echo -e "    \${DIM}Requires --classic flag\${NC}"
+        elif echo "$output" | grep -q "channel"; then
+            echo -e "    \${DIM}Channel not available\${NC}"
         fi
         FAILED+=("$name")
     fi
-}
-
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+}${isQueued('parallel', packages) ? `
 
-# Requirement 5.8: Check if package manager is installed
-command -v snap &>/dev/null || {
-    error "Snap not installed"
-    info "Install: sudo apt/dnf/pacman install snapd"
-    exit 1
+# Install a snap in the background (see install_parallel)
+snap_install() {
+    sudo snap install "$1" \${2:-}
 }
 
+${generateQueueFunctions('parallel', packages)}` : ''}`,
+  preflight: (packages) => `${[managerCheck, generateScopeWarning('snap', packages)].filter(Boolean).join('\n\n')}
+
 # Ensure snapd service is running
 if command -v systemctl &>/dev/null && ! systemctl is-active --quiet snapd; then
-    info "Starting snapd..."
-    sudo systemctl enable --now snapd.socket
-    sudo systemctl start snapd
-    sleep 2
-    success "snapd started"
-fi
+    if [ "$DRY_RUN" = true ]; then
+        info "Would start snapd (dry run)"
+    else
+        info "Starting snapd..."
+        sudo systemctl enable --now snapd.socket
+        sudo systemctl start snapd
+        sleep 2
+        success "snapd started"
+    fi
+fi`,
+  calls: (packages) => generateQueuedCalls(
+    'parallel',
+    packages,
+    (p) => `"${getSnapName(p.pkg)}" "${escapeShellString(getSnapFlags(p).join(' '))}"`,
+    `# Ask for the sudo password once, before the background installs
+[ \${#QUEUED_NAMES[@]} -eq 0 ] || sudo -v
+install_parallel snap_install`
+  ),
+};
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate Snap installation script
+ * Requirements: 4.4, 5.1
+ * 
+ * Handles --classic flags appropriately for packages that require it.
+ * Packages with --classic suffix in their target will have the flag included,
+ * as will snaps with a channel or confinement in their SnapOptions.
+ */
+export function generateSnapScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'snap', versions, scope);
 
-echo
-info "Installing $TOTAL packages"
-echo
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Snap
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Snap', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(snapInstallParts, packages)
+  );
+}
 
-${installCalls}
+/**
+ * Parts of the Snap uninstall script
+ */
+const snapUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: managerCheck,
+  remove: 'sudo snap remove "$pkg"',
+  calls: (packages) => packages
+    .map(({ app, pkg }) => `remove_pkg "${escapeShellString(app.name)}" "${getSnapName(pkg)}"`)
+    .join('\n'),
+};
 
-print_summary
-`
+/**
+ * Generate Snap uninstall script
+ */
+export function generateSnapUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'snap');
+
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Snap
+echo "No packages selected"
+exit 0
+`;
+  }
+
+  return (
+    generateAsciiHeader('Snap', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(snapUninstallParts, packages)
   );
 }
 
@@ -126,25 +218,24 @@ print_summary
  * Requirement 4.4: Handle --classic flags appropriately
  * 
  * Groups classic and non-classic packages into separate commands.
+ * Snaps with a channel or devmode confinement get a command each as well.
  */
-export function generateSnapCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'snap');
+export function generateSnapCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'snap', versions);
 
   if (packages.length === 0) {
     return '# No packages selected';
   }
 
-  // Separate classic and non-classic packages
-  const classicPackages: string[] = [];
+  // Separate packages without flags from classic, devmode and channel ones
+  const flaggedPackages: PackageInfo[] = [];
   const regularPackages: string[] = [];
 
-  for (const { pkg } of packages) {
-    if (pkg.includes('--classic')) {
-      // Extract snap name without --classic flag
-      const snapName = pkg.replace(' --classic', '').replace('--classic ', '').trim();
-      classicPackages.push(snapName);
+  for (const p of packages) {
+    if (getSnapFlags(p).length > 0) {
+      flaggedPackages.push(p);
     } else {
-      regularPackages.push(pkg);
+      regularPackages.push(p.pkg);
     }
   }
 
@@ -154,9 +245,9 @@ export function generateSnapCommand(selectedAppIds: Set<string>): string {
     commands.push(`sudo snap install ${regularPackages.join(' ')}`);
   }
 
-  // Classic packages need to be installed one at a time with --classic flag
-  for (const pkg of classicPackages) {
-    commands.push(`sudo snap install ${pkg} --classic`);
+  // Flagged packages need to be installed one at a time with their flags
+  for (const p of flaggedPackages) {
+    commands.push(`sudo snap install ${[getSnapName(p.pkg), ...getSnapFlags(p)].join(' ')}`);
   }
 
   return commands.join(' && ');
@@ -0,0 +1,64 @@
+// Version pinning for generated scripts and commands
+// Apps can be pinned to a version (a channel for Snap, a branch for Flatpak).
+// Package managers that can't pin install the latest version with a warning.
+
+import { getPackageManagerById, type PackageManagerId } from '../data';
+import { escapeShellString, type PackageInfo } from './shared';
+
+/**
+ * Package arguments pinned to a version, for the package managers that take
+ * the version as part of the package argument. Winget and Chocolatey take a
+ * separate --version option and Snap a --channel option, which their
+ * generators add themselves.
+ */
+const pinnedArguments: Partial<Record<PackageManagerId, (pkg: string, version: string) => string>> = {
+  scoop: (pkg, version) => `${pkg}@${version}`,
+  // Versioned formulae and casks, e.g. python@3.13 or --cask firefox@esr,
+  // replacing the version of a formula that already has one
+  homebrew: (pkg, version) => `${pkg.replace(/@[^@]*$/, '')}@${version}`,
+  apt: (pkg, version) => `${pkg}=${version}`,
+  dnf: (pkg, version) => `${pkg}-${version}`,
+  zypper: (pkg, version) => `${pkg}=${version}`,
+  flatpak: (pkg, version) => `${pkg}//${version}`,
+};
+
+/**
+ * Check if a package manager can pin apps to a version
+ */
+export function supportsVersionPinning(packageManagerId: PackageManagerId): boolean {
+  return !!getPackageManagerById(packageManagerId)?.versionPinning;
+}
+
+/**
+ * Get the package argument for a package, pinned if the user set a version
+ *
+ * @param packageManagerId - Package manager that installs the package
+ * @param packageInfo - The package and its pinned version, if any
+ * @returns Package argument such as `firefox=128.0` for APT
+ */
+export function getPinnedPackage(packageManagerId: PackageManagerId, { pkg, version }: PackageInfo): string {
+  const pin = pinnedArguments[packageManagerId];
+  return version && pin ? pin(pkg, version) : pkg;
+}
+
+/**
+ * Packages with a pinned version the package manager can't honour
+ */
+export function getUnpinnablePackages(packageManagerId: PackageManagerId, packages: PackageInfo[]): PackageInfo[] {
+  return supportsVersionPinning(packageManagerId) ? [] : packages.filter(({ version }) => version);
+}
+
+/**
+ * Generate bash warnings for pinned versions a package manager ignores
+ *
+ * @param packageManagerId - Package manager that installs the packages
+ * @param packages - Packages to install
+ * @returns One `warn` line per ignored version, or an empty string
+ */
+export function generatePinningWarnings(packageManagerId: PackageManagerId, packages: PackageInfo[]): string {
+  const pmName = getPackageManagerById(packageManagerId)?.name || packageManagerId;
+  return getUnpinnablePackages(packageManagerId, packages)
+    .map(({ app, version }) =>
+      `warn "${escapeShellString(`${pmName} can't pin versions, installing the latest ${app.name} instead of ${version}`)}"`)
+    .join('\n');
+}
@@ -1,152 +1,169 @@
 // Winget script generator for Windows
 // Requirements: 5.1, 5.4, 5.8
 
-import { escapeShellString, getSelectedPackages } from './shared';
+import { escapeShellString, getSelectedPackages, type InstallScriptParts, type UninstallScriptParts } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { isUserScope } from './scope';
+import {
+  generatePowerShellHeader,
+  generatePowerShellUtils,
+  generatePowerShellInstallBody,
+  generatePowerShellUninstallBody,
+} from './powershell';
 
 /**
- * Generate Winget installation script
- * Requirements: 5.1, 5.4, 5.8
+ * PowerShell function that checks whether a package is already installed
  */
-export function generateWingetScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'winget');
-  
-  if (packages.length === 0) {
-    return `# No packages selected for Winget
-Write-Host "No packages selected" -ForegroundColor Yellow
-exit 0
-`;
-  }
-
-  const date = new Date().toISOString().split('T')[0];
-  const pkgCount = packages.length;
-  const installCalls = packages
-    .map(({ app, pkg }) => `Install-WingetPackage -Name "${escapeShellString(app.name)}" -PackageId "${pkg}"`)
-    .join('\n');
+const isInstalledFn = [
+  '# Check if package is already installed',
+  '# A pinned package only counts at its version',
+  'function Test-WingetInstalled {',
+  '    param([string]$PackageId, [string]$Version)',
+  '    try {',
+  '        $result = winget list --id $PackageId --exact 2>$null',
+  '        return ($result -match $PackageId) -and (-not $Version -or ($result -match [regex]::Escape($Version)))',
+  '    } catch { return $false }',
+  '}',
+  '',
+].join('\n');
 
-  // Build script using string concatenation to avoid template literal issues with PowerShell syntax
-  const header = [
-    '#Requires -Version 5.1',
-    '<#',
-    '.SYNOPSIS',
-    '    Packmate - Cross-Platform App Installer',
-    '.DESCRIPTION',
-    '    PACKMATE - Cross-Platform App Installer',
-    '    https://github.com/prime399/packmate',
-    '',
-    '    Package Manager: Winget',
-    `    Packages: ${pkgCount}`,
-    `    Generated: ${date}`,
-    '#>',
-    '',
-    '$ErrorActionPreference = "Stop"',
-    '$ProgressPreference = "SilentlyContinue"',
-    '',
-  ].join('\n');
-
-  const utils = [
-    '# Colors & Utilities',
-    'function Write-Info { param([string]$Message) Write-Host ":: " -ForegroundColor Blue -NoNewline; Write-Host $Message }',
-    'function Write-Success { param([string]$Message) Write-Host "[OK] " -ForegroundColor Green -NoNewline; Write-Host $Message }',
-    'function Write-Warn { param([string]$Message) Write-Host "[!] " -ForegroundColor Yellow -NoNewline; Write-Host $Message }',
-    'function Write-Err { param([string]$Message) Write-Host "[X] " -ForegroundColor Red -NoNewline; Write-Host $Message }',
-    'function Write-Skip { param([string]$Message) Write-Host "[o] $Message (already installed)" -ForegroundColor DarkGray }',
-    'function Write-Timing { param([string]$Message, [int]$Seconds) Write-Host "[OK] " -ForegroundColor Green -NoNewline; Write-Host "$Message ($Seconds s)" }',
-    '',
-    `$script:Total = ${pkgCount}`,
-    '$script:Current = 0',
-    '$script:Failed = @()',
-    '$script:Succeeded = @()',
-    '$script:Skipped = @()',
-    '$script:StartTime = Get-Date',
-    '',
-    '# Progress display',
-    'function Show-Progress {',
-    '    param([int]$Current, [int]$Total, [string]$Name)',
-    '    $percent = [math]::Floor($Current * 100 / $Total)',
-    '    Write-Host "[$percent%] ($Current/$Total) Installing $Name..."',
-    '}',
-    '',
-    '# Print summary',
-    'function Print-Summary {',
-    '    $endTime = Get-Date',
-    '    $duration = ($endTime - $script:StartTime).TotalSeconds',
-    '    $mins = [math]::Floor($duration / 60)',
-    '    $secs = [math]::Floor($duration % 60)',
-    '    Write-Host ""',
-    '    Write-Host "Summary:"',
-    '    $installed = $script:Succeeded.Count',
-    '    $skippedCount = $script:Skipped.Count',
-    '    $failedCount = $script:Failed.Count',
-    '    if ($failedCount -eq 0) {',
-    '        Write-Success "Done! $installed installed, $skippedCount already installed ($mins m $secs s)"',
-    '    } else {',
-    '        Write-Warn "$installed installed, $skippedCount skipped, $failedCount failed ($mins m $secs s)"',
-    '        Write-Host "Failed:" -ForegroundColor Red',
-    '        foreach ($pkg in $script:Failed) { Write-Host "  - $pkg" }',
-    '    }',
-    '}',
-    '',
-  ].join('\n');
+/**
+ * PowerShell pre-flight check that the package manager is available
+ */
+const managerCheck = [
+  '# Check if package manager is installed',
+  'if (-not (Get-Command winget -ErrorAction SilentlyContinue)) {',
+  '    Write-Err "Winget not found."',
+  '    Write-Info "Install from: https://aka.ms/getwinget"',
+  '    exit 1',
+  '}',
+  '',
+].join('\n');
 
-  const mainScript = [
-    '# Check if package is already installed',
-    'function Test-WingetInstalled {',
-    '    param([string]$PackageId)',
-    '    try {',
-    '        $result = winget list --id $PackageId --exact 2>$null',
-    '        return $result -match $PackageId',
-    '    } catch { return $false }',
-    '}',
-    '',
+/**
+ * Parts of the Winget install script, shared with the fallback chain generator
+ */
+export const wingetInstallParts: InstallScriptParts = {
+  functions: () => [
+    isInstalledFn,
     'function Install-WingetPackage {',
-    '    param([string]$Name, [string]$PackageId)',
+    '    param([string]$Name, [string]$PackageId, [string]$Version, [string]$Scope)',
+    '    if (Skip-Resumed -Name $Name) { return }',
     '    $script:Current++',
-    '    if (Test-WingetInstalled -PackageId $PackageId) {',
-    '        Write-Skip $Name',
-    '        $script:Skipped += $Name',
+    '    $scopeArgs = if ($Scope) { @("--scope", $Scope) } else { @() }',
+    '    if (Test-WingetInstalled -PackageId $PackageId -Version $Version) {',
+    '        if ($Upgrade) {',
+    '            Invoke-Upgrade -Name $Name -Command { winget upgrade -e --id $PackageId @scopeArgs --accept-source-agreements --accept-package-agreements --silent }.GetNewClosure()',
+    '        } else {',
+    '            Write-Skip $Name',
+    '            $script:Skipped += $Name',
+    '        }',
+    '        return',
+    '    }',
+    '    if ($WhatIf) {',
+    '        Add-Planned -Name $Name',
     '        return',
     '    }',
     '    Show-Progress -Current $script:Current -Total $script:Total -Name $Name',
     '    $startTime = Get-Date',
     '    try {',
-    '        winget install -e --id $PackageId --accept-source-agreements --accept-package-agreements --silent 2>&1 | Out-Null',
+    '        $versionArgs = if ($Version) { @("--version", $Version, "--force") } else { @() }',
+    '        $output = winget install -e --id $PackageId @versionArgs @scopeArgs --accept-source-agreements --accept-package-agreements --silent 2>&1',
+    '        if ($LASTEXITCODE -ne 0) { throw "exit code $LASTEXITCODE`n$($output | Out-String)" }',
     '        $elapsed = [math]::Floor(((Get-Date) - $startTime).TotalSeconds)',
     '        Write-Timing -Message $Name -Seconds $elapsed',
     '        $script:Succeeded += $Name',
     '    } catch {',
-    '        Write-Err $Name',
-    '        $script:Failed += $Name',
+    '        Add-Failure -Name $Name -ErrorRecord $_',
     '    }',
     '}',
-    '',
-    '# Check if package manager is installed',
-    'if (-not (Get-Command winget -ErrorAction SilentlyContinue)) {',
-    '    Write-Err "Winget not found."',
-    '    Write-Info "Install from: https://aka.ms/getwinget"',
-    '    exit 1',
-    '}',
-    '',
+  ].join('\n'),
+  preflight: (packages) => [
+    managerCheck,
     'Write-Info "Winget found"',
-    'Write-Host ""',
-    'Write-Info "Installing $script:Total packages"',
-    'Write-Host ""',
-    '',
-    installCalls,
-    '',
-    'Print-Summary',
-  ].join('\n');
+    ...(isUserScope(packages) ? ['Write-Info "Installing for the current user, no admin rights needed"'] : []),
+  ].join('\n'),
+  calls: (packages) => packages
+    .map(({ app, pkg, version, scope }) =>
+      `Install-WingetPackage -Name "${escapeShellString(app.name)}" -PackageId "${pkg}"${version ? ` -Version "${version}"` : ''}${scope === 'user' ? ' -Scope "user"' : ''}`)
+    .join('\n'),
+};
+
+/**
+ * Generate Winget installation script
+ * Requirements: 5.1, 5.4, 5.8
+ */
+export function generateWingetScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'winget', versions, scope);
+  
+  if (packages.length === 0) {
+    return `# No packages selected for Winget
+Write-Host "No packages selected" -ForegroundColor Yellow
+exit 0
+`;
+  }
+
+  const pkgCount = packages.length;
+  const header = generatePowerShellHeader('Winget', pkgCount);
+  const utils = generatePowerShellUtils(pkgCount);
+
+  const mainScript = generatePowerShellInstallBody(wingetInstallParts, packages);
 
   return header + utils + mainScript;
 }
 
 /**
- * Generate simple one-liner command for Winget
+ * Parts of the Winget uninstall script
  */
-export function generateWingetCommand(selectedAppIds: Set<string>): string {
+const wingetUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: [managerCheck, 'Write-Info "Winget found"'].join('\n'),
+  installedCheck: 'Test-WingetInstalled -PackageId $Package',
+  remove: 'winget uninstall -e --id $Package --silent --accept-source-agreements',
+};
+
+/**
+ * Generate Winget uninstall script
+ */
+export function generateWingetUninstallScript(selectedAppIds: Set<string>): string {
   const packages = getSelectedPackages(selectedAppIds, 'winget');
+
+  if (packages.length === 0) {
+    return `# No packages selected for Winget
+Write-Host "No packages selected" -ForegroundColor Yellow
+exit 0
+`;
+  }
+
+  const pkgCount = packages.length;
+  const header = generatePowerShellHeader('Winget', pkgCount, { action: 'uninstall' });
+  const utils = generatePowerShellUtils(pkgCount, 'uninstall');
+
+  return header + utils + generatePowerShellUninstallBody(wingetUninstallParts, packages);
+}
+
+/**
+ * Generate simple one-liner command for Winget
+ * Installing for the current user adds --scope user.
+ */
+export function generateWingetCommand(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'winget', versions, scope);
   if (packages.length === 0) {
     return '# No packages selected';
   }
-  const packageIds = packages.map(p => p.pkg).join(' ');
-  return `winget install -e --id ${packageIds}`;
+  const scopeFlag = scope === 'user' ? ' --scope user' : '';
+  // --version applies to a single package, so pinned packages get a command each
+  const packageIds = packages.filter(p => !p.version).map(p => p.pkg).join(' ');
+  return [
+    ...(packageIds ? [`winget install -e --id ${packageIds}${scopeFlag}`] : []),
+    ...packages.filter(p => p.version).map(p => `winget install -e --id ${p.pkg} --version ${p.version}${scopeFlag}`),
+  ].join('; ');
 }
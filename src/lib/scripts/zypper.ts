@@ -2,47 +2,70 @@
 // Requirements: 4.4, 5.1
 
 import {
-  escapeShellString,
   getSelectedPackages,
   generateAsciiHeader,
   generateSharedUtils,
+  generateInstallBody,
+  generateUninstallBody,
+  type InstallScriptParts,
+  type UninstallScriptParts,
 } from './shared';
+import type { AppVersions, InstallScope } from '../data';
+import { getPinnedPackage } from './versions';
+import { generateZypperRepositorySetup } from './repositories';
+import { generateScopeWarning } from './scope';
+import { generateQueueFunctions, generateQueuedCalls, isQueued } from './concurrency';
 
 /**
- * Generate Zypper installation script for openSUSE
- * Requirements: 5.1
+ * Shell function that checks whether a package is already installed
  */
-export function generateZypperScript(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'zypper');
-
-  if (packages.length === 0) {
-    return `#!/bin/bash
-# No packages selected for Zypper
-echo "No packages selected"
-exit 0
-`;
-  }
+const isInstalledFn = `# Check if package is already installed
+# A pinned package (pkg=version) only counts at that version
+is_installed() {
+    rpm -q "\${1/=/-}" &>/dev/null
+}`;
 
-  const installCalls = packages
-    .map(({ app, pkg }) => `install_pkg "${escapeShellString(app.name)}" "${pkg}"`)
-    .join('\n');
+/**
+ * Shell pre-flight checks shared by the install and uninstall scripts
+ */
+const preflightChecks = `# Safety check: Don't run as root
+[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
 
-  return (
-    generateAsciiHeader('Zypper (openSUSE)', packages.length) +
-    generateSharedUtils(packages.length) +
-    `
-# Check if package is already installed
-is_installed() {
-    rpm -q "$1" &>/dev/null
+# Requirement 5.8: Check if package manager is installed
+command -v zypper &>/dev/null || {
+    error "Zypper not found. This script is for openSUSE-based systems."
+    exit 1
 }
 
+# Wait for zypper lock
+while [ -f /var/run/zypp.pid ]; do
+    warn "Waiting for zypper..."
+    sleep 2
+done`;
+
+/**
+ * Parts of the Zypper install script, shared with the fallback chain generator
+ */
+export const zypperInstallParts: InstallScriptParts = {
+  functions: (packages) => `${isInstalledFn}
+
 install_pkg() {
     local name=$1 pkg=$2
+    resumed "$name" && return 0
     CURRENT=$((CURRENT + 1))
 
     if is_installed "$pkg"; then
-        skip "$name"
-        SKIPPED+=("$name")
+        if [ "$UPGRADE" = true ]; then
+            upgrade_pkg "$name" sudo zypper --non-interactive update "$pkg"
+        else
+            skip "$name"
+            SKIPPED+=("$name")
+        fi
+        return 0
+    fi
+
+    if [ "$DRY_RUN" = true ]; then
+        plan_pkg "$name"
         return 0
     fi
 
@@ -50,7 +73,7 @@ install_pkg() {
     local start=$(date +%s)
 
     local output
-    if output=$(with_retry sudo zypper --non-interactive install --auto-agree-with-licenses "$pkg" 2>&1); then
+    if output=$(with_retry sudo zypper --non-interactive install --auto-agree-with-licenses --oldpackage "$pkg" 2>&1); then
         local elapsed=$(($(date +%s) - start))
         update_avg_time $elapsed
         printf "\\r\\033[K"
@@ -63,55 +86,91 @@ install_pkg() {
         fi
         FAILED+=("$name")
     fi
-}
+}${isQueued('batch', packages) ? `
+
+${generateQueueFunctions('batch', packages)}` : ''}`,
+  preflight: (packages) => `${[preflightChecks, generateScopeWarning('zypper', packages), generateZypperRepositorySetup(packages)].filter(Boolean).join('\n\n')}
+
+if [ "$DRY_RUN" = true ]; then
+    info "Skipping repo refresh (dry run)"
+else
+    info "Refreshing repos..."
+    with_retry sudo zypper --non-interactive refresh >/dev/null && success "Refreshed" || warn "Refresh failed, continuing..."
+fi`,
+  calls: (packages) => generateQueuedCalls(
+    'batch',
+    packages,
+    (p) => `"${getPinnedPackage('zypper', p)}"`,
+    'install_queued sudo zypper --non-interactive install --auto-agree-with-licenses --oldpackage'
+  ),
+};
 
-# ─────────────────────────────────────────────────────────────────────────────
-#  Pre-flight
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate Zypper installation script for openSUSE
+ * Requirements: 5.1
+ */
+export function generateZypperScript(
+  selectedAppIds: Set<string>,
+  versions: AppVersions = {},
+  scope: InstallScope = 'system'
+): string {
+  const packages = getSelectedPackages(selectedAppIds, 'zypper', versions, scope);
 
-# Safety check: Don't run as root
-[ "$EUID" -eq 0 ] && { error "Run as regular user, not root."; exit 1; }
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Zypper
+echo "No packages selected"
+exit 0
+`;
+  }
 
-# Requirement 5.8: Check if package manager is installed
-command -v zypper &>/dev/null || {
-    error "Zypper not found. This script is for openSUSE-based systems."
-    exit 1
+  return (
+    generateAsciiHeader('Zypper (openSUSE)', packages.length) +
+    generateSharedUtils(packages.length) +
+    generateInstallBody(zypperInstallParts, packages)
+  );
 }
 
-# Wait for zypper lock
-while [ -f /var/run/zypp.pid ]; do
-    warn "Waiting for zypper..."
-    sleep 2
-done
-
-info "Refreshing repos..."
-with_retry sudo zypper --non-interactive refresh >/dev/null && success "Refreshed" || warn "Refresh failed, continuing..."
-
-# ─────────────────────────────────────────────────────────────────────────────
-#  Installation
-# ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Parts of the Zypper uninstall script
+ */
+const zypperUninstallParts: UninstallScriptParts = {
+  functions: isInstalledFn,
+  preflight: preflightChecks,
+  remove: 'sudo zypper --non-interactive remove "$pkg"',
+};
 
-echo
-info "Installing $TOTAL packages"
-echo
+/**
+ * Generate Zypper uninstall script for openSUSE
+ */
+export function generateZypperUninstallScript(selectedAppIds: Set<string>): string {
+  const packages = getSelectedPackages(selectedAppIds, 'zypper');
 
-${installCalls}
+  if (packages.length === 0) {
+    return `#!/bin/bash
+# No packages selected for Zypper
+echo "No packages selected"
+exit 0
+`;
+  }
 
-print_summary
-`
+  return (
+    generateAsciiHeader('Zypper (openSUSE)', packages.length, 'uninstall') +
+    generateSharedUtils(packages.length, 'uninstall') +
+    generateUninstallBody(zypperUninstallParts, packages)
   );
 }
 
 /**
  * Generate simple one-liner command for Zypper
  */
-export function generateZypperCommand(selectedAppIds: Set<string>): string {
-  const packages = getSelectedPackages(selectedAppIds, 'zypper');
+export function generateZypperCommand(selectedAppIds: Set<string>, versions: AppVersions = {}): string {
+  const packages = getSelectedPackages(selectedAppIds, 'zypper', versions);
 
   if (packages.length === 0) {
     return '# No packages selected';
   }
 
-  const packageNames = packages.map(p => p.pkg).join(' ');
+  const packageNames = packages.map(p => getPinnedPackage('zypper', p)).join(' ');
   return `sudo zypper install -y ${packageNames}`;
 }
@@ -0,0 +1,150 @@
+// Shareable selection links
+// Encodes the selected OS, package manager, apps and pinned versions into URL query parameters
+// so a selection can be sent to someone else and restored from the link.
+
+import {
+  apps,
+  operatingSystems,
+  getPackageManagersByOS,
+  getPrimaryPackageManager,
+  isAppAvailableForPackageManager,
+  isValidVersion,
+  type AppVersions,
+  type OSId,
+  type PackageManagerId,
+} from './data';
+
+/**
+ * A selection carried by a share link
+ */
+export interface SharedSelection {
+  os: OSId;
+  packageManager: PackageManagerId;
+  apps: string[];
+  /** Pinned versions by app ID, for selected apps only */
+  versions?: AppVersions;
+}
+
+/**
+ * Query parameter names used by share links
+ */
+export const SHARE_PARAMS = {
+  OS: 'os',
+  PACKAGE_MANAGER: 'pm',
+  APPS: 'apps',
+  VERSIONS: 'versions',
+} as const;
+
+/**
+ * Encode a selection as a query string (without the leading "?")
+ * App IDs are joined with unescaped commas to keep links short and readable.
+ * Pinned versions of selected apps follow as `id@version` pairs, if there are any.
+ *
+ * @param selection - The selection to encode
+ * @returns Query string such as `os=linux&pm=apt&apps=firefox,git&versions=git@1%3A2.43.0`
+ */
+export function encodeSelection(selection: SharedSelection): string {
+  const versions = encodeVersions(selection.versions ?? {}, selection.apps);
+  return [
+    `${SHARE_PARAMS.OS}=${encodeURIComponent(selection.os)}`,
+    `${SHARE_PARAMS.PACKAGE_MANAGER}=${encodeURIComponent(selection.packageManager)}`,
+    `${SHARE_PARAMS.APPS}=${selection.apps.map(encodeURIComponent).join(',')}`,
+    ...(versions ? [`${SHARE_PARAMS.VERSIONS}=${versions}`] : []),
+  ].join('&');
+}
+
+/**
+ * Encode the pinned versions of selected apps as comma-separated `id@version` pairs
+ *
+ * @param versions - Pinned versions by app ID
+ * @param selectedApps - IDs of the selected apps
+ * @returns Value of the versions parameter, or "" if no selected app is pinned
+ */
+export function encodeVersions(versions: AppVersions, selectedApps: string[]): string {
+  return Object.entries(versions)
+    .filter(([id]) => selectedApps.includes(id))
+    .map(([id, version]) => `${encodeURIComponent(id)}@${encodeURIComponent(version)}`)
+    .join(',');
+}
+
+/**
+ * Parse the versions parameter, keeping valid versions of selected apps
+ *
+ * @param param - Value of the versions parameter (already URL-decoded)
+ * @param selectedApps - IDs of the selected apps
+ * @returns Pinned versions by app ID
+ */
+export function parseVersions(param: string, selectedApps: string[]): AppVersions {
+  const versions: AppVersions = {};
+  param.split(',').forEach(pair => {
+    const at = pair.indexOf('@');
+    const id = pair.slice(0, at);
+    const version = pair.slice(at + 1);
+    if (at > 0 && selectedApps.includes(id) && isValidVersion(version)) {
+      versions[id] = version;
+    }
+  });
+  return versions;
+}
+
+/**
+ * Build a full share link for a selection
+ *
+ * @param baseUrl - Page URL to share (any existing query string or hash is replaced)
+ * @param selection - The selection to encode
+ * @returns Absolute share URL
+ */
+export function buildShareUrl(baseUrl: string, selection: SharedSelection): string {
+  const url = new URL(baseUrl);
+  return `${url.origin}${url.pathname}?${encodeSelection(selection)}`;
+}
+
+/**
+ * Parse a selection from a query string
+ * Unknown app IDs and apps unavailable for the package manager are dropped,
+ * and so are invalid versions and versions of apps that aren't selected.
+ * An invalid package manager falls back to the primary one for the OS.
+ *
+ * @param search - Query string, with or without the leading "?"
+ * @returns The shared selection, or null if the query string carries none
+ */
+export function parseSharedSelection(search: string): SharedSelection | null {
+  const params = new URLSearchParams(search);
+  const osParam = params.get(SHARE_PARAMS.OS);
+  const pmParam = params.get(SHARE_PARAMS.PACKAGE_MANAGER);
+  const appsParam = params.get(SHARE_PARAMS.APPS);
+
+  if (!osParam || appsParam === null) {
+    return null;
+  }
+
+  const os = operatingSystems.find(o => o.id === osParam)?.id;
+  if (!os) {
+    return null;
+  }
+
+  const packageManager = getPackageManagersByOS(os).find(pm => pm.id === pmParam)?.id
+    ?? getPrimaryPackageManager(os).id;
+
+  const appIds = new Set(appsParam.split(',').filter(Boolean));
+  const selectedApps = apps
+    .filter(app => appIds.has(app.id) && isAppAvailableForPackageManager(app, packageManager))
+    .map(app => app.id);
+
+  const versions = parseVersions(params.get(SHARE_PARAMS.VERSIONS) ?? '', selectedApps);
+
+  return { os, packageManager, apps: selectedApps, versions };
+}
+
+/**
+ * Remove share link parameters from a query string, keeping any others
+ *
+ * @param search - Query string, with or without the leading "?"
+ * @returns Remaining query string including the leading "?", or "" if empty
+ */
+export function stripShareParams(search: string): string {
+  const params = new URLSearchParams(search);
+  Object.values(SHARE_PARAMS).forEach(name => params.delete(name));
+  const rest = params.toString();
+  return rest ? `?${rest}` : '';
+}
@@ -7,6 +7,23 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Trigger a browser download of generated text content (scripts, manifests)
+ *
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the blob
+ */
+export function downloadTextFile(content: string, filename: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 // Requirement 4.5 - Masonry packing algorithm to balance column heights
 
 interface CategoryWithHeight {